@@ -0,0 +1,52 @@
+/**
+ * Headless export with the local ffmpeg, sharing the render spec the API
+ * route reads:
+ *
+ *   npm run render -- --input video.mp4 --spec dizajni.json [--output out.mp4]
+ *     [--language en]
+ */
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { localizeSceneTo } from "@/lib/languages";
+import { parseRenderSpec } from "@/lib/renderSpec";
+import { renderOnServer } from "@/lib/server/render";
+
+const USAGE =
+  "Përdorimi: npm run render -- --input <video> --spec <spec.json> [--output <skedari>] [--language <kodi>]";
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      input: { type: "string", short: "i" },
+      spec: { type: "string", short: "s" },
+      output: { type: "string", short: "o" },
+      language: { type: "string", short: "l" },
+    },
+  });
+
+  if (!values.input || !values.spec) {
+    throw new Error(USAGE);
+  }
+
+  let spec = parseRenderSpec(await readFile(values.spec, "utf8"));
+  if (values.language) {
+    spec = { ...spec, scene: localizeSceneTo(spec.scene, values.language) };
+  }
+  const outputPath =
+    values.output ??
+    `${values.input.replace(/\.[^/.]+$/, "")}-overlay.${spec.settings.container}`;
+
+  const started = Date.now();
+  const result = await renderOnServer({
+    inputPath: values.input,
+    outputPath,
+    spec,
+  });
+  const seconds = ((Date.now() - started) / 1000).toFixed(1);
+  console.log(`U ruajt ${result.path} (${seconds}s)`);
+};
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
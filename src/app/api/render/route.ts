@@ -0,0 +1,89 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { localizeSceneTo } from "@/lib/languages";
+import { RenderSpec, parseRenderSpec } from "@/lib/renderSpec";
+import { renderOnServer } from "@/lib/server/render";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_UPLOAD_BYTES = 250 * 1024 * 1024;
+
+const fail = (status: number, error: string) =>
+  Response.json({ error }, { status });
+
+/**
+ * Renders an uploaded video headlessly. Expects `multipart/form-data` with
+ * `video` (the source file) and `spec` (a render spec or bare scene JSON,
+ * as downloaded from the editor) and answers with the encoded file. An
+ * optional `language` picks one of the design's text versions.
+ */
+export const POST = async (request: Request) => {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return fail(400, "Kërkesa duhet të jetë multipart/form-data.");
+  }
+
+  const video = form.get("video");
+  const specSource = form.get("spec");
+  const language = form.get("language");
+  if (!(video instanceof File) || video.size === 0) {
+    return fail(400, "Mungon fusha `video` me skedarin burimor.");
+  }
+  if (video.size > MAX_UPLOAD_BYTES) {
+    return fail(413, "Videoja e kalon kufirin prej 250 MB.");
+  }
+  if (typeof specSource !== "string") {
+    return fail(400, "Mungon fusha `spec` me dizajnin në JSON.");
+  }
+
+  let spec: RenderSpec;
+  try {
+    spec = parseRenderSpec(specSource);
+    if (typeof language === "string" && language) {
+      spec = { ...spec, scene: localizeSceneTo(spec.scene, language) };
+    }
+  } catch (error) {
+    return fail(400, error instanceof Error ? error.message : String(error));
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), "promo-api-"));
+  try {
+    const inputPath = join(workDir, "source");
+    await writeFile(inputPath, Buffer.from(await video.arrayBuffer()));
+
+    const result = await renderOnServer({
+      inputPath,
+      outputPath: join(workDir, `output.${spec.settings.container}`),
+      spec,
+    });
+    const body = await readFile(result.path);
+    const fileName = `${video.name.replace(/\.[^/.]+$/, "") || "video"}-overlay.${result.extension}`;
+    // Plain ASCII for old clients, the real name for the rest (RFC 6266).
+    const asciiName = fileName
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^\x20-\x7e]|["\\]/g, "_");
+    const encodedName = encodeURIComponent(fileName).replace(
+      /['()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+    );
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": result.mimeType,
+        "Content-Length": String(body.byteLength),
+        "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodedName}`,
+      },
+    });
+  } catch (error) {
+    // ffmpeg's stderr names server paths; only the log gets it.
+    console.error(error);
+    return fail(500, "Renderimi në server dështoi.");
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
@@ -1,5 +1,13 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { cookies, headers } from "next/headers";
+import { BrandKitProvider } from "@/components/BrandKitProvider";
+import { I18nProvider } from "@/components/I18nProvider";
+import {
+  LOCALE_COOKIE,
+  getMessages,
+  negotiateLocale,
+} from "@/lib/i18n/locales";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -12,23 +20,32 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Video Text Overlay Studio",
-  description:
-    "Transform videos with custom promotional overlays like BLACK FRIDAY 28 NËNTORI and bespoke branding.",
-};
+const getLocale = async () =>
+  negotiateLocale(
+    (await cookies()).get(LOCALE_COOKIE)?.value,
+    (await headers()).get("accept-language"),
+  );
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { meta } = getMessages(await getLocale());
+  return { title: meta.title, description: meta.description };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider initialLocale={locale}>
+          <BrandKitProvider>{children}</BrandKitProvider>
+        </I18nProvider>
       </body>
     </html>
   );
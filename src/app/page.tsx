@@ -1,149 +1,473 @@
 "use client";
 
-import { ChangeEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ChangeEvent,
+  SetStateAction,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AudioMixPanel } from "@/components/AudioMixPanel";
+import { BrandKitPanel } from "@/components/BrandKitPanel";
+import { BatchPanel } from "@/components/BatchPanel";
+import { CaptionPanel } from "@/components/CaptionPanel";
+import { ClipListPanel } from "@/components/ClipListPanel";
+import { ColorPanel } from "@/components/ColorPanel";
+import { ExportSettingsPanel } from "@/components/ExportSettingsPanel";
+import { LanguagePanel } from "@/components/LanguagePanel";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { LayerPanel } from "@/components/LayerPanel";
+import { PreviewCanvas } from "@/components/PreviewCanvas";
+import { AutosaveStatus, ProjectPanel } from "@/components/ProjectPanel";
+import { ReframePanel } from "@/components/ReframePanel";
+import { RenderJobStatus } from "@/components/RenderJobStatus";
+import { StillExportPanel } from "@/components/StillExportPanel";
+import { TemplatePanel } from "@/components/TemplatePanel";
+import { Timeline } from "@/components/Timeline";
+import { TransformOverlay } from "@/components/TransformOverlay";
+import { useAudioMixPreview } from "@/hooks/useAudioMixPreview";
+import { useContrastCheck } from "@/hooks/useContrastCheck";
+import { resolveAction, useHistory } from "@/hooks/useHistory";
+import { useI18n } from "@/hooks/useI18n";
+import { useRenderJob } from "@/hooks/useRenderJob";
+import { AudioMix, DEFAULT_AUDIO_MIX } from "@/lib/audioMix";
+import { createAppError, describeError } from "@/lib/errors";
+import { AnimationSettings, exportAnimation } from "@/lib/export/animation";
+import { exportVideo } from "@/lib/export/exportVideo";
+import { isExportCancelled } from "@/lib/export/jobs";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  ExportCapabilities,
+  ExportSettings,
+  detectExportCapabilities,
+  isContainerSupported,
+  resolveExportSize,
+} from "@/lib/export/settings";
+import { StillFormat, grabFrame } from "@/lib/export/still";
+import { SequencePlayer, createSequencePlayer } from "@/lib/player";
+import { VIDEO_INPUT_ACCEPT, isVideoFile } from "@/lib/probe";
+import {
+  ProjectDocument,
+  ProjectSnapshot,
+  ProjectSummary,
+  RenderedVideo,
+  createProjectId,
+  deleteProject,
+  getLastProjectId,
+  listProjects,
+  loadProject,
+  releaseSnapshot,
+  saveProject,
+  setLastProjectId,
+} from "@/lib/projects";
+import { resolveFontFamily } from "@/lib/render/fonts";
+import { resolveOutputSize } from "@/lib/render/reframe";
+import { serializeRenderSpec } from "@/lib/renderSpec";
+import { SAFE_AREA_GUIDES, SafeAreaPlatform } from "@/lib/safeAreas";
+import {
+  OverlayScene,
+  addLayer,
+  createDefaultScene,
+  isWatermark,
+} from "@/lib/scene";
+import { Clip, createClip } from "@/lib/sequence";
+import { applyTemplate } from "@/lib/templates";
+import { loadSavedWatermark, saveWatermark } from "@/lib/watermark";
 
 type VideoDimensions = {
   width: number;
   height: number;
 };
 
-type CapturableVideo = HTMLVideoElement & {
-  captureStream(): MediaStream;
-};
+const CANVAS_SCALE_FALLBACK: VideoDimensions = { width: 1280, height: 720 };
 
-const DEFAULT_HEADLINE = "BLACK FRIDAY 28 NËNTORI";
-const DEFAULT_BODY =
-  "Personalizoni shishet me logo, foto dhe shkrime sipas dëshirës.";
+/** The first clip sets the source size the output format is derived from. */
+const getSourceSize = (clips: Clip[]): VideoDimensions =>
+  clips[0]?.width && clips[0]?.height
+    ? { width: clips[0].width, height: clips[0].height }
+    : CANVAS_SCALE_FALLBACK;
+
+/** Pause after the last edit before the project is written to IndexedDB. */
+const AUTOSAVE_DELAY_MS = 600;
+
+/**
+ * Fields keep their own undo history, and several of them (template and
+ * project names, the batch table, languages) are not part of the scene's.
+ */
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.closest("input, textarea, select") !== null);
+
+const createEmptyDocument = (): ProjectDocument => ({
+  scene: createDefaultScene(),
+  clips: [],
+  audio: DEFAULT_AUDIO_MIX,
+});
+
+const createEmptySnapshot = (
+  exportSettings: ExportSettings,
+): ProjectSnapshot => ({
+  id: createProjectId(),
+  document: createEmptyDocument(),
+  exportSettings,
+  render: null,
+});
 
-const CANVAS_SCALE_FALLBACK: VideoDimensions = { width: 1280, height: 720 };
+export default function Home() {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const previewContainerRef = useRef<HTMLDivElement>(null);
+
+  const {
+    state: project,
+    set: setProject,
+    undo,
+    redo,
+    reset: resetProject,
+    canUndo,
+    canRedo,
+  } = useHistory<ProjectDocument>(createEmptyDocument);
+  const { scene, clips, audio: audioMix } = project;
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>("idle");
+  const [player, setPlayer] = useState<SequencePlayer | null>(null);
+  const [rendered, setRendered] = useState<RenderedVideo | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(
+    DEFAULT_EXPORT_SETTINGS,
+  );
+  const [exportCapabilities, setExportCapabilities] =
+    useState<ExportCapabilities | null>(null);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [safeAreas, setSafeAreas] = useState<SafeAreaPlatform[]>([]);
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+  const [isLanguageRunning, setIsLanguageRunning] = useState<boolean>(false);
+  const [isLoopRunning, setIsLoopRunning] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const {
+    job: renderJob,
+    run: runRenderJob,
+    cancel: cancelRenderJob,
+  } = useRenderJob();
+  const [projectRestored, setProjectRestored] = useState<boolean>(false);
+  /** Every clip and music URL of this session; undo may need them again. */
+  const mediaUrlsRef = useRef<Set<string>>(new Set());
+  const savedRef = useRef<unknown[]>([]);
+  const pendingSaveRef = useRef<(() => Promise<void>) | null>(null);
+  /** Read by the one-off restore, which must not rerun on a language switch. */
+  const messagesRef = useRef(t);
+  messagesRef.current = t;
+
+  const setScene = useCallback(
+    (action: SetStateAction<OverlayScene>) =>
+      setProject((current) => ({
+        ...current,
+        scene: resolveAction(action, current.scene),
+      })),
+    [setProject],
+  );
+
+  const setClips = useCallback(
+    (action: SetStateAction<Clip[]>) =>
+      setProject((current) => ({
+        ...current,
+        clips: resolveAction(action, current.clips),
+      })),
+    [setProject],
+  );
 
-const ensureMetadata = (video: HTMLVideoElement) =>
-  new Promise<void>((resolve, reject) => {
-    if (video.readyState >= 1) {
-      resolve();
+  const setAudioMix = useCallback(
+    (action: SetStateAction<AudioMix>) =>
+      setProject((current) => ({
+        ...current,
+        audio: resolveAction(action, current.audio),
+      })),
+    [setProject],
+  );
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) {
       return;
     }
-
-    const handleLoaded = () => {
-      cleanup();
-      resolve();
+    const nextPlayer = createSequencePlayer(video);
+    setPlayer(nextPlayer);
+    return () => {
+      nextPlayer.dispose();
+      setPlayer(null);
     };
+  }, []);
+
+  useEffect(() => {
+    player?.setClips(clips);
+  }, [player, clips]);
+
+  useAudioMixPreview(player, videoRef, audioMix);
 
-    const handleError = () => {
-      cleanup();
-      reject(new Error("Failed to load video metadata."));
+  useEffect(() => {
+    project.clips.forEach((clip) => mediaUrlsRef.current.add(clip.url));
+    if (project.audio.music) {
+      mediaUrlsRef.current.add(project.audio.music.url);
+    }
+  }, [project]);
+
+  useEffect(() => {
+    const urls = mediaUrlsRef.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  /** Swaps in another project and starts a fresh undo history. */
+  const applySnapshot = useCallback(
+    (snapshot: ProjectSnapshot) => {
+      mediaUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+      mediaUrlsRef.current.clear();
+
+      // The saved watermark follows the user into every project.
+      const watermark = loadSavedWatermark();
+      const { document } = snapshot;
+      const next =
+        watermark && !document.scene.layers.some(isWatermark)
+          ? { ...document, scene: addLayer(document.scene, watermark) }
+          : document;
+
+      savedRef.current = [next, snapshot.exportSettings, snapshot.render];
+      resetProject(next);
+      setExportSettings(snapshot.exportSettings);
+      setRendered(snapshot.render);
+      setProjectId(snapshot.id);
+      setSelectedLayerId(null);
+      setLastProjectId(snapshot.id);
+    },
+    [resetProject],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      let snapshot: ProjectSnapshot | null = null;
+      try {
+        const projects = await listProjects();
+        const lastId = getLastProjectId();
+        const id = projects.some((entry) => entry.id === lastId)
+          ? lastId
+          : projects[0]?.id;
+        snapshot = id ? await loadProject(id) : null;
+        if (!cancelled) {
+          setRecentProjects(projects);
+        }
+      } catch (error) {
+        console.error(error);
+        if (!cancelled) {
+          setErrorMessage(messagesRef.current.project.restoreFailed);
+        }
+      }
+
+      if (cancelled) {
+        if (snapshot) {
+          releaseSnapshot(snapshot);
+        }
+        return;
+      }
+      applySnapshot(snapshot ?? createEmptySnapshot(DEFAULT_EXPORT_SETTINGS));
+      setProjectRestored(true);
     };
 
-    const cleanup = () => {
-      video.removeEventListener("loadedmetadata", handleLoaded);
-      video.removeEventListener("error", handleError);
+    restore();
+    return () => {
+      cancelled = true;
     };
+  }, [applySnapshot]);
 
-    video.addEventListener("loadedmetadata", handleLoaded);
-    video.addEventListener("error", handleError);
-  });
-
-const pickMimeType = () => {
-  const candidates = [
-    "video/webm;codecs=vp9,opus",
-    "video/webm;codecs=vp9",
-    "video/webm;codecs=vp8,opus",
-    "video/webm",
-  ];
-
-  for (const candidate of candidates) {
-    if (MediaRecorder.isTypeSupported(candidate)) {
-      return candidate;
+  useEffect(() => {
+    pendingSaveRef.current = null;
+    if (!projectRestored || !projectId) {
+      return;
+    }
+    const current = [project, exportSettings, rendered];
+    const unchanged = current.every(
+      (value, index) => value === savedRef.current[index],
+    );
+    // An untouched empty project is not worth a slot in the recent list.
+    if (unchanged || (project.clips.length === 0 && !canUndo)) {
+      return;
     }
-  }
 
-  return "video/webm";
-};
+    const save = async () => {
+      pendingSaveRef.current = null;
+      savedRef.current = current;
+      setAutosaveStatus("saving");
+      try {
+        await saveProject({
+          id: projectId,
+          document: project,
+          exportSettings,
+          render: rendered,
+        });
+        setRecentProjects(await listProjects());
+        setAutosaveStatus("saved");
+      } catch (error) {
+        console.error(error);
+        setAutosaveStatus("error");
+        setErrorMessage(describeError(t, error, t.project.saveFailed));
+      }
+    };
 
-const wrapText = (
-  ctx: CanvasRenderingContext2D,
-  text: string,
-  x: number,
-  y: number,
-  maxWidth: number,
-  lineHeight: number,
-) => {
-  const words = text.split(" ");
-  let line = "";
-  let cursor = y;
-
-  for (const word of words) {
-    const testLine = line ? `${line} ${word}` : word;
-    const metrics = ctx.measureText(testLine);
-    if (metrics.width > maxWidth && line) {
-      ctx.fillText(line, x, cursor);
-      cursor += lineHeight;
-      line = word;
-    } else {
-      line = testLine;
+    pendingSaveRef.current = save;
+    const timer = window.setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [
+    canUndo,
+    exportSettings,
+    project,
+    projectId,
+    projectRestored,
+    rendered,
+    t,
+  ]);
+
+  const openProject = useCallback(
+    async (id: string) => {
+      player?.pause();
+      try {
+        await pendingSaveRef.current?.();
+        const snapshot = await loadProject(id);
+        if (!snapshot) {
+          setErrorMessage(t.project.notFound);
+          return;
+        }
+        applySnapshot(snapshot);
+      } catch (error) {
+        setErrorMessage(describeError(t, error, t.project.openFailed));
+      }
+    },
+    [applySnapshot, player, t],
+  );
+
+  const startNewProject = useCallback(async () => {
+    player?.pause();
+    await pendingSaveRef.current?.();
+    applySnapshot(createEmptySnapshot(exportSettings));
+  }, [applySnapshot, exportSettings, player]);
+
+  const removeProject = useCallback(async (id: string) => {
+    try {
+      await deleteProject(id);
+      setRecentProjects(await listProjects());
+    } catch (error) {
+      console.error(error);
+      setErrorMessage(t.project.deleteFailed);
     }
-  }
+  }, [t]);
 
-  if (line) {
-    ctx.fillText(line, x, cursor);
-  }
-};
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        event.altKey ||
+        isEditableTarget(event.target)
+      ) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [redo, undo]);
 
-export default function Home() {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const previewContainerRef = useRef<HTMLDivElement>(null);
-  const animationFrameRef = useRef<number | null>(null);
-
-  const [videoFile, setVideoFile] = useState<File | null>(null);
-  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
-  const [renderedUrl, setRenderedUrl] = useState<string | null>(null);
-  const [primaryText, setPrimaryText] = useState<string>("");
-  const [headlineText, setHeadlineText] = useState<string>(DEFAULT_HEADLINE);
-  const [bodyText, setBodyText] = useState<string>(DEFAULT_BODY);
-  const [accentColor, setAccentColor] = useState<string>("#facc15");
-  const [isRendering, setIsRendering] = useState<boolean>(false);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [videoDimensions, setVideoDimensions] =
-    useState<VideoDimensions | null>(null);
+  const watermark = useMemo(
+    () => scene.layers.find(isWatermark) ?? null,
+    [scene.layers],
+  );
 
   useEffect(() => {
-    return () => {
-      if (sourceUrl) {
-        URL.revokeObjectURL(sourceUrl);
+    // Saving before the restore would wipe the stored watermark.
+    if (!projectRestored) {
+      return;
+    }
+    try {
+      saveWatermark(watermark);
+    } catch (error) {
+      setErrorMessage(describeError(t, error, t.errors.watermarkFull));
+    }
+  }, [watermark, projectRestored, t]);
+
+  useEffect(() => {
+    let cancelled = false;
+    detectExportCapabilities().then((capabilities) => {
+      if (cancelled) {
+        return;
       }
+      setExportCapabilities(capabilities);
+      // Fall back to WebM where the browser cannot produce MP4 at all.
+      setExportSettings((current) =>
+        isContainerSupported(capabilities[current.container])
+          ? current
+          : { ...current, container: "webm" },
+      );
+    });
+    return () => {
+      cancelled = true;
     };
-  }, [sourceUrl]);
+  }, []);
 
   useEffect(() => {
     return () => {
-      if (renderedUrl) {
-        URL.revokeObjectURL(renderedUrl);
+      if (rendered) {
+        URL.revokeObjectURL(rendered.url);
       }
     };
-  }, [renderedUrl]);
+  }, [rendered]);
 
-  const handleVideoSelect = useCallback((file: File) => {
-    if (!file.type.startsWith("video/")) {
-      setErrorMessage("Zgjidhni një skedar video për transformim.");
+  const handleVideoSelect = useCallback(async (files: File[]) => {
+    const videos = files.filter(isVideoFile);
+    if (videos.length === 0) {
+      setErrorMessage(t.upload.chooseVideo);
       return;
     }
 
     setErrorMessage(null);
-    setVideoFile(file);
-
-    if (sourceUrl) {
-      URL.revokeObjectURL(sourceUrl);
+    // A file that cannot be opened is reported without dropping the others.
+    const added: Clip[] = [];
+    const failures: string[] = [];
+    for (const file of videos) {
+      try {
+        added.push(await createClip(file));
+      } catch (error) {
+        console.error(error);
+        failures.push(describeError(t, error, t.upload.unreadable));
+      }
     }
-
-    const nextUrl = URL.createObjectURL(file);
-    setSourceUrl(nextUrl);
-  }, [sourceUrl]);
+    if (added.length > 0) {
+      setClips((current) => [...current, ...added]);
+    }
+    if (failures.length > 0) {
+      setErrorMessage(failures.join("\n"));
+    }
+  }, [setClips, t]);
 
   const onFileInputChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
-      const [file] = event.target.files ?? [];
-      if (file) {
-        handleVideoSelect(file);
+      const files = Array.from(event.target.files ?? []);
+      // Let the same file be picked again after it was removed.
+      event.target.value = "";
+      if (files.length > 0) {
+        handleVideoSelect(files);
       }
     },
     [handleVideoSelect],
@@ -154,63 +478,90 @@ export default function Home() {
       event.preventDefault();
       event.stopPropagation();
 
-      const [file] = Array.from(event.dataTransfer.files).filter((entry) =>
-        entry.type.startsWith("video/"),
-      );
+      const files = Array.from(event.dataTransfer.files).filter(isVideoFile);
 
-      if (file) {
-        handleVideoSelect(file);
+      if (files.length > 0) {
+        handleVideoSelect(files);
       } else {
-        setErrorMessage("Vendosni një video MP4, MOV ose WEBM.");
+        setErrorMessage(t.upload.dropVideo);
       }
     },
-    [handleVideoSelect],
+    [handleVideoSelect, t],
   );
 
-  const ensurePlaybackReady = useCallback(async () => {
-    const video = videoRef.current;
-    if (!video) {
-      throw new Error("Video element not ready.");
-    }
+  // The URL stays alive until the project closes, so undo can restore it.
+  const removeClip = useCallback(
+    (id: string) =>
+      setClips((current) => current.filter((entry) => entry.id !== id)),
+    [setClips],
+  );
 
-    await ensureMetadata(video);
-    await video.play().catch((error) => {
-      if (error instanceof DOMException && error.name === "NotAllowedError") {
-        throw new Error("Lejoni riprodhimin e videos për të vazhduar.");
+  /**
+   * Exports `target` with the current clips, audio mix and settings as a
+   * background job. Everything is captured up front, so editing can go on
+   * while it runs.
+   */
+  const exportScene = useCallback(
+    (target: OverlayScene, label: string) => {
+      if (clips.length === 0) {
+        throw createAppError("videoRequired");
       }
+      const request = {
+        clips,
+        audio: audioMix,
+        scene: target,
+        size: resolveExportSize(
+          resolveOutputSize(target.format, getSourceSize(clips)),
+          exportSettings.resolution,
+        ),
+        settings: exportSettings,
+        fontFamily: resolveFontFamily(),
+      };
+      return runRenderJob(label, (controls) => exportVideo(request, controls));
+    },
+    [audioMix, clips, exportSettings, runRenderJob],
+  );
 
-      throw error;
-    });
-    video.pause();
-  }, []);
-
-  const updateDimensions = useCallback(async () => {
-    const video = videoRef.current;
-    if (!video) {
-      return;
+  /** The current design at full export size, for stills and loops. */
+  const frameRequest = useCallback(() => {
+    if (clips.length === 0) {
+      throw createAppError("videoRequired");
     }
+    return {
+      clips,
+      scene,
+      size: resolveExportSize(
+        resolveOutputSize(scene.format, getSourceSize(clips)),
+        exportSettings.resolution,
+      ),
+      fontFamily: resolveFontFamily(),
+    };
+  }, [clips, exportSettings.resolution, scene]);
 
-    await ensureMetadata(video);
-    if (video.videoWidth && video.videoHeight) {
-      setVideoDimensions({ width: video.videoWidth, height: video.videoHeight });
-    } else {
-      setVideoDimensions(CANVAS_SCALE_FALLBACK);
-    }
-  }, []);
+  const grabStill = useCallback(
+    (format: StillFormat, time: number) =>
+      grabFrame(frameRequest(), time, format),
+    [frameRequest],
+  );
 
-  const renderVideo = useCallback(async () => {
-    if (!sourceUrl) {
-      setErrorMessage("Ngarkoni një video përpara se të transformoni.");
-      return;
-    }
+  const exportLoop = useCallback(
+    (settings: AnimationSettings) => {
+      const request = frameRequest();
+      return runRenderJob(
+        t.stills.jobLabel(settings.format.toUpperCase()),
+        (controls) => exportAnimation(request, settings, controls),
+      );
+    },
+    [frameRequest, runRenderJob, t],
+  );
 
-    if (isRendering) {
+  const renderVideo = useCallback(async () => {
+    if (clips.length === 0) {
+      setErrorMessage(t.errors.videoRequired);
       return;
     }
 
-    const video = videoRef.current;
-    if (!video) {
-      setErrorMessage("Video nuk është gati. Rifreskoni faqen.");
+    if (isRendering || isBatchRunning || isLanguageRunning || isLoopRunning) {
       return;
     }
 
@@ -218,201 +569,76 @@ export default function Home() {
     setErrorMessage(null);
 
     try {
-      await ensureMetadata(video);
-      video.pause();
-      video.currentTime = 0;
-
-      const width = video.videoWidth || CANVAS_SCALE_FALLBACK.width;
-      const height = video.videoHeight || CANVAS_SCALE_FALLBACK.height;
-      const canvas = document.createElement("canvas");
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext("2d");
-
-      if (!ctx) {
-        throw new Error("Shfletuesi nuk mbështet Canvas 2D.");
-      }
-
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-
-      const drawOverlay = () => {
-        ctx.drawImage(video, 0, 0, width, height);
-
-        ctx.save();
-
-        const gradientHeight = height * 0.35;
-        const gradient = ctx.createLinearGradient(
-          0,
-          height - gradientHeight,
-          0,
-          height,
-        );
-        gradient.addColorStop(0, "rgba(0,0,0,0)");
-        gradient.addColorStop(1, "rgba(0,0,0,0.75)");
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, height - gradientHeight, width, gradientHeight);
-
-        if (primaryText.trim()) {
-          ctx.font = `600 ${Math.round(width * 0.035)}px "Geist", sans-serif`;
-          ctx.fillStyle = "rgba(0,0,0,0.45)";
-          ctx.fillRect(width * 0.08, height * 0.12, width * 0.84, height * 0.08);
-          ctx.fillStyle = "#ffffff";
-          ctx.textAlign = "left";
-          ctx.textBaseline = "middle";
-          ctx.fillText(
-            primaryText,
-            width * 0.1,
-            height * 0.16,
-          );
-        }
-
-        ctx.textBaseline = "alphabetic";
-        ctx.textAlign = "center";
-        ctx.font = `800 ${Math.round(width * 0.075)}px "Geist", sans-serif`;
-        ctx.fillStyle = accentColor;
-        ctx.shadowColor = "rgba(0,0,0,0.8)";
-        ctx.shadowBlur = width * 0.008;
-        ctx.fillText(headlineText.toUpperCase(), width / 2, height * 0.78);
-
-        ctx.shadowColor = "transparent";
-        ctx.font = `400 ${Math.round(width * 0.032)}px "Geist", sans-serif`;
-        ctx.fillStyle = "#ffffff";
-        wrapText(
-          ctx,
-          bodyText,
-          width / 2,
-          height * 0.85,
-          width * 0.7,
-          height * 0.05,
-        );
-
-        ctx.restore();
-      };
-
-      const mimeType = pickMimeType();
-      const canvasStream = canvas.captureStream();
-      const audioStream =
-        "captureStream" in video &&
-        typeof (video as CapturableVideo).captureStream === "function"
-          ? (video as CapturableVideo).captureStream()
-          : null;
-      const tracks = [
-        ...canvasStream.getVideoTracks(),
-        ...(audioStream?.getAudioTracks() ?? []),
-      ];
-
-      const mediaStream = new MediaStream(tracks);
-      const chunks: BlobPart[] = [];
-      const recorder = new MediaRecorder(mediaStream, {
-        mimeType,
-        videoBitsPerSecond: 6_000_000,
-      });
-
-      const recordingComplete = new Promise<void>((resolve) => {
-        recorder.onstop = () => resolve();
+      const { blob, extension } = await exportScene(scene, t.export.jobLabel);
+      setRendered({
+        id: crypto.randomUUID(),
+        blob,
+        url: URL.createObjectURL(blob),
+        extension,
       });
-
-      recorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunks.push(event.data);
-        }
-      };
-
-      recorder.start(150);
-
-      const loop = () => {
-        drawOverlay();
-        animationFrameRef.current = requestAnimationFrame(loop);
-      };
-
-      const handleEnded = () => {
-        if (animationFrameRef.current) {
-          cancelAnimationFrame(animationFrameRef.current);
-          animationFrameRef.current = null;
-        }
-        drawOverlay();
-        recorder.stop();
-      };
-
-      video.addEventListener("ended", handleEnded, { once: true });
-      await video.play();
-      loop();
-
-      await recordingComplete;
-      video.pause();
-      video.currentTime = 0;
-
-      const blob = new Blob(chunks, { type: mimeType });
-
-      if (renderedUrl) {
-        URL.revokeObjectURL(renderedUrl);
-      }
-
-      const downloadUrl = URL.createObjectURL(blob);
-      setRenderedUrl(downloadUrl);
-
-      video.removeEventListener("ended", handleEnded);
     } catch (error) {
+      if (isExportCancelled(error)) {
+        return;
+      }
       console.error(error);
-      const message =
-        error instanceof Error
-          ? error.message
-          : "Diçka shkoi keq gjatë transformimit.";
+      const message = describeError(t, error, t.common.renderFailed);
       setErrorMessage(message);
     } finally {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-      }
       setIsRendering(false);
     }
   }, [
-    accentColor,
-    bodyText,
-    headlineText,
+    clips,
+    exportScene,
+    isBatchRunning,
+    isLanguageRunning,
+    isLoopRunning,
     isRendering,
-    primaryText,
-    renderedUrl,
-    sourceUrl,
+    scene,
+    t,
   ]);
 
-  useEffect(() => {
-    if (!videoRef.current) {
-      return;
-    }
-
-    const video = videoRef.current;
-    const handleLoadedMetadata = () => {
-      setVideoDimensions({
-        width: video.videoWidth,
-        height: video.videoHeight,
-      });
-    };
-
-    video.addEventListener("loadedmetadata", handleLoadedMetadata);
-    return () => {
-      video.removeEventListener("loadedmetadata", handleLoadedMetadata);
-    };
+  /** The design and settings for `POST /api/render` or `npm run render`. */
+  const downloadRenderSpec = useCallback(() => {
+    const url = URL.createObjectURL(
+      new Blob([serializeRenderSpec({ scene, settings: exportSettings })], {
+        type: "application/json",
+      }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = t.export.specFileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [exportSettings, scene, t]);
+
+  const toggleSafeArea = useCallback((platform: SafeAreaPlatform) => {
+    setSafeAreas((current) =>
+      current.includes(platform)
+        ? current.filter((entry) => entry !== platform)
+        : [...current, platform],
+    );
   }, []);
 
-  const aspectRatioClass = useMemo(() => {
-    if (!videoDimensions) {
-      return "aspect-video";
-    }
+  const clipBaseName = clips[0]
+    ? clips[0].name.replace(/\.[^/.]+$/, "")
+    : "video";
+  const isExporting =
+    isRendering || isBatchRunning || isLanguageRunning || isLoopRunning;
 
-    const ratio = videoDimensions.width / videoDimensions.height;
-    if (Math.abs(ratio - 1) < 0.01) {
-      return "aspect-square";
-    }
-    if (ratio < 1) {
-      return "aspect-[3/4]";
-    }
-    if (ratio > 2) {
-      return "aspect-[21/9]";
-    }
-    return "aspect-video";
-  }, [videoDimensions]);
+  const frameSize = useMemo(
+    () =>
+      resolveOutputSize(scene.format, getSourceSize(clips)),
+    [scene.format, clips],
+  );
+
+  const contrastRequest = useMemo(
+    () =>
+      clips.length > 0 && !isExporting
+        ? { clips, scene, size: frameSize, fontFamily: resolveFontFamily() }
+        : null,
+    [clips, frameSize, isExporting, scene],
+  );
+  const contrastReports = useContrastCheck(contrastRequest);
 
   return (
     <main className="flex min-h-screen flex-col bg-neutral-950 text-white">
@@ -420,25 +646,36 @@ export default function Home() {
         <div className="mx-auto flex w-full max-w-6xl flex-col gap-2 px-6 py-6 sm:flex-row sm:items-end sm:justify-between">
           <div>
             <p className="text-sm uppercase tracking-[0.35em] text-white/60">
-              Studio Promo Video
+              {t.header.eyebrow}
             </p>
             <h1 className="text-2xl font-semibold sm:text-3xl">
-              Shtoni tekst të personalizuar mbi videon tuaj
+              {t.header.title}
             </h1>
           </div>
-          <div className="sm:text-right">
-            <p className="text-sm text-white/60">
-              Ideal për fushata &ldquo;BLACK FRIDAY 28 NËNTORI&rdquo;.
-            </p>
-            <p className="text-sm text-white/60">
-              Përditëson tekstin në kohë reale dhe eksportoni videon.
-            </p>
+          <div className="flex flex-col gap-2 sm:items-end sm:text-right">
+            <LanguageSwitcher />
+            <p className="text-sm text-white/60">{t.header.campaign}</p>
+            <p className="text-sm text-white/60">{t.header.tagline}</p>
           </div>
         </div>
       </header>
 
       <div className="mx-auto flex w-full max-w-6xl flex-1 flex-col gap-8 px-6 py-8 lg:flex-row">
         <section className="flex w-full flex-col gap-6 lg:w-[55%]">
+          <ProjectPanel
+            projects={recentProjects}
+            currentId={projectId}
+            status={autosaveStatus}
+            canUndo={canUndo}
+            canRedo={canRedo}
+            disabled={isExporting}
+            onUndo={undo}
+            onRedo={redo}
+            onOpen={openProject}
+            onNew={startNewProject}
+            onDelete={removeProject}
+          />
+
           <label
             htmlFor="video-input"
             onDrop={onDrop}
@@ -448,191 +685,268 @@ export default function Home() {
             <input
               id="video-input"
               type="file"
-              accept="video/*"
+              accept={VIDEO_INPUT_ACCEPT}
+              multiple
               className="hidden"
               onChange={onFileInputChange}
             />
             <span className="rounded-full bg-white/10 px-4 py-1 text-xs uppercase tracking-[0.3em] text-white/70">
-              Video Input
+              {t.upload.badge}
             </span>
             <div>
               <p className="text-xl font-semibold">
-                {videoFile ? videoFile.name : "Tërhiqni dhe lëshoni videon tuaj"}
-              </p>
-              <p className="mt-2 text-sm text-white/60">
-                Mbështet MP4, MOV, WEBM deri në 250 MB.
+                {clips.length > 0 ? t.upload.addMore : t.upload.drop}
               </p>
+              <p className="mt-2 text-sm text-white/60">{t.upload.hint}</p>
             </div>
           </label>
 
-          <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
-            <div>
-              <h2 className="text-lg font-semibold">Teksti promocional</h2>
-              <p className="text-sm text-white/60">
-                Shkruani sloganin në mënyrë që të shfaqet &ldquo;original as i
-                write&rdquo; mbi videon tuaj.
-              </p>
-            </div>
-
-            <div className="flex flex-col gap-4">
-              <label className="flex flex-col gap-2">
-                <span className="text-xs uppercase tracking-[0.2em] text-white/50">
-                  Linja Live (shfaqet sipër)
-                </span>
-                <input
-                  type="text"
-                  placeholder="Original as I write"
-                  value={primaryText}
-                  onChange={(event) => setPrimaryText(event.target.value)}
-                  className="rounded-xl border border-white/10 bg-neutral-900 px-4 py-3 text-base text-white outline-none transition focus:border-white/40 focus:ring-2 focus:ring-white/20"
-                />
-              </label>
-
-              <label className="flex flex-col gap-2">
-                <span className="text-xs uppercase tracking-[0.2em] text-white/50">
-                  Titulli Kryesor
-                </span>
-                <input
-                  type="text"
-                  value={headlineText}
-                  onChange={(event) => setHeadlineText(event.target.value)}
-                  className="rounded-xl border border-white/10 bg-neutral-900 px-4 py-3 text-base text-white outline-none transition focus:border-white/40 focus:ring-2 focus:ring-white/20"
-                />
-              </label>
-
-              <label className="flex flex-col gap-2">
-                <span className="text-xs uppercase tracking-[0.2em] text-white/50">
-                  Teksti Mbështetës
-                </span>
-                <textarea
-                  value={bodyText}
-                  onChange={(event) => setBodyText(event.target.value)}
-                  className="min-h-[7rem] rounded-xl border border-white/10 bg-neutral-900 px-4 py-3 text-base text-white outline-none transition focus:border-white/40 focus:ring-2 focus:ring-white/20"
-                />
-              </label>
-            </div>
-
-            <div className="flex flex-col gap-3">
-              <span className="text-xs uppercase tracking-[0.2em] text-white/50">
-                Ngjyra e theksit
-              </span>
-              <div className="flex items-center gap-4">
-                <input
-                  type="color"
-                  value={accentColor}
-                  onChange={(event) => setAccentColor(event.target.value)}
-                  className="h-12 w-24 cursor-pointer rounded-xl border border-white/20 bg-transparent"
-                  aria-label="Accent color"
-                />
-                <span className="text-sm text-white/60">
-                  Përdoret për titullin kryesor mbi videon.
-                </span>
-              </div>
-            </div>
-          </div>
+          <ClipListPanel
+            clips={clips}
+            onChange={setClips}
+            onRemove={removeClip}
+          />
+
+          <AudioMixPanel
+            mix={audioMix}
+            onChange={setAudioMix}
+            onError={setErrorMessage}
+          />
+
+          <TemplatePanel
+            scene={scene}
+            onApply={(template) => {
+              setScene((current) => applyTemplate(current, template));
+              setSelectedLayerId(null);
+            }}
+            onError={setErrorMessage}
+          />
+
+          <BrandKitPanel
+            accentColor={scene.accentColor}
+            onError={setErrorMessage}
+          />
+
+          <LayerPanel
+            scene={scene}
+            frameAspect={frameSize.width / frameSize.height}
+            selectedId={selectedLayerId}
+            contrast={contrastReports}
+            onSelect={setSelectedLayerId}
+            onChange={setScene}
+            onError={setErrorMessage}
+          />
+
+          <CaptionPanel
+            track={scene.captions}
+            player={player}
+            onChange={(captions) =>
+              setScene((current) => ({ ...current, captions }))
+            }
+            onError={setErrorMessage}
+          />
+
+          <ReframePanel
+            format={scene.format}
+            player={player}
+            onChange={(format) => setScene((current) => ({ ...current, format }))}
+          />
+
+          <ColorPanel
+            grading={scene.grading}
+            gradient={scene.gradient}
+            onGradingChange={(grading) =>
+              setScene((current) => ({ ...current, grading }))
+            }
+            onGradientChange={(gradient) =>
+              setScene((current) => ({ ...current, gradient }))
+            }
+            onError={setErrorMessage}
+          />
 
           <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+            <h2 className="text-lg font-semibold">{t.export.title}</h2>
+            <ExportSettingsPanel
+              settings={exportSettings}
+              capabilities={exportCapabilities}
+              exportSize={resolveExportSize(frameSize, exportSettings.resolution)}
+              disabled={isExporting}
+              onChange={setExportSettings}
+            />
+
             <button
               type="button"
               onClick={renderVideo}
-              disabled={!sourceUrl || isRendering}
+              disabled={clips.length === 0 || isExporting}
               className="inline-flex items-center justify-center rounded-2xl bg-emerald-500 px-6 py-3 text-base font-semibold text-neutral-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/40"
             >
-              {isRendering ? "Duke eksportuar..." : "Eksporto videon me tekst"}
+              {isRendering ? t.export.exporting : t.export.start}
+            </button>
+
+            <button
+              type="button"
+              onClick={downloadRenderSpec}
+              className="self-start text-xs uppercase tracking-[0.2em] text-white/50 underline-offset-4 hover:text-white/80 hover:underline"
+            >
+              {t.export.downloadSpec}
             </button>
 
-            {renderedUrl && (
+            {renderJob && (
+              <RenderJobStatus job={renderJob} onCancel={cancelRenderJob} />
+            )}
+
+            {rendered && (
               <a
-                href={renderedUrl}
-                download={
-                  videoFile
-                    ? `${videoFile.name.replace(/\.[^/.]+$/, "")}-overlay.webm`
-                    : "video-overlay.webm"
-                }
+                href={rendered.url}
+                download={`${clipBaseName}-overlay.${rendered.extension}`}
                 className="inline-flex items-center justify-center rounded-2xl border border-white/20 px-6 py-3 text-base font-semibold text-white transition hover:border-white/60"
               >
-                Shkarko videon e transformuar
+                {t.export.downloadVideo}
               </a>
             )}
 
             {errorMessage && (
-              <p className="rounded-xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+              <p className="whitespace-pre-line rounded-xl border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
                 {errorMessage}
               </p>
             )}
           </div>
+
+          <StillExportPanel
+            player={player}
+            exportSize={resolveExportSize(frameSize, exportSettings.resolution)}
+            baseName={clipBaseName}
+            disabled={clips.length === 0 || isExporting}
+            grab={grabStill}
+            renderLoop={exportLoop}
+            onRunningChange={setIsLoopRunning}
+            onError={setErrorMessage}
+          />
+
+          <LanguagePanel
+            scene={scene}
+            baseName={clipBaseName}
+            disabled={
+              clips.length === 0 || isRendering || isBatchRunning || isLoopRunning
+            }
+            onChange={setScene}
+            render={exportScene}
+            onRunningChange={setIsLanguageRunning}
+            onError={setErrorMessage}
+          />
+
+          <BatchPanel
+            scene={scene}
+            disabled={
+              clips.length === 0 ||
+              isRendering ||
+              isLanguageRunning ||
+              isLoopRunning
+            }
+            render={exportScene}
+            onRunningChange={setIsBatchRunning}
+            onError={setErrorMessage}
+          />
         </section>
 
         <section className="relative flex w-full flex-1 flex-col gap-6 rounded-3xl border border-white/10 bg-neutral-900/50 p-6">
           <div className="flex items-baseline justify-between">
-            <h2 className="text-lg font-semibold">Pamja paraprake</h2>
+            <h2 className="text-lg font-semibold">{t.preview.title}</h2>
             <button
               type="button"
-              onClick={() => ensurePlaybackReady().catch((error) => {
-                setErrorMessage(
-                  error instanceof Error
-                    ? error.message
-                    : "Riprodhimi i videos nuk lejohet.",
-                );
-              })}
-              className="text-xs uppercase tracking-[0.2em] text-white/50 underline-offset-4 hover:text-white/80 hover:underline"
+              onClick={() => player?.seek(0).catch(() => undefined)}
+              disabled={clips.length === 0}
+              className="text-xs uppercase tracking-[0.2em] text-white/50 underline-offset-4 hover:text-white/80 hover:underline disabled:cursor-not-allowed disabled:opacity-30"
             >
-              Rikthe fillimin
+              {t.preview.rewind}
             </button>
           </div>
 
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs uppercase tracking-[0.2em] text-white/50">
+              {t.preview.safeAreas}
+            </span>
+            {SAFE_AREA_GUIDES.map((guide) => {
+              const active = safeAreas.includes(guide.platform);
+              return (
+                <button
+                  key={guide.platform}
+                  type="button"
+                  onClick={() => toggleSafeArea(guide.platform)}
+                  aria-pressed={active}
+                  className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                    active
+                      ? "text-neutral-950"
+                      : "border-white/15 text-white/60 hover:border-white/40"
+                  }`}
+                  style={
+                    active
+                      ? { backgroundColor: guide.color, borderColor: guide.color }
+                      : undefined
+                  }
+                >
+                  {guide.label}
+                </button>
+              );
+            })}
+          </div>
+
           <div
             ref={previewContainerRef}
-            className={`relative w-full overflow-hidden rounded-2xl bg-neutral-800 ${aspectRatioClass}`}
+            className="relative mx-auto w-full overflow-hidden rounded-2xl bg-neutral-800"
+            style={{
+              aspectRatio: `${frameSize.width} / ${frameSize.height}`,
+              maxWidth: `calc(70vh * ${frameSize.width / frameSize.height})`,
+            }}
           >
-            {sourceUrl ? (
+            {/* The player needs the element from the first render on. */}
+            <video
+              ref={videoRef}
+              playsInline
+              className="absolute inset-0 h-full w-full opacity-0"
+            />
+            {clips.length > 0 ? (
               <>
-                <video
-                  ref={videoRef}
-                  src={sourceUrl}
-                  controls
-                  className="absolute inset-0 h-full w-full object-cover"
-                  onLoadedMetadata={updateDimensions}
+                <PreviewCanvas
+                  player={player}
+                  scene={scene}
+                  size={frameSize}
+                  className="pointer-events-none absolute inset-0 h-full w-full"
+                />
+                <TransformOverlay
+                  containerRef={previewContainerRef}
+                  frameSize={frameSize}
+                  scene={scene}
+                  selectedId={selectedLayerId}
+                  safeAreas={safeAreas}
+                  onSelect={setSelectedLayerId}
+                  onChange={setScene}
                 />
-                <div className="pointer-events-none absolute inset-0 flex flex-col">
-                  {primaryText.trim() && (
-                    <div className="flex items-center justify-center px-6 py-4">
-                      <div className="w-full rounded-xl bg-black/40 px-6 py-3 text-sm font-semibold uppercase tracking-[0.3em] text-white/80 backdrop-blur">
-                        {primaryText}
-                      </div>
-                    </div>
-                  )}
-                  <div className="mt-auto flex flex-col items-center gap-4 px-6 pb-10 text-center">
-                    <div
-                      className="rounded-full px-5 py-2 text-xs font-semibold uppercase tracking-[0.35em]"
-                      style={{ backgroundColor: `${accentColor}26`, color: accentColor }}
-                    >
-                      Oferta e Ditës
-                    </div>
-                    <p
-                      className="text-3xl font-black drop-shadow-[0_12px_32px_rgba(0,0,0,0.75)] sm:text-4xl md:text-5xl"
-                      style={{ color: accentColor }}
-                    >
-                      {headlineText.toUpperCase()}
-                    </p>
-                    <p className="max-w-2xl text-sm text-white/80 sm:text-base">
-                      {bodyText}
-                    </p>
-                  </div>
-                </div>
               </>
             ) : (
               <div className="flex h-full w-full items-center justify-center text-white/40">
-                Ngarkoni një video për ta parë këtu.
+                {t.preview.empty}
               </div>
             )}
           </div>
 
+          <Timeline
+            player={player}
+            clips={clips}
+            scene={scene}
+            frameRate={exportSettings.frameRate}
+            selectedId={selectedLayerId}
+            disabled={clips.length === 0}
+            onSelect={setSelectedLayerId}
+            onChange={setScene}
+          />
+
           <p className="text-xs text-white/40">
-            Eksporti kryhet në shfletues përmes Canvas + MediaRecorder. Nëse
-            mungon audio, përdorni një shfletues që mbështet{" "}
+            {t.preview.exportNote.before}{" "}
+            <code className="rounded bg-white/10 px-1 py-0.5">WebCodecs</code>{" "}
+            {t.preview.exportNote.between}{" "}
             <code className="rounded bg-white/10 px-1 py-0.5">MediaRecorder</code>{" "}
-            ose shtoni muzikën në redaktor tjetër.
+            {t.preview.exportNote.after}
           </p>
         </section>
       </div>
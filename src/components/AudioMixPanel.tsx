@@ -0,0 +1,226 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import {
+  AudioMix,
+  MUSIC_INPUT_ACCEPT,
+  MusicTrack,
+  createMusicTrack,
+} from "@/lib/audioMix";
+import { describeError } from "@/lib/errors";
+import { formatTimecode } from "@/lib/time";
+
+type AudioMixPanelProps = {
+  mix: AudioMix;
+  onChange: (mix: AudioMix) => void;
+  onError: (message: string) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const parseSeconds = (value: number) =>
+  Number.isNaN(value) ? null : Math.max(0, Math.round(value * 100) / 100);
+
+export function AudioMixPanel({ mix, onChange, onError }: AudioMixPanelProps) {
+  const { t } = useI18n();
+  const { music } = mix;
+
+  const patchMusic = (patch: Partial<MusicTrack>) => {
+    if (music) {
+      onChange({ ...mix, music: { ...music, ...patch } });
+    }
+  };
+
+  const handleMusicSelect = async (event: ChangeEvent<HTMLInputElement>) => {
+    const [file] = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const track = await createMusicTrack(file);
+      onChange({ ...mix, music: track });
+    } catch (error) {
+      onError(describeError(t, error, t.audio.unreadable));
+    }
+  };
+
+  // The page revokes replaced tracks later; undo can still bring them back.
+  const removeMusic = () => onChange({ ...mix, music: null });
+
+  const secondsField = (
+    key: "offset" | "fadeIn" | "fadeOut",
+    label: string,
+    track: MusicTrack,
+  ) => (
+    <label className="flex flex-col gap-1">
+      <span className={LABEL_CLASS}>{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={0.1}
+        value={track[key]}
+        onChange={(event) => {
+          const value = parseSeconds(event.target.valueAsNumber);
+          if (value !== null) {
+            patchMusic({ [key]: value });
+          }
+        }}
+        className={FIELD_CLASS}
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div>
+        <h2 className="text-lg font-semibold">{t.audio.title}</h2>
+        <p className="text-sm text-white/60">{t.audio.description}</p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className="flex justify-between">
+          <span className={LABEL_CLASS}>{t.audio.source}</span>
+          <span className="text-xs text-white/60">
+            {mix.sourceVolume > 0
+              ? `${Math.round(mix.sourceVolume * 100)}%`
+              : t.audio.silent}
+          </span>
+        </span>
+        <div className="flex items-center gap-3">
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={1}
+            value={Math.round(mix.sourceVolume * 100)}
+            onChange={(event) =>
+              onChange({
+                ...mix,
+                sourceVolume: event.target.valueAsNumber / 100,
+              })
+            }
+            className="flex-1"
+            aria-label={t.audio.sourceVolume}
+          />
+          <button
+            type="button"
+            onClick={() =>
+              onChange({ ...mix, sourceVolume: mix.sourceVolume > 0 ? 0 : 1 })
+            }
+            className="rounded-lg border border-white/10 px-3 py-1.5 text-xs text-white/70 transition hover:border-white/40 hover:text-white"
+          >
+            {mix.sourceVolume > 0 ? t.audio.mute : t.audio.unmute}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 border-t border-white/10 pt-5">
+        <div className="flex items-center justify-between gap-3">
+          <span className={LABEL_CLASS}>{t.audio.music}</span>
+          <div className="flex gap-2">
+            <label className="cursor-pointer rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20">
+              {music ? t.audio.replaceMusic : t.audio.addMusic}
+              <input
+                type="file"
+                accept={MUSIC_INPUT_ACCEPT}
+                className="hidden"
+                onChange={handleMusicSelect}
+              />
+            </label>
+            {music && (
+              <button
+                type="button"
+                onClick={removeMusic}
+                className="rounded-xl border border-white/10 px-3 py-2 text-sm text-white/70 transition hover:border-white/40 hover:text-white"
+                aria-label={t.audio.removeMusic}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        </div>
+
+        {music && (
+          <>
+            <p className="truncate text-sm text-white/70">
+              {music.name}{" "}
+              <span className="font-mono text-xs text-white/40">
+                {formatTimecode(music.duration)}
+              </span>
+            </p>
+            <label className="flex flex-col gap-1">
+              <span className="flex justify-between">
+                <span className={LABEL_CLASS}>{t.audio.volume}</span>
+                <span className="text-xs text-white/60">
+                  {Math.round(music.volume * 100)}%
+                </span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={1}
+                value={Math.round(music.volume * 100)}
+                onChange={(event) =>
+                  patchMusic({ volume: event.target.valueAsNumber / 100 })
+                }
+              />
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              {secondsField("offset", t.audio.offset, music)}
+              {secondsField("fadeIn", t.audio.fadeIn, music)}
+              {secondsField("fadeOut", t.audio.fadeOut, music)}
+            </div>
+
+            <label className="flex items-start gap-2 text-sm text-white/70">
+              <input
+                type="checkbox"
+                checked={mix.ducking}
+                disabled={mix.sourceVolume <= 0}
+                onChange={(event) =>
+                  onChange({ ...mix, ducking: event.target.checked })
+                }
+                className="mt-1"
+              />
+              <span>
+                {t.audio.ducking}
+                <span className="block text-xs text-white/40">
+                  {t.audio.duckingHint}
+                </span>
+              </span>
+            </label>
+            {mix.ducking && mix.sourceVolume > 0 && (
+              <label className="flex flex-col gap-1">
+                <span className="flex justify-between">
+                  <span className={LABEL_CLASS}>{t.audio.duckLevel}</span>
+                  <span className="text-xs text-white/60">
+                    {Math.round(mix.duckLevel * 100)}%
+                  </span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={Math.round(mix.duckLevel * 100)}
+                  onChange={(event) =>
+                    onChange({
+                      ...mix,
+                      duckLevel: event.target.valueAsNumber / 100,
+                    })
+                  }
+                />
+              </label>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
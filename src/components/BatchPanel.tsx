@@ -0,0 +1,394 @@
+"use client";
+
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import { DataTable, parseTable } from "@/lib/batch/table";
+import {
+  BatchImage,
+  ColumnTarget,
+  applyRow,
+  buildFileNames,
+  guessMapping,
+  listTargetOptions,
+  targetKey,
+} from "@/lib/batch/variants";
+import { createZip } from "@/lib/batch/zip";
+import { describeError } from "@/lib/errors";
+import { isExportCancelled } from "@/lib/export/jobs";
+import type { ExportResult } from "@/lib/export/types";
+import type { Messages } from "@/lib/i18n/sq";
+import { IMAGE_INPUT_ACCEPT, readImageFile } from "@/lib/render/images";
+import type { OverlayScene } from "@/lib/scene";
+
+type BatchPanelProps = {
+  scene: OverlayScene;
+  disabled: boolean;
+  /** Exports one variant with the current clips, audio and settings. */
+  render: (scene: OverlayScene, label: string) => Promise<ExportResult>;
+  onRunningChange: (running: boolean) => void;
+  onError: (message: string) => void;
+};
+
+type JobStatus = "pending" | "rendering" | "done" | "error";
+
+type BatchJob = {
+  status: JobStatus;
+  url: string | null;
+  blob: Blob | null;
+  extension: string | null;
+  error: string | null;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const BUTTON_CLASS =
+  "rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  pending: "text-white/40",
+  rendering: "text-sky-300",
+  done: "text-emerald-300",
+  error: "text-red-300",
+};
+
+const PENDING_JOB: BatchJob = {
+  status: "pending",
+  url: null,
+  blob: null,
+  extension: null,
+  error: null,
+};
+
+const revokeJobs = (jobs: BatchJob[]) =>
+  jobs.forEach((job) => job.url && URL.revokeObjectURL(job.url));
+
+const describeTarget = (
+  target: ColumnTarget,
+  scene: OverlayScene,
+  t: Messages,
+) => {
+  if (target.kind === "text" || target.kind === "image") {
+    const layer = scene.layers.find((entry) => entry.id === target.layerId);
+    return t.batch.targets[target.kind](layer?.name ?? "");
+  }
+  return t.batch.targets[target.kind];
+};
+
+export function BatchPanel({
+  scene,
+  disabled,
+  render,
+  onRunningChange,
+  onError,
+}: BatchPanelProps) {
+  const { t } = useI18n();
+  const [pasted, setPasted] = useState<string>("");
+  const [table, setTable] = useState<DataTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnTarget[]>([]);
+  const [images, setImages] = useState<BatchImage[]>([]);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [progress, setProgress] = useState<{
+    current: number;
+    total: number;
+  } | null>(null);
+  const [zipping, setZipping] = useState<boolean>(false);
+  const jobsRef = useRef<BatchJob[]>(jobs);
+  jobsRef.current = jobs;
+
+  useEffect(() => () => revokeJobs(jobsRef.current), []);
+
+  const options = useMemo(() => listTargetOptions(scene), [scene]);
+  const fileNames = useMemo(
+    () => (table ? buildFileNames(table, mapping) : []),
+    [table, mapping],
+  );
+
+  const loadTable = (source: string) => {
+    try {
+      const next = parseTable(source);
+      revokeJobs(jobsRef.current);
+      setTable(next);
+      setMapping(guessMapping(next.headers, scene));
+      setJobs(next.rows.map(() => PENDING_JOB));
+    } catch (error) {
+      onError(describeError(t, error, t.batch.tableUnreadable));
+    }
+  };
+
+  const handleCsvSelect = async (event: ChangeEvent<HTMLInputElement>) => {
+    const [file] = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (file) {
+      loadTable(await file.text());
+    }
+  };
+
+  const handleImagesSelect = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    try {
+      const loaded = await Promise.all(
+        files.map(async (file) => ({
+          name: file.name,
+          ...(await readImageFile(file)),
+        })),
+      );
+      setImages((current) => [
+        ...current.filter(
+          (image) => !loaded.some((entry) => entry.name === image.name),
+        ),
+        ...loaded,
+      ]);
+    } catch (error) {
+      onError(describeError(t, error, t.common.imageUnreadable));
+    }
+  };
+
+  const updateJob = (index: number, job: BatchJob) =>
+    setJobs((current) => {
+      const previous = current[index];
+      if (previous?.url && previous.url !== job.url) {
+        URL.revokeObjectURL(previous.url);
+      }
+      return current.map((entry, position) =>
+        position === index ? job : entry,
+      );
+    });
+
+  /**
+   * Renders rows one after another; exports are too heavy to overlap.
+   * Cancelling the running export stops the whole run.
+   */
+  const runJobs = async (indexes: number[]) => {
+    if (!table || progress || indexes.length === 0) {
+      return;
+    }
+
+    onRunningChange(true);
+    try {
+      for (const [position, index] of indexes.entries()) {
+        setProgress({ current: position + 1, total: indexes.length });
+        updateJob(index, { ...PENDING_JOB, status: "rendering" });
+        try {
+          const variant = applyRow(scene, mapping, table.rows[index], images);
+          const result = await render(variant, fileNames[index]);
+          updateJob(index, {
+            status: "done",
+            url: URL.createObjectURL(result.blob),
+            blob: result.blob,
+            extension: result.extension,
+            error: null,
+          });
+        } catch (error) {
+          if (isExportCancelled(error)) {
+            updateJob(index, PENDING_JOB);
+            break;
+          }
+          console.error(error);
+          updateJob(index, {
+            ...PENDING_JOB,
+            status: "error",
+            error: describeError(t, error, t.common.renderFailed),
+          });
+        }
+      }
+    } finally {
+      setProgress(null);
+      onRunningChange(false);
+    }
+  };
+
+  const downloadZip = async () => {
+    setZipping(true);
+    try {
+      const files = jobs.flatMap((job, index) =>
+        job.blob && job.extension
+          ? [{ name: `${fileNames[index]}.${job.extension}`, blob: job.blob }]
+          : [],
+      );
+      const archive = await createZip(files);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${t.batch.zipName}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      onError(describeError(t, error, t.common.zipFailed));
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const failed = jobs.flatMap((job, index) =>
+    job.status === "error" ? [index] : [],
+  );
+  const doneCount = jobs.filter((job) => job.status === "done").length;
+  const running = progress !== null;
+  const locked = disabled || running;
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div>
+        <h2 className="text-lg font-semibold">{t.batch.title}</h2>
+        <p className="text-sm text-white/60">{t.batch.description}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <label className={`cursor-pointer ${BUTTON_CLASS}`}>
+          {t.batch.loadCsv}
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv"
+            className="hidden"
+            disabled={locked}
+            onChange={handleCsvSelect}
+          />
+        </label>
+        <label className={`cursor-pointer ${BUTTON_CLASS}`}>
+          {t.batch.images}
+          <input
+            type="file"
+            accept={IMAGE_INPUT_ACCEPT}
+            multiple
+            className="hidden"
+            disabled={locked}
+            onChange={handleImagesSelect}
+          />
+        </label>
+        {images.length > 0 && (
+          <span className="self-center text-xs text-white/50">
+            {t.batch.imagesLoaded(images.length)}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <textarea
+          value={pasted}
+          onChange={(event) => setPasted(event.target.value)}
+          placeholder={t.batch.tablePlaceholder}
+          rows={3}
+          disabled={locked}
+          className={`font-mono ${FIELD_CLASS}`}
+        />
+        <button
+          type="button"
+          onClick={() => loadTable(pasted)}
+          disabled={locked || !pasted.trim()}
+          className={`self-start ${BUTTON_CLASS}`}
+        >
+          {t.batch.readTable}
+        </button>
+      </div>
+
+      {table && (
+        <>
+          <div className="flex flex-col gap-2 border-t border-white/10 pt-5">
+            <span className={LABEL_CLASS}>{t.batch.columns}</span>
+            {table.headers.map((header, column) => (
+              <label key={`${header}-${column}`} className="flex items-center gap-3">
+                <span className="w-1/3 truncate text-sm text-white/80">
+                  {header || t.batch.column(column + 1)}
+                </span>
+                <select
+                  value={targetKey(mapping[column] ?? { kind: "ignore" })}
+                  disabled={locked}
+                  onChange={(event) => {
+                    const option = options.find(
+                      (entry) => entry.key === event.target.value,
+                    );
+                    if (option) {
+                      setMapping((current) =>
+                        current.map((target, position) =>
+                          position === column ? option.target : target,
+                        ),
+                      );
+                    }
+                  }}
+                  className={FIELD_CLASS}
+                >
+                  {options.map((option) => (
+                    <option key={option.key} value={option.key}>
+                      {describeTarget(option.target, scene, t)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <ul className="flex max-h-80 flex-col gap-2 overflow-y-auto border-t border-white/10 pt-5 pr-1">
+            {jobs.map((job, index) => (
+              <li
+                key={index}
+                className="flex items-center gap-3 rounded-xl border border-white/10 bg-neutral-900/60 px-3 py-2"
+              >
+                <span className="w-6 text-xs text-white/40">{index + 1}.</span>
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <span className="truncate text-sm font-semibold">
+                    {fileNames[index]}
+                  </span>
+                  <span className={`truncate text-xs ${STATUS_CLASSES[job.status]}`}>
+                    {job.error ?? t.batch.status[job.status]}
+                  </span>
+                </div>
+                {job.status === "done" && job.url && (
+                  <a
+                    href={job.url}
+                    download={`${fileNames[index]}.${job.extension}`}
+                    className="rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white"
+                  >
+                    {t.common.download}
+                  </a>
+                )}
+                {job.status === "error" && (
+                  <button
+                    type="button"
+                    onClick={() => runJobs([index])}
+                    disabled={locked}
+                    className="rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30"
+                  >
+                    {t.common.retry}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => runJobs(jobs.map((_, index) => index))}
+              disabled={locked}
+              className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-neutral-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/40"
+            >
+              {progress
+                ? t.batch.exporting(progress.current, progress.total)
+                : t.batch.exportAll(jobs.length)}
+            </button>
+            <button
+              type="button"
+              onClick={() => runJobs(failed)}
+              disabled={locked || failed.length === 0}
+              className={BUTTON_CLASS}
+            >
+              {t.batch.retryFailed(failed.length)}
+            </button>
+            <button
+              type="button"
+              onClick={downloadZip}
+              disabled={running || zipping || doneCount === 0}
+              className={BUTTON_CLASS}
+            >
+              {zipping ? t.common.zipping : t.common.downloadZip(doneCount)}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import { useBrandKit } from "@/hooks/useBrandKit";
+import { useI18n } from "@/hooks/useI18n";
+import {
+  BrandKit,
+  createBrandId,
+  parseBrandKitFile,
+  serializeBrandKit,
+} from "@/lib/brandKit";
+import { describeError } from "@/lib/errors";
+import { FONT_INPUT_ACCEPT, readFontFile } from "@/lib/render/fonts";
+import { IMAGE_INPUT_ACCEPT, readImageFile } from "@/lib/render/images";
+
+type BrandKitPanelProps = {
+  /** Where a new brand color starts. */
+  accentColor: string;
+  onError: (message: string) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const BUTTON_CLASS =
+  "rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40";
+
+const ICON_BUTTON_CLASS =
+  "rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const downloadJson = (source: string, fileName: string) => {
+  const url = URL.createObjectURL(
+    new Blob([source], { type: "application/json" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function BrandKitPanel({ accentColor, onError }: BrandKitPanelProps) {
+  const { t } = useI18n();
+  const { kit, setKit } = useBrandKit();
+
+  const commit = (next: BrandKit) => {
+    try {
+      setKit(next);
+    } catch (error) {
+      onError(describeError(t, error, t.brand.saveFailed));
+    }
+  };
+
+  const readFile = async (
+    event: ChangeEvent<HTMLInputElement>,
+    apply: (file: File) => Promise<void>,
+    fallback: string,
+  ) => {
+    const [file] = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      await apply(file);
+    } catch (error) {
+      onError(describeError(t, error, fallback));
+    }
+  };
+
+  const handleFontSelect = (event: ChangeEvent<HTMLInputElement>) =>
+    readFile(
+      event,
+      async (file) => {
+        const font = await readFontFile(file, t.textStyle.uploadedFamily);
+        commit({
+          ...kit,
+          fonts: [
+            ...kit.fonts.filter((current) => current.family !== font.family),
+            font,
+          ],
+        });
+      },
+      t.brand.importFailed,
+    );
+
+  const handleLogoSelect = (event: ChangeEvent<HTMLInputElement>) =>
+    readFile(
+      event,
+      async (file) => {
+        const { src, aspect } = await readImageFile(file);
+        commit({
+          ...kit,
+          logos: [
+            ...kit.logos,
+            {
+              id: createBrandId(),
+              name: file.name.replace(/\.[^/.]+$/, "") || t.layers.image,
+              src,
+              aspect,
+            },
+          ],
+        });
+      },
+      t.common.imageUnreadable,
+    );
+
+  const handleImport = (event: ChangeEvent<HTMLInputElement>) =>
+    readFile(
+      event,
+      async (file) => commit(parseBrandKitFile(await file.text())),
+      t.brand.importFailed,
+    );
+
+  const addColor = () =>
+    commit({
+      ...kit,
+      colors: [
+        ...kit.colors,
+        {
+          id: createBrandId(),
+          name: t.brand.colorName(kit.colors.length + 1),
+          value: accentColor,
+        },
+      ],
+    });
+
+  const patchColor = (id: string, patch: { name?: string; value?: string }) =>
+    commit({
+      ...kit,
+      colors: kit.colors.map((color) =>
+        color.id === id ? { ...color, ...patch } : color,
+      ),
+    });
+
+  const renameLogo = (id: string, name: string) =>
+    commit({
+      ...kit,
+      logos: kit.logos.map((logo) => (logo.id === id ? { ...logo, name } : logo)),
+    });
+
+  const renameStyle = (id: string, name: string) =>
+    commit({
+      ...kit,
+      textStyles: kit.textStyles.map((entry) =>
+        entry.id === id ? { ...entry, name } : entry,
+      ),
+    });
+
+  const isEmpty =
+    kit.colors.length === 0 &&
+    kit.fonts.length === 0 &&
+    kit.logos.length === 0 &&
+    kit.textStyles.length === 0;
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t.brand.title}</h2>
+          <p className="text-sm text-white/60">{t.brand.description}</p>
+        </div>
+        <div className="flex shrink-0 flex-col gap-2 sm:flex-row">
+          <button
+            type="button"
+            onClick={() =>
+              downloadJson(serializeBrandKit(kit), t.brand.fileName)
+            }
+            disabled={isEmpty}
+            className={BUTTON_CLASS}
+          >
+            {t.common.export}
+          </button>
+          <label className={`cursor-pointer text-center ${BUTTON_CLASS}`}>
+            {t.brand.import}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <span className={LABEL_CLASS}>{t.brand.colors}</span>
+          <button type="button" onClick={addColor} className={ICON_BUTTON_CLASS}>
+            {t.brand.addColor}
+          </button>
+        </div>
+        {kit.colors.length > 0 ? (
+          <ul className="grid gap-2 sm:grid-cols-2">
+            {kit.colors.map((color) => (
+              <li key={color.id} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={color.value}
+                  onChange={(event) =>
+                    patchColor(color.id, { value: event.target.value })
+                  }
+                  className="h-9 w-12 shrink-0 cursor-pointer rounded-lg border border-white/20 bg-transparent"
+                  aria-label={color.name}
+                />
+                <input
+                  type="text"
+                  value={color.name}
+                  onChange={(event) =>
+                    patchColor(color.id, { name: event.target.value })
+                  }
+                  className={FIELD_CLASS}
+                  aria-label={t.brand.name}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    commit({
+                      ...kit,
+                      colors: kit.colors.filter((entry) => entry !== color),
+                    })
+                  }
+                  className={ICON_BUTTON_CLASS}
+                  aria-label={t.brand.remove(color.name)}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-white/40">{t.brand.noColors}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <span className={LABEL_CLASS}>{t.brand.fonts}</span>
+          <label className={`cursor-pointer ${ICON_BUTTON_CLASS}`}>
+            {t.brand.addFont}
+            <input
+              type="file"
+              accept={FONT_INPUT_ACCEPT}
+              className="hidden"
+              onChange={handleFontSelect}
+            />
+          </label>
+        </div>
+        {kit.fonts.length > 0 ? (
+          <ul className="flex flex-wrap gap-2">
+            {kit.fonts.map((font) => (
+              <li
+                key={font.family}
+                className="flex items-center gap-2 rounded-lg bg-neutral-900 px-2 py-1 text-sm text-white/80"
+              >
+                <span style={{ fontFamily: `"${font.family}"` }}>
+                  {font.family}
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    commit({
+                      ...kit,
+                      fonts: kit.fonts.filter((entry) => entry !== font),
+                    })
+                  }
+                  className="text-white/40 hover:text-red-300"
+                  aria-label={t.brand.remove(font.family)}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-white/40">{t.brand.noFonts}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <span className={LABEL_CLASS}>{t.brand.logos}</span>
+          <label className={`cursor-pointer ${ICON_BUTTON_CLASS}`}>
+            {t.brand.addLogo}
+            <input
+              type="file"
+              accept={IMAGE_INPUT_ACCEPT}
+              className="hidden"
+              onChange={handleLogoSelect}
+            />
+          </label>
+        </div>
+        {kit.logos.length > 0 ? (
+          <ul className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+            {kit.logos.map((logo) => (
+              <li
+                key={logo.id}
+                className="flex flex-col gap-2 rounded-xl border border-white/10 bg-neutral-900/60 p-2"
+              >
+                <span
+                  role="img"
+                  aria-label={logo.name}
+                  className="block h-16 rounded-lg bg-contain bg-center bg-no-repeat"
+                  style={{ backgroundImage: `url("${logo.src}")` }}
+                />
+                <div className="flex items-center gap-1">
+                  <input
+                    type="text"
+                    value={logo.name}
+                    onChange={(event) =>
+                      renameLogo(logo.id, event.target.value)
+                    }
+                    className={FIELD_CLASS}
+                    aria-label={t.brand.name}
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      commit({
+                        ...kit,
+                        logos: kit.logos.filter((entry) => entry !== logo),
+                      })
+                    }
+                    className={ICON_BUTTON_CLASS}
+                    aria-label={t.brand.remove(logo.name)}
+                  >
+                    ✕
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-white/40">{t.brand.noLogos}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className={LABEL_CLASS}>{t.brand.textStyles}</span>
+        {kit.textStyles.length > 0 ? (
+          <ul className="flex flex-col gap-2">
+            {kit.textStyles.map((entry) => (
+              <li key={entry.id} className="flex items-center gap-2">
+                <span
+                  className="w-12 shrink-0 rounded-lg bg-neutral-900 py-1 text-center text-lg"
+                  style={{
+                    fontFamily: entry.style.fontFamily
+                      ? `"${entry.style.fontFamily}"`
+                      : undefined,
+                    fontWeight: entry.style.fontWeight,
+                    color: entry.style.useAccent
+                      ? accentColor
+                      : entry.style.color,
+                  }}
+                  aria-hidden
+                >
+                  Aa
+                </span>
+                <input
+                  type="text"
+                  value={entry.name}
+                  onChange={(event) =>
+                    renameStyle(entry.id, event.target.value)
+                  }
+                  className={FIELD_CLASS}
+                  aria-label={t.brand.name}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    commit({
+                      ...kit,
+                      textStyles: kit.textStyles.filter(
+                        (current) => current !== entry,
+                      ),
+                    })
+                  }
+                  className={ICON_BUTTON_CLASS}
+                  aria-label={t.brand.remove(entry.name)}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-white/40">{t.brand.noTextStyles}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import { BrandKitContext } from "@/hooks/useBrandKit";
+import {
+  BrandKit,
+  EMPTY_BRAND_KIT,
+  loadBrandKit,
+  saveBrandKit,
+} from "@/lib/brandKit";
+
+type BrandKitProviderProps = {
+  children: ReactNode;
+};
+
+export function BrandKitProvider({ children }: BrandKitProviderProps) {
+  const [kit, setKitState] = useState<BrandKit>(EMPTY_BRAND_KIT);
+
+  // Local storage only exists in the browser, after the first render.
+  useEffect(() => {
+    setKitState(loadBrandKit());
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      kit,
+      setKit: (next: BrandKit) => {
+        saveBrandKit(next);
+        setKitState(next);
+      },
+    }),
+    [kit],
+  );
+
+  return (
+    <BrandKitContext.Provider value={value}>{children}</BrandKitContext.Provider>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useBrandKit } from "@/hooks/useBrandKit";
+import { useI18n } from "@/hooks/useI18n";
+import { isSameColor } from "@/lib/brandKit";
+
+type BrandSwatchesProps = {
+  value: string | null;
+  disabled?: boolean;
+  onPick: (color: string) => void;
+};
+
+/** The brand kit's colors, shown ahead of a color picker. */
+export function BrandSwatches({ value, disabled, onPick }: BrandSwatchesProps) {
+  const { t } = useI18n();
+  const { kit } = useBrandKit();
+
+  if (kit.colors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      role="group"
+      aria-label={t.brand.colors}
+      className="flex flex-wrap items-center gap-1"
+    >
+      {kit.colors.map((color) => {
+        const active = value !== null && isSameColor(value, color.value);
+        return (
+          <button
+            key={color.id}
+            type="button"
+            disabled={disabled}
+            onClick={() => onPick(color.value)}
+            title={color.name || color.value}
+            aria-label={t.brand.useColor(color.name || color.value)}
+            aria-pressed={active}
+            className={`h-6 w-6 rounded-full border transition disabled:cursor-not-allowed disabled:opacity-30 ${
+              active
+                ? "border-white ring-2 ring-white/40"
+                : "border-white/20 hover:border-white/60"
+            }`}
+            style={{ backgroundColor: color.value }}
+          />
+        );
+      })}
+    </div>
+  );
+}
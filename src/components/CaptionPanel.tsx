@@ -0,0 +1,364 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import { BrandSwatches } from "@/components/BrandSwatches";
+import { useI18n } from "@/hooks/useI18n";
+import { usePlayerState } from "@/hooks/usePlayerState";
+import {
+  CAPTION_INPUT_ACCEPT,
+  CaptionCue,
+  CaptionFormat,
+  CaptionPosition,
+  CaptionStyle,
+  CaptionTrack,
+  createCue,
+  parseCaptions,
+  serializeCaptions,
+  sortCues,
+} from "@/lib/captions";
+import { describeError } from "@/lib/errors";
+import type { SequencePlayer } from "@/lib/player";
+
+type CaptionPanelProps = {
+  track: CaptionTrack;
+  player: SequencePlayer | null;
+  onChange: (track: CaptionTrack) => void;
+  onError: (message: string) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const ICON_BUTTON_CLASS =
+  "rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const POSITION_OPTIONS: CaptionPosition[] = ["bottom", "middle", "top"];
+
+const WEIGHT_OPTIONS = [400, 600, 800];
+
+/** Length of a cue added at the playhead, in seconds. */
+const NEW_CUE_LENGTH = 2;
+
+const parseSeconds = (value: number) =>
+  Number.isNaN(value) ? null : Math.max(0, Math.round(value * 100) / 100);
+
+const downloadText = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function CaptionPanel({
+  track,
+  player,
+  onChange,
+  onError,
+}: CaptionPanelProps) {
+  const { t } = useI18n();
+  const { time } = usePlayerState(player);
+  const { style } = track;
+
+  const patchStyle = (patch: Partial<CaptionStyle>) =>
+    onChange({ ...track, style: { ...style, ...patch } });
+
+  const patchCue = (id: string, patch: Partial<CaptionCue>) =>
+    onChange({
+      ...track,
+      cues: track.cues.map((cue) => (cue.id === id ? { ...cue, ...patch } : cue)),
+    });
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const [file] = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const cues = parseCaptions(await file.text());
+      onChange({ ...track, enabled: true, cues });
+    } catch (error) {
+      onError(describeError(t, error, t.captions.unreadable));
+    }
+  };
+
+  const handleExport = (format: CaptionFormat) =>
+    downloadText(
+      `${t.captions.fileName}.${format}`,
+      serializeCaptions(track.cues, format),
+      format === "srt" ? "application/x-subrip" : "text/vtt",
+    );
+
+  const addCueAtPlayhead = () =>
+    onChange({
+      ...track,
+      cues: sortCues([
+        ...track.cues,
+        createCue(time, time + NEW_CUE_LENGTH, t.captions.newCue),
+      ]),
+    });
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t.captions.title}</h2>
+          <p className="text-sm text-white/60">{t.captions.description}</p>
+        </div>
+        <label className="flex shrink-0 items-center gap-2 text-sm text-white/70">
+          <input
+            type="checkbox"
+            checked={track.enabled}
+            onChange={(event) =>
+              onChange({ ...track, enabled: event.target.checked })
+            }
+          />
+          {t.captions.show}
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <label className="cursor-pointer rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20">
+          {t.captions.import}
+          <input
+            type="file"
+            accept={CAPTION_INPUT_ACCEPT}
+            className="hidden"
+            onChange={handleImport}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={addCueAtPlayhead}
+          className="rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20"
+        >
+          {t.captions.addAtPlayhead}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleExport("srt")}
+          disabled={track.cues.length === 0}
+          className="rounded-xl border border-white/10 px-4 py-2 text-sm text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30"
+        >
+          {t.captions.downloadSrt}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleExport("vtt")}
+          disabled={track.cues.length === 0}
+          className="rounded-xl border border-white/10 px-4 py-2 text-sm text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30"
+        >
+          {t.captions.downloadVtt}
+        </button>
+      </div>
+
+      <ul className="flex max-h-80 flex-col gap-2 overflow-y-auto pr-1">
+        {track.cues.map((cue) => {
+          const active = time >= cue.start && time < cue.end;
+          return (
+            <li
+              key={cue.id}
+              className={`flex flex-col gap-2 rounded-xl border px-3 py-2 ${
+                active
+                  ? "border-white/40 bg-white/10"
+                  : "border-white/10 bg-neutral-900/60"
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={cue.start}
+                  onChange={(event) => {
+                    const start = parseSeconds(event.target.valueAsNumber);
+                    if (start !== null) {
+                      patchCue(cue.id, { start });
+                    }
+                  }}
+                  className={FIELD_CLASS}
+                  aria-label={t.captions.cueStart}
+                />
+                <span className="text-white/40">→</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={cue.end}
+                  onChange={(event) => {
+                    const end = parseSeconds(event.target.valueAsNumber);
+                    if (end !== null) {
+                      patchCue(cue.id, { end });
+                    }
+                  }}
+                  className={FIELD_CLASS}
+                  aria-label={t.captions.cueEnd}
+                />
+                <button
+                  type="button"
+                  onClick={() => player?.seek(cue.start).catch(() => undefined)}
+                  className={ICON_BUTTON_CLASS}
+                  aria-label={t.captions.seekToCue}
+                >
+                  ▶
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onChange({
+                      ...track,
+                      cues: track.cues.filter((entry) => entry.id !== cue.id),
+                    })
+                  }
+                  className={ICON_BUTTON_CLASS}
+                  aria-label={t.captions.deleteCue}
+                >
+                  ✕
+                </button>
+              </div>
+              <textarea
+                value={cue.text}
+                onChange={(event) => patchCue(cue.id, { text: event.target.value })}
+                rows={2}
+                className={FIELD_CLASS}
+              />
+            </li>
+          );
+        })}
+        {track.cues.length === 0 && (
+          <li className="rounded-xl border border-dashed border-white/10 px-3 py-4 text-center text-sm text-white/40">
+            {t.captions.empty}
+          </li>
+        )}
+      </ul>
+
+      <div className="flex flex-col gap-4 border-t border-white/10 pt-5">
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          <label className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.common.size}</span>
+            <input
+              type="range"
+              min={2}
+              max={8}
+              step={0.1}
+              value={Math.round(style.fontSize * 1000) / 10}
+              onChange={(event) =>
+                patchStyle({ fontSize: event.target.valueAsNumber / 100 })
+              }
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.common.weight}</span>
+            <select
+              value={style.fontWeight}
+              onChange={(event) =>
+                patchStyle({ fontWeight: Number(event.target.value) })
+              }
+              className={FIELD_CLASS}
+            >
+              {WEIGHT_OPTIONS.map((weight) => (
+                <option key={weight} value={weight}>
+                  {weight}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.captions.position}</span>
+            <select
+              value={style.position}
+              onChange={(event) =>
+                patchStyle({ position: event.target.value as CaptionPosition })
+              }
+              className={FIELD_CLASS}
+            >
+              {POSITION_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {t.captions.positions[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>
+            {t.captions.margin(Math.round(style.margin * 100))}
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={40}
+            step={1}
+            value={Math.round(style.margin * 100)}
+            disabled={style.position === "middle"}
+            onChange={(event) =>
+              patchStyle({ margin: event.target.valueAsNumber / 100 })
+            }
+            className="disabled:opacity-30"
+          />
+        </label>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-white/70">
+          <BrandSwatches
+            value={style.color}
+            onPick={(color) => patchStyle({ color })}
+          />
+          <label className="flex items-center gap-2">
+            <input
+              type="color"
+              value={style.color}
+              onChange={(event) => patchStyle({ color: event.target.value })}
+              className="h-9 w-12 cursor-pointer rounded-lg border border-white/20 bg-transparent"
+              aria-label={t.captions.captionColor}
+            />
+            {t.common.color}
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={style.background !== null}
+              onChange={(event) =>
+                patchStyle({
+                  background: event.target.checked ? "rgba(0,0,0,0.6)" : null,
+                })
+              }
+            />
+            {t.captions.box}
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={style.outline}
+              onChange={(event) => patchStyle({ outline: event.target.checked })}
+            />
+            {t.captions.outline}
+          </label>
+          <input
+            type="color"
+            value={style.outlineColor}
+            disabled={!style.outline}
+            onChange={(event) => patchStyle({ outlineColor: event.target.value })}
+            className="h-9 w-12 cursor-pointer rounded-lg border border-white/20 bg-transparent disabled:opacity-30"
+            aria-label={t.common.outlineColor}
+          />
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={style.uppercase}
+              onChange={(event) =>
+                patchStyle({ uppercase: event.target.checked })
+              }
+            />
+            {t.common.uppercase}
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import { describeCodec, formatFileSize } from "@/lib/probe";
+import { Clip } from "@/lib/sequence";
+import { formatTimecode } from "@/lib/time";
+
+type ClipDetailsProps = {
+  clip: Clip;
+};
+
+const formatFrameRate = (fps: number) => `${Number(fps.toFixed(2))} fps`;
+
+const formatBitrate = (bytes: number, seconds: number) =>
+  `${((bytes * 8) / seconds / 1_000_000).toFixed(1)} Mb/s`;
+
+/** What the clip's file is made of, as read when it was added. */
+export function ClipDetails({ clip }: ClipDetailsProps) {
+  const { t } = useI18n();
+  const { source } = clip;
+  const size = source?.size ?? clip.file.size;
+  const unknown = t.clips.unknown;
+
+  const audio = !source?.hasAudio
+    ? source?.hasAudio === false
+      ? t.clips.noAudio
+      : unknown
+    : source.audioCodec
+      ? describeCodec(source.audioCodec)
+      : t.clips.hasAudio;
+
+  const rows: [string, string][] = [
+    [t.clips.resolution, `${clip.width} × ${clip.height}`],
+    [
+      t.clips.frameRate,
+      source?.frameRate ? formatFrameRate(source.frameRate) : unknown,
+    ],
+    [t.clips.duration, formatTimecode(clip.duration)],
+    [t.clips.container, source?.container ?? unknown],
+    [
+      t.clips.videoCodec,
+      source?.videoCodec ? describeCodec(source.videoCodec) : unknown,
+    ],
+    [t.clips.audioCodec, audio],
+    [t.clips.fileSize, formatFileSize(size)],
+    [
+      t.clips.bitrate,
+      clip.duration > 0 ? formatBitrate(size, clip.duration) : unknown,
+    ],
+  ];
+
+  return (
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 rounded-lg bg-black/30 px-3 py-2 text-xs sm:grid-cols-4">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex flex-col">
+          <dt className="text-white/40">{label}</dt>
+          <dd className="font-mono text-white/80">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
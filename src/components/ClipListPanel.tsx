@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import { ClipDetails } from "@/components/ClipDetails";
+import { useI18n } from "@/hooks/useI18n";
+import {
+  Clip,
+  getClipLength,
+  getSequenceDuration,
+  moveClip,
+  trimClip,
+} from "@/lib/sequence";
+import { formatTimecode } from "@/lib/time";
+
+type ClipListPanelProps = {
+  clips: Clip[];
+  onChange: (clips: Clip[]) => void;
+  onRemove: (id: string) => void;
+};
+
+const ICON_BUTTON_CLASS =
+  "rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+export function ClipListPanel({ clips, onChange, onRemove }: ClipListPanelProps) {
+  const { t } = useI18n();
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const patchClip = (id: string, update: (clip: Clip) => Clip) =>
+    onChange(clips.map((clip) => (clip.id === id ? update(clip) : clip)));
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t.clips.title}</h2>
+          <p className="text-sm text-white/60">{t.clips.description}</p>
+        </div>
+        <span className="shrink-0 font-mono text-sm text-white/60">
+          {formatTimecode(getSequenceDuration(clips))}
+        </span>
+      </div>
+
+      <ul className="flex flex-col gap-3">
+        {clips.map((clip, index) => (
+          <li
+            key={clip.id}
+            className="flex flex-col gap-3 rounded-xl border border-white/10 bg-neutral-900/60 px-3 py-3"
+          >
+            <div className="flex items-center gap-2">
+              <span className="w-6 text-xs text-white/40">{index + 1}.</span>
+              <span className="min-w-0 flex-1 truncate text-sm font-semibold">
+                {clip.name}
+              </span>
+              <span className="font-mono text-xs text-white/50">
+                {formatTimecode(getClipLength(clip))}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setDetailsId((current) =>
+                    current === clip.id ? null : clip.id,
+                  )
+                }
+                className={ICON_BUTTON_CLASS}
+                aria-label={t.clips.details}
+                aria-expanded={detailsId === clip.id}
+              >
+                ℹ
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(moveClip(clips, clip.id, -1))}
+                disabled={index === 0}
+                className={ICON_BUTTON_CLASS}
+                aria-label={t.clips.moveEarlier}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(moveClip(clips, clip.id, 1))}
+                disabled={index === clips.length - 1}
+                className={ICON_BUTTON_CLASS}
+                aria-label={t.clips.moveLater}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(clip.id)}
+                className={ICON_BUTTON_CLASS}
+                aria-label={t.clips.remove}
+              >
+                ✕
+              </button>
+            </div>
+
+            {detailsId === clip.id && <ClipDetails clip={clip} />}
+
+            <div className="grid grid-cols-2 gap-3">
+              {(["trimStart", "trimEnd"] as const).map((edge) => (
+                <label key={edge} className="flex flex-col gap-1">
+                  <span className="flex justify-between">
+                    <span className={LABEL_CLASS}>
+                      {t.clips[edge]}
+                    </span>
+                    <span className="font-mono text-xs text-white/60">
+                      {formatTimecode(clip[edge])}
+                    </span>
+                  </span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={clip.duration}
+                    step={0.05}
+                    value={clip[edge]}
+                    onChange={(event) =>
+                      patchClip(clip.id, (current) =>
+                        trimClip(current, edge, event.target.valueAsNumber),
+                      )
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+          </li>
+        ))}
+        {clips.length === 0 && (
+          <li className="rounded-xl border border-dashed border-white/10 px-3 py-4 text-center text-sm text-white/40">
+            {t.clips.empty}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
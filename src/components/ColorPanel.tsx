@@ -0,0 +1,271 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import { BrandSwatches } from "@/components/BrandSwatches";
+import { useI18n } from "@/hooks/useI18n";
+import { describeError } from "@/lib/errors";
+import {
+  ColorGrading,
+  NEUTRAL_GRADING,
+  OverlayGradient,
+  isNeutralGrading,
+  parseCubeLut,
+} from "@/lib/grading";
+
+type ColorPanelProps = {
+  grading: ColorGrading;
+  gradient: OverlayGradient;
+  onGradingChange: (grading: ColorGrading) => void;
+  onGradientChange: (gradient: OverlayGradient) => void;
+  onError: (message: string) => void;
+};
+
+type GradingSlider = "brightness" | "contrast" | "saturation" | "temperature";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const BUTTON_CLASS =
+  "rounded-xl border border-white/10 px-3 py-2 text-sm text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+const SLIDERS: GradingSlider[] = [
+  "brightness",
+  "contrast",
+  "saturation",
+  "temperature",
+];
+
+const formatAmount = (value: number) => {
+  const amount = Math.round(value * 100);
+  return amount > 0 ? `+${amount}` : `${amount}`;
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function ColorPanel({
+  grading,
+  gradient,
+  onGradingChange,
+  onGradientChange,
+  onError,
+}: ColorPanelProps) {
+  const { t } = useI18n();
+
+  const patchGrading = (patch: Partial<ColorGrading>) =>
+    onGradingChange({ ...grading, ...patch });
+
+  const patchGradient = (patch: Partial<OverlayGradient>) =>
+    onGradientChange({ ...gradient, ...patch });
+
+  const handleLutSelect = async (event: ChangeEvent<HTMLInputElement>) => {
+    const [file] = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      patchGrading({
+        lut: parseCubeLut(file.name, await file.text()),
+        lutStrength: 1,
+      });
+    } catch (error) {
+      onError(describeError(t, error, t.color.lutUnreadable));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t.color.title}</h2>
+          <p className="text-sm text-white/60">{t.color.description}</p>
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            onGradingChange({
+              ...NEUTRAL_GRADING,
+              lut: grading.lut,
+              lutStrength: grading.lutStrength,
+            })
+          }
+          disabled={isNeutralGrading({ ...grading, lut: null })}
+          className={`shrink-0 ${BUTTON_CLASS}`}
+        >
+          {t.color.reset}
+        </button>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {SLIDERS.map((key) => (
+          <label key={key} className="flex flex-col gap-1">
+            <span className="flex justify-between">
+              <span className={LABEL_CLASS}>{t.color.sliders[key]}</span>
+              <span className="font-mono text-xs text-white/50">
+                {formatAmount(grading[key])}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={-1}
+              max={1}
+              step={0.01}
+              value={grading[key]}
+              onChange={(event) =>
+                patchGrading({ [key]: event.target.valueAsNumber })
+              }
+              onDoubleClick={() => patchGrading({ [key]: 0 })}
+            />
+          </label>
+        ))}
+        <label className="flex flex-col gap-1">
+          <span className="flex justify-between">
+            <span className={LABEL_CLASS}>{t.color.vignette}</span>
+            <span className="font-mono text-xs text-white/50">
+              {formatPercent(grading.vignette)}
+            </span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={grading.vignette}
+            onChange={(event) =>
+              patchGrading({ vignette: event.target.valueAsNumber })
+            }
+            onDoubleClick={() => patchGrading({ vignette: 0 })}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <span className={LABEL_CLASS}>{t.color.lut}</span>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="cursor-pointer rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20">
+            {grading.lut ? t.color.replaceLut : t.color.importLut}
+            <input
+              type="file"
+              accept=".cube"
+              className="hidden"
+              onChange={handleLutSelect}
+            />
+          </label>
+          {grading.lut ? (
+            <>
+              <span className="truncate text-sm text-white/70">
+                {grading.lut.name}
+              </span>
+              <button
+                type="button"
+                onClick={() => patchGrading({ lut: null, lutStrength: 1 })}
+                className={BUTTON_CLASS}
+                aria-label={t.color.removeLut}
+              >
+                ✕
+              </button>
+            </>
+          ) : (
+            <span className="text-xs text-white/40">{t.color.noLut}</span>
+          )}
+        </div>
+        {grading.lut && (
+          <label className="flex flex-col gap-1">
+            <span className="flex justify-between">
+              <span className={LABEL_CLASS}>{t.color.lutStrength}</span>
+              <span className="font-mono text-xs text-white/50">
+                {formatPercent(grading.lutStrength)}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={grading.lutStrength}
+              onChange={(event) =>
+                patchGrading({ lutStrength: event.target.valueAsNumber })
+              }
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-between gap-4">
+          <span className={LABEL_CLASS}>{t.color.gradient}</span>
+          <label className="flex items-center gap-2 text-sm text-white/70">
+            <input
+              type="checkbox"
+              checked={gradient.enabled}
+              onChange={(event) =>
+                patchGradient({ enabled: event.target.checked })
+              }
+            />
+            {t.color.showGradient}
+          </label>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-[auto_1fr_1fr]">
+          <div className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.common.color}</span>
+            <div className="flex flex-wrap items-center gap-2">
+              <BrandSwatches
+                value={gradient.color}
+                disabled={!gradient.enabled}
+                onPick={(color) => patchGradient({ color })}
+              />
+              <input
+                type="color"
+                value={gradient.color}
+                disabled={!gradient.enabled}
+                onChange={(event) =>
+                  patchGradient({ color: event.target.value })
+                }
+                className="h-9 w-12 cursor-pointer rounded border border-white/10 bg-transparent disabled:cursor-not-allowed disabled:opacity-30"
+                aria-label={t.color.gradient}
+              />
+            </div>
+          </div>
+          <label className="flex flex-col gap-1">
+            <span className="flex justify-between">
+              <span className={LABEL_CLASS}>{t.color.gradientHeight}</span>
+              <span className="font-mono text-xs text-white/50">
+                {formatPercent(gradient.height)}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={0.05}
+              max={1}
+              step={0.01}
+              value={gradient.height}
+              disabled={!gradient.enabled}
+              onChange={(event) =>
+                patchGradient({ height: event.target.valueAsNumber })
+              }
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="flex justify-between">
+              <span className={LABEL_CLASS}>{t.color.gradientOpacity}</span>
+              <span className="font-mono text-xs text-white/50">
+                {formatPercent(gradient.opacity)}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={gradient.opacity}
+              disabled={!gradient.enabled}
+              onChange={(event) =>
+                patchGradient({ opacity: event.target.valueAsNumber })
+              }
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  COUNTDOWN_TIME_ZONES,
+  CountdownFormat,
+  CountdownLabels,
+  CountdownMode,
+  CountdownSettings,
+  CountdownWording,
+  countdownSeconds,
+  formatCountdown,
+  resolveCountdownWording,
+  resolveCountdownTarget,
+} from "@/lib/countdown";
+import { OverlayLanguage } from "@/lib/languages";
+
+type CountdownFieldsProps = {
+  countdown: CountdownSettings;
+  /** The scene's overlay languages; the first one is the layer's own. */
+  languages: OverlayLanguage[];
+  onChange: (countdown: CountdownSettings) => void;
+  /** Turns the layer back into plain text. */
+  onRemove: () => void;
+};
+
+type WordingFieldsProps = {
+  language: OverlayLanguage;
+  wording: CountdownWording;
+  onChange: (wording: CountdownWording) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const FORMAT_OPTIONS: CountdownFormat[] = ["units", "clock", "days"];
+
+const MODE_OPTIONS: CountdownMode[] = ["ticking", "static"];
+
+const LABEL_KEYS: (keyof CountdownLabels)[] = [
+  "days",
+  "hours",
+  "minutes",
+  "seconds",
+  "dayLeft",
+  "daysLeft",
+];
+
+/** The ended text and unit words of one overlay language. */
+function WordingFields({ language, wording, onChange }: WordingFieldsProps) {
+  const { t } = useI18n();
+
+  return (
+    <fieldset className="flex flex-col gap-2 border-t border-white/10 pt-3">
+      <legend className={LABEL_CLASS}>
+        {t.countdown.wording(language.label)}
+      </legend>
+      <label className="flex flex-col gap-1">
+        <span className={LABEL_CLASS}>{t.countdown.endedText}</span>
+        <input
+          type="text"
+          value={wording.endedText}
+          onChange={(event) =>
+            onChange({ ...wording, endedText: event.target.value })
+          }
+          className={FIELD_CLASS}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+        {LABEL_KEYS.map((key) => (
+          <label key={key} className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.countdown.labels[key]}</span>
+            <input
+              type="text"
+              value={wording.labels[key]}
+              onChange={(event) =>
+                onChange({
+                  ...wording,
+                  labels: { ...wording.labels, [key]: event.target.value },
+                })
+              }
+              className={FIELD_CLASS}
+            />
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+export function CountdownFields({
+  countdown,
+  languages,
+  onChange,
+  onRemove,
+}: CountdownFieldsProps) {
+  const { t } = useI18n();
+  const patch = (changes: Partial<CountdownSettings>) =>
+    onChange({ ...countdown, ...changes });
+  const valid = resolveCountdownTarget(countdown) !== null;
+  const zones = COUNTDOWN_TIME_ZONES.includes(countdown.timeZone)
+    ? COUNTDOWN_TIME_ZONES
+    : [countdown.timeZone, ...COUNTDOWN_TIME_ZONES];
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-neutral-950/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <span className={LABEL_CLASS}>{t.countdown.title}</span>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-xs text-white/60 underline-offset-2 transition hover:text-white hover:underline"
+        >
+          {t.countdown.backToText}
+        </button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.countdown.target}</span>
+          <input
+            type="datetime-local"
+            value={countdown.target}
+            onChange={(event) => patch({ target: event.target.value })}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.countdown.timeZone}</span>
+          <select
+            value={countdown.timeZone}
+            onChange={(event) => patch({ timeZone: event.target.value })}
+            className={FIELD_CLASS}
+          >
+            {zones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.countdown.format}</span>
+          <select
+            value={countdown.format}
+            onChange={(event) =>
+              patch({ format: event.target.value as CountdownFormat })
+            }
+            className={FIELD_CLASS}
+          >
+            {FORMAT_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t.countdown.formats[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.countdown.mode}</span>
+          <select
+            value={countdown.mode}
+            onChange={(event) =>
+              patch({ mode: event.target.value as CountdownMode })
+            }
+            className={FIELD_CLASS}
+          >
+            {MODE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t.countdown.modes[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {languages.map((language, index) => (
+        <WordingFields
+          key={language.code}
+          language={language}
+          wording={
+            index === 0
+              ? countdown
+              : resolveCountdownWording(countdown, language.code)
+          }
+          onChange={({ endedText, labels }) =>
+            patch(
+              index === 0
+                ? { endedText, labels }
+                : {
+                    translations: {
+                      ...countdown.translations,
+                      [language.code]: { endedText, labels },
+                    },
+                  },
+            )
+          }
+        />
+      ))}
+
+      <p className={`text-sm ${valid ? "text-white/60" : "text-red-300"}`}>
+        {valid
+          ? t.countdown.now(
+              formatCountdown(
+                countdown,
+                countdownSeconds(countdown, Date.now(), 0),
+              ),
+            )
+          : t.countdown.invalid}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  CODEC_PROFILES,
+  ContainerFormat,
+  ExportCapabilities,
+  ExportSettings,
+  FRAME_RATE_OPTIONS,
+  QUALITY_OPTIONS,
+  QualityPreset,
+  RESOLUTION_OPTIONS,
+  ResolutionPreset,
+  isContainerSupported,
+  resolveBitrate,
+} from "@/lib/export/settings";
+import { FrameSize } from "@/lib/render/frame";
+
+type ExportSettingsPanelProps = {
+  settings: ExportSettings;
+  capabilities: ExportCapabilities | null;
+  /** Size the current settings will encode at. */
+  exportSize: FrameSize;
+  disabled?: boolean;
+  onChange: (settings: ExportSettings) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40 disabled:opacity-40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const formatMbps = (bitsPerSecond: number) =>
+  `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`;
+
+export function ExportSettingsPanel({
+  settings,
+  capabilities,
+  exportSize,
+  disabled,
+  onChange,
+}: ExportSettingsPanelProps) {
+  const { t } = useI18n();
+  const support = capabilities?.[settings.container];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid gap-2 sm:grid-cols-2">
+        {(Object.keys(CODEC_PROFILES) as ContainerFormat[]).map((container) => {
+          const profile = CODEC_PROFILES[container];
+          const supported =
+            !capabilities || isContainerSupported(capabilities[container]);
+          const active = settings.container === container;
+          return (
+            <button
+              key={container}
+              type="button"
+              disabled={disabled || !supported}
+              onClick={() => onChange({ ...settings, container })}
+              aria-pressed={active}
+              className={`rounded-xl border px-3 py-2 text-left text-sm transition disabled:cursor-not-allowed disabled:opacity-40 ${
+                active
+                  ? "border-white/60 bg-white/10"
+                  : "border-white/10 hover:border-white/30"
+              }`}
+            >
+              <span className="block font-semibold">{profile.label}</span>
+              <span className="block text-xs text-white/50">
+                {supported ? `.${profile.extension}` : t.export.unsupported}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.export.resolution}</span>
+          <select
+            value={settings.resolution}
+            disabled={disabled}
+            onChange={(event) =>
+              onChange({
+                ...settings,
+                resolution: event.target.value as ResolutionPreset,
+              })
+            }
+            className={FIELD_CLASS}
+          >
+            {RESOLUTION_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t.export.resolutions[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.export.frameRate}</span>
+          <select
+            value={settings.frameRate}
+            disabled={disabled}
+            onChange={(event) =>
+              onChange({ ...settings, frameRate: Number(event.target.value) })
+            }
+            className={FIELD_CLASS}
+          >
+            {FRAME_RATE_OPTIONS.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate} fps
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.export.quality}</span>
+          <select
+            value={settings.quality}
+            disabled={disabled}
+            onChange={(event) =>
+              onChange({
+                ...settings,
+                quality: event.target.value as QualityPreset,
+              })
+            }
+            className={FIELD_CLASS}
+          >
+            {QUALITY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t.export.qualities[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {settings.quality === "custom" && (
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.export.bitrate}</span>
+          <input
+            type="number"
+            min={0.5}
+            max={80}
+            step={0.5}
+            value={settings.bitrate / 1_000_000}
+            disabled={disabled}
+            onChange={(event) => {
+              const mbps = event.target.valueAsNumber;
+              if (!Number.isNaN(mbps) && mbps > 0) {
+                onChange({ ...settings, bitrate: Math.round(mbps * 1_000_000) });
+              }
+            }}
+            className={FIELD_CLASS}
+          />
+        </label>
+      )}
+
+      <p className="text-xs text-white/50">
+        {exportSize.width}×{exportSize.height} · {settings.frameRate} fps ·{" "}
+        {formatMbps(resolveBitrate(settings, exportSize))}
+        {support &&
+          (support.webCodecs ? t.export.fast : t.export.realtime)}
+      </p>
+    </div>
+  );
+}
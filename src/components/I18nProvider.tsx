@@ -0,0 +1,34 @@
+"use client";
+
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import { I18nContext } from "@/hooks/useI18n";
+import { LOCALE_COOKIE, Locale, getMessages } from "@/lib/i18n/locales";
+
+type I18nProviderProps = {
+  /** Negotiated on the server, so the first render already matches. */
+  initialLocale: Locale;
+  children: ReactNode;
+};
+
+export function I18nProvider({ initialLocale, children }: I18nProviderProps) {
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const value = useMemo(
+    () => ({
+      locale,
+      t: getMessages(locale),
+      setLocale: (next: Locale) => {
+        document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+        setLocaleState(next);
+      },
+    }),
+    [locale],
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = value.t.meta.title;
+  }, [locale, value.t]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
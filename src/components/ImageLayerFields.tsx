@@ -0,0 +1,139 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import { PLACEMENT_PRESETS, placeBox, scaleImageBox } from "@/lib/placement";
+import { BlendMode, ImageLayer } from "@/lib/scene";
+
+type ImageLayerFieldsProps = {
+  layer: ImageLayer;
+  /** Output frame width / height, needed to keep the image undistorted. */
+  frameAspect: number;
+  onChange: (patch: Partial<ImageLayer>) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const BLEND_OPTIONS: BlendMode[] = [
+  "normal",
+  "multiply",
+  "screen",
+  "overlay",
+  "soft-light",
+  "darken",
+  "lighten",
+];
+
+const toPercent = (value: number) => Math.round(value * 1000) / 10;
+
+export function ImageLayerFields({
+  layer,
+  frameAspect,
+  onChange,
+}: ImageLayerFieldsProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>
+            {t.image.scale(toPercent(layer.box.width))}
+          </span>
+          <input
+            type="range"
+            min={2}
+            max={100}
+            step={0.5}
+            value={toPercent(layer.box.width)}
+            onChange={(event) =>
+              onChange({
+                box: scaleImageBox(
+                  layer,
+                  event.target.valueAsNumber / 100,
+                  frameAspect,
+                ),
+              })
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>
+            {t.image.opacity(Math.round(layer.opacity * 100))}
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={1}
+            value={Math.round(layer.opacity * 100)}
+            onChange={(event) =>
+              onChange({ opacity: event.target.valueAsNumber / 100 })
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.image.blendMode}</span>
+          <select
+            value={layer.blendMode}
+            onChange={(event) =>
+              onChange({ blendMode: event.target.value as BlendMode })
+            }
+            className={FIELD_CLASS}
+          >
+            {BLEND_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t.image.blendModes[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className={LABEL_CLASS}>{t.image.placement}</span>
+        <div className="flex flex-wrap gap-2">
+          {PLACEMENT_PRESETS.map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              onClick={() =>
+                onChange({
+                  box: placeBox(
+                    // Corners are only exact for an unrotated, undistorted box.
+                    {
+                      ...scaleImageBox(layer, layer.box.width, frameAspect),
+                      rotation: 0,
+                    },
+                    preset,
+                    frameAspect,
+                  ),
+                })
+              }
+              className="rounded-lg border border-white/10 px-3 py-1.5 text-xs text-white/70 transition hover:border-white/40 hover:text-white"
+            >
+              {t.image.placements[preset]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-start gap-2 text-sm text-white/70">
+        <input
+          type="checkbox"
+          checked={layer.watermark}
+          onChange={(event) => onChange({ watermark: event.target.checked })}
+          className="mt-1"
+        />
+        <span>
+          {t.image.watermark}
+          <span className="block text-xs text-white/40">
+            {t.image.watermarkHint}
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+}
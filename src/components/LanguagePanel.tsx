@@ -0,0 +1,361 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import { createZip } from "@/lib/batch/zip";
+import { describeError } from "@/lib/errors";
+import { isExportCancelled } from "@/lib/export/jobs";
+import type { ExportResult } from "@/lib/export/types";
+import {
+  LANGUAGE_PRESETS,
+  OverlayLanguage,
+  localizeScene,
+  removeTranslations,
+} from "@/lib/languages";
+import type { OverlayScene } from "@/lib/scene";
+
+type LanguagePanelProps = {
+  scene: OverlayScene;
+  /** Prefix of the exported files, usually the first clip's name. */
+  baseName: string;
+  disabled: boolean;
+  onChange: (scene: OverlayScene) => void;
+  /** Exports one language with the current clips, audio and settings. */
+  render: (scene: OverlayScene, label: string) => Promise<ExportResult>;
+  onRunningChange: (running: boolean) => void;
+  onError: (message: string) => void;
+};
+
+type JobStatus = "pending" | "rendering" | "done" | "error";
+
+type LanguageJob = {
+  status: JobStatus;
+  url: string | null;
+  blob: Blob | null;
+  extension: string | null;
+  error: string | null;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40 disabled:opacity-40";
+
+const BUTTON_CLASS =
+  "rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40";
+
+const SMALL_BUTTON_CLASS =
+  "rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  pending: "text-white/40",
+  rendering: "text-sky-300",
+  done: "text-emerald-300",
+  error: "text-red-300",
+};
+
+const PENDING_JOB: LanguageJob = {
+  status: "pending",
+  url: null,
+  blob: null,
+  extension: null,
+  error: null,
+};
+
+/** Value of the "other language" entry in the picker. */
+const CUSTOM_CHOICE = "custom";
+
+const revokeJobs = (jobs: Record<string, LanguageJob>) =>
+  Object.values(jobs).forEach((job) => job.url && URL.revokeObjectURL(job.url));
+
+export function LanguagePanel({
+  scene,
+  baseName,
+  disabled,
+  onChange,
+  render,
+  onRunningChange,
+  onError,
+}: LanguagePanelProps) {
+  const { t } = useI18n();
+  const [choice, setChoice] = useState<string>("");
+  const [customCode, setCustomCode] = useState<string>("");
+  const [customLabel, setCustomLabel] = useState<string>("");
+  const [jobs, setJobs] = useState<Record<string, LanguageJob>>({});
+  const [progress, setProgress] = useState<{
+    current: number;
+    total: number;
+  } | null>(null);
+  const [zipping, setZipping] = useState<boolean>(false);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+
+  useEffect(() => () => revokeJobs(jobsRef.current), []);
+
+  const { languages } = scene;
+  const available = LANGUAGE_PRESETS.filter(
+    (preset) => !languages.some((language) => language.code === preset.code),
+  );
+
+  const fileName = (language: OverlayLanguage, extension: string) =>
+    `${baseName}-${language.code}.${extension}`;
+
+  const updateJob = (code: string, job: LanguageJob | null) =>
+    setJobs((current) => {
+      const previous = current[code];
+      if (previous?.url && previous.url !== job?.url) {
+        URL.revokeObjectURL(previous.url);
+      }
+      const next = { ...current };
+      if (job) {
+        next[code] = job;
+      } else {
+        delete next[code];
+      }
+      return next;
+    });
+
+  const addLanguage = () => {
+    const language =
+      choice === CUSTOM_CHOICE
+        ? { code: customCode.trim(), label: customLabel.trim() }
+        : available.find((preset) => preset.code === choice);
+    if (!language?.code) {
+      return;
+    }
+    if (languages.some((entry) => entry.code === language.code)) {
+      onError(t.languages.duplicateCode(language.code));
+      return;
+    }
+    onChange({
+      ...scene,
+      languages: [
+        ...languages,
+        { code: language.code, label: language.label || language.code },
+      ],
+    });
+    setChoice("");
+    setCustomCode("");
+    setCustomLabel("");
+  };
+
+  const removeLanguage = (code: string) => {
+    const next = removeTranslations(scene, code);
+    onChange({
+      ...next,
+      languages: next.languages.filter((language) => language.code !== code),
+    });
+    updateJob(code, null);
+  };
+
+  /** One export per language, in order; cancelling stops the whole run. */
+  const runJobs = async (targets: OverlayLanguage[]) => {
+    if (progress || targets.length === 0) {
+      return;
+    }
+
+    onRunningChange(true);
+    try {
+      for (const [position, language] of targets.entries()) {
+        setProgress({ current: position + 1, total: targets.length });
+        updateJob(language.code, { ...PENDING_JOB, status: "rendering" });
+        try {
+          const result = await render(
+            localizeScene(scene, language.code),
+            t.languages.jobLabel(language.label),
+          );
+          updateJob(language.code, {
+            status: "done",
+            url: URL.createObjectURL(result.blob),
+            blob: result.blob,
+            extension: result.extension,
+            error: null,
+          });
+        } catch (error) {
+          if (isExportCancelled(error)) {
+            updateJob(language.code, null);
+            break;
+          }
+          console.error(error);
+          updateJob(language.code, {
+            ...PENDING_JOB,
+            status: "error",
+            error: describeError(t, error, t.common.renderFailed),
+          });
+        }
+      }
+    } finally {
+      setProgress(null);
+      onRunningChange(false);
+    }
+  };
+
+  const downloadZip = async () => {
+    setZipping(true);
+    try {
+      const files = languages.flatMap((language) => {
+        const job = jobs[language.code];
+        return job?.blob && job.extension
+          ? [{ name: fileName(language, job.extension), blob: job.blob }]
+          : [];
+      });
+      const archive = await createZip(files);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${baseName}-${t.languages.zipName}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      onError(describeError(t, error, t.common.zipFailed));
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const doneCount = languages.filter(
+    (language) => jobs[language.code]?.status === "done",
+  ).length;
+  const running = progress !== null;
+  const locked = disabled || running;
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div>
+        <h2 className="text-lg font-semibold">{t.languages.title}</h2>
+        <p className="text-sm text-white/60">{t.languages.description}</p>
+      </div>
+
+      <ul className="flex flex-col gap-2">
+        {languages.map((language, index) => {
+          const job = jobs[language.code] ?? PENDING_JOB;
+          return (
+            <li
+              key={language.code}
+              className="flex items-center gap-3 rounded-xl border border-white/10 bg-neutral-900/60 px-3 py-2"
+            >
+              <div className="flex min-w-0 flex-1 flex-col">
+                <span className="truncate text-sm font-semibold">
+                  {language.label}{" "}
+                  <span className="font-mono text-xs text-white/40">
+                    {language.code}
+                  </span>
+                </span>
+                <span className={`truncate text-xs ${STATUS_CLASSES[job.status]}`}>
+                  {index === 0 && job.status === "pending"
+                    ? t.languages.primary
+                    : (job.error ?? t.batch.status[job.status])}
+                </span>
+              </div>
+              {job.status === "done" && job.url && job.extension && (
+                <a
+                  href={job.url}
+                  download={fileName(language, job.extension)}
+                  className={SMALL_BUTTON_CLASS}
+                >
+                  {t.common.download}
+                </a>
+              )}
+              {job.status === "error" && (
+                <button
+                  type="button"
+                  onClick={() => runJobs([language])}
+                  disabled={locked}
+                  className={SMALL_BUTTON_CLASS}
+                >
+                  {t.common.retry}
+                </button>
+              )}
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => removeLanguage(language.code)}
+                  disabled={running}
+                  aria-label={t.languages.remove(language.label)}
+                  className={SMALL_BUTTON_CLASS}
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex gap-2">
+          <select
+            value={choice}
+            disabled={running}
+            onChange={(event) => setChoice(event.target.value)}
+            aria-label={t.languages.choose}
+            className={FIELD_CLASS}
+          >
+            <option value="">{t.languages.choose}</option>
+            {available.map((preset) => (
+              <option key={preset.code} value={preset.code}>
+                {preset.label}
+              </option>
+            ))}
+            <option value={CUSTOM_CHOICE}>{t.languages.custom}</option>
+          </select>
+          <button
+            type="button"
+            onClick={addLanguage}
+            disabled={
+              running ||
+              !choice ||
+              (choice === CUSTOM_CHOICE && !customCode.trim())
+            }
+            className={`shrink-0 ${BUTTON_CLASS}`}
+          >
+            {t.languages.add}
+          </button>
+        </div>
+        {choice === CUSTOM_CHOICE && (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col gap-1">
+              <span className={LABEL_CLASS}>{t.languages.code}</span>
+              <input
+                value={customCode}
+                onChange={(event) => setCustomCode(event.target.value)}
+                placeholder="sq-MK"
+                className={FIELD_CLASS}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className={LABEL_CLASS}>{t.languages.label}</span>
+              <input
+                value={customLabel}
+                onChange={(event) => setCustomLabel(event.target.value)}
+                onKeyDown={(event) => event.key === "Enter" && addLanguage()}
+                className={FIELD_CLASS}
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => runJobs(languages)}
+          disabled={locked}
+          className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-neutral-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/40"
+        >
+          {progress
+            ? t.languages.exporting(progress.current, progress.total)
+            : t.languages.exportAll(languages.length)}
+        </button>
+        <button
+          type="button"
+          onClick={downloadZip}
+          disabled={running || zipping || doneCount === 0}
+          className={BUTTON_CLASS}
+        >
+          {zipping ? t.common.zipping : t.common.downloadZip(doneCount)}
+        </button>
+      </div>
+    </div>
+  );
+}
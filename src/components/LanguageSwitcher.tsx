@@ -0,0 +1,27 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import { LOCALES, isLocale } from "@/lib/i18n/locales";
+
+export function LanguageSwitcher() {
+  const { locale, t, setLocale } = useI18n();
+
+  return (
+    <select
+      aria-label={t.locale.label}
+      value={locale}
+      onChange={(event) => {
+        if (isLocale(event.target.value)) {
+          setLocale(event.target.value);
+        }
+      }}
+      className="rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40"
+    >
+      {LOCALES.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,523 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import { BrandSwatches } from "@/components/BrandSwatches";
+import { CountdownFields } from "@/components/CountdownFields";
+import { ImageLayerFields } from "@/components/ImageLayerFields";
+import { LayerTimingFields } from "@/components/LayerTimingFields";
+import { TextStyleFields } from "@/components/TextStyleFields";
+import { useBrandKit } from "@/hooks/useBrandKit";
+import { useI18n } from "@/hooks/useI18n";
+import { ContrastReport, isLowContrast } from "@/lib/contrast";
+import { createCountdown } from "@/lib/countdown";
+import { describeError } from "@/lib/errors";
+import type { Messages } from "@/lib/i18n/sq";
+import { fitImageHeight, placeBox } from "@/lib/placement";
+import { formatTimecode } from "@/lib/time";
+import { IMAGE_INPUT_ACCEPT, readImageFile } from "@/lib/render/images";
+import {
+  ImageLayer,
+  OverlayLayer,
+  OverlayScene,
+  SceneFont,
+  TextLayer,
+  TextStyle,
+  addLayer,
+  createImageLayer,
+  createTextLayer,
+  duplicateLayer,
+  isWatermark,
+  moveLayer,
+  removeLayer,
+  sortLayers,
+  updateLayer,
+} from "@/lib/scene";
+
+type LayerPanelProps = {
+  scene: OverlayScene;
+  /** Output frame width / height, used to size images without distortion. */
+  frameAspect: number;
+  selectedId: string | null;
+  /** Text layers whose contrast with the footage has been measured. */
+  contrast: ContrastReport[];
+  onSelect: (id: string | null) => void;
+  onChange: (scene: OverlayScene) => void;
+  onError: (message: string) => void;
+};
+
+const FIELD_CLASS =
+  "rounded-xl border border-white/10 bg-neutral-900 px-4 py-3 text-base text-white outline-none transition focus:border-white/40 focus:ring-2 focus:ring-white/20";
+
+const SMALL_FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const ICON_BUTTON_CLASS =
+  "rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const toPercent = (value: number) => Math.round(value * 1000) / 10;
+
+/** New images start as a small top-right logo. */
+const DEFAULT_IMAGE_WIDTH = 0.2;
+
+const describeLayer = (layer: OverlayLayer, t: Messages) => {
+  if (layer.kind === "image") {
+    return layer.watermark ? t.layers.watermark : t.layers.image;
+  }
+  if (layer.countdown) {
+    return t.layers.countdownUntil(layer.countdown.target.replace("T", " "));
+  }
+  return layer.content || t.layers.emptyText;
+};
+
+export function LayerPanel({
+  scene,
+  frameAspect,
+  selectedId,
+  contrast,
+  onSelect,
+  onChange,
+  onError,
+}: LayerPanelProps) {
+  const { t } = useI18n();
+  const { kit } = useBrandKit();
+  const reports = new Map(contrast.map((report) => [report.layerId, report]));
+  // Front-most layer first, the way design tools list them.
+  const ordered = sortLayers(scene.layers).reverse();
+  const selected =
+    scene.layers.find((layer) => layer.id === selectedId) ?? null;
+
+  const patchLayer = (
+    id: string,
+    patch: Partial<TextLayer> | Partial<ImageLayer>,
+  ) =>
+    onChange(
+      updateLayer(scene, id, (layer) => ({ ...layer, ...patch }) as OverlayLayer),
+    );
+
+  const patchStyle = (layer: TextLayer, patch: Partial<TextStyle>) =>
+    patchLayer(layer.id, { style: { ...layer.style, ...patch } });
+
+  /** A re-uploaded family replaces the older file everywhere it is used. */
+  const addFont = (
+    layer: TextLayer,
+    font: SceneFont,
+    patch: Partial<TextStyle> = {},
+  ) =>
+    onChange(
+      updateLayer(
+        {
+          ...scene,
+          fonts: [
+            ...scene.fonts.filter((current) => current.family !== font.family),
+            font,
+          ],
+        },
+        layer.id,
+        (current) =>
+          current.kind === "text"
+            ? {
+                ...current,
+                style: { ...current.style, ...patch, fontFamily: font.family },
+              }
+            : current,
+      ),
+    );
+
+  const patchBox = (
+    layer: OverlayLayer,
+    key: "x" | "y" | "width" | "height",
+    percent: number,
+  ) => {
+    if (Number.isNaN(percent)) {
+      return;
+    }
+    patchLayer(layer.id, { box: { ...layer.box, [key]: percent / 100 } });
+  };
+
+  const handleAdd = () => {
+    const layer = createTextLayer({
+      name: t.layers.textName(scene.layers.length + 1),
+      content: t.layers.newText,
+    });
+    onChange(addLayer(scene, layer));
+    onSelect(layer.id);
+  };
+
+  const handleAddCountdown = () => {
+    const layer = createTextLayer({
+      name: t.layers.countdownName(scene.layers.length + 1),
+      content: "",
+      countdown: createCountdown(scene.languages[0].code),
+      style: { fontWeight: 800 },
+    });
+    onChange(addLayer(scene, layer));
+    onSelect(layer.id);
+  };
+
+  const addImage = (name: string, src: string, aspect: number) => {
+    const width = DEFAULT_IMAGE_WIDTH;
+    const layer = createImageLayer({
+      name,
+      src,
+      aspect,
+      box: placeBox(
+        {
+          x: 0,
+          y: 0,
+          width,
+          height: fitImageHeight({ aspect }, width, frameAspect),
+          rotation: 0,
+        },
+        "top-right",
+        frameAspect,
+      ),
+    });
+    onChange(addLayer(scene, layer));
+    onSelect(layer.id);
+  };
+
+  const handleAddImage = async (event: ChangeEvent<HTMLInputElement>) => {
+    const [file] = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const { src, aspect } = await readImageFile(file);
+      addImage(
+        file.name.replace(/\.[^/.]+$/, "") || t.layers.image,
+        src,
+        aspect,
+      );
+    } catch (error) {
+      onError(describeError(t, error, t.common.imageUnreadable));
+    }
+  };
+
+  const renderContrastBadge = (id: string) => {
+    const report = reports.get(id);
+    if (!report || !isLowContrast(report)) {
+      return null;
+    }
+    return (
+      <span
+        className="shrink-0 rounded-md bg-amber-400/15 px-2 py-1 text-xs text-amber-300"
+        title={t.contrast.hint}
+      >
+        {t.contrast.badge(report.ratio.toFixed(1))}
+      </span>
+    );
+  };
+
+  const renderContrastNote = (id: string) => {
+    const report = reports.get(id);
+    if (!report) {
+      return null;
+    }
+    const ratio = report.ratio.toFixed(1);
+    return isLowContrast(report) ? (
+      <p className="rounded-xl border border-amber-400/30 bg-amber-400/10 px-4 py-3 text-sm text-amber-200">
+        {t.contrast.low(
+          ratio,
+          String(report.required),
+          formatTimecode(report.time),
+        )}{" "}
+        {t.contrast.hint}
+      </p>
+    ) : (
+      <p className="text-xs text-white/40">{t.contrast.ok(ratio)}</p>
+    );
+  };
+
+  const handleDuplicate = (id: string) => {
+    const result = duplicateLayer(scene, id, t.layers.copyName);
+    onChange(result.scene);
+    onSelect(result.id);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(removeLayer(scene, id));
+    if (selectedId === id) {
+      onSelect(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t.layers.title}</h2>
+          <p className="text-sm text-white/60">{t.layers.description}</p>
+        </div>
+        <div className="flex shrink-0 flex-col gap-2 sm:flex-row">
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20"
+          >
+            {t.layers.addText}
+          </button>
+          <button
+            type="button"
+            onClick={handleAddCountdown}
+            className="rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20"
+          >
+            {t.layers.addCountdown}
+          </button>
+          <label className="cursor-pointer rounded-xl bg-white/10 px-4 py-2 text-center text-sm font-semibold transition hover:bg-white/20">
+            {t.layers.addImage}
+            <input
+              type="file"
+              accept={IMAGE_INPUT_ACCEPT}
+              className="hidden"
+              onChange={handleAddImage}
+            />
+          </label>
+        </div>
+      </div>
+
+      {kit.logos.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={LABEL_CLASS}>{t.brand.logos}</span>
+          {kit.logos.map((logo) => (
+            <button
+              key={logo.id}
+              type="button"
+              onClick={() =>
+                addImage(logo.name || t.layers.image, logo.src, logo.aspect)
+              }
+              title={t.brand.addLogoLayer(logo.name)}
+              aria-label={t.brand.addLogoLayer(logo.name)}
+              className="h-10 w-16 rounded-lg border border-white/10 bg-neutral-900 bg-contain bg-center bg-no-repeat transition hover:border-white/40"
+              style={{ backgroundImage: `url("${logo.src}")` }}
+            />
+          ))}
+        </div>
+      )}
+
+      <ul className="flex flex-col gap-2">
+        {ordered.map((layer, index) => (
+          <li
+            key={layer.id}
+            className={`flex items-center gap-2 rounded-xl border px-3 py-2 transition ${
+              layer.id === selectedId
+                ? "border-white/40 bg-white/10"
+                : "border-white/10 bg-neutral-900/60 hover:border-white/20"
+            }`}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(layer.id)}
+              className="flex min-w-0 flex-1 flex-col text-left"
+            >
+              <span className="truncate text-sm font-semibold">{layer.name}</span>
+              <span className="truncate text-xs text-white/50">
+                {describeLayer(layer, t)}
+              </span>
+            </button>
+            {renderContrastBadge(layer.id)}
+            <button
+              type="button"
+              onClick={() => onChange(moveLayer(scene, layer.id, 1))}
+              disabled={index === 0}
+              className={ICON_BUTTON_CLASS}
+              aria-label={t.layers.moveForward}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(moveLayer(scene, layer.id, -1))}
+              disabled={index === ordered.length - 1}
+              className={ICON_BUTTON_CLASS}
+              aria-label={t.layers.moveBackward}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDuplicate(layer.id)}
+              className={ICON_BUTTON_CLASS}
+              aria-label={t.layers.duplicate}
+            >
+              ⧉
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRemove(layer.id)}
+              className={ICON_BUTTON_CLASS}
+              aria-label={t.layers.remove}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+        {ordered.length === 0 && (
+          <li className="rounded-xl border border-dashed border-white/10 px-3 py-4 text-center text-sm text-white/40">
+            {t.layers.empty}
+          </li>
+        )}
+      </ul>
+
+      {selected && (
+        <div className="flex flex-col gap-4 border-t border-white/10 pt-5">
+          <label className="flex flex-col gap-2">
+            <span className={LABEL_CLASS}>{t.layers.name}</span>
+            <input
+              type="text"
+              value={selected.name}
+              onChange={(event) =>
+                patchLayer(selected.id, { name: event.target.value })
+              }
+              className={FIELD_CLASS}
+            />
+          </label>
+
+          {selected.kind === "text" && selected.countdown && (
+            <CountdownFields
+              countdown={selected.countdown}
+              languages={scene.languages}
+              onChange={(countdown) => patchLayer(selected.id, { countdown })}
+              onRemove={() =>
+                patchLayer(selected.id, {
+                  countdown: null,
+                  content: selected.content || t.layers.newText,
+                })
+              }
+            />
+          )}
+
+          {selected.kind === "text" && !selected.countdown && (
+            <label className="flex flex-col gap-2">
+              <span className={LABEL_CLASS}>{t.layers.text}</span>
+              <textarea
+                value={selected.content}
+                onChange={(event) =>
+                  patchLayer(selected.id, { content: event.target.value })
+                }
+                className={`min-h-[5rem] ${FIELD_CLASS}`}
+              />
+            </label>
+          )}
+
+          {selected.kind === "text" &&
+            !selected.countdown &&
+            scene.languages.slice(1).map((language) => (
+              <label key={language.code} className="flex flex-col gap-2">
+                <span className={LABEL_CLASS}>
+                  {t.layers.translation(language.label)}
+                </span>
+                <textarea
+                  value={selected.translations[language.code] ?? ""}
+                  placeholder={t.layers.translationPlaceholder}
+                  onChange={(event) =>
+                    patchLayer(selected.id, {
+                      translations: {
+                        ...selected.translations,
+                        [language.code]: event.target.value,
+                      },
+                    })
+                  }
+                  className={`min-h-[4rem] ${FIELD_CLASS}`}
+                />
+              </label>
+            ))}
+
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+            {(["x", "y", "width", "height"] as const).map((key) => (
+              <label key={key} className="flex flex-col gap-1">
+                <span className={LABEL_CLASS}>
+                  {t.layers.box[key]}
+                </span>
+                <input
+                  type="number"
+                  step={0.5}
+                  value={toPercent(selected.box[key])}
+                  onChange={(event) =>
+                    patchBox(selected, key, event.target.valueAsNumber)
+                  }
+                  className={SMALL_FIELD_CLASS}
+                />
+              </label>
+            ))}
+            <label className="flex flex-col gap-1">
+              <span className={LABEL_CLASS}>{t.layers.rotation}</span>
+              <input
+                type="number"
+                step={1}
+                value={selected.box.rotation}
+                onChange={(event) => {
+                  const rotation = event.target.valueAsNumber;
+                  if (!Number.isNaN(rotation)) {
+                    patchLayer(selected.id, {
+                      box: { ...selected.box, rotation },
+                    });
+                  }
+                }}
+                className={SMALL_FIELD_CLASS}
+              />
+            </label>
+          </div>
+
+          {selected.kind === "text" && (
+            <TextStyleFields
+              style={selected.style}
+              fonts={scene.fonts}
+              onChange={(patch) => patchStyle(selected, patch)}
+              onAddFont={(font, patch) => addFont(selected, font, patch)}
+              onError={onError}
+            />
+          )}
+
+          {selected.kind === "text" && renderContrastNote(selected.id)}
+
+          {selected.kind === "image" && (
+            <ImageLayerFields
+              layer={selected}
+              frameAspect={frameAspect}
+              onChange={(patch) => patchLayer(selected.id, patch)}
+            />
+          )}
+
+          {isWatermark(selected) ? (
+            <p className="text-sm text-white/50">
+              {t.layers.watermarkTiming}
+            </p>
+          ) : (
+            <LayerTimingFields
+              timing={selected.timing}
+              enter={selected.enter}
+              exit={selected.exit}
+              onChange={(patch) => patchLayer(selected.id, patch)}
+            />
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3 border-t border-white/10 pt-5">
+        <span className={LABEL_CLASS}>{t.layers.accentColor}</span>
+        <BrandSwatches
+          value={scene.accentColor}
+          onPick={(accentColor) => onChange({ ...scene, accentColor })}
+        />
+        <div className="flex items-center gap-4">
+          <input
+            type="color"
+            value={scene.accentColor}
+            onChange={(event) =>
+              onChange({ ...scene, accentColor: event.target.value })
+            }
+            className="h-12 w-24 cursor-pointer rounded-xl border border-white/20 bg-transparent"
+            aria-label={t.layers.accentColor}
+          />
+          <span className="text-sm text-white/60">
+            {t.layers.accentHint}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
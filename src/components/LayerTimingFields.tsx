@@ -0,0 +1,195 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  AnimationEasing,
+  AnimationKind,
+  LayerAnimation,
+  LayerTiming,
+  SlideDirection,
+} from "@/lib/scene";
+
+type LayerTimingFieldsProps = {
+  timing: LayerTiming;
+  enter: LayerAnimation;
+  exit: LayerAnimation;
+  onChange: (patch: {
+    timing?: LayerTiming;
+    enter?: LayerAnimation;
+    exit?: LayerAnimation;
+  }) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const ANIMATION_OPTIONS: AnimationKind[] = [
+  "none",
+  "fade",
+  "slide",
+  "scale",
+  "typewriter",
+];
+
+const EASING_OPTIONS: AnimationEasing[] = [
+  "linear",
+  "easeIn",
+  "easeOut",
+  "easeInOut",
+  "back",
+];
+
+const DIRECTION_OPTIONS: SlideDirection[] = ["left", "right", "top", "bottom"];
+
+const parseSeconds = (value: number) =>
+  Number.isNaN(value) ? null : Math.max(0, Math.round(value * 100) / 100);
+
+function AnimationFields({
+  title,
+  animation,
+  onChange,
+}: {
+  title: string;
+  animation: LayerAnimation;
+  onChange: (animation: LayerAnimation) => void;
+}) {
+  const { t } = useI18n();
+  const disabled = animation.kind === "none";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className={LABEL_CLASS}>{title}</span>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <select
+          value={animation.kind}
+          onChange={(event) =>
+            onChange({ ...animation, kind: event.target.value as AnimationKind })
+          }
+          className={FIELD_CLASS}
+          aria-label={t.timing.kind(title)}
+        >
+          {ANIMATION_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {t.timing.kinds[option]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          value={animation.duration}
+          disabled={disabled}
+          onChange={(event) => {
+            const duration = parseSeconds(event.target.valueAsNumber);
+            if (duration !== null) {
+              onChange({ ...animation, duration });
+            }
+          }}
+          className={`${FIELD_CLASS} disabled:opacity-30`}
+          aria-label={t.timing.duration(title)}
+        />
+        <select
+          value={animation.easing}
+          disabled={disabled}
+          onChange={(event) =>
+            onChange({
+              ...animation,
+              easing: event.target.value as AnimationEasing,
+            })
+          }
+          className={`${FIELD_CLASS} disabled:opacity-30`}
+          aria-label={t.timing.easing(title)}
+        >
+          {EASING_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {t.timing.easings[option]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={animation.direction}
+          disabled={animation.kind !== "slide"}
+          onChange={(event) =>
+            onChange({
+              ...animation,
+              direction: event.target.value as SlideDirection,
+            })
+          }
+          className={`${FIELD_CLASS} disabled:opacity-30`}
+          aria-label={t.timing.direction(title)}
+        >
+          {DIRECTION_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {t.timing.directions[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+export function LayerTimingFields({
+  timing,
+  enter,
+  exit,
+  onChange,
+}: LayerTimingFieldsProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.timing.start}</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={timing.start}
+            onChange={(event) => {
+              const start = parseSeconds(event.target.valueAsNumber);
+              if (start !== null) {
+                onChange({ timing: { ...timing, start } });
+              }
+            }}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.timing.end}</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={timing.end ?? ""}
+            placeholder={t.timing.untilEnd}
+            onChange={(event) =>
+              onChange({
+                timing: {
+                  ...timing,
+                  end: parseSeconds(event.target.valueAsNumber),
+                },
+              })
+            }
+            className={FIELD_CLASS}
+          />
+        </label>
+      </div>
+
+      <AnimationFields
+        title={t.timing.enter}
+        animation={enter}
+        onChange={(next) => onChange({ enter: next })}
+      />
+      <AnimationFields
+        title={t.timing.exit}
+        animation={exit}
+        onChange={(next) => onChange({ exit: next })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { SequencePlayer } from "@/lib/player";
+import { FrameSize, drawFrame } from "@/lib/render/frame";
+import { ensureFontsLoaded, resolveFontFamily } from "@/lib/render/fonts";
+import { ensureImagesLoaded } from "@/lib/render/images";
+import { OverlayScene } from "@/lib/scene";
+
+type PreviewCanvasProps = {
+  player: SequencePlayer | null;
+  scene: OverlayScene;
+  size: FrameSize;
+  className?: string;
+};
+
+/**
+ * Canvas that paints the full composited frame from the sequence player's
+ * (hidden) `<video>`. It is sized to the export resolution, so it shows the
+ * same pixels the exporter will write.
+ */
+export function PreviewCanvas({
+  player,
+  scene,
+  size,
+  className,
+}: PreviewCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      return;
+    }
+
+    const fontFamily = resolveFontFamily();
+    // Static countdowns refresh whenever the scene is edited.
+    const now = Date.now();
+    let disposed = false;
+
+    const paint = () => {
+      drawFrame(ctx, player?.getSource() ?? null, scene, {
+        ...size,
+        fontFamily,
+        time: player?.getTime() ?? 0,
+        duration: player?.getDuration() || Infinity,
+        now,
+      });
+    };
+
+    paint();
+    Promise.all([
+      ensureFontsLoaded(scene, fontFamily),
+      ensureImagesLoaded(scene),
+    ]).then(
+      () => {
+        if (!disposed) {
+          paint();
+        }
+      },
+      () => undefined,
+    );
+
+    const unsubscribe = player?.subscribe(paint);
+    return () => {
+      disposed = true;
+      unsubscribe?.();
+    };
+  }, [player, scene, size]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size.width}
+      height={size.height}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import { formatDateTime } from "@/lib/i18n/locales";
+import type { ProjectSummary } from "@/lib/projects";
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error";
+
+type ProjectPanelProps = {
+  projects: ProjectSummary[];
+  currentId: string | null;
+  status: AutosaveStatus;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Locks switching projects while an export still reads the clips. */
+  disabled: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+};
+
+const BUTTON_CLASS =
+  "rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40";
+
+const SMALL_BUTTON_CLASS =
+  "rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:opacity-30";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+export function ProjectPanel({
+  projects,
+  currentId,
+  status,
+  canUndo,
+  canRedo,
+  disabled,
+  onUndo,
+  onRedo,
+  onOpen,
+  onNew,
+  onDelete,
+}: ProjectPanelProps) {
+  const { locale, t } = useI18n();
+  const others = projects.filter((project) => project.id !== currentId);
+
+  return (
+    <div className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div className="flex items-baseline justify-between gap-4">
+        <h2 className="text-lg font-semibold">{t.project.title}</h2>
+        <span
+          className={`text-xs ${status === "error" ? "text-red-300" : "text-white/50"}`}
+        >
+          {t.project.status[status]}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={!canUndo}
+          title="Ctrl+Z"
+          className={BUTTON_CLASS}
+        >
+          {t.project.undo}
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={!canRedo}
+          title="Ctrl+Shift+Z"
+          className={BUTTON_CLASS}
+        >
+          {t.project.redo}
+        </button>
+        <button
+          type="button"
+          onClick={onNew}
+          disabled={disabled}
+          className={BUTTON_CLASS}
+        >
+          {t.project.create}
+        </button>
+      </div>
+
+      {others.length > 0 && (
+        <div className="flex flex-col gap-2 border-t border-white/10 pt-4">
+          <span className={LABEL_CLASS}>{t.project.recent}</span>
+          <ul className="flex flex-col gap-2">
+            {others.map((project) => (
+              <li
+                key={project.id}
+                className="flex items-center gap-3 rounded-xl border border-white/10 bg-neutral-900/60 px-3 py-2"
+              >
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <span className="truncate text-sm font-semibold">
+                    {project.name ?? t.project.untitled}
+                  </span>
+                  <span className="text-xs text-white/50">
+                    {formatDateTime(locale, project.updatedAt)} ·{" "}
+                    {t.project.clipCount(project.clipCount)}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onOpen(project.id)}
+                  disabled={disabled}
+                  className={SMALL_BUTTON_CLASS}
+                >
+                  {t.project.open}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(project.id)}
+                  disabled={disabled}
+                  aria-label={t.project.deleteNamed(
+                    project.name ?? t.project.untitled,
+                  )}
+                  className={SMALL_BUTTON_CLASS}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
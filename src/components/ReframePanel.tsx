@@ -0,0 +1,208 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import { usePlayerState } from "@/hooks/usePlayerState";
+import type { SequencePlayer } from "@/lib/player";
+import {
+  ASPECT_PRESETS,
+  OutputFormat,
+  ReframeMode,
+  resolvePan,
+  upsertPanKeyframe,
+} from "@/lib/render/reframe";
+import { formatTimecode } from "@/lib/time";
+
+type ReframePanelProps = {
+  format: OutputFormat;
+  player: SequencePlayer | null;
+  onChange: (format: OutputFormat) => void;
+};
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const MODE_OPTIONS: ReframeMode[] = ["crop", "fit"];
+
+const SEGMENT_CLASS = (active: boolean) =>
+  `rounded-xl border px-3 py-2 text-left text-sm transition ${
+    active
+      ? "border-white/60 bg-white/10"
+      : "border-white/10 hover:border-white/30"
+  }`;
+
+export function ReframePanel({ format, player, onChange }: ReframePanelProps) {
+  const { t } = useI18n();
+  const { time: playhead } = usePlayerState(player);
+  const currentTime = () => player?.getTime() ?? playhead;
+  const hasKeyframes = format.panKeyframes.length > 0;
+
+  // Editing the pan with keyframes present edits (or adds) the keyframe at the playhead.
+  const setPan = (axis: "x" | "y", value: number) => {
+    if (!hasKeyframes) {
+      onChange({ ...format, pan: { ...format.pan, [axis]: value } });
+      return;
+    }
+    const time = currentTime();
+    const pan = resolvePan(format, time);
+    onChange(
+      upsertPanKeyframe(format, { time, x: pan.x, y: pan.y, [axis]: value }),
+    );
+  };
+
+  const pan = resolvePan(format, playhead);
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div>
+        <h2 className="text-lg font-semibold">{t.reframe.title}</h2>
+        <p className="text-sm text-white/60">{t.reframe.description}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-5">
+        {ASPECT_PRESETS.map((preset) => (
+          <button
+            key={preset.value}
+            type="button"
+            onClick={() => onChange({ ...format, aspect: preset.value })}
+            aria-pressed={format.aspect === preset.value}
+            className={SEGMENT_CLASS(format.aspect === preset.value)}
+          >
+            <span className="block font-semibold">
+              {t.reframe.aspects[preset.value].label}
+            </span>
+            <span className="block text-xs text-white/50">
+              {t.reframe.aspects[preset.value].hint}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {MODE_OPTIONS.map((mode) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onChange({ ...format, mode })}
+            aria-pressed={format.mode === mode}
+            className={SEGMENT_CLASS(format.mode === mode)}
+          >
+            {t.reframe.modes[mode]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.reframe.zoom}</span>
+          <input
+            type="range"
+            min={1}
+            max={3}
+            step={0.05}
+            value={format.zoom}
+            onChange={(event) =>
+              onChange({ ...format, zoom: event.target.valueAsNumber })
+            }
+          />
+        </label>
+        {format.mode === "fit" ? (
+          <label className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.reframe.blur}</span>
+            <input
+              type="range"
+              min={0}
+              max={0.1}
+              step={0.005}
+              value={format.blur}
+              onChange={(event) =>
+                onChange({ ...format, blur: event.target.valueAsNumber })
+              }
+            />
+          </label>
+        ) : (
+          <>
+            <label className="flex flex-col gap-1">
+              <span className={LABEL_CLASS}>{t.reframe.panX}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={pan.x}
+                onChange={(event) => setPan("x", event.target.valueAsNumber)}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className={LABEL_CLASS}>{t.reframe.panY}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={pan.y}
+                onChange={(event) => setPan("y", event.target.valueAsNumber)}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      {format.mode === "crop" && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className={LABEL_CLASS}>{t.reframe.keyframes}</span>
+            <button
+              type="button"
+              onClick={() =>
+                onChange(
+                  upsertPanKeyframe(format, { time: currentTime(), ...pan }),
+                )
+              }
+              className="rounded-lg border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white"
+            >
+              {t.reframe.addKeyframe(formatTimecode(playhead))}
+            </button>
+          </div>
+          {hasKeyframes ? (
+            <ul className="flex flex-wrap gap-2">
+              {format.panKeyframes.map((keyframe) => (
+                <li
+                  key={keyframe.time}
+                  className="flex items-center gap-2 rounded-lg bg-neutral-900 px-2 py-1 font-mono text-xs text-white/70"
+                >
+                  <button
+                    type="button"
+                    onClick={() => {
+                      player?.seek(keyframe.time).catch(() => undefined);
+                    }}
+                    className="hover:text-white"
+                  >
+                    {formatTimecode(keyframe.time)}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onChange({
+                        ...format,
+                        panKeyframes: format.panKeyframes.filter(
+                          (entry) => entry !== keyframe,
+                        ),
+                      })
+                    }
+                    className="text-white/40 hover:text-red-300"
+                    aria-label={t.reframe.deleteKeyframe}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-white/40">
+              {t.reframe.noKeyframes}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
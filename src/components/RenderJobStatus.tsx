@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import type { RenderJob } from "@/hooks/useRenderJob";
+import { estimateRemaining } from "@/lib/export/jobs";
+import { formatDuration } from "@/lib/time";
+
+type RenderJobStatusProps = {
+  job: RenderJob;
+  onCancel: () => void;
+};
+
+/** Elapsed time keeps ticking between progress reports. */
+const TICK_MS = 500;
+
+export function RenderJobStatus({ job, onCancel }: RenderJobStatusProps) {
+  const { t } = useI18n();
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const elapsed = Math.max(0, now - job.startedAt) / 1000;
+  const remaining = estimateRemaining(job.progress, elapsed);
+  const percent = Math.floor(job.progress * 100);
+
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-neutral-950/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <span className="truncate text-sm font-semibold">{job.label}</span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg border border-white/10 px-3 py-1 text-xs text-white/70 transition hover:border-red-400/60 hover:text-red-200"
+        >
+          {t.common.cancel}
+        </button>
+      </div>
+      <div
+        className="h-2 overflow-hidden rounded-full bg-white/10"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div
+          className="h-full rounded-full bg-emerald-400 transition-[width]"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex justify-between font-mono text-xs text-white/60">
+        <span>{percent}%</span>
+        <span>
+          {t.export.elapsed(formatDuration(elapsed))}
+          {" · "}
+          {remaining === null
+            ? t.export.estimating
+            : t.export.remaining(formatDuration(remaining))}
+        </span>
+      </div>
+    </div>
+  );
+}
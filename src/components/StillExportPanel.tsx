@@ -0,0 +1,404 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/hooks/useI18n";
+import { usePlayerState } from "@/hooks/usePlayerState";
+import { describeError } from "@/lib/errors";
+import {
+  ANIMATION_COLORS,
+  ANIMATION_FORMATS,
+  ANIMATION_FRAME_RATES,
+  ANIMATION_WIDTHS,
+  AnimationSettings,
+  DEFAULT_ANIMATION_SETTINGS,
+  MAX_ANIMATION_DURATION,
+  MIN_ANIMATION_DURATION,
+  PALETTE_MODES,
+  PaletteMode,
+  clampAnimationRange,
+  countAnimationFrames,
+  resolveAnimationSize,
+} from "@/lib/export/animation";
+import { isExportCancelled } from "@/lib/export/jobs";
+import { STILL_FORMATS, StillFormat } from "@/lib/export/still";
+import type { ExportResult } from "@/lib/export/types";
+import type { SequencePlayer } from "@/lib/player";
+import type { FrameSize } from "@/lib/render/frame";
+import { formatTimecode } from "@/lib/time";
+
+type StillExportPanelProps = {
+  player: SequencePlayer | null;
+  /** Size of a full-resolution video export; stills use it as is. */
+  exportSize: FrameSize;
+  /** Prefix of the exported files, usually the first clip's name. */
+  baseName: string;
+  disabled: boolean;
+  grab: (format: StillFormat, time: number) => Promise<ExportResult>;
+  /** Renders the loop as a background job. */
+  renderLoop: (settings: AnimationSettings) => Promise<ExportResult>;
+  onRunningChange: (running: boolean) => void;
+  onError: (message: string) => void;
+};
+
+type SavedFile = {
+  url: string;
+  extension: string;
+  /** Sequence time the file starts at. */
+  time: number;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40 disabled:opacity-40";
+
+const BUTTON_CLASS =
+  "rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const SEGMENT_CLASS = (active: boolean) =>
+  `rounded-xl border px-3 py-2 text-sm font-semibold uppercase transition disabled:cursor-not-allowed disabled:opacity-40 ${
+    active
+      ? "border-white/60 bg-white/10"
+      : "border-white/10 hover:border-white/30"
+  }`;
+
+const STILL_OPTIONS = Object.keys(STILL_FORMATS) as StillFormat[];
+
+const toSavedFile = (result: ExportResult, time: number): SavedFile => ({
+  url: URL.createObjectURL(result.blob),
+  extension: result.extension,
+  time,
+});
+
+export function StillExportPanel({
+  player,
+  exportSize,
+  baseName,
+  disabled,
+  grab,
+  renderLoop,
+  onRunningChange,
+  onError,
+}: StillExportPanelProps) {
+  const { t } = useI18n();
+  const { time: playhead, duration: sequenceDuration } =
+    usePlayerState(player);
+  const [settings, setSettings] = useState<AnimationSettings>(
+    DEFAULT_ANIMATION_SETTINGS,
+  );
+  const [grabbing, setGrabbing] = useState<StillFormat | null>(null);
+  const [rendering, setRendering] = useState<boolean>(false);
+  const [still, setStill] = useState<SavedFile | null>(null);
+  const [loop, setLoop] = useState<SavedFile | null>(null);
+  const filesRef = useRef({ still, loop });
+  filesRef.current = { still, loop };
+
+  useEffect(
+    () => () => {
+      const { still: lastStill, loop: lastLoop } = filesRef.current;
+      [lastStill, lastLoop].forEach(
+        (file) => file && URL.revokeObjectURL(file.url),
+      );
+    },
+    [],
+  );
+
+  const replaceFile = (
+    setFile: (update: (current: SavedFile | null) => SavedFile) => void,
+    next: SavedFile,
+  ) =>
+    setFile((current) => {
+      if (current) {
+        URL.revokeObjectURL(current.url);
+      }
+      return next;
+    });
+
+  const update = (patch: Partial<AnimationSettings>) =>
+    setSettings((current) => ({ ...current, ...patch }));
+
+  const grabStill = async (format: StillFormat) => {
+    const time = player?.getTime() ?? playhead;
+    setGrabbing(format);
+    try {
+      replaceFile(setStill, toSavedFile(await grab(format, time), time));
+    } catch (error) {
+      console.error(error);
+      onError(describeError(t, error, t.common.renderFailed));
+    } finally {
+      setGrabbing(null);
+    }
+  };
+
+  const exportLoop = async () => {
+    const range = clampAnimationRange(settings, sequenceDuration);
+    setRendering(true);
+    onRunningChange(true);
+    try {
+      replaceFile(setLoop, toSavedFile(await renderLoop(range), range.start));
+    } catch (error) {
+      if (isExportCancelled(error)) {
+        return;
+      }
+      console.error(error);
+      onError(describeError(t, error, t.common.renderFailed));
+    } finally {
+      setRendering(false);
+      onRunningChange(false);
+    }
+  };
+
+  const range = clampAnimationRange(settings, sequenceDuration);
+  const loopSize = resolveAnimationSize(exportSize, settings.width);
+  const formatLabel = settings.format.toUpperCase();
+  const locked = disabled || rendering;
+  const isGif = settings.format === "gif";
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div>
+        <h2 className="text-lg font-semibold">{t.stills.title}</h2>
+        <p className="text-sm text-white/60">{t.stills.description}</p>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <div className="flex items-baseline justify-between gap-3">
+          <span className={LABEL_CLASS}>{t.stills.grabTitle}</span>
+          <span className="font-mono text-xs text-white/50">
+            {formatTimecode(playhead)} · {exportSize.width}×{exportSize.height}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {STILL_OPTIONS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => grabStill(format)}
+              disabled={disabled || grabbing !== null}
+              className={BUTTON_CLASS}
+            >
+              {grabbing === format
+                ? t.stills.grabbing
+                : t.stills.grab(format.toUpperCase())}
+            </button>
+          ))}
+        </div>
+        {still && (
+          <a
+            href={still.url}
+            download={`${baseName}-${Math.round(still.time * 1000)}ms.${still.extension}`}
+            className="flex items-center gap-3 rounded-xl border border-white/10 bg-neutral-900/60 p-2 transition hover:border-white/40"
+          >
+            <span
+              style={{ backgroundImage: `url(${still.url})` }}
+              className="h-16 w-16 shrink-0 rounded-lg bg-cover bg-center"
+            />
+            <span className="text-sm">
+              {t.stills.grabbedAt(formatTimecode(still.time))}
+              <span className="block text-xs text-white/50">
+                {t.common.download} .{still.extension}
+              </span>
+            </span>
+          </a>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <span className={LABEL_CLASS}>{t.stills.loopTitle}</span>
+        <div className="grid grid-cols-2 gap-2">
+          {ANIMATION_FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => update({ format })}
+              disabled={locked}
+              aria-pressed={settings.format === format}
+              className={SEGMENT_CLASS(settings.format === format)}
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          <label className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.stills.start}</span>
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={Number(settings.start.toFixed(2))}
+              disabled={locked}
+              onChange={(event) => {
+                const start = event.target.valueAsNumber;
+                if (!Number.isNaN(start)) {
+                  update({ start: Math.max(0, start) });
+                }
+              }}
+              className={FIELD_CLASS}
+            />
+            <button
+              type="button"
+              onClick={() =>
+                update({ start: player?.getTime() ?? playhead })
+              }
+              disabled={locked}
+              className="self-start text-xs text-white/50 underline-offset-4 hover:text-white/80 hover:underline disabled:opacity-40"
+            >
+              {t.stills.useCurrent}
+            </button>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.stills.duration}</span>
+            <input
+              type="number"
+              min={MIN_ANIMATION_DURATION}
+              max={MAX_ANIMATION_DURATION}
+              step={0.5}
+              value={settings.duration}
+              disabled={locked}
+              onChange={(event) => {
+                const duration = event.target.valueAsNumber;
+                if (!Number.isNaN(duration)) {
+                  update({ duration });
+                }
+              }}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.stills.frameRate}</span>
+            <select
+              value={settings.frameRate}
+              disabled={locked}
+              onChange={(event) =>
+                update({ frameRate: Number(event.target.value) })
+              }
+              className={FIELD_CLASS}
+            >
+              {ANIMATION_FRAME_RATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {rate} fps
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.stills.width}</span>
+            <select
+              value={settings.width}
+              disabled={locked}
+              onChange={(event) => update({ width: Number(event.target.value) })}
+              className={FIELD_CLASS}
+            >
+              {ANIMATION_WIDTHS.map((width) => (
+                <option key={width} value={width}>
+                  {width} px
+                </option>
+              ))}
+            </select>
+          </label>
+          {isGif ? (
+            <>
+              <label className="flex flex-col gap-1">
+                <span className={LABEL_CLASS}>{t.stills.colors}</span>
+                <select
+                  value={settings.colors}
+                  disabled={locked}
+                  onChange={(event) =>
+                    update({ colors: Number(event.target.value) })
+                  }
+                  className={FIELD_CLASS}
+                >
+                  {ANIMATION_COLORS.map((colors) => (
+                    <option key={colors} value={colors}>
+                      {colors}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className={LABEL_CLASS}>{t.stills.palette}</span>
+                <select
+                  value={settings.palette}
+                  disabled={locked}
+                  onChange={(event) =>
+                    update({ palette: event.target.value as PaletteMode })
+                  }
+                  className={FIELD_CLASS}
+                >
+                  {PALETTE_MODES.map((mode) => (
+                    <option key={mode} value={mode}>
+                      {t.stills.palettes[mode]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          ) : (
+            <label className="flex flex-col gap-1">
+              <span className={LABEL_CLASS}>{t.stills.quality}</span>
+              <input
+                type="range"
+                min={0.3}
+                max={1}
+                step={0.05}
+                value={settings.quality}
+                disabled={locked}
+                onChange={(event) =>
+                  update({ quality: event.target.valueAsNumber })
+                }
+                className="mt-2 accent-white"
+              />
+            </label>
+          )}
+        </div>
+
+        {isGif && (
+          <label className="flex items-center gap-2 text-sm text-white/80">
+            <input
+              type="checkbox"
+              checked={settings.dither}
+              disabled={locked}
+              onChange={(event) => update({ dither: event.target.checked })}
+              className="accent-white"
+            />
+            {t.stills.dither}
+          </label>
+        )}
+
+        <p className="text-xs text-white/50">
+          {formatTimecode(range.start)}–
+          {formatTimecode(range.start + range.duration)} ·{" "}
+          {t.stills.summary(
+            loopSize.width,
+            loopSize.height,
+            countAnimationFrames(range),
+          )}
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={exportLoop}
+            disabled={locked || sequenceDuration === 0}
+            className="rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-neutral-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-emerald-500/40"
+          >
+            {rendering
+              ? t.stills.exportingLoop
+              : t.stills.exportLoop(formatLabel)}
+          </button>
+          {loop && (
+            <a
+              href={loop.url}
+              download={`${baseName}-loop.${loop.extension}`}
+              className={BUTTON_CLASS}
+            >
+              {t.stills.downloadLoop(loop.extension.toUpperCase())}
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
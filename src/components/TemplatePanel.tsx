@@ -0,0 +1,222 @@
+"use client";
+
+import { ChangeEvent, useEffect, useState } from "react";
+import { TemplateThumbnail } from "@/components/TemplateThumbnail";
+import { useI18n } from "@/hooks/useI18n";
+import { describeError } from "@/lib/errors";
+import type { OverlayScene } from "@/lib/scene";
+import {
+  BUILT_IN_TEMPLATES,
+  SceneTemplate,
+  createTemplate,
+  loadUserTemplates,
+  parseTemplateFile,
+  saveUserTemplates,
+  serializeTemplates,
+} from "@/lib/templates";
+
+type TemplatePanelProps = {
+  scene: OverlayScene;
+  onApply: (template: SceneTemplate) => void;
+  onError: (message: string) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const BUTTON_CLASS =
+  "rounded-xl bg-white/10 px-4 py-2 text-sm font-semibold transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40";
+
+const SMALL_BUTTON_CLASS =
+  "rounded-lg border border-white/10 px-2 py-1 text-xs text-white/70 transition hover:border-white/40 hover:text-white";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const toFileName = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "shabllon";
+
+const downloadJson = (source: string, fileName: string) => {
+  const url = URL.createObjectURL(
+    new Blob([source], { type: "application/json" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function TemplatePanel({ scene, onApply, onError }: TemplatePanelProps) {
+  const { t } = useI18n();
+  const [templates, setTemplates] = useState<SceneTemplate[]>([]);
+  const [newName, setNewName] = useState<string>("");
+
+  useEffect(() => {
+    setTemplates(loadUserTemplates(t.templates.untitled));
+  }, [t]);
+
+  const commit = (next: SceneTemplate[]) => {
+    try {
+      saveUserTemplates(next);
+      setTemplates(next);
+    } catch (error) {
+      onError(describeError(t, error, t.templates.saveFailed));
+    }
+  };
+
+  const saveCurrent = () => {
+    const name = newName.trim();
+    if (!name) {
+      return;
+    }
+    commit([...templates, createTemplate(name, scene)]);
+    setNewName("");
+  };
+
+  const renameTemplate = (id: string, name: string) =>
+    commit(
+      templates.map((template) =>
+        template.id === id ? { ...template, name } : template,
+      ),
+    );
+
+  const removeTemplate = (id: string) =>
+    commit(templates.filter((template) => template.id !== id));
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const [file] = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      const source = await file.text();
+      commit([...templates, ...parseTemplateFile(source, t.templates.untitled)]);
+    } catch (error) {
+      onError(describeError(t, error, t.templates.importFailed));
+    }
+  };
+
+  const renderCard = (template: SceneTemplate) => (
+    <li
+      key={template.id}
+      className="flex flex-col gap-2 rounded-xl border border-white/10 bg-neutral-900/60 p-2"
+    >
+      <button
+        type="button"
+        onClick={() => onApply(template)}
+        title={t.templates.apply}
+        className="overflow-hidden rounded-lg border border-white/10 transition hover:border-white/40"
+      >
+        <TemplateThumbnail scene={template.scene} className="block h-auto w-full" />
+      </button>
+      {template.builtIn ? (
+        <span className="truncate px-1 text-sm font-semibold">
+          {t.templates.builtInNames[template.id] ?? template.name}
+        </span>
+      ) : (
+        <>
+          <input
+            value={template.name}
+            onChange={(event) =>
+              renameTemplate(template.id, event.target.value)
+            }
+            aria-label={t.templates.name}
+            className={`${FIELD_CLASS} py-1`}
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                downloadJson(
+                  serializeTemplates([template]),
+                  toFileName(template.name),
+                )
+              }
+              className={SMALL_BUTTON_CLASS}
+            >
+              {t.common.export}
+            </button>
+            <button
+              type="button"
+              onClick={() => removeTemplate(template.id)}
+              className={SMALL_BUTTON_CLASS}
+            >
+              {t.common.delete}
+            </button>
+          </div>
+        </>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="flex flex-col gap-5 rounded-3xl border border-white/10 bg-white/[0.04] p-6">
+      <div>
+        <h2 className="text-lg font-semibold">{t.templates.title}</h2>
+        <p className="text-sm text-white/60">{t.templates.description}</p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <span className={LABEL_CLASS}>{t.templates.builtIn}</span>
+        <ul className="grid grid-cols-2 gap-3">
+          {BUILT_IN_TEMPLATES.map(renderCard)}
+        </ul>
+      </div>
+
+      <div className="flex flex-col gap-2 border-t border-white/10 pt-5">
+        <span className={LABEL_CLASS}>{t.templates.saved}</span>
+        {templates.length > 0 ? (
+          <ul className="grid grid-cols-2 gap-3">{templates.map(renderCard)}</ul>
+        ) : (
+          <p className="text-sm text-white/40">
+            {t.templates.empty}
+          </p>
+        )}
+        <div className="flex gap-2">
+          <input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && saveCurrent()}
+            placeholder={t.templates.name}
+            className={FIELD_CLASS}
+          />
+          <button
+            type="button"
+            onClick={saveCurrent}
+            disabled={!newName.trim()}
+            className={`shrink-0 ${BUTTON_CLASS}`}
+          >
+            {t.templates.save}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <label className={`cursor-pointer ${BUTTON_CLASS}`}>
+            {t.templates.importJson}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() =>
+              downloadJson(serializeTemplates(templates), "shabllonet")
+            }
+            disabled={templates.length === 0}
+            className={BUTTON_CLASS}
+          >
+            {t.templates.exportAll}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { drawFrame } from "@/lib/render/frame";
+import { ensureFontsLoaded, resolveFontFamily } from "@/lib/render/fonts";
+import { ensureImagesLoaded } from "@/lib/render/images";
+import { resolveOutputSize } from "@/lib/render/reframe";
+import { OverlayScene } from "@/lib/scene";
+
+type TemplateThumbnailProps = {
+  scene: OverlayScene;
+  className?: string;
+};
+
+const THUMBNAIL_WIDTH = 240;
+/** Late enough for entrance animations to have settled. */
+const THUMBNAIL_TIME = 3;
+const LANDSCAPE_SOURCE = { width: 1280, height: 720 };
+
+/** Paints a template's layers over an empty frame with the shared renderer. */
+export function TemplateThumbnail({ scene, className }: TemplateThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const output = resolveOutputSize(scene.format, LANDSCAPE_SOURCE);
+  const width = THUMBNAIL_WIDTH;
+  const height = Math.round((THUMBNAIL_WIDTH * output.height) / output.width);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) {
+      return;
+    }
+
+    const fontFamily = resolveFontFamily();
+    const now = Date.now();
+    let disposed = false;
+    const paint = () =>
+      drawFrame(ctx, null, scene, {
+        width,
+        height,
+        fontFamily,
+        time: THUMBNAIL_TIME,
+        duration: Infinity,
+        now,
+      });
+
+    paint();
+    Promise.all([
+      ensureFontsLoaded(scene, fontFamily),
+      ensureImagesLoaded(scene),
+    ]).then(
+      () => {
+        if (!disposed) {
+          paint();
+        }
+      },
+      () => undefined,
+    );
+
+    return () => {
+      disposed = true;
+    };
+  }, [scene, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,532 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import { BrandSwatches } from "@/components/BrandSwatches";
+import { useBrandKit } from "@/hooks/useBrandKit";
+import { useI18n } from "@/hooks/useI18n";
+import { BrandTextStyle, createBrandId } from "@/lib/brandKit";
+import { formatColor, parseColor } from "@/lib/color";
+import { describeError } from "@/lib/errors";
+import {
+  FONT_INPUT_ACCEPT,
+  SYSTEM_FONT_FAMILIES,
+  readFontFile,
+} from "@/lib/render/fonts";
+import {
+  BackgroundFit,
+  SceneFont,
+  TextAlign,
+  TextStyle,
+  VerticalAlign,
+} from "@/lib/scene";
+
+type TextStyleFieldsProps = {
+  style: TextStyle;
+  /** Fonts uploaded to the scene, offered after the system families. */
+  fonts: SceneFont[];
+  onChange: (patch: Partial<TextStyle>) => void;
+  /** Adds the font to the scene and switches this text to it, with `style`. */
+  onAddFont: (font: SceneFont, style?: Partial<TextStyle>) => void;
+  onError: (message: string) => void;
+};
+
+const FIELD_CLASS =
+  "w-full rounded-lg border border-white/10 bg-neutral-900 px-3 py-2 text-sm text-white outline-none transition focus:border-white/40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const SWATCH_CLASS =
+  "h-9 w-12 cursor-pointer rounded-lg border border-white/20 bg-transparent disabled:opacity-30";
+
+const ALIGN_OPTIONS: TextAlign[] = ["left", "center", "right"];
+
+const VERTICAL_ALIGN_OPTIONS: VerticalAlign[] = ["top", "middle", "bottom"];
+
+const FIT_OPTIONS: BackgroundFit[] = ["box", "text"];
+
+const WEIGHT_OPTIONS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const DEFAULT_BACKGROUND = "rgba(0,0,0,0.45)";
+
+const toPercent = (value: number) => Math.round(value * 1000) / 10;
+
+const BUTTON_CLASS =
+  "rounded-lg border border-white/15 px-3 py-2 text-sm text-white/80 transition hover:border-white/40 hover:text-white";
+
+type AlphaColorFieldProps = {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+};
+
+/** Color picker plus opacity, for fills that are usually see-through. */
+function AlphaColorField({ label, value, onChange }: AlphaColorFieldProps) {
+  const { t } = useI18n();
+  const color = parseColor(value) ?? { hex: "#000000", alpha: 1 };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <BrandSwatches
+        value={color.hex}
+        onPick={(picked) =>
+          onChange(
+            formatColor({
+              ...color,
+              hex: parseColor(picked)?.hex ?? color.hex,
+            }),
+          )
+        }
+      />
+      <input
+        type="color"
+        value={color.hex}
+        onChange={(event) =>
+          onChange(formatColor({ ...color, hex: event.target.value }))
+        }
+        className={SWATCH_CLASS}
+        aria-label={label}
+      />
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={1}
+        value={Math.round(color.alpha * 100)}
+        onChange={(event) =>
+          onChange(
+            formatColor({ ...color, alpha: event.target.valueAsNumber / 100 }),
+          )
+        }
+        className="w-24"
+        aria-label={t.textStyle.opacity(label)}
+      />
+      <span className="w-10 text-xs text-white/50">
+        {Math.round(color.alpha * 100)}%
+      </span>
+    </div>
+  );
+}
+
+export function TextStyleFields({
+  style,
+  fonts,
+  onChange,
+  onAddFont,
+  onError,
+}: TextStyleFieldsProps) {
+  const { t } = useI18n();
+  const { kit, setKit } = useBrandKit();
+  const brandFamilies = new Set(kit.fonts.map((font) => font.family));
+  const sceneFonts = fonts.filter((font) => !brandFamilies.has(font.family));
+
+  /** Brand fonts are copied into the scene, so it still renders elsewhere. */
+  const selectFamily = (
+    family: string | null,
+    patch: Partial<TextStyle> = {},
+  ) => {
+    const brandFont = kit.fonts.find((font) => font.family === family);
+    if (brandFont && !fonts.some((font) => font.family === family)) {
+      onAddFont(brandFont, patch);
+    } else {
+      onChange({ ...patch, fontFamily: family });
+    }
+  };
+
+  const applyBrandStyle = (id: string) => {
+    const entry = kit.textStyles.find((current) => current.id === id);
+    if (entry) {
+      selectFamily(entry.style.fontFamily, entry.style);
+    }
+  };
+
+  const saveBrandStyle = () => {
+    const font = fonts.find((current) => current.family === style.fontFamily);
+    const entry: BrandTextStyle = {
+      id: createBrandId(),
+      name: t.brand.styleName(kit.textStyles.length + 1),
+      style,
+    };
+    try {
+      setKit({
+        ...kit,
+        fonts:
+          font && !brandFamilies.has(font.family)
+            ? [...kit.fonts, font]
+            : kit.fonts,
+        textStyles: [...kit.textStyles, entry],
+      });
+    } catch (error) {
+      onError(describeError(t, error, t.brand.saveFailed));
+    }
+  };
+
+  const handleFontUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      onAddFont(await readFontFile(file, t.textStyle.uploadedFamily));
+    } catch (error) {
+      onError(describeError(t, error, t.errors.fontUnreadable));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-end gap-3">
+        {kit.textStyles.length > 0 && (
+          <label className="flex min-w-48 flex-1 flex-col gap-1">
+            <span className={LABEL_CLASS}>{t.brand.textStyles}</span>
+            <select
+              value=""
+              onChange={(event) => applyBrandStyle(event.target.value)}
+              className={FIELD_CLASS}
+            >
+              <option value="">{t.brand.applyStyle}</option>
+              {kit.textStyles.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <button type="button" onClick={saveBrandStyle} className={BUTTON_CLASS}>
+          {t.brand.saveStyle}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex min-w-48 flex-1 flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.textStyle.font}</span>
+          <select
+            value={style.fontFamily ?? ""}
+            onChange={(event) => selectFamily(event.target.value || null)}
+            className={FIELD_CLASS}
+          >
+            <option value="">{t.textStyle.defaultFont}</option>
+            {kit.fonts.length > 0 && (
+              <optgroup label={t.brand.fonts}>
+                {kit.fonts.map((font) => (
+                  <option key={font.family} value={font.family}>
+                    {font.family}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            <optgroup label={t.textStyle.systemFonts}>
+              {SYSTEM_FONT_FAMILIES.map((family) => (
+                <option key={family} value={family}>
+                  {family}
+                </option>
+              ))}
+            </optgroup>
+            {sceneFonts.length > 0 && (
+              <optgroup label={t.textStyle.uploadedFonts}>
+                {sceneFonts.map((font) => (
+                  <option key={font.family} value={font.family}>
+                    {font.family}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </label>
+        <label className={`cursor-pointer ${BUTTON_CLASS}`}>
+          {t.textStyle.uploadFont}
+          <input
+            type="file"
+            accept={FONT_INPUT_ACCEPT}
+            onChange={handleFontUpload}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.common.size}</span>
+          <input
+            type="range"
+            min={1}
+            max={15}
+            step={0.1}
+            value={toPercent(style.fontSize)}
+            onChange={(event) =>
+              onChange({ fontSize: event.target.valueAsNumber / 100 })
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.common.weight}</span>
+          <select
+            value={style.fontWeight}
+            onChange={(event) =>
+              onChange({ fontWeight: Number(event.target.value) })
+            }
+            className={FIELD_CLASS}
+          >
+            {WEIGHT_OPTIONS.map((weight) => (
+              <option key={weight} value={weight}>
+                {weight}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.textStyle.align}</span>
+          <select
+            value={style.align}
+            onChange={(event) =>
+              onChange({ align: event.target.value as TextAlign })
+            }
+            className={FIELD_CLASS}
+          >
+            {ALIGN_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t.textStyle.aligns[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>
+            {t.textStyle.letterSpacing(style.letterSpacing.toFixed(2))}
+          </span>
+          <input
+            type="range"
+            min={-0.1}
+            max={0.5}
+            step={0.01}
+            value={style.letterSpacing}
+            onChange={(event) =>
+              onChange({ letterSpacing: event.target.valueAsNumber })
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>
+            {t.textStyle.lineHeight(style.lineHeight.toFixed(2))}
+          </span>
+          <input
+            type="range"
+            min={0.8}
+            max={2.5}
+            step={0.05}
+            value={style.lineHeight}
+            onChange={(event) =>
+              onChange({ lineHeight: event.target.valueAsNumber })
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.textStyle.verticalAlign}</span>
+          <select
+            value={style.verticalAlign}
+            onChange={(event) =>
+              onChange({ verticalAlign: event.target.value as VerticalAlign })
+            }
+            className={FIELD_CLASS}
+          >
+            {VERTICAL_ALIGN_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t.textStyle.verticalAligns[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className={LABEL_CLASS}>{t.textStyle.maxLines}</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={style.maxLines || ""}
+            placeholder={t.textStyle.noLimit}
+            onChange={(event) => {
+              const maxLines = event.target.valueAsNumber;
+              onChange({
+                maxLines: Number.isNaN(maxLines)
+                  ? 0
+                  : Math.max(0, Math.round(maxLines)),
+              });
+            }}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className="flex items-center gap-2 self-end pb-2 text-sm text-white/70">
+          <input
+            type="checkbox"
+            checked={style.autoFit}
+            onChange={(event) => onChange({ autoFit: event.target.checked })}
+          />
+          {t.textStyle.autoFit}
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-white/70">
+        <BrandSwatches
+          value={style.useAccent ? null : style.color}
+          disabled={style.useAccent}
+          onPick={(color) => onChange({ color })}
+        />
+        <label className="flex items-center gap-2">
+          <input
+            type="color"
+            value={style.color}
+            disabled={style.useAccent}
+            onChange={(event) => onChange({ color: event.target.value })}
+            className={SWATCH_CLASS}
+            aria-label={t.textStyle.textColor}
+          />
+          {t.common.color}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={style.useAccent}
+            onChange={(event) => onChange({ useAccent: event.target.checked })}
+          />
+          {t.textStyle.accent}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={style.uppercase}
+            onChange={(event) => onChange({ uppercase: event.target.checked })}
+          />
+          {t.common.uppercase}
+        </label>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="flex flex-col gap-2">
+          <span className={LABEL_CLASS}>
+            {t.textStyle.stroke(style.strokeWidth.toFixed(2))}
+          </span>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={0.2}
+              step={0.01}
+              value={style.strokeWidth}
+              onChange={(event) =>
+                onChange({ strokeWidth: event.target.valueAsNumber })
+              }
+              className="flex-1"
+            />
+            <BrandSwatches
+              value={style.strokeColor}
+              disabled={style.strokeWidth <= 0}
+              onPick={(strokeColor) => onChange({ strokeColor })}
+            />
+            <input
+              type="color"
+              value={parseColor(style.strokeColor)?.hex ?? "#000000"}
+              disabled={style.strokeWidth <= 0}
+              onChange={(event) => onChange({ strokeColor: event.target.value })}
+              className={SWATCH_CLASS}
+              aria-label={t.common.outlineColor}
+            />
+          </div>
+        </div>
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center gap-2 text-sm text-white/70">
+            <input
+              type="checkbox"
+              checked={style.shadow}
+              onChange={(event) => onChange({ shadow: event.target.checked })}
+            />
+            {t.textStyle.shadow}
+          </label>
+          {style.shadow && (
+            <AlphaColorField
+              label={t.textStyle.shadowColor}
+              value={style.shadowColor}
+              onChange={(shadowColor) => onChange({ shadowColor })}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <label className="flex items-center gap-2 text-sm text-white/70">
+          <input
+            type="checkbox"
+            checked={style.background !== null}
+            onChange={(event) =>
+              onChange({
+                background: event.target.checked ? DEFAULT_BACKGROUND : null,
+              })
+            }
+          />
+          {t.textStyle.background}
+        </label>
+        {style.background !== null && (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <div className="col-span-2 flex flex-col gap-1">
+              <span className={LABEL_CLASS}>{t.common.color}</span>
+              <AlphaColorField
+                label={t.textStyle.backgroundColor}
+                value={style.background}
+                onChange={(background) => onChange({ background })}
+              />
+            </div>
+            <label className="col-span-2 flex flex-col gap-1">
+              <span className={LABEL_CLASS}>{t.textStyle.backgroundFit}</span>
+              <select
+                value={style.backgroundFit}
+                onChange={(event) =>
+                  onChange({
+                    backgroundFit: event.target.value as BackgroundFit,
+                  })
+                }
+                className={FIELD_CLASS}
+              >
+                {FIT_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {t.textStyle.backgroundFits[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="col-span-2 flex flex-col gap-1">
+              <span className={LABEL_CLASS}>
+                {t.textStyle.padding(style.backgroundPadding.toFixed(2))}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={1.5}
+                step={0.05}
+                value={style.backgroundPadding}
+                onChange={(event) =>
+                  onChange({ backgroundPadding: event.target.valueAsNumber })
+                }
+              />
+            </label>
+            <label className="col-span-2 flex flex-col gap-1">
+              <span className={LABEL_CLASS}>
+                {t.textStyle.radius(style.backgroundRadius.toFixed(2))}
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.05}
+                value={style.backgroundRadius}
+                onChange={(event) =>
+                  onChange({ backgroundRadius: event.target.valueAsNumber })
+                }
+              />
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
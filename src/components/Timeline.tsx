@@ -0,0 +1,475 @@
+"use client";
+
+import {
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useFilmstrip } from "@/hooks/useFilmstrip";
+import { useI18n } from "@/hooks/useI18n";
+import { usePlayerState } from "@/hooks/usePlayerState";
+import type { SequencePlayer } from "@/lib/player";
+import {
+  LayerTiming,
+  OverlayScene,
+  isWatermark,
+  sortLayers,
+  updateLayer,
+} from "@/lib/scene";
+import type { Clip } from "@/lib/sequence";
+import { formatFrameTimecode, formatTimecode } from "@/lib/time";
+import {
+  TIMELINE_ZOOM_LEVELS,
+  TimingHandle,
+  chooseRulerStep,
+  dragTiming,
+  resolveLayerSpan,
+  snapToFrame,
+  stepFrames,
+} from "@/lib/timeline";
+
+type TimelineProps = {
+  player: SequencePlayer | null;
+  clips: Clip[];
+  scene: OverlayScene;
+  /** Frames the playhead and the bars snap to: the export frame rate. */
+  frameRate: number;
+  selectedId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string | null) => void;
+  onChange: (scene: OverlayScene) => void;
+};
+
+type BarGesture = {
+  id: string;
+  handle: TimingHandle;
+  startX: number;
+  startTiming: LayerTiming;
+};
+
+/** Slots in the filmstrip; frames stretch to fill them at any zoom. */
+const FILMSTRIP_COUNT = 24;
+
+/** Pixel height the thumbnails are captured at, for sharp HiDPI strips. */
+const FILMSTRIP_HEIGHT = 80;
+
+const BUTTON_CLASS =
+  "rounded-lg bg-white/10 px-2.5 py-1.5 text-xs font-semibold transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40";
+
+const LABEL_CLASS = "text-xs uppercase tracking-[0.2em] text-white/50";
+
+const HANDLE_CLASS =
+  "absolute inset-y-0 w-2 cursor-ew-resize rounded bg-white/0 transition hover:bg-white/40";
+
+/**
+ * Transport, ruler, filmstrip and one track per layer, all on the sequence
+ * timeline. Bars set when each layer is visible; the playhead snaps to
+ * frames at the export frame rate.
+ */
+export function Timeline({
+  player,
+  clips,
+  scene,
+  frameRate,
+  selectedId,
+  disabled,
+  onSelect,
+  onChange,
+}: TimelineProps) {
+  const { t } = useI18n();
+  const { time, duration, playing } = usePlayerState(player);
+  const thumbnails = useFilmstrip(clips, FILMSTRIP_COUNT, FILMSTRIP_HEIGHT);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const gestureRef = useRef<BarGesture | null>(null);
+  const [viewportWidth, setViewportWidth] = useState<number>(0);
+  const [zoomIndex, setZoomIndex] = useState<number>(0);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) {
+      return;
+    }
+    const measure = () => setViewportWidth(element.clientWidth);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const zoom = TIMELINE_ZOOM_LEVELS[zoomIndex];
+  const pixelsPerSecond =
+    duration > 0 && viewportWidth > 0 ? (viewportWidth / duration) * zoom : 0;
+  const contentWidth = duration * pixelsPerSecond;
+  const playheadX = Math.min(time, duration) * pixelsPerSecond;
+  const inactive = disabled || !duration;
+
+  // Keep the playhead in view while playing or stepping through frames.
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || pixelsPerSecond === 0) {
+      return;
+    }
+    const { scrollLeft, clientWidth } = element;
+    if (playheadX < scrollLeft || playheadX > scrollLeft + clientWidth) {
+      element.scrollLeft = playheadX - clientWidth * 0.1;
+    }
+  }, [playheadX, pixelsPerSecond]);
+
+  const seek = (target: number) => {
+    player
+      ?.seek(Math.min(Math.max(snapToFrame(target, frameRate), 0), duration))
+      .catch(() => undefined);
+  };
+
+  const step = (frames: number) =>
+    seek(stepFrames(player?.getTime() ?? time, frames, frameRate, duration));
+
+  const togglePlayback = () => {
+    if (!player) {
+      return;
+    }
+    if (playing) {
+      player.pause();
+    } else {
+      player.play().catch(() => undefined);
+    }
+  };
+
+  /** Zooms around the playhead, so the frame being edited stays put. */
+  const changeZoom = (next: number) => {
+    const element = scrollRef.current;
+    const index = Math.min(Math.max(next, 0), TIMELINE_ZOOM_LEVELS.length - 1);
+    if (index === zoomIndex) {
+      return;
+    }
+    if (element && pixelsPerSecond > 0) {
+      const offset = playheadX - element.scrollLeft;
+      const scale = TIMELINE_ZOOM_LEVELS[index] / zoom;
+      requestAnimationFrame(() => {
+        element.scrollLeft = playheadX * scale - offset;
+      });
+    }
+    setZoomIndex(index);
+  };
+
+  const timeAt = (clientX: number) => {
+    const element = scrollRef.current;
+    if (!element || pixelsPerSecond === 0) {
+      return 0;
+    }
+    const { left } = element.getBoundingClientRect();
+    return (clientX - left + element.scrollLeft) / pixelsPerSecond;
+  };
+
+  const handleScrub = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (inactive || (event.type === "pointermove" && !event.buttons)) {
+      return;
+    }
+    if (event.type === "pointerdown") {
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    seek(timeAt(event.clientX));
+  };
+
+  const beginBarGesture = (
+    event: ReactPointerEvent<HTMLElement>,
+    id: string,
+    handle: TimingHandle,
+    timing: LayerTiming,
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+    onSelect(id);
+    if (disabled) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    gestureRef.current = {
+      id,
+      handle,
+      startX: event.clientX,
+      startTiming: timing,
+    };
+  };
+
+  const handleBarMove = (event: ReactPointerEvent<HTMLElement>) => {
+    const gesture = gestureRef.current;
+    if (!gesture || pixelsPerSecond === 0) {
+      return;
+    }
+    const timing = dragTiming(
+      gesture.startTiming,
+      gesture.handle,
+      (event.clientX - gesture.startX) / pixelsPerSecond,
+      duration,
+      frameRate,
+    );
+    onChange(updateLayer(scene, gesture.id, (layer) => ({ ...layer, timing })));
+  };
+
+  const endBarGesture = (event: ReactPointerEvent<HTMLElement>) => {
+    if (!gestureRef.current) {
+      return;
+    }
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    gestureRef.current = null;
+  };
+
+  const handleKeyDown = (event: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (inactive || event.ctrlKey || event.metaKey || event.altKey) {
+      return;
+    }
+    const actions: Record<string, () => void> = {
+      ArrowLeft: () => step(event.shiftKey ? -frameRate : -1),
+      ArrowRight: () => step(event.shiftKey ? frameRate : 1),
+      Home: () => seek(0),
+      End: () => seek(duration),
+      " ": togglePlayback,
+      "+": () => changeZoom(zoomIndex + 1),
+      "=": () => changeZoom(zoomIndex + 1),
+      "-": () => changeZoom(zoomIndex - 1),
+    };
+    const action = actions[event.key];
+    if (action) {
+      event.preventDefault();
+      action();
+    }
+  };
+
+  const rulerStep =
+    pixelsPerSecond > 0 ? chooseRulerStep(pixelsPerSecond, frameRate) : 0;
+  const ticks =
+    rulerStep > 0
+      ? Array.from(
+          { length: Math.floor(duration / rulerStep + 1e-6) + 1 },
+          (_, index) => index * rulerStep,
+        )
+      : [];
+  const layers = sortLayers(scene.layers).reverse();
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-label={t.timeline.label}
+      className="flex flex-col gap-3 rounded-2xl outline-none focus-visible:ring-1 focus-visible:ring-white/30"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={togglePlayback}
+          disabled={inactive}
+          className="w-20 rounded-xl bg-white/10 px-3 py-2 text-sm font-semibold transition hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {playing ? t.preview.pause : t.preview.play}
+        </button>
+        <button
+          type="button"
+          onClick={() => step(-1)}
+          disabled={inactive}
+          aria-label={t.timeline.previousFrame}
+          title={t.timeline.previousFrame}
+          className={BUTTON_CLASS}
+        >
+          ◀|
+        </button>
+        <button
+          type="button"
+          onClick={() => step(1)}
+          disabled={inactive}
+          aria-label={t.timeline.nextFrame}
+          title={t.timeline.nextFrame}
+          className={BUTTON_CLASS}
+        >
+          |▶
+        </button>
+        <span className="font-mono text-xs text-white/70">
+          {formatFrameTimecode(time, frameRate)}
+          <span className="text-white/40">
+            {" "}
+            / {formatFrameTimecode(duration, frameRate)} · {frameRate} fps
+          </span>
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => changeZoom(zoomIndex - 1)}
+            disabled={inactive || zoomIndex === 0}
+            aria-label={t.timeline.zoomOut}
+            title={t.timeline.zoomOut}
+            className={BUTTON_CLASS}
+          >
+            −
+          </button>
+          <button
+            type="button"
+            onClick={() => changeZoom(0)}
+            disabled={inactive || zoomIndex === 0}
+            className={BUTTON_CLASS}
+          >
+            {t.timeline.fit}
+          </button>
+          <button
+            type="button"
+            onClick={() => changeZoom(zoomIndex + 1)}
+            disabled={
+              inactive || zoomIndex === TIMELINE_ZOOM_LEVELS.length - 1
+            }
+            aria-label={t.timeline.zoomIn}
+            title={t.timeline.zoomIn}
+            className={BUTTON_CLASS}
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div className="flex overflow-hidden rounded-xl border border-white/10 bg-neutral-950/60">
+        <div className="flex w-28 shrink-0 flex-col border-r border-white/10">
+          <div className="h-6 border-b border-white/10" />
+          <div className={`flex h-12 items-center px-2 ${LABEL_CLASS}`}>
+            {t.timeline.video}
+          </div>
+          {layers.map((layer) => (
+            <button
+              key={layer.id}
+              type="button"
+              onClick={() => onSelect(layer.id)}
+              className={`h-8 truncate border-t border-white/5 px-2 text-left text-xs transition ${
+                layer.id === selectedId
+                  ? "bg-white/10 text-white"
+                  : "text-white/60 hover:text-white"
+              }`}
+            >
+              {layer.name}
+            </button>
+          ))}
+        </div>
+
+        <div ref={scrollRef} className="relative flex-1 overflow-x-auto">
+          <div className="relative" style={{ width: contentWidth || "100%" }}>
+            <div
+              onPointerDown={handleScrub}
+              onPointerMove={handleScrub}
+              className={`touch-none select-none ${
+                inactive ? "" : "cursor-col-resize"
+              }`}
+            >
+              <div className="relative h-6 border-b border-white/10">
+                {ticks.map((tick) => (
+                  <span
+                    key={tick}
+                    className="absolute inset-y-0 border-l border-white/15 pl-1 font-mono text-[10px] leading-6 text-white/40"
+                    style={{ left: tick * pixelsPerSecond }}
+                  >
+                    {rulerStep < 1 / frameRate + 1e-6
+                      ? formatFrameTimecode(tick, frameRate)
+                      : formatTimecode(tick)}
+                  </span>
+                ))}
+              </div>
+              <div className="flex h-12 bg-neutral-900">
+                {thumbnails.map((thumbnail, index) => (
+                  <div
+                    key={index}
+                    className="h-full flex-1 border-r border-black/40 bg-cover bg-center"
+                    style={
+                      thumbnail
+                        ? { backgroundImage: `url(${thumbnail.url})` }
+                        : undefined
+                    }
+                  />
+                ))}
+              </div>
+            </div>
+
+            {layers.map((layer) => {
+              const locked = isWatermark(layer);
+              const span = locked
+                ? { start: 0, end: duration }
+                : resolveLayerSpan(layer.timing, duration);
+              const selected = layer.id === selectedId;
+              return (
+                <div
+                  key={layer.id}
+                  className="relative h-8 border-t border-white/5"
+                >
+                  <div
+                    aria-label={t.timeline.bar(
+                      layer.name,
+                      formatTimecode(span.start),
+                      formatTimecode(span.end),
+                    )}
+                    title={locked ? t.timeline.watermark : undefined}
+                    onPointerDown={(event) =>
+                      locked
+                        ? onSelect(layer.id)
+                        : beginBarGesture(event, layer.id, "move", layer.timing)
+                    }
+                    onPointerMove={handleBarMove}
+                    onPointerUp={endBarGesture}
+                    onPointerCancel={endBarGesture}
+                    className={`absolute inset-y-1 touch-none select-none overflow-hidden rounded-md border text-[11px] leading-5 transition-colors ${
+                      locked
+                        ? "cursor-default border-white/10 bg-white/5 text-white/40"
+                        : selected
+                          ? "cursor-grab border-white/70 bg-sky-400/40 text-white"
+                          : "cursor-grab border-sky-300/30 bg-sky-400/20 text-white/80 hover:border-sky-300/60"
+                    }`}
+                    style={{
+                      left: span.start * pixelsPerSecond,
+                      width: Math.max(
+                        (span.end - span.start) * pixelsPerSecond,
+                        4,
+                      ),
+                    }}
+                  >
+                    <span className="pointer-events-none block truncate px-2">
+                      {layer.name}
+                    </span>
+                    {!locked && (
+                      <>
+                        <span
+                          aria-hidden
+                          onPointerDown={(event) =>
+                            beginBarGesture(
+                              event,
+                              layer.id,
+                              "start",
+                              layer.timing,
+                            )
+                          }
+                          className={`${HANDLE_CLASS} left-0`}
+                        />
+                        <span
+                          aria-hidden
+                          onPointerDown={(event) =>
+                            beginBarGesture(event, layer.id, "end", layer.timing)
+                          }
+                          className={`${HANDLE_CLASS} right-0`}
+                        />
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {duration > 0 && (
+              <div
+                className="pointer-events-none absolute inset-y-0 w-px bg-red-400"
+                style={{ left: playheadX }}
+              >
+                <span className="absolute -left-1 top-0 h-2 w-2 rotate-45 bg-red-400" />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-white/40">{t.timeline.hint}</p>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+"use client";
+
+import {
+  PointerEvent as ReactPointerEvent,
+  RefObject,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { useI18n } from "@/hooks/useI18n";
+import { FrameSize } from "@/lib/render/frame";
+import { SAFE_AREA_GUIDES, SafeAreaPlatform } from "@/lib/safeAreas";
+import { LayerBox, OverlayScene, sortLayers, updateLayer } from "@/lib/scene";
+import {
+  SnapGuide,
+  collectSnapTargets,
+  snapMove,
+  snapResize,
+  snapRotation,
+} from "@/lib/snapping";
+
+type TransformOverlayProps = {
+  containerRef: RefObject<HTMLDivElement | null>;
+  frameSize: FrameSize;
+  scene: OverlayScene;
+  selectedId: string | null;
+  safeAreas: SafeAreaPlatform[];
+  onSelect: (id: string | null) => void;
+  onChange: (scene: OverlayScene) => void;
+};
+
+type Rect = { left: number; top: number; width: number; height: number };
+
+type Gesture =
+  | { mode: "move" }
+  | { mode: "resize"; edges: { x: -1 | 1; y: -1 | 1 } }
+  | { mode: "rotate" };
+
+type ActiveGesture = Gesture & {
+  id: string;
+  startBox: LayerBox;
+  startX: number;
+  startY: number;
+  rect: DOMRect;
+};
+
+const MIN_SIZE = 0.02;
+
+const CORNERS: { x: -1 | 1; y: -1 | 1; cursor: string }[] = [
+  { x: -1, y: -1, cursor: "nwse-resize" },
+  { x: 1, y: -1, cursor: "nesw-resize" },
+  { x: -1, y: 1, cursor: "nesw-resize" },
+  { x: 1, y: 1, cursor: "nwse-resize" },
+];
+
+/**
+ * Where the frame lands inside the container when scaled to cover it. The
+ * preview box follows the output aspect, so this is normally the whole box.
+ */
+const getCoverRect = (container: DOMRect, frame: FrameSize): Rect => {
+  const scale = Math.max(
+    container.width / frame.width,
+    container.height / frame.height,
+  );
+  const width = frame.width * scale;
+  const height = frame.height * scale;
+  return {
+    left: (container.width - width) / 2,
+    top: (container.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+/** Resizes around the opposite corner, working in the box's rotated space. */
+const resizeBox = (
+  box: LayerBox,
+  edges: { x: -1 | 1; y: -1 | 1 },
+  dxPx: number,
+  dyPx: number,
+  rect: DOMRect,
+): LayerBox => {
+  const radians = (box.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const localX = dxPx * cos + dyPx * sin;
+  const localY = -dxPx * sin + dyPx * cos;
+
+  const startWidth = box.width * rect.width;
+  const startHeight = box.height * rect.height;
+  const width = Math.max(MIN_SIZE * rect.width, startWidth + edges.x * localX);
+  const height = Math.max(MIN_SIZE * rect.height, startHeight + edges.y * localY);
+
+  const shiftX = (edges.x * (width - startWidth)) / 2;
+  const shiftY = (edges.y * (height - startHeight)) / 2;
+  const centerX = (box.x + box.width / 2) * rect.width + shiftX * cos - shiftY * sin;
+  const centerY = (box.y + box.height / 2) * rect.height + shiftX * sin + shiftY * cos;
+
+  return {
+    ...box,
+    x: (centerX - width / 2) / rect.width,
+    y: (centerY - height / 2) / rect.height,
+    width: width / rect.width,
+    height: height / rect.height,
+  };
+};
+
+export function TransformOverlay({
+  containerRef,
+  frameSize,
+  scene,
+  selectedId,
+  safeAreas,
+  onSelect,
+  onChange,
+}: TransformOverlayProps) {
+  const { t } = useI18n();
+  const frameRef = useRef<HTMLDivElement>(null);
+  const gestureRef = useRef<ActiveGesture | null>(null);
+  const [coverRect, setCoverRect] = useState<Rect | null>(null);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const aspect = frameSize.width / frameSize.height;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    const measure = () =>
+      setCoverRect(getCoverRect(container.getBoundingClientRect(), frameSize));
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef, frameSize]);
+
+  const beginGesture = (
+    event: ReactPointerEvent<HTMLElement>,
+    id: string,
+    gesture: Gesture,
+  ) => {
+    const frame = frameRef.current;
+    const layer = scene.layers.find((entry) => entry.id === id);
+    if (!frame || !layer) {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onSelect(id);
+    gestureRef.current = {
+      ...gesture,
+      id,
+      startBox: layer.box,
+      startX: event.clientX,
+      startY: event.clientY,
+      rect: frame.getBoundingClientRect(),
+    };
+  };
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLElement>) => {
+    const gesture = gestureRef.current;
+    if (!gesture) {
+      return;
+    }
+
+    const { rect, startBox } = gesture;
+    const dxPx = event.clientX - gesture.startX;
+    const dyPx = event.clientY - gesture.startY;
+    // Holding Alt skips snapping for fine placement.
+    const targets = event.altKey
+      ? { x: [], y: [] }
+      : collectSnapTargets(scene.layers, gesture.id, aspect);
+
+    let next: LayerBox;
+    let activeGuides: SnapGuide[] = [];
+
+    switch (gesture.mode) {
+      case "move": {
+        const moved = {
+          ...startBox,
+          x: startBox.x + dxPx / rect.width,
+          y: startBox.y + dyPx / rect.height,
+        };
+        ({ box: next, guides: activeGuides } = snapMove(moved, targets, aspect));
+        break;
+      }
+      case "resize": {
+        const resized = resizeBox(startBox, gesture.edges, dxPx, dyPx, rect);
+        ({ box: next, guides: activeGuides } = snapResize(
+          resized,
+          gesture.edges,
+          targets,
+        ));
+        break;
+      }
+      case "rotate": {
+        const centerX = rect.left + (startBox.x + startBox.width / 2) * rect.width;
+        const centerY = rect.top + (startBox.y + startBox.height / 2) * rect.height;
+        const degrees =
+          (Math.atan2(event.clientY - centerY, event.clientX - centerX) * 180) /
+            Math.PI +
+          90;
+        const normalized = ((degrees + 540) % 360) - 180;
+        next = {
+          ...startBox,
+          rotation: event.altKey
+            ? Math.round(normalized * 10) / 10
+            : snapRotation(normalized, event.shiftKey),
+        };
+        break;
+      }
+    }
+
+    setGuides(activeGuides);
+    onChange(updateLayer(scene, gesture.id, (layer) => ({ ...layer, box: next })));
+  };
+
+  const endGesture = (event: ReactPointerEvent<HTMLElement>) => {
+    if (!gestureRef.current) {
+      return;
+    }
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    gestureRef.current = null;
+    setGuides([]);
+  };
+
+  if (!coverRect) {
+    return null;
+  }
+
+  const guideStyles = SAFE_AREA_GUIDES.filter((guide) =>
+    safeAreas.includes(guide.platform),
+  );
+
+  return (
+    <div
+      ref={frameRef}
+      className="pointer-events-none absolute"
+      style={coverRect}
+    >
+      {guideStyles.map((guide) => (
+        <div
+          key={guide.platform}
+          className="absolute border-2 border-dashed"
+          style={{
+            left: `${guide.insets.left * 100}%`,
+            top: `${guide.insets.top * 100}%`,
+            right: `${guide.insets.right * 100}%`,
+            bottom: `${guide.insets.bottom * 100}%`,
+            borderColor: guide.color,
+          }}
+        >
+          <span
+            className="absolute left-1 top-1 rounded px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-[0.15em] text-neutral-950"
+            style={{ backgroundColor: guide.color }}
+          >
+            {guide.label}
+          </span>
+        </div>
+      ))}
+
+      {guides.map((guide) => (
+        <div
+          key={`${guide.axis}-${guide.position}`}
+          className="absolute bg-fuchsia-400"
+          style={
+            guide.axis === "x"
+              ? { left: `${guide.position * 100}%`, top: 0, bottom: 0, width: 1 }
+              : { top: `${guide.position * 100}%`, left: 0, right: 0, height: 1 }
+          }
+        />
+      ))}
+
+      {sortLayers(scene.layers).map((layer) => {
+        const isSelected = layer.id === selectedId;
+        return (
+          <div
+            key={layer.id}
+            onPointerDown={(event) => beginGesture(event, layer.id, { mode: "move" })}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endGesture}
+            onPointerCancel={endGesture}
+            className={`pointer-events-auto absolute cursor-move touch-none border ${
+              isSelected
+                ? "border-sky-400"
+                : "border-transparent hover:border-white/40"
+            }`}
+            style={{
+              left: `${layer.box.x * 100}%`,
+              top: `${layer.box.y * 100}%`,
+              width: `${layer.box.width * 100}%`,
+              height: `${layer.box.height * 100}%`,
+              transform: `rotate(${layer.box.rotation}deg)`,
+            }}
+          >
+            {isSelected && (
+              <>
+                {CORNERS.map((corner) => (
+                  <span
+                    key={`${corner.x}:${corner.y}`}
+                    onPointerDown={(event) =>
+                      beginGesture(event, layer.id, {
+                        mode: "resize",
+                        edges: { x: corner.x, y: corner.y },
+                      })
+                    }
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={endGesture}
+                    onPointerCancel={endGesture}
+                    className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-sm border border-sky-400 bg-white"
+                    style={{
+                      left: corner.x === 1 ? "100%" : 0,
+                      top: corner.y === 1 ? "100%" : 0,
+                      cursor: corner.cursor,
+                    }}
+                  />
+                ))}
+                <span
+                  onPointerDown={(event) =>
+                    beginGesture(event, layer.id, { mode: "rotate" })
+                  }
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={endGesture}
+                  onPointerCancel={endGesture}
+                  className="absolute left-1/2 top-0 h-3.5 w-3.5 -translate-x-1/2 -translate-y-[1.75rem] cursor-grab rounded-full border border-sky-400 bg-white"
+                  aria-label={t.preview.rotate}
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { RefObject, useEffect, useRef } from "react";
+import { AudioMix, resolveMusicGain } from "@/lib/audioMix";
+import type { SequencePlayer } from "@/lib/player";
+
+/** Drift in seconds after which the music is re-synced to the playhead. */
+const MAX_DRIFT = 0.25;
+
+/**
+ * Plays the mix alongside the preview: the original track through the
+ * player's `<video>` volume and the music on its own `<audio>`, kept in step
+ * with the sequence playhead. Ducking is only applied in the export.
+ */
+export const useAudioMixPreview = (
+  player: SequencePlayer | null,
+  videoRef: RefObject<HTMLVideoElement | null>,
+  mix: AudioMix,
+) => {
+  const musicRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video) {
+      video.volume = Math.min(1, mix.sourceVolume);
+      video.muted = mix.sourceVolume <= 0;
+    }
+  }, [videoRef, mix.sourceVolume]);
+
+  useEffect(() => {
+    const { music } = mix;
+    if (!player || !music) {
+      return;
+    }
+
+    const element = musicRef.current ?? new Audio();
+    musicRef.current = element;
+    if (element.src !== music.url) {
+      element.src = music.url;
+    }
+
+    const sync = () => {
+      const time = player.getTime();
+      const musicTime = time - music.offset;
+      const audible =
+        player.isPlaying() && musicTime >= 0 && musicTime < music.duration;
+
+      if (!audible) {
+        if (!element.paused) {
+          element.pause();
+        }
+        return;
+      }
+
+      element.volume = Math.min(
+        1,
+        resolveMusicGain(music, time, player.getDuration()),
+      );
+      if (Math.abs(element.currentTime - musicTime) > MAX_DRIFT) {
+        element.currentTime = musicTime;
+      }
+      if (element.paused) {
+        element.play().catch(() => undefined);
+      }
+    };
+
+    sync();
+    const unsubscribe = player.subscribe(sync);
+    return () => {
+      unsubscribe();
+      element.pause();
+    };
+  }, [player, mix]);
+
+  useEffect(
+    () => () => {
+      musicRef.current?.pause();
+      musicRef.current = null;
+    },
+    [],
+  );
+};
@@ -0,0 +1,18 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { BrandKit, EMPTY_BRAND_KIT } from "@/lib/brandKit";
+
+export type BrandKitState = {
+  kit: BrandKit;
+  /** Saves the kit locally; throws, leaving it unchanged, when that fails. */
+  setKit: (kit: BrandKit) => void;
+};
+
+export const BrandKitContext = createContext<BrandKitState>({
+  kit: EMPTY_BRAND_KIT,
+  setKit: () => {},
+});
+
+/** The brand kit saved in this browser. */
+export const useBrandKit = () => useContext(BrandKitContext);
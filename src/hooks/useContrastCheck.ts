@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ContrastReport, checkContrast } from "@/lib/contrast";
+import type { FrameRenderRequest } from "@/lib/export/frames";
+import { isExportCancelled } from "@/lib/export/jobs";
+
+/** Edits come in bursts while typing or dragging; check once they settle. */
+const CHECK_DELAY = 800;
+
+/**
+ * Contrast of every text layer with the footage under it, re-checked after
+ * each edit. Pass `null` to pause checking, e.g. while exporting.
+ */
+export const useContrastCheck = (request: FrameRenderRequest | null) => {
+  const [reports, setReports] = useState<ContrastReport[]>([]);
+
+  useEffect(() => {
+    if (!request) {
+      return;
+    }
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      checkContrast(request, controller.signal)
+        .then(setReports)
+        .catch((error) => {
+          if (!isExportCancelled(error)) {
+            console.error(error);
+          }
+        });
+    }, CHECK_DELAY);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [request]);
+
+  return reports;
+};
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Clip } from "@/lib/sequence";
+import { Thumbnail, captureFilmstrip } from "@/lib/thumbnails";
+
+/**
+ * Thumbnails along the sequence, regenerated whenever the clips or their
+ * trims change. Slots still loading are `null`.
+ */
+export const useFilmstrip = (clips: Clip[], count: number, height: number) => {
+  const [thumbnails, setThumbnails] = useState<(Thumbnail | null)[]>([]);
+
+  // Only what changes the frames; renames and other edits keep the strip.
+  const key = useMemo(
+    () =>
+      clips
+        .map((clip) => `${clip.id}:${clip.trimStart}:${clip.trimEnd}`)
+        .join("|"),
+    [clips],
+  );
+  const clipsRef = useRef(clips);
+  clipsRef.current = clips;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setThumbnails(Array.from({ length: count }, () => null));
+    captureFilmstrip(
+      clipsRef.current,
+      count,
+      height,
+      (index, thumbnail) =>
+        setThumbnails((current) =>
+          current.map((entry, slot) => (slot === index ? thumbnail : entry)),
+        ),
+      controller.signal,
+    ).catch((error) => console.error(error));
+    return () => controller.abort();
+  }, [key, count, height]);
+
+  return thumbnails;
+};
@@ -0,0 +1,93 @@
+"use client";
+
+import { SetStateAction, useCallback, useState } from "react";
+
+type HistoryState<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  /** When the last edit landed, or 0 when the next edit starts a new step. */
+  lastEdit: number;
+};
+
+/** Edits closer together than this (typing, dragging) form one undo step. */
+const MERGE_WINDOW_MS = 800;
+const HISTORY_LIMIT = 100;
+
+export const resolveAction = <T>(action: SetStateAction<T>, current: T): T =>
+  typeof action === "function"
+    ? (action as (previous: T) => T)(current)
+    : action;
+
+/**
+ * State with an undo/redo stack. `set` records edits, `reset` replaces the
+ * value and clears the history, for loading a different project.
+ */
+export const useHistory = <T>(initial: T | (() => T)) => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present:
+      typeof initial === "function" ? (initial as () => T)() : initial,
+    future: [],
+    lastEdit: 0,
+  }));
+
+  const set = useCallback((action: SetStateAction<T>) => {
+    const now = Date.now();
+    setHistory((current) => {
+      const next = resolveAction(action, current.present);
+      if (Object.is(next, current.present)) {
+        return current;
+      }
+      const merge = now - current.lastEdit < MERGE_WINDOW_MS;
+      return {
+        past: merge
+          ? current.past
+          : [...current.past, current.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastEdit: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((current) =>
+      current.past.length === 0
+        ? current
+        : {
+            past: current.past.slice(0, -1),
+            present: current.past[current.past.length - 1],
+            future: [current.present, ...current.future],
+            lastEdit: 0,
+          },
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((current) =>
+      current.future.length === 0
+        ? current
+        : {
+            past: [...current.past, current.present],
+            present: current.future[0],
+            future: current.future.slice(1),
+            lastEdit: 0,
+          },
+    );
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], lastEdit: 0 });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
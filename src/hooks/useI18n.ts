@@ -0,0 +1,20 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { DEFAULT_LOCALE, Locale, getMessages } from "@/lib/i18n/locales";
+import type { Messages } from "@/lib/i18n/sq";
+
+export type I18n = {
+  locale: Locale;
+  t: Messages;
+  setLocale: (locale: Locale) => void;
+};
+
+export const I18nContext = createContext<I18n>({
+  locale: DEFAULT_LOCALE,
+  t: getMessages(DEFAULT_LOCALE),
+  setLocale: () => {},
+});
+
+/** The interface strings in the language the user picked. */
+export const useI18n = () => useContext(I18nContext);
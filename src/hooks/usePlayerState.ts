@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SequencePlayer } from "@/lib/player";
+
+export type PlayerState = {
+  time: number;
+  duration: number;
+  playing: boolean;
+};
+
+const readState = (player: SequencePlayer | null): PlayerState => ({
+  time: player?.getTime() ?? 0,
+  duration: player?.getDuration() ?? 0,
+  playing: player?.isPlaying() ?? false,
+});
+
+/** Re-renders with the player's playhead, duration and play state. */
+export const usePlayerState = (player: SequencePlayer | null) => {
+  const [state, setState] = useState<PlayerState>(() => readState(player));
+
+  useEffect(() => {
+    setState(readState(player));
+    if (!player) {
+      return;
+    }
+    return player.subscribe(() => setState(readState(player)));
+  }, [player]);
+
+  return state;
+};
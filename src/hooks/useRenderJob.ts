@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createAppError } from "@/lib/errors";
+import type { ExportControls } from "@/lib/export/types";
+
+export type RenderJob = {
+  id: string;
+  /** What is being rendered, shown next to the progress bar. */
+  label: string;
+  /** Fraction done, 0–1. */
+  progress: number;
+  /** Epoch milliseconds. */
+  startedAt: number;
+};
+
+/** Encoders report every frame; the UI only needs a few updates a second. */
+const PROGRESS_INTERVAL_MS = 100;
+
+/**
+ * Runs one export at a time and tracks its progress. Cancelling aborts the
+ * job's signal, which the exporters turn into an `AbortError`.
+ */
+export const useRenderJob = () => {
+  const [job, setJob] = useState<RenderJob | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(
+    async <T>(label: string, task: (controls: ExportControls) => Promise<T>) => {
+      if (controllerRef.current) {
+        throw createAppError("exportBusy");
+      }
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const id = crypto.randomUUID();
+      let reportedAt = 0;
+      setJob({ id, label, progress: 0, startedAt: Date.now() });
+
+      const onProgress = (progress: number) => {
+        const now = performance.now();
+        if (progress < 1 && now - reportedAt < PROGRESS_INTERVAL_MS) {
+          return;
+        }
+        reportedAt = now;
+        setJob((current) =>
+          current?.id === id ? { ...current, progress } : current,
+        );
+      };
+
+      try {
+        return await task({ signal: controller.signal, onProgress });
+      } finally {
+        controllerRef.current = null;
+        setJob((current) => (current?.id === id ? null : current));
+      }
+    },
+    [],
+  );
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  // Leaving the page stops the worker and frees the decoder.
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { job, run, cancel };
+};
@@ -0,0 +1,106 @@
+import { createAppError } from "@/lib/errors";
+
+/** A music bed laid under the sequence, timed on the sequence timeline. */
+export type MusicTrack = {
+  id: string;
+  file: File;
+  url: string;
+  name: string;
+  duration: number;
+  /** 0–1. */
+  volume: number;
+  /** Sequence time in seconds at which the music starts. */
+  offset: number;
+  /** Seconds. */
+  fadeIn: number;
+  /** Seconds, ending where the music or the video ends. */
+  fadeOut: number;
+};
+
+export type AudioMix = {
+  /** Volume of the clips' own audio, 0–1; 0 mutes it. */
+  sourceVolume: number;
+  music: MusicTrack | null;
+  /** Lowers the music while the original audio is audible. */
+  ducking: boolean;
+  /** Music gain while ducked, as a share of its volume. */
+  duckLevel: number;
+};
+
+export const DEFAULT_AUDIO_MIX: AudioMix = {
+  sourceVolume: 1,
+  music: null,
+  ducking: false,
+  duckLevel: 0.3,
+};
+
+const ACCEPTED_AUDIO_EXTENSIONS = /\.(mp3|m4a|aac|wav|ogg|opus|flac)$/i;
+
+export const MUSIC_INPUT_ACCEPT = "audio/*";
+
+/** Loads a music file's duration and wraps it with default mix settings. */
+export const createMusicTrack = async (file: File): Promise<MusicTrack> => {
+  if (
+    !file.type.startsWith("audio/") &&
+    !ACCEPTED_AUDIO_EXTENSIONS.test(file.name)
+  ) {
+    throw createAppError("audioType");
+  }
+
+  const url = URL.createObjectURL(file);
+  const probe = new Audio();
+  probe.preload = "metadata";
+
+  try {
+    const duration = await new Promise<number>((resolve, reject) => {
+      probe.onloadedmetadata = () => resolve(probe.duration);
+      probe.onerror = () => reject(createAppError("audioUnreadable"));
+      probe.src = url;
+    });
+
+    return {
+      id: crypto.randomUUID(),
+      file,
+      url,
+      name: file.name,
+      duration: Number.isFinite(duration) ? duration : 0,
+      volume: 0.8,
+      offset: 0,
+      fadeIn: 1,
+      fadeOut: 2,
+    };
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  } finally {
+    probe.removeAttribute("src");
+  }
+};
+
+/** Sequence time at which the music stops: its own end or the video's. */
+export const getMusicEnd = (music: MusicTrack, duration: number) =>
+  Math.min(music.offset + music.duration, duration);
+
+/**
+ * Music gain at sequence `time` from its volume and fades, before ducking.
+ * The exporter schedules the same ramps on a Web Audio gain node.
+ */
+export const resolveMusicGain = (
+  music: MusicTrack,
+  time: number,
+  duration: number,
+) => {
+  const end = getMusicEnd(music, duration);
+  if (time < music.offset || time >= end) {
+    return 0;
+  }
+
+  // Fades never take more than half of the music's span each.
+  const half = (end - music.offset) / 2;
+  const fadeIn = Math.min(music.fadeIn, half);
+  const fadeOut = Math.min(music.fadeOut, half);
+  const fadeInGain =
+    fadeIn > 0 ? Math.min(1, (time - music.offset) / fadeIn) : 1;
+  const fadeOutGain = fadeOut > 0 ? Math.min(1, (end - time) / fadeOut) : 1;
+  return music.volume * Math.min(fadeInGain, fadeOutGain);
+};
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseTable } from "@/lib/batch/table";
+import { isAppError } from "@/lib/errors";
+
+const failsWith = (code: string) => (error: unknown) =>
+  isAppError(error) && error.reason.code === code;
+
+describe("parseTable", () => {
+  it("reads a comma separated file with quoted fields", () => {
+    const source = [
+      "\uFEFFtitle,price,notes",
+      '"Shoes, red",49,"Say ""hi"""',
+      '"Two',
+      'lines",10,',
+    ].join("\r\n");
+    assert.deepEqual(parseTable(source), {
+      headers: ["title", "price", "notes"],
+      rows: [
+        ["Shoes, red", "49", 'Say "hi"'],
+        ["Two\nlines", "10", ""],
+      ],
+    });
+  });
+
+  it("picks tabs for spreadsheet pastes and semicolons for EU exports", () => {
+    assert.deepEqual(parseTable("a\tb, c\n1\t2, 3").rows, [["1", "2, 3"]]);
+    assert.deepEqual(parseTable("a;b;c\n1,5;2;3\n").rows, [
+      ["1,5", "2", "3"],
+    ]);
+  });
+
+  it("trims cells, pads short rows and drops blank ones", () => {
+    const table = parseTable(
+      " name , city \n Ana \n\n , \nBeni,Tiranë,extra\n",
+    );
+    assert.deepEqual(table, {
+      headers: ["name", "city"],
+      rows: [
+        ["Ana", ""],
+        ["Beni", "Tiranë"],
+      ],
+    });
+  });
+
+  it("rejects a table without headers or rows", () => {
+    assert.throws(() => parseTable(""), failsWith("tableNoHeader"));
+    assert.throws(() => parseTable(" , \n1,2"), failsWith("tableNoHeader"));
+    assert.throws(() => parseTable("a,b\n,\n"), failsWith("tableNoRows"));
+  });
+});
@@ -0,0 +1,90 @@
+import { createAppError } from "@/lib/errors";
+
+/** A parsed CSV or pasted spreadsheet: one header row and the data rows. */
+export type DataTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+const DELIMITERS = ["\t", ";", ","];
+
+/**
+ * Spreadsheet pastes are tab separated and many European CSV exports use
+ * semicolons, so pick whichever delimiter splits the header line the most.
+ */
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split("\n", 1)[0] ?? "";
+  return DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best,
+  );
+};
+
+/**
+ * RFC 4180 style parsing: quoted fields may hold delimiters, doubled quotes
+ * and newlines.
+ */
+const parseRows = (text: string, delimiter: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+export const parseTable = (source: string): DataTable => {
+  const text = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const [headerRow, ...dataRows] = parseRows(text, detectDelimiter(text));
+  const headers = (headerRow ?? []).map((header) => header.trim());
+
+  if (headers.length === 0 || headers.every((header) => !header)) {
+    throw createAppError("tableNoHeader");
+  }
+
+  const rows = dataRows
+    .filter((row) => row.some((cell) => cell.trim()))
+    .map((row) => headers.map((_, index) => (row[index] ?? "").trim()));
+
+  if (rows.length === 0) {
+    throw createAppError("tableNoRows");
+  }
+
+  return { headers, rows };
+};
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { applyRow } from "@/lib/batch/variants";
+import { isAppError } from "@/lib/errors";
+import { createDefaultScene } from "@/lib/scene";
+
+const accentOf = (value: string) =>
+  applyRow(createDefaultScene(), [{ kind: "accent" }], [value], []).accentColor;
+
+describe("applyRow", () => {
+  it("reads accent colors the way the editor does", () => {
+    assert.equal(accentOf("#F05"), "#ff0055");
+    assert.equal(accentOf("ff0055"), "#ff0055");
+    assert.equal(accentOf("rgb(255, 0, 85)"), "#ff0055");
+    assert.equal(accentOf("rgba(255, 0, 85, 0.5)"), "#ff005580");
+  });
+
+  it("rejects cells that are not colors", () => {
+    for (const value of ["red", "#ff00f", "rgb(255, 0)"]) {
+      assert.throws(
+        () => accentOf(value),
+        (error) =>
+          isAppError(error) &&
+          error.reason.code === "rowColor" &&
+          error.reason.values[0] === value,
+      );
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import type { DataTable } from "@/lib/batch/table";
+import { formatColor, parseColor } from "@/lib/color";
+import { createAppError } from "@/lib/errors";
+import { OverlayScene, updateLayer } from "@/lib/scene";
+
+/** What one table column feeds in each variant. */
+export type ColumnTarget =
+  | { kind: "ignore" }
+  | { kind: "text"; layerId: string }
+  | { kind: "image"; layerId: string }
+  | { kind: "accent" }
+  | { kind: "fileName" };
+
+/** An image uploaded for the batch, matched by file name from a column. */
+export type BatchImage = {
+  name: string;
+  src: string;
+  aspect: number;
+};
+
+export type TargetOption = {
+  key: string;
+  target: ColumnTarget;
+};
+
+export const targetKey = (target: ColumnTarget) =>
+  target.kind === "text" || target.kind === "image"
+    ? `${target.kind}:${target.layerId}`
+    : target.kind;
+
+/** Everything a column can be mapped to in the current scene. */
+export const listTargetOptions = (scene: OverlayScene): TargetOption[] => {
+  const targets: ColumnTarget[] = [
+    { kind: "ignore" },
+    ...scene.layers.map(
+      (layer): ColumnTarget => ({ kind: layer.kind, layerId: layer.id }),
+    ),
+    { kind: "accent" },
+    { kind: "fileName" },
+  ];
+  return targets.map((target) => ({ key: targetKey(target), target }));
+};
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/g, "");
+
+const ACCENT_HEADERS = [
+  "accent",
+  "accentcolor",
+  "color",
+  "ngjyra",
+  "ngjyraetheksit",
+];
+const FILE_NAME_HEADERS = ["filename", "file", "name", "emri", "emriiskedarit"];
+
+/**
+ * Maps headers that match a layer name, or a well-known column name, to
+ * that target; everything else starts out ignored.
+ */
+export const guessMapping = (
+  headers: string[],
+  scene: OverlayScene,
+): ColumnTarget[] =>
+  headers.map((header) => {
+    const key = normalize(header);
+    const layer = scene.layers.find((entry) => normalize(entry.name) === key);
+    if (layer) {
+      return { kind: layer.kind, layerId: layer.id };
+    }
+    if (ACCENT_HEADERS.includes(key)) {
+      return { kind: "accent" };
+    }
+    if (FILE_NAME_HEADERS.includes(key)) {
+      return { kind: "fileName" };
+    }
+    return { kind: "ignore" };
+  });
+
+/** Any color the editor reads; spreadsheets often drop the `#`. */
+const parseCellColor = (value: string) => {
+  const color = parseColor(/^[0-9a-f]+$/i.test(value) ? `#${value}` : value);
+  if (!color) {
+    throw createAppError("rowColor", value);
+  }
+  return formatColor(color);
+};
+
+/**
+ * Builds one variant's scene from a table row. Empty cells keep the value
+ * from the template scene.
+ */
+export const applyRow = (
+  scene: OverlayScene,
+  mapping: ColumnTarget[],
+  row: string[],
+  images: BatchImage[],
+): OverlayScene =>
+  mapping.reduce((current, target, index) => {
+    const value = row[index] ?? "";
+    if (!value) {
+      return current;
+    }
+
+    switch (target.kind) {
+      case "text":
+        return updateLayer(current, target.layerId, (layer) =>
+          layer.kind === "text" ? { ...layer, content: value } : layer,
+        );
+      case "image": {
+        const image = images.find(
+          (entry) => entry.name.toLowerCase() === value.toLowerCase(),
+        );
+        if (!image) {
+          throw createAppError("rowImage", value);
+        }
+        return updateLayer(current, target.layerId, (layer) =>
+          layer.kind === "image"
+            ? { ...layer, src: image.src, aspect: image.aspect }
+            : layer,
+        );
+      }
+      case "accent":
+        return { ...current, accentColor: parseCellColor(value) };
+      case "fileName":
+      case "ignore":
+        return current;
+    }
+  }, scene);
+
+const sanitizeFileName = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9._-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+
+/** File names (without extension) per row, unique within the batch. */
+export const buildFileNames = (table: DataTable, mapping: ColumnTarget[]) => {
+  const column = mapping.findIndex((target) => target.kind === "fileName");
+  const used = new Map<string, number>();
+
+  return table.rows.map((row, index) => {
+    const base =
+      (column === -1 ? "" : sanitizeFileName(row[column] ?? "")) ||
+      `varianti-${index + 1}`;
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  });
+};
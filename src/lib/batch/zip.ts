@@ -0,0 +1,28 @@
+import { Zippable, zip } from "fflate";
+import { createAppError } from "@/lib/errors";
+
+/**
+ * Packs rendered variants into one archive. Videos are already compressed,
+ * so entries are stored rather than deflated again.
+ */
+export const createZip = async (files: { name: string; blob: Blob }[]) => {
+  const entries: Zippable = {};
+  for (const file of files) {
+    entries[file.name] = new Uint8Array(await file.blob.arrayBuffer());
+  }
+
+  const archive = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(entries, { level: 0 }, (error, data) => {
+      if (error) {
+        reject(createAppError("zipFailed"));
+      } else {
+        resolve(data);
+      }
+    });
+  });
+
+  // fflate always allocates plain (non-shared) buffers.
+  return new Blob([archive as Uint8Array<ArrayBuffer>], {
+    type: "application/zip",
+  });
+};
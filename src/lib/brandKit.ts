@@ -0,0 +1,97 @@
+import { parseColor } from "@/lib/color";
+import { createAppError } from "@/lib/errors";
+import type { SceneFont, TextStyle } from "@/lib/scene";
+import { parseBrandKit } from "@/lib/sceneSchema";
+
+export type BrandColor = {
+  id: string;
+  name: string;
+  value: string;
+};
+
+export type BrandLogo = {
+  id: string;
+  name: string;
+  /** Data URL, like an image layer's. */
+  src: string;
+  aspect: number;
+};
+
+export type BrandTextStyle = {
+  id: string;
+  name: string;
+  style: TextStyle;
+};
+
+/**
+ * The brand's colors, fonts, logos and text styles. It lives in the browser
+ * rather than in a project, and the editor's pickers offer it first.
+ */
+export type BrandKit = {
+  colors: BrandColor[];
+  fonts: SceneFont[];
+  logos: BrandLogo[];
+  textStyles: BrandTextStyle[];
+};
+
+export const EMPTY_BRAND_KIT: BrandKit = {
+  colors: [],
+  fonts: [],
+  logos: [],
+  textStyles: [],
+};
+
+const STORAGE_KEY = "promo-studio:brand-kit";
+const FILE_TYPE = "promo-studio-brand-kit";
+const FILE_VERSION = 1;
+
+export const createBrandId = () => crypto.randomUUID();
+
+/** Whether two CSS colors are the same, ignoring how they are written. */
+export const isSameColor = (a: string, b: string) => {
+  const first = parseColor(a);
+  const second = parseColor(b);
+  return (
+    first !== null &&
+    second !== null &&
+    first.hex === second.hex &&
+    first.alpha === second.alpha
+  );
+};
+
+export const loadBrandKit = (): BrandKit => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseBrandKit(JSON.parse(raw)) : EMPTY_BRAND_KIT;
+  } catch {
+    return EMPTY_BRAND_KIT;
+  }
+};
+
+/** Throws when the fonts and logos are too large for local storage. */
+export const saveBrandKit = (kit: BrandKit) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(kit));
+  } catch {
+    throw createAppError("brandKitFull");
+  }
+};
+
+export const serializeBrandKit = (kit: BrandKit) =>
+  JSON.stringify({ type: FILE_TYPE, version: FILE_VERSION, kit }, null, 2);
+
+/** Reads a file written by `serializeBrandKit`. */
+export const parseBrandKitFile = (source: string): BrandKit => {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    throw createAppError("brandKitNotJson");
+  }
+
+  const file = data as { type?: unknown; kit?: unknown };
+  if (file?.type !== FILE_TYPE) {
+    throw createAppError("brandKitWrongFile");
+  }
+  return parseBrandKit(file.kit);
+};
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { CaptionCue, parseCaptions, serializeCaptions } from "@/lib/captions";
+import { isAppError } from "@/lib/errors";
+
+const timings = (cues: CaptionCue[]) =>
+  cues.map(({ start, end, text }) => ({ start, end, text }));
+
+describe("parseCaptions", () => {
+  it("reads SRT with CRLF line ends and markup", () => {
+    const source = [
+      "\uFEFF1",
+      "00:00:01,500 --> 00:00:03,000",
+      "<i>Hello</i> {\\an8}there",
+      "",
+      "2",
+      "00:00:04,000 --> 00:00:05,25",
+      "Two &amp; two",
+      "lines",
+      "",
+    ].join("\r\n");
+    assert.deepEqual(timings(parseCaptions(source)), [
+      { start: 1.5, end: 3, text: "Hello there" },
+      { start: 4, end: 5.25, text: "Two & two\nlines" },
+    ]);
+  });
+
+  it("reads WebVTT, skipping header, NOTE and STYLE blocks", () => {
+    const source = [
+      "WEBVTT - promo",
+      "",
+      "NOTE made for the spring sale",
+      "",
+      "STYLE",
+      "::cue { color: yellow }",
+      "",
+      "intro",
+      "01:02.000 --> 01:04.500 align:start",
+      "<c.red>Sale</c> ends soon",
+      "",
+      "1:00:00.000 --> 1:00:01.000",
+      "An hour in",
+    ].join("\n");
+    assert.deepEqual(timings(parseCaptions(source)), [
+      { start: 62, end: 64.5, text: "Sale ends soon" },
+      { start: 3600, end: 3601, text: "An hour in" },
+    ]);
+  });
+
+  it("sorts cues and drops broken or empty ones", () => {
+    const source = [
+      "00:00:05,000 --> 00:00:06,000\nLater",
+      "00:00:03,000 --> 00:00:02,000\nBackwards",
+      "00:00:07,000 --> 00:00:08,000\n<b></b>",
+      "nonsense --> 00:00:01,000\nNo start",
+      "00:00:01,000 --> 00:00:02,000\nFirst",
+    ].join("\n\n");
+    assert.deepEqual(
+      parseCaptions(source).map((cue) => cue.text),
+      ["First", "Later"],
+    );
+  });
+
+  it("rejects a file without cues", () => {
+    assert.throws(
+      () => parseCaptions("WEBVTT\n\nNOTE nothing here\n"),
+      (error) => isAppError(error) && error.reason.code === "captionsEmpty",
+    );
+  });
+
+  it("reads back what serializeCaptions writes", () => {
+    const cues = parseCaptions(
+      [
+        "00:00:00,000 --> 00:00:01,200\nOne",
+        "00:01:00,050 --> 00:01:02,000\nTwo",
+      ].join("\n\n"),
+    );
+    for (const format of ["srt", "vtt"] as const) {
+      const written = serializeCaptions(cues, format);
+      assert.deepEqual(timings(parseCaptions(written)), timings(cues));
+    }
+    assert.equal(
+      serializeCaptions(cues, "vtt").split("\n").slice(0, 3).join("\n"),
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.200",
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { createAppError } from "@/lib/errors";
+
+/** One caption on the sequence timeline, in seconds. */
+export type CaptionCue = {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type CaptionPosition = "top" | "middle" | "bottom";
+
+export type CaptionStyle = {
+  /** Font size as a fraction of the frame width. */
+  fontSize: number;
+  fontWeight: number;
+  color: string;
+  uppercase: boolean;
+  /** Box painted behind each line, or `null` for none. */
+  background: string | null;
+  outline: boolean;
+  outlineColor: string;
+  position: CaptionPosition;
+  /** Distance from the top or bottom edge, as a fraction of the height. */
+  margin: number;
+};
+
+export type CaptionTrack = {
+  enabled: boolean;
+  cues: CaptionCue[];
+  style: CaptionStyle;
+};
+
+export type CaptionFormat = "srt" | "vtt";
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontSize: 0.042,
+  fontWeight: 600,
+  color: "#ffffff",
+  uppercase: false,
+  background: "rgba(0,0,0,0.6)",
+  outline: false,
+  outlineColor: "#000000",
+  position: "bottom",
+  margin: 0.12,
+};
+
+export const CAPTION_INPUT_ACCEPT = ".srt,.vtt,text/vtt,application/x-subrip";
+
+export const createCaptionTrack = (): CaptionTrack => ({
+  enabled: true,
+  cues: [],
+  style: DEFAULT_CAPTION_STYLE,
+});
+
+export const createCue = (
+  start: number,
+  end: number,
+  text = "",
+): CaptionCue => ({
+  id: crypto.randomUUID(),
+  start,
+  end,
+  text,
+});
+
+export const sortCues = (cues: CaptionCue[]) =>
+  [...cues].sort((a, b) => a.start - b.start || a.end - b.end);
+
+/** The cues showing at `time`; overlapping cues stack in start order. */
+export const findActiveCues = (cues: CaptionCue[], time: number) =>
+  cues.filter((cue) => time >= cue.start && time < cue.end);
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+const parseTimestamp = (value: string) => {
+  const match = TIMESTAMP.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours = "0", minutes, seconds, fraction] = match;
+  return (
+    Number(hours) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    Number(fraction.padEnd(3, "0")) / 1000
+  );
+};
+
+/** Drops WebVTT/SRT inline markup such as `<i>`, `<c.red>` or `{\an8}`. */
+const stripMarkup = (text: string) =>
+  text
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ");
+
+/**
+ * Reads SRT or WebVTT. Both are blank-line separated blocks with a
+ * `start --> end` line, so one pass handles either; VTT header, NOTE,
+ * STYLE and REGION blocks have no timing line and are skipped.
+ */
+export const parseCaptions = (source: string): CaptionCue[] => {
+  const blocks = source
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+  const cues: CaptionCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const [startPart, endPart] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startPart);
+    const end = parseTimestamp(endPart ?? "");
+    const text = stripMarkup(lines.slice(timingIndex + 1).join("\n")).trim();
+    if (start === null || end === null || end <= start || !text) {
+      continue;
+    }
+    cues.push(createCue(start, end, text));
+  }
+
+  if (cues.length === 0) {
+    throw createAppError("captionsEmpty");
+  }
+
+  return sortCues(cues);
+};
+
+const formatTimestamp = (seconds: number, separator: "," | ".") => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const serializeCaptions = (
+  cues: CaptionCue[],
+  format: CaptionFormat,
+) => {
+  const separator = format === "srt" ? "," : ".";
+  const written = sortCues(cues).filter((cue) => cue.text.trim());
+  const blocks = written.map((cue, index) => {
+    const start = formatTimestamp(cue.start, separator);
+    const end = formatTimestamp(cue.end, separator);
+    const timing = `${start} --> ${end}`;
+    // A blank line would end the cue early in both formats.
+    const text = cue.text.trim().replace(/\n\s*\n/g, "\n");
+    return format === "srt"
+      ? `${index + 1}\n${timing}\n${text}`
+      : `${timing}\n${text}`;
+  });
+
+  const body = blocks.join("\n\n");
+  return format === "srt" ? `${body}\n` : `WEBVTT\n\n${body}\n`;
+};
@@ -0,0 +1,52 @@
+export type ParsedColor = {
+  /** `#rrggbb`, lower case. */
+  hex: string;
+  /** 0–1. */
+  alpha: number;
+};
+
+const toHexByte = (value: number) =>
+  Math.round(Math.min(255, Math.max(0, value)))
+    .toString(16)
+    .padStart(2, "0");
+
+/**
+ * Reads the CSS colors the editor writes: `#rgb`, `#rrggbb`, `#rrggbbaa`
+ * and `rgb()`/`rgba()`. Returns `null` for anything else, such as names.
+ */
+export const parseColor = (css: string): ParsedColor | null => {
+  const value = css.trim();
+  const hex = value.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (hex) {
+    const digits =
+      hex[1].length <= 4
+        ? Array.from(hex[1], (digit) => digit + digit).join("")
+        : hex[1];
+    return {
+      hex: `#${digits.slice(0, 6).toLowerCase()}`,
+      alpha: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const rgb = value.match(/^rgba?\(([^)]+)\)$/i);
+  if (rgb) {
+    const [r, g, b, a = "1"] = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    const channels = [r, g, b].map((part) => Number.parseFloat(part));
+    if (channels.some((channel) => !Number.isFinite(channel))) {
+      return null;
+    }
+    const alpha = a.endsWith("%")
+      ? Number.parseFloat(a) / 100
+      : Number.parseFloat(a);
+    return {
+      hex: `#${channels.map(toHexByte).join("")}`,
+      alpha: Number.isFinite(alpha) ? Math.min(1, Math.max(0, alpha)) : 1,
+    };
+  }
+
+  return null;
+};
+
+/** `#rrggbb`, or `#rrggbbaa` when the color is see-through. */
+export const formatColor = ({ hex, alpha }: ParsedColor) =>
+  alpha >= 1 ? hex : `${hex}${toHexByte(alpha * 255)}`;
@@ -0,0 +1,209 @@
+import { ParsedColor, parseColor } from "@/lib/color";
+import { FrameRenderRequest, createFrameRenderer } from "@/lib/export/frames";
+import { throwIfCancelled } from "@/lib/export/jobs";
+import type { FrameSize } from "@/lib/render/frame";
+import {
+  OverlayScene,
+  TextLayer,
+  TextStyle,
+  resolveTextColor,
+} from "@/lib/scene";
+import { getSequenceDuration } from "@/lib/sequence";
+
+/** WCAG AA: 4.5:1 for body text, 3:1 for large text. */
+export const MIN_CONTRAST = 4.5;
+
+export const MIN_LARGE_TEXT_CONTRAST = 3;
+
+/** WCAG's large text, 24px or 18.66px bold, on a 1080-pixel-wide frame. */
+const LARGE_TEXT_SIZE = 24 / 1080;
+const LARGE_BOLD_TEXT_SIZE = 18.66 / 1080;
+
+/** Outlines at least this wide, in em, set the text apart on their own. */
+const SEPARATING_OUTLINE = 0.08;
+
+/**
+ * Share of the area under the text allowed below the threshold, so a small
+ * highlight behind one letter does not raise a warning.
+ */
+const TOLERATED_SHARE = 0.1;
+
+/** Frames are checked at this width; contrast does not need detail. */
+const SAMPLE_WIDTH = 320;
+
+const SAMPLES_PER_LAYER = 4;
+
+export type ContrastReport = {
+  layerId: string;
+  /** Contrast with what is under most of the text, e.g. 4.5 for 4.5:1. */
+  ratio: number;
+  required: number;
+  /** Sequence time of the frame where the contrast was lowest. */
+  time: number;
+};
+
+type Rgb = [number, number, number];
+
+const toRgb = (hex: string): Rgb => [
+  Number.parseInt(hex.slice(1, 3), 16),
+  Number.parseInt(hex.slice(3, 5), 16),
+  Number.parseInt(hex.slice(5, 7), 16),
+];
+
+/** sRGB byte to linear light, per WCAG. */
+const LINEAR = Array.from({ length: 256 }, (_, value) => {
+  const channel = value / 255;
+  return channel <= 0.04045
+    ? channel / 12.92
+    : ((channel + 0.055) / 1.055) ** 2.4;
+});
+
+const luminance = (r: number, g: number, b: number) =>
+  0.2126 * LINEAR[Math.round(r)] +
+  0.7152 * LINEAR[Math.round(g)] +
+  0.0722 * LINEAR[Math.round(b)];
+
+export const contrastRatio = (first: number, second: number) =>
+  (Math.max(first, second) + 0.05) / (Math.min(first, second) + 0.05);
+
+/** The ratio a text style needs to count as readable. */
+export const requiredContrast = (style: TextStyle) =>
+  style.fontSize >= LARGE_TEXT_SIZE ||
+  (style.fontWeight >= 700 && style.fontSize >= LARGE_BOLD_TEXT_SIZE)
+    ? MIN_LARGE_TEXT_CONTRAST
+    : MIN_CONTRAST;
+
+export const isLowContrast = (report: ContrastReport) =>
+  report.ratio < report.required;
+
+/**
+ * Contrast between the layer's text color and the frame under its box (the
+ * unrotated box), with the layer's own background fill laid over it.
+ * Returns `null` when the box is off-frame.
+ */
+const measureLayer = (
+  ctx: CanvasRenderingContext2D,
+  scene: OverlayScene,
+  layer: TextLayer,
+  { width, height }: FrameSize,
+) => {
+  const { box, style } = layer;
+  const left = Math.max(0, Math.floor(box.x * width));
+  const top = Math.max(0, Math.floor(box.y * height));
+  const right = Math.min(width, Math.ceil((box.x + box.width) * width));
+  const bottom = Math.min(height, Math.ceil((box.y + box.height) * height));
+  const text = parseColor(resolveTextColor(scene, style));
+  if (right <= left || bottom <= top || !text) {
+    return null;
+  }
+
+  const [textR, textG, textB] = toRgb(text.hex);
+  const textLuminance = luminance(textR, textG, textB);
+  const fill: ParsedColor | null = style.background
+    ? parseColor(style.background)
+    : null;
+  const [fillR, fillG, fillB] = fill ? toRgb(fill.hex) : [0, 0, 0];
+  const fillAlpha = fill?.alpha ?? 0;
+
+  const { data } = ctx.getImageData(left, top, right - left, bottom - top);
+  const ratios = new Float32Array(data.length / 4);
+  for (let index = 0; index < ratios.length; index += 1) {
+    const offset = index * 4;
+    const mix = (value: number, over: number) =>
+      value + (over - value) * fillAlpha;
+    ratios[index] = contrastRatio(
+      textLuminance,
+      luminance(
+        mix(data[offset], fillR),
+        mix(data[offset + 1], fillG),
+        mix(data[offset + 2], fillB),
+      ),
+    );
+  }
+  ratios.sort();
+  const ratio = ratios[Math.floor(ratios.length * TOLERATED_SHARE)];
+
+  const outline = parseColor(style.strokeColor);
+  if (style.strokeWidth >= SEPARATING_OUTLINE && outline) {
+    return Math.max(
+      ratio,
+      contrastRatio(textLuminance, luminance(...toRgb(outline.hex))),
+    );
+  }
+  return ratio;
+};
+
+/**
+ * Samples the footage under every text layer while it is on screen and
+ * reports the lowest contrast each one reaches. Frames are drawn without
+ * the layers and captions, but with the grading and the bottom gradient.
+ */
+export const checkContrast = async (
+  request: FrameRenderRequest,
+  signal?: AbortSignal,
+): Promise<ContrastReport[]> => {
+  const { scene, clips } = request;
+  const layers = scene.layers.filter(
+    (layer): layer is TextLayer =>
+      layer.kind === "text" &&
+      (layer.countdown !== null || layer.content.trim() !== ""),
+  );
+  if (layers.length === 0 || clips.length === 0) {
+    return [];
+  }
+
+  const duration = getSequenceDuration(clips);
+  const samples = new Map<number, TextLayer[]>();
+  for (const layer of layers) {
+    const start = Math.min(Math.max(layer.timing.start, 0), duration);
+    const end = Math.min(layer.timing.end ?? duration, duration);
+    if (end <= start) {
+      continue;
+    }
+    for (let sample = 0; sample < SAMPLES_PER_LAYER; sample += 1) {
+      const time =
+        Math.round(
+          (start + ((sample + 0.5) * (end - start)) / SAMPLES_PER_LAYER) * 10,
+        ) / 10;
+      samples.set(time, [...(samples.get(time) ?? []), layer]);
+    }
+  }
+
+  const scale = Math.min(1, SAMPLE_WIDTH / request.size.width);
+  const size = {
+    width: Math.max(1, Math.round(request.size.width * scale)),
+    height: Math.max(1, Math.round(request.size.height * scale)),
+  };
+  const renderer = await createFrameRenderer({
+    ...request,
+    scene: {
+      ...scene,
+      layers: [],
+      captions: { ...scene.captions, enabled: false },
+    },
+    size,
+  });
+
+  const reports = new Map<string, ContrastReport>();
+  try {
+    for (const time of Array.from(samples.keys()).sort((a, b) => a - b)) {
+      throwIfCancelled(signal);
+      await renderer.render(time);
+      for (const layer of samples.get(time) ?? []) {
+        const ratio = measureLayer(renderer.ctx, scene, layer, size);
+        const current = reports.get(layer.id);
+        if (ratio !== null && (!current || ratio < current.ratio)) {
+          reports.set(layer.id, {
+            layerId: layer.id,
+            ratio,
+            required: requiredContrast(layer.style),
+            time,
+          });
+        }
+      }
+    }
+  } finally {
+    renderer.release();
+  }
+  return Array.from(reports.values());
+};
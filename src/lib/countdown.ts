@@ -0,0 +1,291 @@
+/**
+ * `clock` reads 03:14:05:09, `units` reads 3 days 14 hrs 05 min 09 sec and
+ * `days` only counts whole days left.
+ */
+export type CountdownFormat = "clock" | "units" | "days";
+
+/**
+ * `static` freezes the time left when the frame is rendered; `ticking`
+ * keeps counting down as the video plays.
+ */
+export type CountdownMode = "static" | "ticking";
+
+/** The words the `units` and `days` formats put after each number. */
+export type CountdownLabels = {
+  days: string;
+  hours: string;
+  minutes: string;
+  seconds: string;
+  /** `days` format with one day left, as in "1 day left". */
+  dayLeft: string;
+  daysLeft: string;
+};
+
+/** A countdown's words in one overlay language. */
+export type CountdownWording = {
+  endedText: string;
+  labels: CountdownLabels;
+};
+
+export type CountdownSettings = CountdownWording & {
+  /** Wall-clock date and time in `timeZone`, as `YYYY-MM-DDTHH:mm`. */
+  target: string;
+  /** IANA zone name, e.g. `Europe/Tirane`. */
+  timeZone: string;
+  format: CountdownFormat;
+  mode: CountdownMode;
+  /**
+   * Wording for the scene's other overlay languages, by code. `endedText`
+   * and `labels` above are in the first language.
+   */
+  translations: Record<string, CountdownWording>;
+};
+
+/** Each part of the time left, already formatted for display. */
+export type CountdownParts = {
+  days: string;
+  hours: string;
+  minutes: string;
+  seconds: string;
+};
+
+export const COUNTDOWN_TIME_ZONES = [
+  "Europe/Tirane",
+  "Europe/Belgrade",
+  "Europe/Skopje",
+  "Europe/Rome",
+  "Europe/Berlin",
+  "Europe/London",
+  "America/New_York",
+  "UTC",
+];
+
+export const DEFAULT_TIME_ZONE = "Europe/Tirane";
+
+/** Wording for the overlay language presets, by base language. */
+const COUNTDOWN_WORDING: Record<string, CountdownWording> = {
+  sq: {
+    endedText: "Oferta ka përfunduar",
+    labels: {
+      days: "ditë",
+      hours: "orë",
+      minutes: "min",
+      seconds: "sek",
+      dayLeft: "ditë e mbetur",
+      daysLeft: "ditë të mbetura",
+    },
+  },
+  en: {
+    endedText: "The offer has ended",
+    labels: {
+      days: "days",
+      hours: "hrs",
+      minutes: "min",
+      seconds: "sec",
+      dayLeft: "day left",
+      daysLeft: "days left",
+    },
+  },
+  de: {
+    endedText: "Das Angebot ist beendet",
+    labels: {
+      days: "Tage",
+      hours: "Std",
+      minutes: "Min",
+      seconds: "Sek",
+      dayLeft: "Tag übrig",
+      daysLeft: "Tage übrig",
+    },
+  },
+  it: {
+    endedText: "L'offerta è terminata",
+    labels: {
+      days: "giorni",
+      hours: "ore",
+      minutes: "min",
+      seconds: "sec",
+      dayLeft: "giorno rimasto",
+      daysLeft: "giorni rimasti",
+    },
+  },
+  fr: {
+    endedText: "L'offre est terminée",
+    labels: {
+      days: "jours",
+      hours: "h",
+      minutes: "min",
+      seconds: "s",
+      dayLeft: "jour restant",
+      daysLeft: "jours restants",
+    },
+  },
+};
+
+/**
+ * Preset wording for an overlay language code such as `sq-XK`, or `null`
+ * when its language has none.
+ */
+export const findCountdownWording = (code: string) =>
+  COUNTDOWN_WORDING[code.toLowerCase().split("-")[0]] ?? null;
+
+/**
+ * How a countdown reads in overlay language `code`: the wording typed for
+ * it, else the preset for the language, else the first language's.
+ */
+export const resolveCountdownWording = (
+  countdown: CountdownSettings,
+  code: string,
+): CountdownWording =>
+  countdown.translations[code] ??
+  findCountdownWording(code) ?? {
+    endedText: countdown.endedText,
+    labels: countdown.labels,
+  };
+
+const DAY = 86400;
+const HOUR = 3600;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toLocalInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * A countdown to midnight a week from now, worded in overlay language
+ * `code`; languages without a preset start in Albanian.
+ */
+export const createCountdown = (code: string): CountdownSettings => {
+  const target = new Date();
+  target.setDate(target.getDate() + 7);
+  target.setHours(0, 0, 0, 0);
+  return {
+    target: toLocalInput(target),
+    timeZone: DEFAULT_TIME_ZONE,
+    format: "units",
+    mode: "ticking",
+    ...(findCountdownWording(code) ?? COUNTDOWN_WORDING.sq),
+    translations: {},
+  };
+};
+
+/** How far `timeZone` is ahead of UTC at `epoch`, in milliseconds. */
+const zoneOffset = (epoch: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(epoch));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return (
+    Date.UTC(
+      get("year"),
+      get("month") - 1,
+      get("day"),
+      get("hour"),
+      get("minute"),
+      get("second"),
+    ) -
+    Math.floor(epoch / 1000) * 1000
+  );
+};
+
+/**
+ * The target as epoch milliseconds, or `null` when the date or zone is
+ * invalid. The offset is taken twice so targets next to a DST switch land
+ * on the right side of it.
+ */
+export const resolveCountdownTarget = ({
+  target,
+  timeZone,
+}: CountdownSettings) => {
+  const match = target.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour = "0", minute = "0"] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+  );
+
+  try {
+    const guess = wallClock - zoneOffset(wallClock, timeZone);
+    return wallClock - zoneOffset(guess, timeZone);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Seconds left at playhead `time` of a render made at `now` (epoch ms).
+ * Static countdowns ignore the playhead. `null` when the target is invalid.
+ */
+export const countdownSeconds = (
+  settings: CountdownSettings,
+  now: number,
+  time: number,
+) => {
+  const target = resolveCountdownTarget(settings);
+  if (target === null) {
+    return null;
+  }
+  const elapsed = settings.mode === "ticking" ? time : 0;
+  return (target - now) / 1000 - elapsed;
+};
+
+export const formatDaysLeft = (days: number, labels: CountdownLabels) =>
+  `${days} ${days === 1 ? labels.dayLeft : labels.daysLeft}`;
+
+/**
+ * Lays the parts out in a clock or units format. Takes strings so the
+ * server can pass ffmpeg expansions instead of numbers.
+ */
+export const formatCountdownParts = (
+  format: Exclude<CountdownFormat, "days">,
+  { days, hours, minutes, seconds }: CountdownParts,
+  labels: CountdownLabels,
+) =>
+  format === "clock"
+    ? `${days}:${hours}:${minutes}:${seconds}`
+    : `${days} ${labels.days} ${hours} ${labels.hours} ${minutes} ${labels.minutes} ${seconds} ${labels.seconds}`;
+
+/**
+ * Display text for `remaining` seconds left. An invalid target draws
+ * nothing; the editor flags it next to the date instead.
+ */
+export const formatCountdown = (
+  settings: CountdownSettings,
+  remaining: number | null,
+) => {
+  if (remaining === null) {
+    return "";
+  }
+  if (remaining <= 0) {
+    return settings.endedText;
+  }
+  if (settings.format === "days") {
+    return formatDaysLeft(Math.ceil(remaining / DAY), settings.labels);
+  }
+
+  const total = Math.floor(remaining);
+  const days = Math.floor(total / DAY);
+  return formatCountdownParts(
+    settings.format,
+    {
+      days: settings.format === "clock" ? pad(days) : String(days),
+      hours: pad(Math.floor((total % DAY) / HOUR)),
+      minutes: pad(Math.floor((total % HOUR) / 60)),
+      seconds: pad(total % 60),
+    },
+    settings.labels,
+  );
+};
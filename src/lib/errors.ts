@@ -0,0 +1,56 @@
+import { Messages, sq } from "@/lib/i18n/sq";
+
+type ErrorMessages = Messages["errors"];
+
+export type ErrorCode = keyof ErrorMessages;
+
+type ErrorValues<C extends ErrorCode> = ErrorMessages[C] extends (
+  ...values: infer V extends (string | number)[]
+) => string
+  ? V
+  : [];
+
+/**
+ * What went wrong, as a catalog key and the values its message takes. It
+ * is plain data, so it survives `postMessage` from the render worker.
+ */
+export type ErrorReason = {
+  code: ErrorCode;
+  values: (string | number)[];
+};
+
+/** An error the interface can word in the user's language. */
+export type AppError = Error & { reason: ErrorReason };
+
+const formatReason = (messages: Messages, { code, values }: ErrorReason) => {
+  const message = messages.errors[code] as
+    | string
+    | ((...values: (string | number)[]) => string);
+  return typeof message === "function" ? message(...values) : message;
+};
+
+/**
+ * Rebuilds an error from its reason. `message` is the Albanian text, which
+ * is what logs, the render API and the CLI show.
+ */
+export const restoreAppError = (reason: ErrorReason): AppError =>
+  Object.assign(new Error(formatReason(sq, reason)), { reason });
+
+export const createAppError = <C extends ErrorCode>(
+  code: C,
+  ...values: ErrorValues<C>
+) => restoreAppError({ code, values });
+
+export const isAppError = (error: unknown): error is AppError =>
+  error instanceof Error && "reason" in error;
+
+/**
+ * The error in the interface language. Anything not raised through
+ * `createAppError`, such as a browser or storage failure, reads as
+ * `fallback`.
+ */
+export const describeError = (
+  messages: Messages,
+  error: unknown,
+  fallback: string,
+) => (isAppError(error) ? formatReason(messages, error.reason) : fallback);
@@ -0,0 +1,236 @@
+import {
+  FrameRenderRequest,
+  FrameRenderer,
+  canvasToBlob,
+  createFrameRenderer,
+} from "@/lib/export/frames";
+import { createGifEncoder } from "@/lib/export/gif";
+import { throwIfCancelled } from "@/lib/export/jobs";
+import {
+  Palette,
+  addToHistogram,
+  buildPalette,
+  createHistogram,
+  createPaletteMapper,
+} from "@/lib/export/palette";
+import type { ExportControls, ExportResult } from "@/lib/export/types";
+import { createWebpEncoder, encodeWebpFrame } from "@/lib/export/webp";
+import type { FrameSize } from "@/lib/render/frame";
+
+export type AnimationFormat = "gif" | "webp";
+
+/** One palette for the whole loop, or a fresh one per frame. */
+export type PaletteMode = "global" | "frame";
+
+export type AnimationSettings = {
+  format: AnimationFormat;
+  /** Sequence time of the first frame, in seconds. */
+  start: number;
+  duration: number;
+  frameRate: number;
+  width: number;
+  /** GIF only. */
+  colors: number;
+  dither: boolean;
+  palette: PaletteMode;
+  /** WebP only, 0–1. */
+  quality: number;
+};
+
+export const ANIMATION_FORMATS: AnimationFormat[] = ["gif", "webp"];
+
+export const ANIMATION_FRAME_RATES = [10, 12, 15, 20, 25];
+
+export const ANIMATION_WIDTHS = [320, 480, 720, 1080];
+
+export const ANIMATION_COLORS = [256, 128, 64, 32];
+
+export const PALETTE_MODES: PaletteMode[] = ["global", "frame"];
+
+export const MIN_ANIMATION_DURATION = 1;
+
+export const MAX_ANIMATION_DURATION = 10;
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+  format: "gif",
+  start: 0,
+  duration: 4,
+  frameRate: 12,
+  width: 480,
+  colors: 256,
+  dither: true,
+  palette: "global",
+  quality: 0.8,
+};
+
+const MIME_TYPES: Record<AnimationFormat, string> = {
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+/** Frames sampled to build a global palette before encoding starts. */
+const PALETTE_SAMPLES = 6;
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/** The loop's frame size: the export frame scaled to `width`, never up. */
+export const resolveAnimationSize = (
+  output: FrameSize,
+  width: number,
+): FrameSize => {
+  const scale = Math.min(1, width / output.width);
+  return {
+    width: toEven(output.width * scale),
+    height: toEven(output.height * scale),
+  };
+};
+
+/**
+ * Keeps the loop inside a sequence of `sequenceDuration` seconds, moving the
+ * start back rather than cutting the loop short where it can.
+ */
+export const clampAnimationRange = (
+  settings: AnimationSettings,
+  sequenceDuration: number,
+): AnimationSettings => {
+  const duration = Math.min(
+    Math.max(settings.duration, MIN_ANIMATION_DURATION),
+    MAX_ANIMATION_DURATION,
+    Math.max(sequenceDuration, 1 / settings.frameRate),
+  );
+  const start = Math.min(
+    Math.max(settings.start, 0),
+    Math.max(sequenceDuration - duration, 0),
+  );
+  return { ...settings, start, duration };
+};
+
+/** Frames a loop with these settings will have. */
+export const countAnimationFrames = (settings: AnimationSettings) =>
+  Math.max(1, Math.round(settings.duration * settings.frameRate));
+
+/**
+ * Frame `index` lasts until the next whole tick, so rounding errors never
+ * add up and the loop keeps its length. `unit` is ticks per second.
+ */
+const frameDelay = (index: number, frameRate: number, unit: number) =>
+  Math.round(((index + 1) * unit) / frameRate) -
+  Math.round((index * unit) / frameRate);
+
+/** Turns the frame currently on the renderer's canvas into output. */
+type FrameSink = {
+  addFrame: (index: number) => Promise<void>;
+  finish: () => Uint8Array<ArrayBuffer>;
+};
+
+const createGifSink = async (
+  renderer: FrameRenderer,
+  size: FrameSize,
+  settings: AnimationSettings,
+  /** Where to sample colors for a global palette. */
+  sampleTimes: number[],
+  signal?: AbortSignal,
+): Promise<FrameSink> => {
+  const readPixels = () =>
+    renderer.ctx.getImageData(0, 0, size.width, size.height).data;
+
+  let globalPalette: Palette | null = null;
+  if (settings.palette === "global") {
+    const histogram = createHistogram();
+    for (const time of sampleTimes) {
+      throwIfCancelled(signal);
+      await renderer.render(time);
+      addToHistogram(histogram, readPixels());
+    }
+    globalPalette = buildPalette(histogram, settings.colors);
+  }
+
+  const encoder = createGifEncoder(size.width, size.height, globalPalette);
+  const mapGlobal = globalPalette ? createPaletteMapper(globalPalette) : null;
+
+  return {
+    addFrame: async (index) => {
+      const pixels = readPixels();
+      let palette: Palette | null = null;
+      let map = mapGlobal;
+      if (!map) {
+        const histogram = createHistogram();
+        addToHistogram(histogram, pixels);
+        palette = buildPalette(histogram, settings.colors);
+        map = createPaletteMapper(palette);
+      }
+      encoder.addFrame({
+        indices: map(pixels, size.width, size.height, settings.dither),
+        palette,
+        delay: frameDelay(index, settings.frameRate, 100),
+      });
+    },
+    finish: encoder.finish,
+  };
+};
+
+const createWebpSink = (
+  renderer: FrameRenderer,
+  size: FrameSize,
+  settings: AnimationSettings,
+): FrameSink => {
+  const encoder = createWebpEncoder(size.width, size.height);
+  return {
+    addFrame: async (index) => {
+      const blob = await canvasToBlob(
+        renderer.canvas,
+        "image/webp",
+        settings.quality,
+      );
+      encoder.addFrame({
+        chunks: await encodeWebpFrame(blob),
+        duration: frameDelay(index, settings.frameRate, 1000),
+      });
+    },
+    finish: encoder.finish,
+  };
+};
+
+/**
+ * Renders `duration` seconds from `start` into a looping GIF or WebP. Frames
+ * go through the same compositing as video exports, at the loop's size.
+ */
+export const exportAnimation = async (
+  request: FrameRenderRequest,
+  settings: AnimationSettings,
+  { signal, onProgress }: ExportControls = {},
+): Promise<ExportResult> => {
+  const size = resolveAnimationSize(request.size, settings.width);
+  const frameCount = countAnimationFrames(settings);
+  const timeOf = (index: number) => settings.start + index / settings.frameRate;
+  const samples = Math.min(PALETTE_SAMPLES, frameCount);
+  const sampleTimes = Array.from({ length: samples }, (_, sample) =>
+    timeOf(Math.floor((sample * frameCount) / samples)),
+  );
+  const renderer = await createFrameRenderer({ ...request, size });
+
+  try {
+    const sink =
+      settings.format === "gif"
+        ? await createGifSink(renderer, size, settings, sampleTimes, signal)
+        : createWebpSink(renderer, size, settings);
+
+    for (let index = 0; index < frameCount; index += 1) {
+      throwIfCancelled(signal);
+      await renderer.render(timeOf(index));
+      await sink.addFrame(index);
+      onProgress?.(Math.min(0.99, (index + 1) / frameCount));
+    }
+
+    const bytes = sink.finish();
+    const mimeType = MIME_TYPES[settings.format];
+    onProgress?.(1);
+    return {
+      blob: new Blob([bytes], { type: mimeType }),
+      mimeType,
+      extension: settings.format,
+    };
+  } finally {
+    renderer.release();
+  }
+};
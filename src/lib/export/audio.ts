@@ -0,0 +1,193 @@
+import { AudioMix, MusicTrack, getMusicEnd } from "@/lib/audioMix";
+import { Clip, getClipOffset, getSequenceDuration } from "@/lib/sequence";
+
+/** Opus only runs at 48 kHz and AAC is happy with it too. */
+export const EXPORT_SAMPLE_RATE = 48_000;
+
+/** Window over which the original audio's loudness is measured for ducking. */
+const DUCK_WINDOW_SECONDS = 0.05;
+/** RMS level above which the original audio counts as audible. */
+const DUCK_THRESHOLD = 0.02;
+const DUCK_ATTACK_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.5;
+
+const decodeFileAudio = async (file: File) => {
+  try {
+    const context = new OfflineAudioContext(2, 1, EXPORT_SAMPLE_RATE);
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    return null;
+  }
+};
+
+const createContext = (duration: number) =>
+  new OfflineAudioContext(
+    2,
+    Math.ceil(duration * EXPORT_SAMPLE_RATE),
+    EXPORT_SAMPLE_RATE,
+  );
+
+/**
+ * Renders the trimmed audio of every clip back to back into one buffer.
+ * Returns `null` when none of the clips has decodable audio.
+ */
+const renderSequenceAudio = async (clips: Clip[], duration: number) => {
+  // The same file can appear in several clips; decode it once.
+  const decoded = new Map<File, Promise<AudioBuffer | null>>();
+  const buffers = await Promise.all(
+    clips.map((clip) => {
+      if (!decoded.has(clip.file)) {
+        decoded.set(clip.file, decodeFileAudio(clip.file));
+      }
+      return decoded.get(clip.file)!;
+    }),
+  );
+  if (buffers.every((buffer) => buffer === null)) {
+    return null;
+  }
+
+  const context = createContext(duration);
+  clips.forEach((clip, index) => {
+    const buffer = buffers[index];
+    if (!buffer) {
+      return;
+    }
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start(
+      getClipOffset(clips, index),
+      clip.trimStart,
+      clip.trimEnd - clip.trimStart,
+    );
+  });
+
+  return context.startRendering();
+};
+
+/** Time ranges in seconds where `buffer` is louder than the duck threshold. */
+const findAudibleRanges = (buffer: AudioBuffer) => {
+  const windowSize = Math.round(DUCK_WINDOW_SECONDS * buffer.sampleRate);
+  const channels = Array.from(
+    { length: buffer.numberOfChannels },
+    (_, index) => buffer.getChannelData(index),
+  );
+  const ranges: { start: number; end: number }[] = [];
+
+  for (let offset = 0; offset < buffer.length; offset += windowSize) {
+    const end = Math.min(buffer.length, offset + windowSize);
+    let sum = 0;
+    for (const data of channels) {
+      for (let index = offset; index < end; index += 1) {
+        sum += data[index] * data[index];
+      }
+    }
+    const rms = Math.sqrt(sum / ((end - offset) * channels.length));
+    if (rms < DUCK_THRESHOLD) {
+      continue;
+    }
+
+    const start = offset / buffer.sampleRate;
+    const stop = end / buffer.sampleRate;
+    const previous = ranges[ranges.length - 1];
+    // Bridge short pauses so the music does not pump between words.
+    if (
+      previous &&
+      start - previous.end < DUCK_ATTACK_SECONDS + DUCK_RELEASE_SECONDS
+    ) {
+      previous.end = stop;
+    } else {
+      ranges.push({ start, end: stop });
+    }
+  }
+
+  return ranges;
+};
+
+/** Volume, fade-in and fade-out ramps, mirroring `resolveMusicGain`. */
+const scheduleMusicFades = (
+  gain: AudioParam,
+  music: MusicTrack,
+  end: number,
+) => {
+  const fadeIn = Math.min(music.fadeIn, (end - music.offset) / 2);
+  const fadeOut = Math.min(music.fadeOut, (end - music.offset) / 2);
+
+  gain.setValueAtTime(fadeIn > 0 ? 0 : music.volume, music.offset);
+  if (fadeIn > 0) {
+    gain.linearRampToValueAtTime(music.volume, music.offset + fadeIn);
+  }
+  if (fadeOut > 0) {
+    gain.setValueAtTime(music.volume, end - fadeOut);
+    gain.linearRampToValueAtTime(0, end);
+  }
+};
+
+const scheduleDucking = (
+  gain: AudioParam,
+  ranges: { start: number; end: number }[],
+  level: number,
+) => {
+  gain.setValueAtTime(1, 0);
+  for (const range of ranges) {
+    const attackStart = Math.max(0, range.start - DUCK_ATTACK_SECONDS);
+    gain.setValueAtTime(1, attackStart);
+    gain.linearRampToValueAtTime(level, range.start);
+    gain.setValueAtTime(level, range.end);
+    gain.linearRampToValueAtTime(1, range.end + DUCK_RELEASE_SECONDS);
+  }
+};
+
+/**
+ * Mixes the sequence's own audio with the music bed offline, so exported
+ * audio never depends on capturing a playing element. Returns `null` when
+ * the mix would be silent.
+ */
+export const renderMixedAudio = async (clips: Clip[], mix: AudioMix) => {
+  const duration = getSequenceDuration(clips);
+  if (duration <= 0) {
+    return null;
+  }
+
+  const [sourceBuffer, musicBuffer] = await Promise.all([
+    mix.sourceVolume > 0 ? renderSequenceAudio(clips, duration) : null,
+    mix.music ? decodeFileAudio(mix.music.file) : null,
+  ]);
+  const music = mix.music && musicBuffer ? mix.music : null;
+  if (!sourceBuffer && !music) {
+    return null;
+  }
+
+  const context = createContext(duration);
+
+  if (sourceBuffer) {
+    const source = context.createBufferSource();
+    source.buffer = sourceBuffer;
+    const gain = context.createGain();
+    gain.gain.value = mix.sourceVolume;
+    source.connect(gain).connect(context.destination);
+    source.start(0);
+  }
+
+  if (music && musicBuffer) {
+    const end = getMusicEnd(music, duration);
+    if (end > music.offset) {
+      const source = context.createBufferSource();
+      source.buffer = musicBuffer;
+      const fades = context.createGain();
+      const duck = context.createGain();
+      scheduleMusicFades(fades.gain, music, end);
+      if (mix.ducking && sourceBuffer) {
+        scheduleDucking(
+          duck.gain,
+          findAudibleRanges(sourceBuffer),
+          mix.duckLevel,
+        );
+      }
+      source.connect(fades).connect(duck).connect(context.destination);
+      source.start(music.offset, 0, end - music.offset);
+    }
+  }
+
+  return context.startRendering();
+};
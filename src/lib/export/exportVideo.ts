@@ -0,0 +1,36 @@
+import { ensureFontsLoaded } from "@/lib/render/fonts";
+import { ensureImagesLoaded } from "@/lib/render/images";
+import { recordWithMediaRecorder } from "@/lib/export/mediaRecorder";
+import { detectExportCapabilities } from "@/lib/export/settings";
+import {
+  ExportControls,
+  ExportRequest,
+  ExportResult,
+} from "@/lib/export/types";
+import {
+  encodeInWorker,
+  isWorkerExportSupported,
+} from "@/lib/export/workerExport";
+
+/**
+ * Renders the scene over the source video. Composites and encodes in a
+ * background worker where the browser has WebCodecs and OffscreenCanvas,
+ * and falls back to real-time recording on the page.
+ */
+export const exportVideo = async (
+  request: ExportRequest,
+  controls: ExportControls = {},
+): Promise<ExportResult> => {
+  await ensureFontsLoaded(request.scene, request.fontFamily);
+  await ensureImagesLoaded(request.scene);
+
+  const capabilities = await detectExportCapabilities();
+  if (
+    isWorkerExportSupported() &&
+    capabilities[request.settings.container].webCodecs
+  ) {
+    return encodeInWorker(request, controls);
+  }
+
+  return recordWithMediaRecorder(request, controls);
+};
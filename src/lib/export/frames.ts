@@ -0,0 +1,92 @@
+import { createAppError } from "@/lib/errors";
+import type { ExportRequest } from "@/lib/export/types";
+import { ensureFontsLoaded } from "@/lib/render/fonts";
+import { drawFrame } from "@/lib/render/frame";
+import { ensureImagesLoaded } from "@/lib/render/images";
+import { getSequenceDuration, locateInSequence } from "@/lib/sequence";
+import {
+  createOffscreenVideo,
+  ensureMetadata,
+  releaseVideo,
+  seekTo,
+} from "@/lib/video";
+
+/** What image exports need from a video export request: no audio or codec. */
+export type FrameRenderRequest = Pick<
+  ExportRequest,
+  "clips" | "scene" | "size" | "fontFamily"
+>;
+
+export type FrameRenderer = {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  /** Seeks the sequence to `time` and paints the composited frame. */
+  render: (time: number) => Promise<void>;
+  release: () => void;
+};
+
+/**
+ * Paints single frames at arbitrary sequence times, on the page. Stills and
+ * short loops need far fewer frames than a video, so they skip the worker
+ * but go through the same `drawFrame` as every other export.
+ */
+export const createFrameRenderer = async ({
+  clips,
+  scene,
+  size,
+  fontFamily,
+}: FrameRenderRequest): Promise<FrameRenderer> => {
+  await ensureFontsLoaded(scene, fontFamily);
+  await ensureImagesLoaded(scene);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw createAppError("canvasUnsupported");
+  }
+
+  const video = createOffscreenVideo();
+  const duration = getSequenceDuration(clips);
+  const now = Date.now();
+  let loadedIndex = -1;
+
+  const render = async (time: number) => {
+    const location = locateInSequence(clips, time);
+    if (location && location.index !== loadedIndex) {
+      video.src = location.clip.url;
+      await ensureMetadata(video);
+      loadedIndex = location.index;
+    }
+    if (location) {
+      await seekTo(video, location.localTime);
+    }
+    drawFrame(
+      ctx,
+      location
+        ? { image: video, width: video.videoWidth, height: video.videoHeight }
+        : null,
+      scene,
+      { ...size, fontFamily, time, duration, now },
+    );
+  };
+
+  return { canvas, ctx, render, release: () => releaseVideo(video) };
+};
+
+export const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  mimeType: string,
+  quality?: number,
+) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(blob)
+          : reject(createAppError("frameEncodeFailed")),
+      mimeType,
+      quality,
+    );
+  });
@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { isAppError } from "@/lib/errors";
+import { createGifEncoder } from "@/lib/export/gif";
+
+type DecodedFrame = {
+  delay: number;
+  palette: number[] | null;
+  minCodeSize: number;
+  indices: number[];
+};
+
+/** GIF's LZW, decoded the way browsers do, to check the encoder against. */
+const decodeLzw = (data: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let dictionary: number[][] = [];
+  let codeSize = 0;
+  const reset = () => {
+    dictionary = Array.from({ length: endCode + 1 }, (_, index) => [index]);
+    codeSize = minCodeSize + 1;
+  };
+  reset();
+
+  const output: number[] = [];
+  let previous: number[] | null = null;
+  let bit = 0;
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let index = 0; index < codeSize; index += 1, bit += 1) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << index;
+    }
+    if (code === clearCode) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) {
+      return output;
+    }
+    assert.ok(
+      code < dictionary.length || (previous && code === dictionary.length),
+      `code ${code} is not in the dictionary`,
+    );
+    const entry: number[] =
+      code < dictionary.length || !previous
+        ? dictionary[code]
+        : [...previous, previous[0]];
+    output.push(...entry);
+    if (previous) {
+      dictionary.push([...previous, entry[0]]);
+      if (dictionary.length === 1 << codeSize && codeSize < 12) {
+        codeSize += 1;
+      }
+    }
+    previous = entry;
+  }
+  assert.fail("no end code");
+};
+
+/** Reads back the frames of a GIF the encoder wrote. */
+const decodeGif = (gif: Uint8Array) => {
+  let offset = 0;
+  const read = (length: number) => {
+    const bytes = gif.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+  const word = () => {
+    const [low, high] = read(2);
+    return low | (high << 8);
+  };
+  const table = (flags: number) =>
+    flags & 0x80 ? [...read(3 << ((flags & 7) + 1))] : null;
+  const subBlocks = () => {
+    const chunks: number[] = [];
+    for (let size = read(1)[0]; size > 0; size = read(1)[0]) {
+      chunks.push(...read(size));
+    }
+    return Uint8Array.from(chunks);
+  };
+
+  const signature = new TextDecoder().decode(read(6));
+  const width = word();
+  const height = word();
+  const globalPalette = table(read(3)[0]);
+  const frames: DecodedFrame[] = [];
+  let loops = false;
+  let delay = 0;
+
+  for (let block = read(1)[0]; block !== 0x3b; block = read(1)[0]) {
+    if (block === 0x21) {
+      const label = read(1)[0];
+      const body = subBlocks();
+      if (label === 0xf9) {
+        delay = body[1] | (body[2] << 8);
+      } else if (label === 0xff) {
+        const name = new TextDecoder().decode(body.subarray(0, 11));
+        loops = name === "NETSCAPE2.0";
+      }
+      continue;
+    }
+    assert.equal(block, 0x2c);
+    read(8);
+    const palette = table(read(1)[0]);
+    const minCodeSize = read(1)[0];
+    const indices = decodeLzw(subBlocks(), minCodeSize);
+    frames.push({ delay, palette, minCodeSize, indices });
+  }
+  return { signature, width, height, globalPalette, loops, frames };
+};
+
+/** Deterministic noise, which fills the LZW dictionary quickly. */
+const noise = (length: number, colors: number) => {
+  let seed = 1;
+  return Uint8Array.from({ length }, () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return (seed >> 16) % colors;
+  });
+};
+
+const grey = (colors: number) =>
+  Uint8Array.from({ length: colors * 3 }, (_, index) =>
+    Math.floor(index / 3),
+  );
+
+describe("createGifEncoder", () => {
+  it("writes a looping GIF89a whose frames decode to their indices", () => {
+    const width = 160;
+    const height = 120;
+    const encoder = createGifEncoder(width, height, grey(256));
+    // Enough noise to fill the dictionary and clear it several times.
+    const first = noise(width * height, 256);
+    const second = Uint8Array.from({ length: width * height }, (_, index) =>
+      Math.floor(index / (width * 30)),
+    );
+    encoder.addFrame({ indices: first, palette: null, delay: 4 });
+    encoder.addFrame({ indices: second, palette: grey(4), delay: 150 });
+
+    const gif = decodeGif(encoder.finish());
+    assert.equal(gif.signature, "GIF89a");
+    assert.equal(gif.width, width);
+    assert.equal(gif.height, height);
+    assert.equal(gif.globalPalette?.length, 768);
+    assert.equal(gif.loops, true);
+    assert.equal(gif.frames.length, 2);
+
+    assert.equal(gif.frames[0].delay, 4);
+    assert.equal(gif.frames[0].palette, null);
+    assert.equal(gif.frames[0].minCodeSize, 8);
+    assert.deepEqual(gif.frames[0].indices, [...first]);
+
+    assert.equal(gif.frames[1].delay, 150);
+    assert.equal(gif.frames[1].palette?.length, 12);
+    assert.equal(gif.frames[1].minCodeSize, 2);
+    assert.deepEqual(gif.frames[1].indices, [...second]);
+  });
+
+  it("pads small palettes to a power of two", () => {
+    const encoder = createGifEncoder(3, 1, grey(3));
+    encoder.addFrame({
+      indices: Uint8Array.from([0, 2, 1]),
+      palette: null,
+      delay: 10,
+    });
+    const gif = decodeGif(encoder.finish());
+    assert.equal(gif.globalPalette?.length, 12);
+    assert.deepEqual(gif.frames[0].indices, [0, 2, 1]);
+  });
+
+  it("needs a palette for every frame", () => {
+    const encoder = createGifEncoder(1, 1, null);
+    assert.throws(
+      () =>
+        encoder.addFrame({
+          indices: Uint8Array.from([0]),
+          palette: null,
+          delay: 10,
+        }),
+      (error) => isAppError(error) && error.reason.code === "gifPalette",
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { createAppError } from "@/lib/errors";
+import type { Palette } from "@/lib/export/palette";
+
+/** Grows as bytes are appended; GIFs are written front to back. */
+const createByteWriter = () => {
+  let bytes = new Uint8Array(1 << 16);
+  let length = 0;
+
+  const reserve = (extra: number) => {
+    if (length + extra <= bytes.length) {
+      return;
+    }
+    const grown = new Uint8Array(Math.max(bytes.length * 2, length + extra));
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+  };
+
+  return {
+    byte: (value: number) => {
+      reserve(1);
+      bytes[length] = value;
+      length += 1;
+    },
+    word: (value: number) => {
+      reserve(2);
+      bytes[length] = value & 0xff;
+      bytes[length + 1] = (value >> 8) & 0xff;
+      length += 2;
+    },
+    bytes: (values: ArrayLike<number>) => {
+      reserve(values.length);
+      bytes.set(values, length);
+      length += values.length;
+    },
+    text: (value: string) => {
+      for (const char of value) {
+        reserve(1);
+        bytes[length] = char.charCodeAt(0);
+        length += 1;
+      }
+    },
+    result: () => bytes.slice(0, length),
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+/** Bits a color table of `colors` entries needs, as GIF counts them (1–8). */
+const tableBits = (colors: number) =>
+  Math.max(1, Math.ceil(Math.log2(Math.max(2, colors))));
+
+const writeColorTable = (writer: ByteWriter, palette: Palette) => {
+  const entries = 1 << tableBits(palette.length / 3);
+  const table = new Uint8Array(entries * 3);
+  table.set(palette.subarray(0, table.length));
+  writer.bytes(table);
+};
+
+const MAX_CODE = 4096;
+
+/**
+ * The LZW dictionary, keyed by `prefix << 8 | index`. Bumping the
+ * generation empties it without clearing megabytes on every reset.
+ */
+type LzwTable = {
+  codes: Uint16Array;
+  generations: Uint32Array;
+  generation: number;
+};
+
+const createLzwTable = (): LzwTable => ({
+  codes: new Uint16Array(MAX_CODE << 8),
+  generations: new Uint32Array(MAX_CODE << 8),
+  generation: 0,
+});
+
+/**
+ * LZW-compresses palette indices the way GIF expects: variable-width
+ * codes, least significant bit first, packed into 255-byte sub-blocks.
+ */
+const writeLzw = (
+  writer: ByteWriter,
+  table: LzwTable,
+  indices: Uint8Array,
+  minCodeSize: number,
+) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const { codes, generations } = table;
+  table.generation += 1;
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  const packed = createByteWriter();
+  let buffer = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      packed.byte(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0] ?? 0;
+  for (let position = 1; position < indices.length; position += 1) {
+    const index = indices[position];
+    const key = (prefix << 8) | index;
+    if (generations[key] === table.generation) {
+      prefix = codes[key];
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table.generation += 1;
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize += 1;
+      }
+      codes[key] = nextCode;
+      generations[key] = table.generation;
+      nextCode += 1;
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) {
+    packed.byte(buffer & 0xff);
+  }
+
+  writer.byte(minCodeSize);
+  const data = packed.result();
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    writer.byte(block.length);
+    writer.bytes(block);
+  }
+  writer.byte(0);
+};
+
+export type GifFrame = {
+  /** One palette index per pixel, row by row. */
+  indices: Uint8Array;
+  /** Overrides the global palette for this frame. */
+  palette: Palette | null;
+  /** Display time in hundredths of a second. */
+  delay: number;
+};
+
+/**
+ * Streams an endlessly looping GIF89a. Frames are written as they come, so
+ * only the compressed output stays in memory.
+ */
+export const createGifEncoder = (
+  width: number,
+  height: number,
+  globalPalette: Palette | null,
+) => {
+  const writer = createByteWriter();
+  const lzw = createLzwTable();
+
+  writer.text("GIF89a");
+  writer.word(width);
+  writer.word(height);
+  writer.byte(
+    globalPalette ? 0xf0 | (tableBits(globalPalette.length / 3) - 1) : 0x70,
+  );
+  writer.byte(0); // Background color index.
+  writer.byte(0); // Square pixels.
+  if (globalPalette) {
+    writeColorTable(writer, globalPalette);
+  }
+
+  // NETSCAPE2.0 application extension: loop forever.
+  writer.bytes([0x21, 0xff, 0x0b]);
+  writer.text("NETSCAPE2.0");
+  writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const addFrame = ({ indices, palette, delay }: GifFrame) => {
+    const colors = palette ?? globalPalette;
+    if (!colors) {
+      throw createAppError("gifPalette");
+    }
+
+    // Graphic control extension: frame delay, no transparency.
+    writer.bytes([0x21, 0xf9, 0x04, 0x00]);
+    writer.word(delay);
+    writer.bytes([0x00, 0x00]);
+
+    writer.byte(0x2c);
+    writer.word(0);
+    writer.word(0);
+    writer.word(width);
+    writer.word(height);
+    writer.byte(palette ? 0x80 | (tableBits(palette.length / 3) - 1) : 0);
+    if (palette) {
+      writeColorTable(writer, palette);
+    }
+
+    writeLzw(writer, lzw, indices, Math.max(2, tableBits(colors.length / 3)));
+  };
+
+  const finish = () => {
+    writer.byte(0x3b);
+    return writer.result();
+  };
+
+  return { addFrame, finish };
+};
@@ -0,0 +1,21 @@
+/** Rejection of a cancelled export, shaped like a fetch abort. */
+export const createCancelledError = () =>
+  new DOMException("Eksporti u anulua.", "AbortError");
+
+export const isExportCancelled = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createCancelledError();
+  }
+};
+
+/** Below this much progress the rate is too noisy to extrapolate. */
+const MIN_PROGRESS_FOR_ESTIMATE = 0.02;
+
+/** Seconds left at the average rate so far, or `null` while unknown. */
+export const estimateRemaining = (progress: number, elapsed: number) =>
+  progress >= MIN_PROGRESS_FOR_ESTIMATE && progress < 1
+    ? (elapsed * (1 - progress)) / progress
+    : null;
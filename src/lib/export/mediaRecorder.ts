@@ -0,0 +1,200 @@
+import { createAppError } from "@/lib/errors";
+import { renderMixedAudio } from "@/lib/export/audio";
+import { createCancelledError, throwIfCancelled } from "@/lib/export/jobs";
+import {
+  CODEC_PROFILES,
+  ContainerFormat,
+  resolveBitrate,
+} from "@/lib/export/settings";
+import {
+  ExportControls,
+  ExportRequest,
+  ExportResult,
+} from "@/lib/export/types";
+import { drawFrame } from "@/lib/render/frame";
+import {
+  getClipLength,
+  getClipOffset,
+  getSequenceDuration,
+} from "@/lib/sequence";
+import {
+  createOffscreenVideo,
+  ensureMetadata,
+  releaseVideo,
+  seekTo,
+} from "@/lib/video";
+
+const pickMimeType = (container: ContainerFormat) => {
+  const candidates = CODEC_PROFILES[container].recorderMimeTypes;
+
+  for (const candidate of candidates) {
+    if (MediaRecorder.isTypeSupported(candidate)) {
+      return candidate;
+    }
+  }
+
+  throw createAppError("recorderUnsupported", CODEC_PROFILES[container].label);
+};
+
+/**
+ * Plays `video` until `until` seconds, calling `onFrame` on every frame.
+ * Stops early, rejecting, when `signal` aborts.
+ */
+const playSegment = (
+  video: HTMLVideoElement,
+  until: number,
+  onFrame: () => void,
+  signal?: AbortSignal,
+) =>
+  new Promise<void>((resolve, reject) => {
+    let frameId: number | null = null;
+
+    const stop = () => {
+      if (frameId !== null) {
+        cancelAnimationFrame(frameId);
+      }
+      video.removeEventListener("ended", finish);
+      signal?.removeEventListener("abort", abort);
+      video.pause();
+    };
+
+    const finish = () => {
+      stop();
+      onFrame();
+      resolve();
+    };
+
+    const abort = () => {
+      stop();
+      reject(createCancelledError());
+    };
+
+    const loop = () => {
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      if (video.currentTime >= until) {
+        finish();
+        return;
+      }
+      onFrame();
+      frameId = requestAnimationFrame(loop);
+    };
+
+    video.addEventListener("ended", finish, { once: true });
+    signal?.addEventListener("abort", abort, { once: true });
+    video.play().then(loop, reject);
+  });
+
+/**
+ * Real-time fallback: plays each clip once and records the composited
+ * canvas. Only used where WebCodecs is unavailable. The audio mix is
+ * rendered up front and played into the recording clip by clip, so it does
+ * not depend on capturing the video element.
+ */
+export const recordWithMediaRecorder = async (
+  { clips, audio, scene, size, settings, fontFamily }: ExportRequest,
+  { signal, onProgress }: ExportControls = {},
+): Promise<ExportResult> => {
+  const { width, height } = size;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    throw createAppError("canvasUnsupported");
+  }
+
+  const mixedAudio = await renderMixedAudio(clips, audio);
+  throwIfCancelled(signal);
+  const video = createOffscreenVideo();
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+
+  const duration = getSequenceDuration(clips);
+  const now = Date.now();
+  const mimeType = pickMimeType(settings.container);
+  const canvasStream = canvas.captureStream(settings.frameRate);
+  const mediaStream = new MediaStream([
+    ...canvasStream.getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+  const chunks: BlobPart[] = [];
+  const recorder = new MediaRecorder(mediaStream, {
+    mimeType,
+    videoBitsPerSecond: resolveBitrate(settings, size),
+  });
+
+  const recordingComplete = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+
+  try {
+    for (let index = 0; index < clips.length; index += 1) {
+      const clip = clips[index];
+      const offset = getClipOffset(clips, index);
+      video.src = clip.url;
+      await ensureMetadata(video);
+      await seekTo(video, clip.trimStart);
+      throwIfCancelled(signal);
+
+      const paintFrame = () => {
+        const time = offset + Math.max(0, video.currentTime - clip.trimStart);
+        drawFrame(
+          ctx,
+          { image: video, width: video.videoWidth, height: video.videoHeight },
+          scene,
+          {
+            width,
+            height,
+            fontFamily,
+            time,
+            duration,
+            now,
+          },
+        );
+        onProgress?.(Math.min(1, time / duration));
+      };
+
+      paintFrame();
+      // Hold the recorder while the next clip loads so the gap is not recorded.
+      if (recorder.state === "inactive") {
+        recorder.start(150);
+      } else {
+        recorder.resume();
+      }
+      let segmentAudio: AudioBufferSourceNode | null = null;
+      if (mixedAudio) {
+        segmentAudio = audioContext.createBufferSource();
+        segmentAudio.buffer = mixedAudio;
+        segmentAudio.connect(audioDestination);
+        segmentAudio.start(0, offset, getClipLength(clip));
+      }
+      await playSegment(video, clip.trimEnd, paintFrame, signal);
+      segmentAudio?.stop();
+      recorder.pause();
+    }
+  } finally {
+    if (recorder.state !== "inactive") {
+      recorder.stop();
+    }
+    releaseVideo(video);
+    audioContext.close().catch(() => undefined);
+  }
+
+  await recordingComplete;
+
+  return {
+    blob: new Blob(chunks, { type: mimeType }),
+    mimeType,
+    extension: CODEC_PROFILES[settings.container].extension,
+  };
+};
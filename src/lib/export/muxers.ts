@@ -0,0 +1,102 @@
+import {
+  ArrayBufferTarget as Mp4Target,
+  Muxer as Mp4Muxer,
+} from "mp4-muxer";
+import {
+  ArrayBufferTarget as WebmTarget,
+  Muxer as WebmMuxer,
+} from "webm-muxer";
+import { ContainerFormat } from "@/lib/export/settings";
+
+export type MuxerTrackConfig = {
+  video: {
+    /** WebCodecs codec string the encoder was configured with. */
+    codec: string;
+    width: number;
+    height: number;
+    frameRate: number;
+  };
+  audio: {
+    codec: "aac" | "opus";
+    sampleRate: number;
+    numberOfChannels: number;
+  } | null;
+};
+
+/** Common surface of the MP4 and WebM muxers. */
+export type ContainerMuxer = {
+  addVideoChunk: (
+    chunk: EncodedVideoChunk,
+    meta?: EncodedVideoChunkMetadata,
+  ) => void;
+  addAudioChunk: (
+    chunk: EncodedAudioChunk,
+    meta?: EncodedAudioChunkMetadata,
+  ) => void;
+  finalize: () => ArrayBuffer;
+};
+
+const WEBM_VIDEO_CODECS: Record<string, string> = {
+  vp09: "V_VP9",
+  vp8: "V_VP8",
+};
+
+const MP4_VIDEO_CODECS: Record<string, "avc" | "vp9"> = {
+  avc1: "avc",
+  vp09: "vp9",
+};
+
+const codecFamily = (codec: string) => codec.split(".")[0];
+
+export const createMuxer = (
+  container: ContainerFormat,
+  { video, audio }: MuxerTrackConfig,
+): ContainerMuxer => {
+  if (container === "mp4") {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: {
+        codec: MP4_VIDEO_CODECS[codecFamily(video.codec)] ?? "avc",
+        width: video.width,
+        height: video.height,
+        frameRate: video.frameRate,
+      },
+      audio: audio ?? undefined,
+      // Moves the index to the front so players can start before the download ends.
+      fastStart: "in-memory",
+    });
+    return {
+      addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return muxer.target.buffer;
+      },
+    };
+  }
+
+  const muxer = new WebmMuxer({
+    target: new WebmTarget(),
+    video: {
+      codec: WEBM_VIDEO_CODECS[codecFamily(video.codec)] ?? "V_VP9",
+      width: video.width,
+      height: video.height,
+      frameRate: video.frameRate,
+    },
+    audio: audio
+      ? {
+          codec: "A_OPUS",
+          sampleRate: audio.sampleRate,
+          numberOfChannels: audio.numberOfChannels,
+        }
+      : undefined,
+  });
+  return {
+    addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return muxer.target.buffer;
+    },
+  };
+};
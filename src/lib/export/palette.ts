@@ -0,0 +1,210 @@
+/**
+ * Color reduction for GIF: median cut over a 15-bit color histogram, then
+ * nearest-color mapping with optional Floyd–Steinberg dithering.
+ */
+
+/** Counts of every color, reduced to 5 bits per channel. */
+export type ColorHistogram = Uint32Array;
+
+/** Flat `r, g, b` triples. */
+export type Palette = Uint8Array;
+
+const BINS = 1 << 15;
+
+const toBin = (r: number, g: number, b: number) =>
+  ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/** A 5-bit channel back to 8 bits, spreading it over the full range. */
+const expand = (value: number) => (value << 3) | (value >> 2);
+
+const channelOf = (bin: number, channel: number) =>
+  (bin >> (10 - channel * 5)) & 31;
+
+export const createHistogram = (): ColorHistogram => new Uint32Array(BINS);
+
+export const addToHistogram = (
+  histogram: ColorHistogram,
+  rgba: Uint8ClampedArray,
+) => {
+  for (let offset = 0; offset < rgba.length; offset += 4) {
+    histogram[toBin(rgba[offset], rgba[offset + 1], rgba[offset + 2])] += 1;
+  }
+};
+
+type ColorBox = {
+  bins: number[];
+  count: number;
+};
+
+const measureBox = (bins: number[]) => {
+  let widest = 0;
+  let range = -1;
+  for (let channel = 0; channel < 3; channel += 1) {
+    let min = 31;
+    let max = 0;
+    for (const bin of bins) {
+      const value = channelOf(bin, channel);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    if (max - min > range) {
+      range = max - min;
+      widest = channel;
+    }
+  }
+  return { channel: widest, range };
+};
+
+/** Splits at the pixel-weighted median of the box's widest channel. */
+const splitBox = (box: ColorBox, histogram: ColorHistogram) => {
+  const { channel } = measureBox(box.bins);
+  const sorted = [...box.bins].sort(
+    (a, b) => channelOf(a, channel) - channelOf(b, channel),
+  );
+  let seen = 0;
+  let cut = 1;
+  for (; cut < sorted.length - 1; cut += 1) {
+    seen += histogram[sorted[cut - 1]];
+    if (seen * 2 >= box.count) {
+      break;
+    }
+  }
+  const toBox = (bins: number[]): ColorBox => ({
+    bins,
+    count: bins.reduce((total, bin) => total + histogram[bin], 0),
+  });
+  return [toBox(sorted.slice(0, cut)), toBox(sorted.slice(cut))];
+};
+
+/** Up to `maxColors` colors that best cover the histogram. */
+export const buildPalette = (
+  histogram: ColorHistogram,
+  maxColors: number,
+): Palette => {
+  const used: number[] = [];
+  let total = 0;
+  for (let bin = 0; bin < BINS; bin += 1) {
+    if (histogram[bin] > 0) {
+      used.push(bin);
+      total += histogram[bin];
+    }
+  }
+  if (used.length === 0) {
+    return new Uint8Array(3);
+  }
+
+  const boxes: ColorBox[] = [{ bins: used, count: total }];
+  while (boxes.length < maxColors) {
+    // Split the box with the most pixels spread over the widest range.
+    let target = -1;
+    let score = 0;
+    boxes.forEach((box, index) => {
+      if (box.bins.length < 2) {
+        return;
+      }
+      const next = box.count * (measureBox(box.bins).range + 1);
+      if (next > score) {
+        score = next;
+        target = index;
+      }
+    });
+    if (target < 0) {
+      break;
+    }
+    boxes.splice(target, 1, ...splitBox(boxes[target], histogram));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    for (let channel = 0; channel < 3; channel += 1) {
+      let sum = 0;
+      for (const bin of box.bins) {
+        sum += expand(channelOf(bin, channel)) * histogram[bin];
+      }
+      palette[index * 3 + channel] = Math.round(sum / box.count);
+    }
+  });
+  return palette;
+};
+
+/**
+ * Maps RGBA pixels onto palette indices. Nearest colors are cached per
+ * 15-bit bin, so a mapper is best reused for every frame of a palette.
+ */
+export const createPaletteMapper = (palette: Palette) => {
+  const size = palette.length / 3;
+  const cache = new Int16Array(BINS).fill(-1);
+
+  const nearest = (r: number, g: number, b: number) => {
+    const bin = toBin(r, g, b);
+    if (cache[bin] >= 0) {
+      return cache[bin];
+    }
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let index = 0; index < size; index += 1) {
+      const dr = palette[index * 3] - r;
+      const dg = palette[index * 3 + 1] - g;
+      const db = palette[index * 3 + 2] - b;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    }
+    cache[bin] = best;
+    return best;
+  };
+
+  return (
+    rgba: Uint8ClampedArray,
+    width: number,
+    height: number,
+    dither: boolean,
+  ) => {
+    const indices = new Uint8Array(width * height);
+    if (!dither) {
+      for (let pixel = 0; pixel < indices.length; pixel += 1) {
+        const offset = pixel * 4;
+        indices[pixel] = nearest(
+          rgba[offset],
+          rgba[offset + 1],
+          rgba[offset + 2],
+        );
+      }
+      return indices;
+    }
+
+    // Floyd–Steinberg, carrying the error of this row and the next.
+    let current = new Float32Array((width + 2) * 3);
+    let next = new Float32Array((width + 2) * 3);
+    const clamp = (value: number) => Math.max(0, Math.min(255, value));
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const pixel = y * width + x;
+        const slot = (x + 1) * 3;
+        const r = clamp(rgba[pixel * 4] + current[slot]);
+        const g = clamp(rgba[pixel * 4 + 1] + current[slot + 1]);
+        const b = clamp(rgba[pixel * 4 + 2] + current[slot + 2]);
+        const index = nearest(Math.round(r), Math.round(g), Math.round(b));
+        indices[pixel] = index;
+
+        const errors = [
+          r - palette[index * 3],
+          g - palette[index * 3 + 1],
+          b - palette[index * 3 + 2],
+        ];
+        for (let channel = 0; channel < 3; channel += 1) {
+          const error = errors[channel];
+          current[slot + 3 + channel] += (error * 7) / 16;
+          next[slot - 3 + channel] += (error * 3) / 16;
+          next[slot + channel] += (error * 5) / 16;
+          next[slot + 3 + channel] += error / 16;
+        }
+      }
+      [current, next] = [next, current];
+      next.fill(0);
+    }
+    return indices;
+  };
+};
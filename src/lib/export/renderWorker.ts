@@ -0,0 +1,265 @@
+/**
+ * Composites and encodes export frames off the main thread. The page seeks
+ * the source video (only it can decode `<video>`) and posts each frame as
+ * an `ImageBitmap`; everything else happens here on an `OffscreenCanvas`.
+ */
+import { ErrorReason, createAppError, isAppError } from "@/lib/errors";
+import { ContainerMuxer, createMuxer } from "@/lib/export/muxers";
+import {
+  CODEC_PROFILES,
+  ExportSettings,
+  resolveBitrate,
+} from "@/lib/export/settings";
+import {
+  AudioSamples,
+  KEYFRAME_INTERVAL_SECONDS,
+  encodeAudio,
+  pickAudioConfig,
+  pickVideoConfig,
+  waitForQueue,
+} from "@/lib/export/webcodecs";
+import {
+  FontFaceSource,
+  ensureFontsLoaded,
+  registerFontFaces,
+} from "@/lib/render/fonts";
+import { FrameSize, drawFrame } from "@/lib/render/frame";
+import { DecodedImage, provideImage } from "@/lib/render/images";
+import type { OverlayScene } from "@/lib/scene";
+
+export type RenderWorkerRequest =
+  | {
+      type: "start";
+      scene: OverlayScene;
+      size: FrameSize;
+      settings: ExportSettings;
+      fontFamily: string;
+      fontFaces: FontFaceSource[];
+      images: DecodedImage[];
+      audio: AudioSamples | null;
+      duration: number;
+      now: number;
+    }
+  | {
+      type: "frame";
+      index: number;
+      time: number;
+      /** `null` past the end of the sequence, drawn as a black frame. */
+      source: (FrameSize & { image: ImageBitmap }) | null;
+    }
+  | { type: "finish" };
+
+export type RenderWorkerResponse =
+  | { type: "ready" }
+  /** Sent once frame `index` is queued with the encoder. */
+  | { type: "frame"; index: number }
+  | { type: "done"; buffer: ArrayBuffer; mimeType: string; extension: string }
+  /** `reason` is `null` for failures that have no catalog message. */
+  | { type: "error"; reason: ErrorReason | null };
+
+type Session = {
+  ctx: OffscreenCanvasRenderingContext2D;
+  canvas: OffscreenCanvas;
+  scene: OverlayScene;
+  size: FrameSize;
+  settings: ExportSettings;
+  fontFamily: string;
+  duration: number;
+  now: number;
+  audio: AudioSamples | null;
+  muxer: ContainerMuxer;
+  videoEncoder: VideoEncoder;
+  audioEncoder: AudioEncoder | null;
+  encoderError: Error | null;
+};
+
+type WorkerScope = {
+  onmessage: ((event: MessageEvent<RenderWorkerRequest>) => void) | null;
+  postMessage: (message: RenderWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const scope = globalThis as unknown as WorkerScope;
+
+let session: Session | null = null;
+
+const requireSession = () => {
+  if (!session) {
+    throw createAppError("workerNotStarted");
+  }
+  if (session.encoderError) {
+    throw session.encoderError;
+  }
+  return session;
+};
+
+const start = async (
+  request: Extract<RenderWorkerRequest, { type: "start" }>,
+) => {
+  const { scene, size, settings, fontFamily, audio } = request;
+  const profile = CODEC_PROFILES[settings.container];
+
+  await registerFontFaces(request.fontFaces);
+  await ensureFontsLoaded(scene, fontFamily);
+  request.images.forEach(({ src, image }) => provideImage(src, image));
+
+  const videoConfig = await pickVideoConfig(profile.videoCodecs, {
+    width: size.width,
+    height: size.height,
+    bitrate: resolveBitrate(settings, size),
+    framerate: settings.frameRate,
+  });
+  if (!videoConfig) {
+    throw createAppError(
+      "encoderUnsupported",
+      profile.label,
+      size.width,
+      size.height,
+    );
+  }
+
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw createAppError("offscreenCanvasUnsupported");
+  }
+
+  const audioConfig = audio
+    ? await pickAudioConfig(profile.audioCodecs, audio)
+    : null;
+  const muxer = createMuxer(settings.container, {
+    video: {
+      codec: videoConfig.codec,
+      width: size.width,
+      height: size.height,
+      frameRate: settings.frameRate,
+    },
+    audio: audioConfig
+      ? {
+          codec: audioConfig.muxer,
+          sampleRate: audioConfig.config.sampleRate,
+          numberOfChannels: audioConfig.config.numberOfChannels,
+        }
+      : null,
+  });
+
+  const fail = (error: Error) => {
+    if (session) {
+      session.encoderError ??= error;
+    }
+  };
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: fail,
+  });
+  videoEncoder.configure(videoConfig);
+
+  let audioEncoder: AudioEncoder | null = null;
+  if (audioConfig) {
+    audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: fail,
+    });
+    audioEncoder.configure(audioConfig.config);
+  }
+
+  session = {
+    ctx,
+    canvas,
+    scene,
+    size,
+    settings,
+    fontFamily,
+    duration: request.duration,
+    now: request.now,
+    audio: audioConfig ? audio : null,
+    muxer,
+    videoEncoder,
+    audioEncoder,
+    encoderError: null,
+  };
+  scope.postMessage({ type: "ready" });
+};
+
+const encodeFrame = async ({
+  index,
+  time,
+  source,
+}: Extract<RenderWorkerRequest, { type: "frame" }>) => {
+  const current = requireSession();
+  const { ctx, canvas, size, settings, videoEncoder } = current;
+
+  drawFrame(ctx, source, current.scene, {
+    ...size,
+    fontFamily: current.fontFamily,
+    time,
+    duration: current.duration,
+    now: current.now,
+  });
+  source?.image.close();
+
+  const frameDuration = 1_000_000 / settings.frameRate;
+  const frame = new VideoFrame(canvas, {
+    timestamp: Math.round(index * frameDuration),
+    duration: Math.round(frameDuration),
+  });
+  videoEncoder.encode(frame, {
+    keyFrame: index % (settings.frameRate * KEYFRAME_INTERVAL_SECONDS) === 0,
+  });
+  frame.close();
+  await waitForQueue(videoEncoder);
+  scope.postMessage({ type: "frame", index });
+};
+
+const finish = async () => {
+  const current = requireSession();
+  const { audioEncoder, videoEncoder, audio } = current;
+
+  if (audioEncoder && audio) {
+    await encodeAudio(audioEncoder, audio, current.duration);
+    await audioEncoder.flush();
+  }
+  await videoEncoder.flush();
+  const { muxer, settings } = requireSession();
+  videoEncoder.close();
+  audioEncoder?.close();
+  session = null;
+
+  const profile = CODEC_PROFILES[settings.container];
+  const buffer = muxer.finalize();
+  scope.postMessage(
+    {
+      type: "done",
+      buffer,
+      mimeType: profile.mimeType,
+      extension: profile.extension,
+    },
+    [buffer],
+  );
+};
+
+const handle = (request: RenderWorkerRequest) => {
+  switch (request.type) {
+    case "start":
+      return start(request);
+    case "frame":
+      return encodeFrame(request);
+    case "finish":
+      return finish();
+  }
+};
+
+// Messages are handled strictly in order; frames may arrive while the
+// encoder is still being set up.
+let queue = Promise.resolve();
+
+scope.onmessage = (event) => {
+  queue = queue
+    .then(() => handle(event.data))
+    .catch((error: unknown) => {
+      console.error(error);
+      scope.postMessage({
+        type: "error",
+        reason: isAppError(error) ? error.reason : null,
+      });
+    });
+};
@@ -0,0 +1,182 @@
+import type { FrameSize } from "@/lib/render/frame";
+
+export type ContainerFormat = "mp4" | "webm";
+
+export type ResolutionPreset = "source" | "1080p" | "720p";
+
+export type QualityPreset = "low" | "medium" | "high" | "custom";
+
+export type ExportSettings = {
+  container: ContainerFormat;
+  resolution: ResolutionPreset;
+  frameRate: number;
+  quality: QualityPreset;
+  /** Video bitrate in bits per second, used when `quality` is `custom`. */
+  bitrate: number;
+};
+
+export type CodecProfile = {
+  container: ContainerFormat;
+  label: string;
+  mimeType: string;
+  extension: string;
+  /** WebCodecs codec strings, most capable first. */
+  videoCodecs: string[];
+  audioCodecs: { encoder: string; muxer: "aac" | "opus" }[];
+  /** MediaRecorder mime types for the real-time fallback. */
+  recorderMimeTypes: string[];
+};
+
+export const CODEC_PROFILES: Record<ContainerFormat, CodecProfile> = {
+  mp4: {
+    container: "mp4",
+    label: "MP4 · H.264 / AAC",
+    mimeType: "video/mp4",
+    extension: "mp4",
+    // High profile at levels 5.1, 4.2 and 4.0, then Main and Baseline.
+    videoCodecs: [
+      "avc1.640033",
+      "avc1.64002A",
+      "avc1.640028",
+      "avc1.4D0028",
+      "avc1.42E01F",
+    ],
+    audioCodecs: [
+      { encoder: "mp4a.40.2", muxer: "aac" },
+      { encoder: "opus", muxer: "opus" },
+    ],
+    recorderMimeTypes: [
+      "video/mp4;codecs=avc1.640028,mp4a.40.2",
+      "video/mp4;codecs=avc1,mp4a.40.2",
+      "video/mp4",
+    ],
+  },
+  webm: {
+    container: "webm",
+    label: "WebM · VP9 / Opus",
+    mimeType: "video/webm",
+    extension: "webm",
+    videoCodecs: ["vp09.00.10.08", "vp8"],
+    audioCodecs: [{ encoder: "opus", muxer: "opus" }],
+    recorderMimeTypes: [
+      "video/webm;codecs=vp9,opus",
+      "video/webm;codecs=vp9",
+      "video/webm;codecs=vp8,opus",
+      "video/webm",
+    ],
+  },
+};
+
+export const RESOLUTION_OPTIONS: ResolutionPreset[] = ["source", "1080p", "720p"];
+
+export const FRAME_RATE_OPTIONS = [24, 25, 30, 60];
+
+/** Bits per pixel per frame for each preset. */
+const QUALITY_BPP: Record<Exclude<QualityPreset, "custom">, number> = {
+  low: 0.05,
+  medium: 0.1,
+  high: 0.18,
+};
+
+export const QUALITY_OPTIONS: QualityPreset[] = [
+  "low",
+  "medium",
+  "high",
+  "custom",
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  container: "mp4",
+  resolution: "source",
+  frameRate: 30,
+  quality: "medium",
+  bitrate: 6_000_000,
+};
+
+const SHORT_SIDE: Record<Exclude<ResolutionPreset, "source">, number> = {
+  "1080p": 1080,
+  "720p": 720,
+};
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Scales the reframed output so its short side matches the preset. Sizes
+ * are kept even because H.264 cannot encode odd dimensions.
+ */
+export const resolveExportSize = (
+  output: FrameSize,
+  resolution: ResolutionPreset,
+): FrameSize => {
+  const shortSide = Math.min(output.width, output.height);
+  const scale =
+    resolution === "source" ? 1 : SHORT_SIDE[resolution] / shortSide;
+  return {
+    width: toEven(output.width * scale),
+    height: toEven(output.height * scale),
+  };
+};
+
+export const resolveBitrate = (settings: ExportSettings, size: FrameSize) =>
+  settings.quality === "custom"
+    ? settings.bitrate
+    : Math.round(
+        size.width *
+          size.height *
+          settings.frameRate *
+          QUALITY_BPP[settings.quality],
+      );
+
+export type ContainerSupport = {
+  /** Offline WebCodecs path with this container's codecs. */
+  webCodecs: boolean;
+  /** Real-time MediaRecorder fallback. */
+  mediaRecorder: boolean;
+};
+
+export type ExportCapabilities = Record<ContainerFormat, ContainerSupport>;
+
+const probeVideoEncoder = async (codecs: string[]) => {
+  if (typeof VideoEncoder === "undefined") {
+    return false;
+  }
+  for (const codec of codecs) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      codec,
+      width: 1280,
+      height: 720,
+      bitrate: 4_000_000,
+      framerate: 30,
+    }).catch(() => ({ supported: false }));
+    if (supported) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const probeRecorder = (mimeTypes: string[]) =>
+  typeof MediaRecorder !== "undefined" &&
+  mimeTypes.some((mimeType) => MediaRecorder.isTypeSupported(mimeType));
+
+export const detectExportCapabilities =
+  async (): Promise<ExportCapabilities> => {
+    const entries = await Promise.all(
+      Object.values(CODEC_PROFILES).map(
+        async (profile) =>
+          [
+            profile.container,
+            {
+              webCodecs:
+                typeof AudioEncoder !== "undefined" &&
+                (await probeVideoEncoder(profile.videoCodecs)),
+              mediaRecorder: probeRecorder(profile.recorderMimeTypes),
+            },
+          ] as const,
+      ),
+    );
+    return Object.fromEntries(entries) as ExportCapabilities;
+  };
+
+export const isContainerSupported = (support: ContainerSupport) =>
+  support.webCodecs || support.mediaRecorder;
@@ -0,0 +1,40 @@
+import {
+  FrameRenderRequest,
+  canvasToBlob,
+  createFrameRenderer,
+} from "@/lib/export/frames";
+import type { ExportResult } from "@/lib/export/types";
+
+export type StillFormat = "png" | "jpeg";
+
+export const STILL_FORMATS: Record<
+  StillFormat,
+  { mimeType: string; extension: string }
+> = {
+  png: { mimeType: "image/png", extension: "png" },
+  jpeg: { mimeType: "image/jpeg", extension: "jpg" },
+};
+
+/** Quality of JPEG stills; high enough for thumbnails that get recompressed. */
+const JPEG_QUALITY = 0.92;
+
+/** The composited frame at `time`, at the full export size. */
+export const grabFrame = async (
+  request: FrameRenderRequest,
+  time: number,
+  format: StillFormat,
+): Promise<ExportResult> => {
+  const renderer = await createFrameRenderer(request);
+  try {
+    await renderer.render(time);
+    const { mimeType, extension } = STILL_FORMATS[format];
+    const blob = await canvasToBlob(
+      renderer.canvas,
+      mimeType,
+      format === "jpeg" ? JPEG_QUALITY : undefined,
+    );
+    return { blob, mimeType, extension };
+  } finally {
+    renderer.release();
+  }
+};
@@ -0,0 +1,30 @@
+import type { AudioMix } from "@/lib/audioMix";
+import type { ExportSettings } from "@/lib/export/settings";
+import type { FrameSize } from "@/lib/render/frame";
+import type { OverlayScene } from "@/lib/scene";
+import type { Clip } from "@/lib/sequence";
+
+export type ExportRequest = {
+  /** Trimmed clips, rendered back to back as one sequence. */
+  clips: Clip[];
+  /** Original-track volume and music bed, mixed offline for the export. */
+  audio: AudioMix;
+  scene: OverlayScene;
+  /** Encoded frame size, after reframing and the resolution preset. */
+  size: FrameSize;
+  settings: ExportSettings;
+  fontFamily: string;
+};
+
+export type ExportResult = {
+  blob: Blob;
+  mimeType: string;
+  extension: string;
+};
+
+/** Lets a running export report progress and be cancelled. */
+export type ExportControls = {
+  signal?: AbortSignal;
+  /** Fraction done, 0–1. */
+  onProgress?: (progress: number) => void;
+};
@@ -0,0 +1,113 @@
+/**
+ * Encoder plumbing for the render worker. Apart from the support check,
+ * nothing here touches the page.
+ */
+
+/** Planar samples of the mixed soundtrack, transferable to a worker. */
+export type AudioSamples = {
+  sampleRate: number;
+  channels: Float32Array[];
+};
+
+const AUDIO_BITRATE = 128_000;
+/** Samples handed to the encoder per `AudioData`, ~21 ms at 48 kHz. */
+const AUDIO_CHUNK_FRAMES = 1024;
+export const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+export const isWebCodecsSupported = () =>
+  typeof window !== "undefined" &&
+  "VideoEncoder" in window &&
+  "VideoFrame" in window &&
+  "AudioEncoder" in window;
+
+export const toAudioSamples = (buffer: AudioBuffer): AudioSamples => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+    buffer.getChannelData(channel).slice(),
+  ),
+});
+
+export const pickVideoConfig = async (
+  codecs: string[],
+  base: Omit<VideoEncoderConfig, "codec">,
+) => {
+  for (const codec of codecs) {
+    const config: VideoEncoderConfig = {
+      ...base,
+      codec,
+      // mp4-muxer expects length-prefixed NAL units, not Annex B.
+      ...(codec.startsWith("avc1") ? { avc: { format: "avc" as const } } : {}),
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) {
+      return config;
+    }
+  }
+  return null;
+};
+
+export const pickAudioConfig = async (
+  codecs: { encoder: string; muxer: "aac" | "opus" }[],
+  samples: AudioSamples,
+) => {
+  for (const codec of codecs) {
+    const config: AudioEncoderConfig = {
+      codec: codec.encoder,
+      sampleRate: samples.sampleRate,
+      numberOfChannels: samples.channels.length,
+      bitrate: AUDIO_BITRATE,
+    };
+    const { supported } = await AudioEncoder.isConfigSupported(config).catch(
+      () => ({ supported: false }),
+    );
+    if (supported) {
+      return { config, muxer: codec.muxer };
+    }
+  }
+  return null;
+};
+
+export const waitForQueue = (encoder: VideoEncoder | AudioEncoder) =>
+  new Promise<void>((resolve) => {
+    if (encoder.encodeQueueSize <= MAX_ENCODE_QUEUE) {
+      resolve();
+      return;
+    }
+    encoder.addEventListener("dequeue", () => resolve(), { once: true });
+  });
+
+export const encodeAudio = async (
+  encoder: AudioEncoder,
+  { sampleRate, channels: channelData }: AudioSamples,
+  duration: number,
+) => {
+  const channels = channelData.length;
+  const totalFrames = Math.min(
+    channelData[0]?.length ?? 0,
+    Math.round(duration * sampleRate),
+  );
+
+  for (let offset = 0; offset < totalFrames; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, totalFrames - offset);
+    const planar = new Float32Array(frames * channels);
+    for (let channel = 0; channel < channels; channel += 1) {
+      planar.set(
+        channelData[channel].subarray(offset, offset + frames),
+        channel * frames,
+      );
+    }
+
+    const data = new AudioData({
+      format: "f32-planar",
+      sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((offset / sampleRate) * 1_000_000),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+    await waitForQueue(encoder);
+  }
+};
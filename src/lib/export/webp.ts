@@ -0,0 +1,139 @@
+import { createAppError } from "@/lib/errors";
+
+/**
+ * Animated WebP from still WebPs the browser encodes. Each frame's image
+ * chunks are lifted out of its RIFF container and wrapped in an ANMF chunk.
+ */
+
+type WebpChunk = {
+  fourcc: string;
+  data: Uint8Array;
+};
+
+/** Chunks that carry a frame's pixels; VP8X and metadata are rebuilt. */
+const IMAGE_CHUNKS = new Set(["ALPH", "VP8 ", "VP8L"]);
+
+const readFourcc = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const readChunks = (bytes: Uint8Array) => {
+  if (readFourcc(bytes, 0) !== "RIFF" || readFourcc(bytes, 8) !== "WEBP") {
+    throw createAppError("webpFrame");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: WebpChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const fourcc = readFourcc(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({
+      fourcc,
+      data: bytes.subarray(offset + 8, offset + 8 + size),
+    });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+/** Bytes of one encoded frame, ready for `createWebpEncoder().addFrame`. */
+export const encodeWebpFrame = async (blob: Blob) => {
+  if (blob.type !== "image/webp") {
+    throw createAppError("webpUnsupported");
+  }
+  const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+  return chunks.filter((chunk) => IMAGE_CHUNKS.has(chunk.fourcc));
+};
+
+export type WebpFrame = {
+  chunks: WebpChunk[];
+  /** Display time in milliseconds. */
+  duration: number;
+};
+
+const uint24 = (value: number) => [
+  value & 0xff,
+  (value >> 8) & 0xff,
+  (value >> 16) & 0xff,
+];
+
+const uint32 = (value: number) => [...uint24(value), (value >>> 24) & 0xff];
+
+const fourccBytes = (fourcc: string) =>
+  Array.from(fourcc, (char) => char.charCodeAt(0));
+
+/** A RIFF chunk with its header and the padding byte odd sizes need. */
+const serializeChunk = (fourcc: string, data: ArrayLike<number>) => {
+  const bytes = new Uint8Array(8 + data.length + (data.length % 2));
+  bytes.set(fourccBytes(fourcc));
+  bytes.set(uint32(data.length), 4);
+  bytes.set(data, 8);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+/** Collects frames of an endlessly looping animated WebP. */
+export const createWebpEncoder = (width: number, height: number) => {
+  const frames: Uint8Array[] = [];
+  let hasAlpha = false;
+
+  const addFrame = ({ chunks, duration }: WebpFrame) => {
+    hasAlpha ||= chunks.some((chunk) => chunk.fourcc === "ALPH");
+    frames.push(
+      serializeChunk(
+        "ANMF",
+        concat([
+          // Offset 0, 0; no blending and no disposal, as frames are opaque.
+          new Uint8Array([
+            0,
+            0,
+            0,
+            0,
+            0,
+            0,
+            ...uint24(width - 1),
+            ...uint24(height - 1),
+            ...uint24(duration),
+            0x02,
+          ]),
+          ...chunks.map((chunk) => serializeChunk(chunk.fourcc, chunk.data)),
+        ]),
+      ),
+    );
+  };
+
+  const finish = () => {
+    const vp8x = serializeChunk("VP8X", [
+      0x02 | (hasAlpha ? 0x10 : 0),
+      0,
+      0,
+      0,
+      ...uint24(width - 1),
+      ...uint24(height - 1),
+    ]);
+    // Transparent black background, loop forever.
+    const anim = serializeChunk("ANIM", [0, 0, 0, 0, 0, 0]);
+    const body = concat([
+      new Uint8Array(fourccBytes("WEBP")),
+      vp8x,
+      anim,
+      ...frames,
+    ]);
+    return concat([
+      new Uint8Array([...fourccBytes("RIFF"), ...uint32(body.length)]),
+      body,
+    ]);
+  };
+
+  return { addFrame, finish };
+};
@@ -0,0 +1,191 @@
+import { createAppError, restoreAppError } from "@/lib/errors";
+import { renderMixedAudio } from "@/lib/export/audio";
+import { createCancelledError, throwIfCancelled } from "@/lib/export/jobs";
+import type {
+  RenderWorkerRequest,
+  RenderWorkerResponse,
+} from "@/lib/export/renderWorker";
+import {
+  ExportControls,
+  ExportRequest,
+  ExportResult,
+} from "@/lib/export/types";
+import { isWebCodecsSupported, toAudioSamples } from "@/lib/export/webcodecs";
+import { collectFontFaces } from "@/lib/render/fonts";
+import { decodeSceneImages } from "@/lib/render/images";
+import { getSequenceDuration, locateInSequence } from "@/lib/sequence";
+import {
+  createOffscreenVideo,
+  ensureMetadata,
+  releaseVideo,
+  seekTo,
+} from "@/lib/video";
+
+/** Frames posted ahead of the encoder; bounds the bitmaps held in memory. */
+const MAX_FRAMES_IN_FLIGHT = 4;
+
+export const isWorkerExportSupported = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  isWebCodecsSupported();
+
+/**
+ * Offline export through the render worker: seeks through the sequence
+ * frame by frame and hands each frame over as a bitmap, so compositing and
+ * encoding never block the page and output does not depend on playback
+ * speed or tab throttling.
+ */
+export const encodeInWorker = async (
+  { clips, audio: audioMix, scene, size, settings, fontFamily }: ExportRequest,
+  { signal, onProgress }: ExportControls = {},
+): Promise<ExportResult> => {
+  const duration = getSequenceDuration(clips);
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw createAppError("videoDuration");
+  }
+  const { frameRate } = settings;
+  const frameCount = Math.max(1, Math.round(duration * frameRate));
+
+  const audioBuffer = await renderMixedAudio(clips, audioMix);
+  throwIfCancelled(signal);
+  const audio = audioBuffer ? toAudioSamples(audioBuffer) : null;
+  const images = await decodeSceneImages(scene, size);
+  throwIfCancelled(signal);
+
+  const worker = new Worker(new URL("./renderWorker.ts", import.meta.url), {
+    type: "module",
+  });
+  const video = createOffscreenVideo();
+
+  let failure: unknown = null;
+  let ready = false;
+  let encoded = 0;
+  let result: Extract<RenderWorkerResponse, { type: "done" }> | null = null;
+  const waiters = new Set<() => void>();
+  const notify = () => {
+    const pending = Array.from(waiters);
+    waiters.clear();
+    pending.forEach((check) => check());
+  };
+  const waitFor = (condition: () => boolean) =>
+    new Promise<void>((resolve, reject) => {
+      const check = () => {
+        if (failure) {
+          reject(failure);
+        } else if (condition()) {
+          resolve();
+        } else {
+          waiters.add(check);
+        }
+      };
+      check();
+    });
+
+  worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+    const message = event.data;
+    switch (message.type) {
+      case "ready":
+        ready = true;
+        break;
+      case "frame":
+        encoded = message.index + 1;
+        // The audio and the container are finished after the last frame.
+        onProgress?.(Math.min(0.99, encoded / frameCount));
+        break;
+      case "done":
+        result = message;
+        break;
+      case "error":
+        failure ??= restoreAppError(
+          message.reason ?? { code: "workerFailed", values: [] },
+        );
+        break;
+    }
+    notify();
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    failure ??= createAppError("workerFailed");
+    notify();
+  };
+  const cancel = () => {
+    failure ??= createCancelledError();
+    notify();
+  };
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  const post = (message: RenderWorkerRequest, transfer: Transferable[] = []) =>
+    worker.postMessage(message, transfer);
+
+  try {
+    throwIfCancelled(signal);
+    post(
+      {
+        type: "start",
+        scene,
+        size,
+        settings,
+        fontFamily,
+        fontFaces: collectFontFaces(fontFamily),
+        images,
+        audio,
+        duration,
+        now: Date.now(),
+      },
+      [
+        ...images.map(({ image }) => image),
+        ...(audio?.channels.map((channel) => channel.buffer) ?? []),
+      ],
+    );
+    await waitFor(() => ready);
+
+    let loadedIndex = -1;
+    for (let index = 0; index < frameCount; index += 1) {
+      await waitFor(() => index - encoded < MAX_FRAMES_IN_FLIGHT);
+
+      const time = index / frameRate;
+      const location = locateInSequence(clips, time);
+      if (!location) {
+        break;
+      }
+      if (location.index !== loadedIndex) {
+        video.src = location.clip.url;
+        await ensureMetadata(video);
+        loadedIndex = location.index;
+      }
+      await seekTo(video, location.localTime);
+      throwIfCancelled(signal);
+
+      const image = await createImageBitmap(video);
+      post(
+        {
+          type: "frame",
+          index,
+          time,
+          source: {
+            image,
+            width: video.videoWidth || image.width,
+            height: video.videoHeight || image.height,
+          },
+        },
+        [image],
+      );
+    }
+
+    post({ type: "finish" });
+    await waitFor(() => result !== null);
+    onProgress?.(1);
+
+    const { buffer, mimeType, extension } = result!;
+    return {
+      blob: new Blob([buffer], { type: mimeType }),
+      mimeType,
+      extension,
+    };
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+    worker.terminate();
+    releaseVideo(video);
+    images.forEach(({ image }) => image.close());
+  }
+};
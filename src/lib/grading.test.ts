@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { isAppError } from "@/lib/errors";
+import { decodeLut, parseCubeLut } from "@/lib/grading";
+
+/** An identity LUT of `size` entries per axis, red changing fastest. */
+const identityCube = (size: number, header = "") => {
+  const rows: string[] = [];
+  for (let blue = 0; blue < size; blue += 1) {
+    for (let green = 0; green < size; green += 1) {
+      for (let red = 0; red < size; red += 1) {
+        rows.push(
+          [red, green, blue].map((value) => value / (size - 1)).join(" "),
+        );
+      }
+    }
+  }
+  return `${header}LUT_3D_SIZE ${size}\n${rows.join("\n")}\n`;
+};
+
+const failsWith = (code: string, values: (string | number)[] = []) =>
+  (error: unknown) =>
+    isAppError(error) &&
+    error.reason.code === code &&
+    error.reason.values.join() === values.join();
+
+describe("parseCubeLut", () => {
+  it("reads a 3D LUT into 8-bit triples", () => {
+    const lut = parseCubeLut(
+      "identity.cube",
+      identityCube(2, '# Made by hand\r\nTITLE "Identity"\r\n'),
+    );
+    assert.equal(lut.name, "identity.cube");
+    assert.equal(lut.size, 2);
+    assert.deepEqual(
+      [...decodeLut(lut)],
+      [
+        0, 0, 0, 255, 0, 0, 0, 255, 0, 255, 255, 0,
+        0, 0, 255, 255, 0, 255, 0, 255, 255, 255, 255, 255,
+      ],
+    );
+  });
+
+  it("clamps values outside 0–1", () => {
+    const text = identityCube(2).replace("0 0 0\n", "-0.5 0.5 1.5\n");
+    const bytes = decodeLut(parseCubeLut("hot.cube", text));
+    assert.deepEqual([...bytes.slice(0, 3)], [0, 128, 255]);
+  });
+
+  it("accepts the default domain", () => {
+    const header = "DOMAIN_MIN 0 0 0\nDOMAIN_MAX 1.0 1.0 1.0\n";
+    assert.equal(parseCubeLut("a.cube", identityCube(3, header)).size, 3);
+  });
+
+  it("rejects 1D LUTs and other domains", () => {
+    assert.throws(
+      () => parseCubeLut("a.cube", "LUT_1D_SIZE 2\n0 0 0\n1 1 1\n"),
+      failsWith("lut1d"),
+    );
+    assert.throws(
+      () => parseCubeLut("a.cube", identityCube(2, "DOMAIN_MAX 4 4 4\n")),
+      failsWith("lutDomain"),
+    );
+  });
+
+  it("rejects a missing or oversized grid", () => {
+    assert.throws(
+      () => parseCubeLut("a.cube", "0 0 0\n"),
+      failsWith("lutSize", [65]),
+    );
+    assert.throws(
+      () => parseCubeLut("a.cube", "LUT_3D_SIZE 66\n"),
+      failsWith("lutSize", [65]),
+    );
+  });
+
+  it("counts the rows of a short or unreadable table", () => {
+    const rows = identityCube(2).trim().split("\n");
+    assert.throws(
+      () => parseCubeLut("a.cube", rows.slice(0, -1).join("\n")),
+      failsWith("lutRows", [8, 7]),
+    );
+    assert.throws(
+      () => parseCubeLut("a.cube", [...rows.slice(0, -1), "1 1 x"].join("\n")),
+      failsWith("lutRows", [8, 8]),
+    );
+  });
+});
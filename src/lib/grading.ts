@@ -0,0 +1,177 @@
+import { createAppError } from "@/lib/errors";
+
+/** A 3D LUT from a `.cube` file. */
+export type ColorLut = {
+  /** File name, shown in the editor. */
+  name: string;
+  /** Entries per axis. */
+  size: number;
+  /** Base64 of 8-bit RGB triples with red changing fastest, as in `.cube`. */
+  data: string;
+};
+
+/**
+ * Adjustments applied to the source frame before the overlay is drawn, so
+ * text and logos keep their brand colors. Sliders run from -1 to 1 with 0
+ * leaving the frame untouched; the vignette runs from 0 to 1.
+ */
+export type ColorGrading = {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  /** Negative cools the frame towards blue, positive warms it towards orange. */
+  temperature: number;
+  vignette: number;
+  lut: ColorLut | null;
+  /** How much of the LUT's look is mixed in, 0–1. */
+  lutStrength: number;
+};
+
+/** The darkening band behind lower-third text. */
+export type OverlayGradient = {
+  enabled: boolean;
+  color: string;
+  /** Share of the frame height it covers, from the bottom up. */
+  height: number;
+  /** Opacity at the bottom edge; it fades out to nothing at the top. */
+  opacity: number;
+};
+
+export const NEUTRAL_GRADING: ColorGrading = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  vignette: 0,
+  lut: null,
+  lutStrength: 1,
+};
+
+export const DEFAULT_GRADIENT: OverlayGradient = {
+  enabled: true,
+  color: "#000000",
+  height: 0.35,
+  opacity: 0.75,
+};
+
+/** Largest `.cube` the editor accepts; 65 is the biggest common size. */
+export const MAX_LUT_SIZE = 65;
+
+/** Where the vignette starts, as a share of the center-to-corner distance. */
+export const VIGNETTE_INNER = 0.35;
+
+/** Luma weights (Rec. 709) that saturation mixes towards. */
+export const LUMA_WEIGHTS: [number, number, number] = [0.2126, 0.7152, 0.0722];
+
+/**
+ * The grading as the per-pixel math uses it, on 0–1 channels: add
+ * `brightness`, scale around mid grey by `contrast`, mix away from luma by
+ * `saturation`, shift red and blue by `temperature`, then the LUT and the
+ * vignette. The WebGL shader, the CPU fallback and the server all follow
+ * these numbers, clamping after every step.
+ */
+export const resolveGradingParams = (grading: ColorGrading) => ({
+  brightness: grading.brightness * 0.5,
+  contrast: 1 + grading.contrast,
+  saturation: 1 + grading.saturation,
+  temperature: grading.temperature * 0.1,
+  vignette: grading.vignette,
+  lutStrength: grading.lut ? grading.lutStrength : 0,
+});
+
+export type GradingParams = ReturnType<typeof resolveGradingParams>;
+
+/** Whether the grading would leave every pixel as it is. */
+export const isNeutralGrading = (grading: ColorGrading) =>
+  grading.brightness === 0 &&
+  grading.contrast === 0 &&
+  grading.saturation === 0 &&
+  grading.temperature === 0 &&
+  grading.vignette === 0 &&
+  (!grading.lut || grading.lutStrength <= 0);
+
+const encodeBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Reads an Adobe/Resolve `.cube` 3D LUT. Values are stored at 8 bits per
+ * channel, which is what the frame itself carries.
+ */
+export const parseCubeLut = (name: string, text: string): ColorLut => {
+  let size = 0;
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === "LUT_3D_SIZE") {
+      size = Number.parseInt(rest[0], 10);
+    } else if (keyword === "LUT_1D_SIZE") {
+      throw createAppError("lut1d");
+    } else if (keyword === "DOMAIN_MIN" || keyword === "DOMAIN_MAX") {
+      const expected = keyword === "DOMAIN_MIN" ? 0 : 1;
+      if (rest.some((value) => Number.parseFloat(value) !== expected)) {
+        throw createAppError("lutDomain");
+      }
+    } else if (/^[-+.\d]/.test(keyword)) {
+      values.push(
+        ...[keyword, ...rest].slice(0, 3).map((value) => Number(value)),
+      );
+    }
+    // TITLE and other keywords carry nothing the renderer needs.
+  }
+
+  if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+    throw createAppError("lutSize", MAX_LUT_SIZE);
+  }
+  if (values.length !== size ** 3 * 3 || values.some(Number.isNaN)) {
+    throw createAppError(
+      "lutRows",
+      size ** 3,
+      Math.floor(values.length / 3),
+    );
+  }
+
+  const bytes = new Uint8Array(values.length);
+  values.forEach((value, index) => {
+    bytes[index] = Math.round(Math.min(1, Math.max(0, value)) * 255);
+  });
+  return { name, size, data: encodeBase64(bytes) };
+};
+
+let decoded: { data: string; bytes: Uint8Array } | null = null;
+
+/** The LUT's RGB bytes; the last one decoded is kept, as frames reuse it. */
+export const decodeLut = (lut: ColorLut) => {
+  if (decoded?.data !== lut.data) {
+    const binary = atob(lut.data);
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index += 1) {
+      bytes[index] = binary.charCodeAt(index);
+    }
+    decoded = { data: lut.data, bytes };
+  }
+  return decoded.bytes;
+};
+
+/** Writes the LUT back out as `.cube` text, for tools that read files. */
+export const formatCubeLut = (lut: ColorLut) => {
+  const bytes = decodeLut(lut);
+  const lines = [`LUT_3D_SIZE ${lut.size}`];
+  for (let offset = 0; offset < bytes.length; offset += 3) {
+    lines.push(
+      Array.from(bytes.subarray(offset, offset + 3), (value) =>
+        (value / 255).toFixed(6),
+      ).join(" "),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+};
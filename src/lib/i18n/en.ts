@@ -0,0 +1,620 @@
+import type { Messages } from "@/lib/i18n/sq";
+
+export const en: Messages = {
+  meta: {
+    title: "Promo Video Studio",
+    description:
+      "Add promotional overlays like BLACK FRIDAY 28 NËNTORI and your own branding to any video.",
+  },
+  common: {
+    color: "Color",
+    size: "Size",
+    weight: "Weight",
+    uppercase: "Uppercase",
+    outlineColor: "Outline color",
+    download: "Download",
+    delete: "Delete",
+    export: "Export",
+    retry: "Retry",
+    cancel: "Cancel",
+    zipping: "Packing...",
+    downloadZip: (count: number) => `Download ZIP (${count})`,
+    renderFailed: "Something went wrong while rendering.",
+    imageUnreadable: "The image could not be read.",
+    zipFailed: "The ZIP archive could not be created.",
+  },
+  locale: {
+    label: "Interface language",
+  },
+  header: {
+    eyebrow: "Promo Video Studio",
+    title: "Add custom text on top of your video",
+    campaign: "Made for “BLACK FRIDAY 28 NËNTORI” campaigns.",
+    tagline: "Edit the text live, then export the video.",
+  },
+  upload: {
+    badge: "Videos",
+    addMore: "Add more clips to the sequence",
+    drop: "Drag and drop your videos",
+    hint: "Supports MP4, MOV, WEBM and MKV up to 250 MB. You can pick several files at once.",
+    chooseVideo: "Choose a video file to edit.",
+    dropVideo: "Drop an MP4, MOV or WEBM video.",
+    unreadable: "The video could not be read.",
+  },
+  project: {
+    title: "Project",
+    status: {
+      idle: "",
+      saving: "Saving...",
+      saved: "Saved in this browser",
+      error: "Saving failed",
+    },
+    undo: "↶ Undo",
+    redo: "↷ Redo",
+    create: "+ New project",
+    recent: "Recent projects",
+    clipCount: (count: number) => (count === 1 ? "1 clip" : `${count} clips`),
+    open: "Open",
+    deleteNamed: (name: string) => `Delete ${name}`,
+    restoreFailed: "The last project could not be restored.",
+    saveFailed: "The project was not saved.",
+    notFound: "The project was not found in this browser.",
+    openFailed: "The project could not be opened.",
+    deleteFailed: "The project could not be deleted.",
+    untitled: "Project without video",
+  },
+  clips: {
+    title: "Clips",
+    description: "Trim the start and end, then put the clips in playing order.",
+    moveEarlier: "Move earlier",
+    moveLater: "Move later",
+    remove: "Remove clip",
+    trimStart: "In",
+    trimEnd: "Out",
+    empty: "No clips yet. Upload one or more videos.",
+    details: "File details",
+    resolution: "Resolution",
+    frameRate: "Frame rate",
+    duration: "Duration",
+    container: "Container",
+    videoCodec: "Video codec",
+    audioCodec: "Audio",
+    hasAudio: "Yes",
+    noAudio: "No audio",
+    fileSize: "Size",
+    bitrate: "Bitrate",
+    unknown: "—",
+  },
+  audio: {
+    title: "Audio",
+    description:
+      "Mix the original sound with background music. The mix goes straight into the exported file.",
+    source: "Original sound",
+    silent: "Muted",
+    sourceVolume: "Original sound volume",
+    mute: "Mute",
+    unmute: "Unmute",
+    music: "Music",
+    replaceMusic: "Replace",
+    addMusic: "+ Add music",
+    removeMusic: "Remove music",
+    volume: "Volume",
+    offset: "Starts at (s)",
+    fadeIn: "Fade in (s)",
+    fadeOut: "Fade out (s)",
+    ducking: "Lower the music under speech",
+    duckingHint:
+      "The music dips automatically under the original sound. Heard in the exported video.",
+    duckLevel: "Duck level",
+    unreadable: "The audio file could not be read.",
+  },
+  templates: {
+    title: "Templates",
+    description:
+      "Click a template to replace the layout, colors and animations. Captions, languages and the watermark stay as they are.",
+    builtIn: "Built in",
+    saved: "Saved",
+    empty: "You have not saved any templates yet.",
+    apply: "Apply template",
+    name: "Template name",
+    untitled: "Template",
+    save: "Save design",
+    importJson: "Import JSON",
+    exportAll: "Export all",
+    saveFailed: "The templates were not saved.",
+    importFailed: "The templates could not be imported.",
+    builtInNames: {
+      "builtin:black-friday": "Black Friday",
+      "builtin:new-arrival": "New arrival",
+      "builtin:flash-sale": "Flash sale",
+      "builtin:holiday": "Holidays",
+    },
+  },
+  brand: {
+    title: "Brand kit",
+    description:
+      "Brand colors, fonts, logos and text styles, saved in this browser and offered first in every picker.",
+    import: "Import JSON",
+    fileName: "brand-kit",
+    saveFailed: "The brand kit was not saved.",
+    importFailed: "The file could not be added to the brand kit.",
+    name: "Name",
+    remove: (name: string) => `Remove ${name}`,
+    colors: "Brand colors",
+    addColor: "+ Color",
+    colorName: (index: number) => `Color ${index}`,
+    useColor: (name: string) => `Use ${name}`,
+    noColors: "No colors yet. Add the brand's colors to have them at hand.",
+    fonts: "Brand fonts",
+    addFont: "+ Font",
+    noFonts: "No fonts yet.",
+    logos: "Brand logos",
+    addLogo: "+ Logo",
+    addLogoLayer: (name: string) => `Add ${name} as a layer`,
+    noLogos: "No logos yet.",
+    textStyles: "Brand styles",
+    applyStyle: "Apply a style…",
+    saveStyle: "Save style to kit",
+    styleName: (index: number) => `Style ${index}`,
+    noTextStyles: "No styles yet. Save a text's style from the layers panel.",
+  },
+  layers: {
+    title: "Layers",
+    description: "Build the promo from headlines, text lines and your logo.",
+    addText: "+ Add text",
+    addCountdown: "+ Countdown",
+    addImage: "+ Add image",
+    textName: (index: number) => `Text ${index}`,
+    countdownName: (index: number) => `Countdown ${index}`,
+    newText: "New text",
+    copyName: (name: string) => `${name} (copy)`,
+    image: "Image",
+    watermark: "Watermark",
+    countdownUntil: (target: string) => `Countdown to ${target}`,
+    emptyText: "(empty)",
+    moveForward: "Bring forward",
+    moveBackward: "Send backward",
+    duplicate: "Duplicate layer",
+    remove: "Delete layer",
+    empty: "No layers yet. Add a text or an image to start.",
+    name: "Layer name",
+    text: "Text",
+    box: {
+      x: "X %",
+      y: "Y %",
+      width: "Width %",
+      height: "Height %",
+    },
+    rotation: "Rotation °",
+    watermarkTiming: "The watermark has no entrance or exit timing.",
+    accentColor: "Accent color",
+    accentHint: "Used by layers with “Accent color” turned on.",
+    translation: (language: string) => `Text · ${language}`,
+    translationPlaceholder: "Empty: the main text is used",
+  },
+  contrast: {
+    badge: (ratio: string) => `⚠ ${ratio}:1`,
+    low: (ratio: string, required: string, time: string) =>
+      `Low contrast: ${ratio}:1 at ${time}, below the ${required}:1 minimum.`,
+    ok: (ratio: string) => `Contrast with the video: ${ratio}:1.`,
+    hint: "Add a background or outline, or pick a darker or lighter color.",
+  },
+  countdown: {
+    title: "Countdown",
+    backToText: "Turn back into text",
+    target: "Date and time",
+    timeZone: "Time zone",
+    format: "Format",
+    formats: {
+      units: "3 ditë 14 orë 05 min 09 sek",
+      clock: "03:14:05:09",
+      days: "3 ditë të mbetura",
+    },
+    mode: "Mode",
+    modes: {
+      ticking: "Counts down during the video",
+      static: "Frozen at render time",
+    },
+    endedText: "Text once it ends",
+    wording: (language: string) => `Wording · ${language}`,
+    labels: {
+      days: "Days",
+      hours: "Hours",
+      minutes: "Minutes",
+      seconds: "Seconds",
+      dayLeft: "One day left",
+      daysLeft: "Several days left",
+    },
+    now: (text: string) => `Now: ${text}`,
+    invalid: "Pick a valid date.",
+  },
+  textStyle: {
+    font: "Font",
+    defaultFont: "Geist (default)",
+    systemFonts: "System fonts",
+    uploadedFonts: "Uploaded fonts",
+    uploadFont: "+ Upload font",
+    uploadedFamily: "Uploaded font",
+    align: "Alignment",
+    aligns: {
+      left: "Left",
+      center: "Center",
+      right: "Right",
+    },
+    letterSpacing: (value: string) => `Spacing ${value} em`,
+    lineHeight: (value: string) => `Line ${value}×`,
+    verticalAlign: "Anchor",
+    verticalAligns: {
+      top: "Top",
+      middle: "Middle",
+      bottom: "Bottom (grows up)",
+    },
+    maxLines: "Max. lines",
+    noLimit: "No limit",
+    autoFit: "Shrink to fit",
+    textColor: "Text color",
+    accent: "Accent color",
+    stroke: (value: string) => `Outline ${value} em`,
+    shadow: "Shadow",
+    shadowColor: "Shadow color",
+    background: "Background",
+    backgroundColor: "Background color",
+    backgroundFit: "Coverage",
+    backgroundFits: {
+      box: "Whole box",
+      text: "Around the text",
+    },
+    padding: (value: string) => `Padding ${value} em`,
+    radius: (value: string) => `Corners ${value} em`,
+    opacity: (label: string) => `${label}: opacity`,
+  },
+  image: {
+    scale: (percent: number) => `Scale ${percent}%`,
+    opacity: (percent: number) => `Opacity ${percent}%`,
+    blendMode: "Blending",
+    blendModes: {
+      normal: "Normal",
+      multiply: "Multiply",
+      screen: "Screen",
+      overlay: "Overlay",
+      "soft-light": "Soft light",
+      darken: "Darken",
+      lighten: "Lighten",
+    },
+    placement: "Placement",
+    placements: {
+      "top-left": "↖ Top left",
+      "top-right": "↗ Top right",
+      center: "• Center",
+      "bottom-left": "↙ Bottom left",
+      "bottom-right": "↘ Bottom right",
+    },
+    watermark: "Persistent watermark",
+    watermarkHint:
+      "Shown for the whole video, above the other layers, and added to every new project.",
+  },
+  timing: {
+    start: "Appears at (s)",
+    end: "Hides at (s)",
+    untilEnd: "Until the end",
+    enter: "Entrance",
+    exit: "Exit",
+    kinds: {
+      none: "None",
+      fade: "Fade",
+      slide: "Slide",
+      scale: "Zoom",
+      typewriter: "Typewriter",
+    },
+    easings: {
+      linear: "Linear",
+      easeIn: "Ease in",
+      easeOut: "Ease out",
+      easeInOut: "Ease in and out",
+      back: "Bounce",
+    },
+    directions: {
+      left: "Left",
+      right: "Right",
+      top: "Top",
+      bottom: "Bottom",
+    },
+    kind: (title: string) => `${title}: type`,
+    duration: (title: string) => `${title}: duration in seconds`,
+    easing: (title: string) => `${title}: easing`,
+    direction: (title: string) => `${title}: direction`,
+  },
+  captions: {
+    title: "Captions",
+    description:
+      "Import SRT or VTT, fix the cues and burn them into the video for silent viewing.",
+    show: "Show",
+    import: "Import SRT/VTT",
+    addAtPlayhead: "+ Cue here",
+    downloadSrt: "Download SRT",
+    downloadVtt: "Download VTT",
+    fileName: "captions",
+    newCue: "New cue",
+    cueStart: "Cue start in seconds",
+    cueEnd: "Cue end in seconds",
+    seekToCue: "Go to cue",
+    deleteCue: "Delete cue",
+    empty: "No captions yet. Import a file or add cues.",
+    position: "Position",
+    positions: {
+      bottom: "Bottom",
+      middle: "Middle",
+      top: "Top",
+    },
+    margin: (percent: number) => `Distance from the edge ${percent}%`,
+    captionColor: "Caption color",
+    box: "Box",
+    outline: "Outline",
+    unreadable: "The caption file could not be read.",
+  },
+  reframe: {
+    title: "Output format",
+    description: "Reframe the same video for Reels, Stories and Feed.",
+    aspects: {
+      source: { label: "Original", hint: "Same as the source video" },
+      "9:16": { label: "9:16", hint: "Reels, Stories, TikTok" },
+      "1:1": { label: "1:1", hint: "Square feed" },
+      "4:5": { label: "4:5", hint: "Portrait feed" },
+      "16:9": { label: "16:9", hint: "YouTube, Facebook" },
+    },
+    modes: {
+      crop: "Crop and pan",
+      fit: "Fit on a blurred background",
+    },
+    zoom: "Zoom",
+    blur: "Background blur",
+    panX: "Horizontal pan",
+    panY: "Vertical pan",
+    keyframes: "Pan keyframes",
+    addKeyframe: (time: string) => `+ Keyframe at ${time}`,
+    deleteKeyframe: "Delete keyframe",
+    noKeyframes:
+      "Without keyframes the crop stays in the same place for the whole video.",
+  },
+  color: {
+    title: "Color",
+    description:
+      "Adjust the look of the video; text and logos keep their brand colors.",
+    reset: "Reset",
+    sliders: {
+      brightness: "Brightness",
+      contrast: "Contrast",
+      saturation: "Saturation",
+      temperature: "Temperature",
+    },
+    vignette: "Vignette",
+    lut: "LUT (.cube)",
+    importLut: "Import LUT",
+    replaceLut: "Replace LUT",
+    removeLut: "Remove LUT",
+    noLut: "No LUT",
+    lutStrength: "LUT strength",
+    lutUnreadable: "The LUT could not be read.",
+    gradient: "Bottom gradient",
+    showGradient: "Show",
+    gradientHeight: "Height",
+    gradientOpacity: "Opacity",
+  },
+  export: {
+    title: "Export",
+    unsupported: "Not supported by this browser",
+    resolution: "Resolution",
+    resolutions: {
+      source: "Same as source",
+      "1080p": "1080p",
+      "720p": "720p",
+    },
+    frameRate: "Frame rate",
+    quality: "Quality",
+    qualities: {
+      low: "Low",
+      medium: "Medium",
+      high: "High",
+      custom: "Manual bitrate",
+    },
+    bitrate: "Bitrate (Mbps)",
+    fast: " · fast export (WebCodecs)",
+    realtime: " · real-time export (MediaRecorder)",
+    exporting: "Exporting...",
+    start: "Export the video with text",
+    downloadSpec: "Download the spec for the server",
+    specFileName: "render-spec.json",
+    downloadVideo: "Download the edited video",
+    jobLabel: "Video",
+    elapsed: (time: string) => `${time} elapsed`,
+    remaining: (time: string) => `about ${time} left`,
+    estimating: "estimating...",
+  },
+  stills: {
+    title: "Stills and loops",
+    description:
+      "Save the current frame as an image or turn a few seconds into a looping GIF or WebP.",
+    grabTitle: "Current frame",
+    grab: (format: string) => `Save ${format}`,
+    grabbing: "Saving...",
+    grabbedAt: (time: string) => `Frame at ${time}`,
+    loopTitle: "Looping animation",
+    format: "Format",
+    start: "Start (s)",
+    useCurrent: "From the playhead",
+    duration: "Length (s)",
+    frameRate: "Frames per second",
+    width: "Width",
+    colors: "Colors",
+    palette: "Palette",
+    palettes: {
+      global: "One for all frames",
+      frame: "Per frame",
+    },
+    dither: "Dithering",
+    quality: "Quality",
+    exportLoop: (format: string) => `Export ${format}`,
+    exportingLoop: "Exporting...",
+    downloadLoop: (format: string) => `Download ${format}`,
+    jobLabel: (format: string) => `${format} animation`,
+    summary: (width: number, height: number, frames: number) =>
+      `${width}×${height} · ${frames} frames`,
+  },
+  languages: {
+    title: "Text languages",
+    description:
+      "Write the layer texts in several languages and export one video for each with a single click.",
+    primary: "Main",
+    remove: (label: string) => `Remove ${label}`,
+    add: "+ Add",
+    choose: "Pick a language",
+    custom: "Other...",
+    code: "Code",
+    label: "Name",
+    duplicateCode: (code: string) => `The language "${code}" is already added.`,
+    exportAll: (count: number) =>
+      count === 1 ? "Export 1 language" : `Export ${count} languages`,
+    exporting: (current: number, total: number) =>
+      `Exporting ${current}/${total}...`,
+    jobLabel: (label: string) => `Video · ${label}`,
+    zipName: "languages",
+  },
+  batch: {
+    title: "Variants from a table",
+    description:
+      "Upload a CSV or paste a table: every row becomes a video with its own texts, color and image.",
+    loadCsv: "Upload CSV",
+    images: "Variant images",
+    imagesLoaded: (count: number) =>
+      count === 1 ? "1 image uploaded" : `${count} images uploaded`,
+    readTable: "Read table",
+    tablePlaceholder:
+      "Headline\tColor\tName\nBLACK FRIDAY TIRANA\t#facc15\ttirana",
+    columns: "Columns",
+    column: (index: number) => `Column ${index}`,
+    targets: {
+      ignore: "Don't use",
+      text: (name: string) => `Text: ${name}`,
+      image: (name: string) => `Image: ${name}`,
+      accent: "Accent color",
+      fileName: "File name",
+    },
+    status: {
+      pending: "Waiting",
+      rendering: "Exporting...",
+      done: "Done",
+      error: "Failed",
+    },
+    exportAll: (count: number) =>
+      count === 1 ? "Export 1 variant" : `Export ${count} variants`,
+    exporting: (current: number, total: number) =>
+      `Exporting ${current}/${total}...`,
+    retryFailed: (count: number) => `Retry failed (${count})`,
+    tableUnreadable: "The table could not be read.",
+    zipName: "variants",
+  },
+  timeline: {
+    label: "Timeline",
+    previousFrame: "Previous frame",
+    nextFrame: "Next frame",
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    fit: "Fit",
+    video: "Video",
+    bar: (name: string, start: string, end: string) =>
+      `${name}: ${start}–${end}`,
+    watermark: "The watermark shows for the whole video.",
+    hint: "← → step one frame (Shift: 1 s), space plays or pauses, + − zoom. Drag a bar or its edges to set when the layer shows.",
+  },
+  preview: {
+    title: "Preview",
+    rewind: "Back to start",
+    safeAreas: "Safe areas",
+    empty: "Upload a video to see it here.",
+    play: "Play",
+    pause: "Pause",
+    rotate: "Rotate layer",
+    exportNote: {
+      before: "Exports render frame by frame in the background with",
+      between:
+        "in a Web Worker, so you can keep editing. Browsers without WebCodecs fall back to",
+      after: "and play the video through once.",
+    },
+  },
+  errors: {
+    videoRequired: "Upload a video before exporting.",
+    exportBusy: "Another export is already running.",
+    videoMetadata: "The video's metadata could not be read.",
+    videoSeek: "The video could not be seeked to this point.",
+    videoDuration: "The video's duration could not be read.",
+    imageUnreadable: "The image could not be read.",
+    imageType: "Choose a PNG, SVG or JPEG image.",
+    fontType: "Choose a TTF, OTF, WOFF or WOFF2 font.",
+    fontUnreadable: "The font could not be read.",
+    fontDamaged: "The font could not be read: the file looks damaged.",
+    audioType: "Choose an audio file (MP3, M4A, WAV or OGG).",
+    audioUnreadable: "The audio file could not be read.",
+    captionsEmpty: "The subtitle file has no readable cues.",
+    lut1d: "1D LUTs are not supported; use a 3D .cube LUT.",
+    lutDomain: "The LUT uses a DOMAIN outside 0–1, which is not supported.",
+    lutSize: (max: number) =>
+      `The file is not a valid 3D .cube LUT (size 2–${max}).`,
+    lutRows: (expected: number, actual: number) =>
+      `The LUT should have ${expected} color rows, but it has ${actual}.`,
+    sceneInvalid: "The file does not contain a valid design.",
+    specNotJson: "The render spec is not valid JSON.",
+    languageMissing: (code: string, available: string) =>
+      `The design has no "${code}" language. Its languages: ${available}.`,
+    templatesFull: "The templates were not saved: browser storage is full.",
+    templatesNotJson: "The templates file is not valid JSON.",
+    templatesWrongFile: "This file is not a templates export.",
+    templatesEmpty: "The file contains no readable templates.",
+    brandKitFull:
+      "The brand kit was not saved: its fonts and logos are too large for the browser.",
+    brandKitNotJson: "The brand kit file is not valid JSON.",
+    brandKitWrongFile: "This file is not a brand kit export.",
+    watermarkFull:
+      "The watermark was not saved: the image is too large for the browser.",
+    projectsUnavailable: "Local project storage is not available.",
+    projectsFull:
+      "The project was not saved: browser storage is full. Delete old projects.",
+    projectSaveFailed: "The project was not saved in the browser.",
+    tableNoHeader: "The table needs a row with the column names.",
+    tableNoRows: "The table has no data rows.",
+    rowColor: (value: string) =>
+      `The color "${value}" is not a valid code like #ff0055 or rgb(255, 0, 85).`,
+    rowImage: (name: string) => `The image "${name}" has not been uploaded.`,
+    zipFailed: "The ZIP archive could not be created.",
+    canvasUnsupported: "This browser does not support Canvas 2D.",
+    offscreenCanvasUnsupported:
+      "This browser does not support OffscreenCanvas 2D.",
+    frameEncodeFailed: "The frame could not be encoded as an image.",
+    recorderUnsupported: (format: string) =>
+      `This browser cannot record ${format}.`,
+    encoderUnsupported: (format: string, width: number, height: number) =>
+      `This browser cannot encode ${format} at ${width}×${height}.`,
+    workerNotStarted: "The background render has not started.",
+    workerFailed: "The background render failed.",
+    gifPalette: "The GIF frame has no color palette.",
+    webpFrame: "The browser could not encode the frame as WebP.",
+    webpUnsupported: "This browser cannot encode WebP. Try GIF.",
+    sourceTooLarge: (name: string, size: string, limit: string) =>
+      `“${name}” is ${size}, over the ${limit} limit. Trim or compress it before uploading.`,
+    sourceHevc: (name: string) =>
+      `“${name}” is HEVC (H.265), the iPhone's default format, and this browser cannot decode it. Open the editor in Safari or Edge, or convert the video to MP4 H.264. On iPhone: Settings → Camera → Formats → “Most Compatible”.`,
+    sourceProres: (name: string, codec: string) =>
+      `“${name}” is ${codec}, which browsers do not play. Export it as MP4 H.264 before uploading.`,
+    sourceAv1: (name: string) =>
+      `“${name}” is AV1, which this browser cannot decode. Update the browser or convert the video to MP4 H.264.`,
+    sourceDamaged: (name: string, codec: string) =>
+      `“${name}” is ${codec}, but the browser could not open it. The file may be damaged or use an unsupported profile (such as 10-bit); re-encode it as 8-bit MP4 H.264.`,
+    sourceCodec: (name: string, codec: string) =>
+      `“${name}” uses the ${codec} codec, which this browser cannot decode. Convert it to MP4 H.264 or WEBM VP9.`,
+    sourceAudioOnly: (name: string) =>
+      `“${name}” has only audio, no video track.`,
+    sourceDuration: (name: string) =>
+      `The length of “${name}” cannot be read, even after reading the video to its end. Re-encode it as MP4 H.264 (for example with HandBrake) and upload it again.`,
+    sourceUnreadable: (name: string) =>
+      `“${name}” cannot be read as a video. The file may be damaged or in a format the browser does not know; try MP4 H.264.`,
+  },
+};
@@ -0,0 +1,46 @@
+import { en } from "@/lib/i18n/en";
+import { Messages, sq } from "@/lib/i18n/sq";
+
+export type Locale = "sq" | "en";
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: "sq", label: "Shqip" },
+  { value: "en", label: "English" },
+];
+
+export const DEFAULT_LOCALE: Locale = "sq";
+
+/** Read by the root layout, so the first paint is already in the right language. */
+export const LOCALE_COOKIE = "promo-studio-locale";
+
+const MESSAGES: Record<Locale, Messages> = { sq, en };
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some((locale) => locale.value === value);
+
+export const getMessages = (locale: Locale) => MESSAGES[locale];
+
+/**
+ * The saved choice, else the first supported language of the browser's
+ * `Accept-Language`, else Albanian.
+ */
+export const negotiateLocale = (
+  saved: string | undefined,
+  acceptLanguage: string | null,
+): Locale => {
+  if (isLocale(saved)) {
+    return saved;
+  }
+  const preferred = (acceptLanguage ?? "")
+    .split(",")
+    .map((entry) => entry.split(";")[0].trim().toLowerCase().split("-")[0])
+    .find(isLocale);
+  return preferred ?? DEFAULT_LOCALE;
+};
+
+/** Dates and times in the interface, e.g. the recent projects list. */
+export const formatDateTime = (locale: Locale, timestamp: number) =>
+  new Date(timestamp).toLocaleString(locale === "sq" ? "sq-AL" : "en-GB", {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
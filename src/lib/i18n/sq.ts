@@ -0,0 +1,623 @@
+/**
+ * Albanian UI strings. This catalog defines the shape every other locale
+ * follows; strings that take values are functions.
+ */
+export const sq = {
+  meta: {
+    title: "Studio Promo Video",
+    description:
+      "Shtoni mbishkrime promocionale si BLACK FRIDAY 28 NËNTORI dhe markën tuaj mbi çdo video.",
+  },
+  common: {
+    color: "Ngjyra",
+    size: "Madhësia",
+    weight: "Trashësia",
+    uppercase: "Shkronja të mëdha",
+    outlineColor: "Ngjyra e konturit",
+    download: "Shkarko",
+    delete: "Fshi",
+    export: "Eksporto",
+    retry: "Riprovo",
+    cancel: "Anulo",
+    zipping: "Duke paketuar...",
+    downloadZip: (count: number) => `Shkarko ZIP (${count})`,
+    renderFailed: "Diçka shkoi keq gjatë transformimit.",
+    imageUnreadable: "Imazhi nuk mund të lexohet.",
+    zipFailed: "Arkivi ZIP nuk mund të krijohet.",
+  },
+  locale: {
+    label: "Gjuha e ndërfaqes",
+  },
+  header: {
+    eyebrow: "Studio Promo Video",
+    title: "Shtoni tekst të personalizuar mbi videon tuaj",
+    campaign: "Ideal për fushata “BLACK FRIDAY 28 NËNTORI”.",
+    tagline: "Përditëson tekstin në kohë reale dhe eksportoni videon.",
+  },
+  upload: {
+    badge: "Videot",
+    addMore: "Shtoni klipe të tjera në sekuencë",
+    drop: "Tërhiqni dhe lëshoni videot tuaja",
+    hint: "Mbështet MP4, MOV, WEBM, MKV deri në 250 MB. Mund të zgjidhni disa skedarë njëherësh.",
+    chooseVideo: "Zgjidhni një skedar video për transformim.",
+    dropVideo: "Vendosni një video MP4, MOV ose WEBM.",
+    unreadable: "Videoja nuk mund të lexohet.",
+  },
+  project: {
+    title: "Projekti",
+    status: {
+      idle: "",
+      saving: "Duke ruajtur...",
+      saved: "Ruajtur në shfletues",
+      error: "Ruajtja dështoi",
+    },
+    undo: "↶ Zhbëj",
+    redo: "↷ Ribëj",
+    create: "+ Projekt i ri",
+    recent: "Projektet e fundit",
+    clipCount: (count: number) => `${count} klipe`,
+    open: "Hap",
+    deleteNamed: (name: string) => `Fshi ${name}`,
+    restoreFailed: "Projekti i fundit nuk mund të rikthehet.",
+    saveFailed: "Projekti nuk u ruajt.",
+    notFound: "Projekti nuk u gjet në shfletues.",
+    openFailed: "Projekti nuk mund të hapet.",
+    deleteFailed: "Projekti nuk mund të fshihet.",
+    untitled: "Projekt pa video",
+  },
+  clips: {
+    title: "Klipet",
+    description:
+      "Shkurtoni fillimin dhe fundin, pastaj renditini sipas radhës së luajtjes.",
+    moveEarlier: "Lëvize më herët",
+    moveLater: "Lëvize më vonë",
+    remove: "Hiq klipin",
+    trimStart: "Hyrja",
+    trimEnd: "Dalja",
+    empty: "Nuk ka klipe. Ngarkoni një ose më shumë video.",
+    details: "Të dhënat e skedarit",
+    resolution: "Rezolucioni",
+    frameRate: "Kuadro/sek.",
+    duration: "Kohëzgjatja",
+    container: "Formati",
+    videoCodec: "Kodeku video",
+    audioCodec: "Audio",
+    hasAudio: "Po",
+    noAudio: "Pa zë",
+    fileSize: "Madhësia",
+    bitrate: "Bitrate",
+    unknown: "—",
+  },
+  audio: {
+    title: "Audio",
+    description:
+      "Përzieni zërin origjinal me muzikë sfondi. Përzierja shkon direkt në skedarin e eksportuar.",
+    source: "Zëri origjinal",
+    silent: "Pa zë",
+    sourceVolume: "Volumi i zërit origjinal",
+    mute: "Hiq zërin",
+    unmute: "Rikthe zërin",
+    music: "Muzika",
+    replaceMusic: "Ndrysho",
+    addMusic: "+ Shto muzikë",
+    removeMusic: "Hiq muzikën",
+    volume: "Volumi",
+    offset: "Fillon në (s)",
+    fadeIn: "Hyrje e butë (s)",
+    fadeOut: "Dalje e butë (s)",
+    ducking: "Ul muzikën kur flitet",
+    duckingHint:
+      "Muzika ulet automatikisht nën zërin origjinal. Dëgjohet në videon e eksportuar.",
+    duckLevel: "Niveli i uljes",
+    unreadable: "Skedari audio nuk mund të lexohet.",
+  },
+  templates: {
+    title: "Shabllonet",
+    description:
+      "Klikoni një shabllon për të zëvendësuar paraqitjen, ngjyrat dhe animacionet. Titrat, gjuhët dhe watermark-u mbeten siç janë.",
+    builtIn: "Të gatshme",
+    saved: "Të ruajtura",
+    empty: "Ende nuk keni ruajtur asnjë shabllon.",
+    apply: "Apliko shabllonin",
+    name: "Emri i shabllonit",
+    untitled: "Shabllon",
+    save: "Ruaj dizajnin",
+    importJson: "Importo JSON",
+    exportAll: "Eksporto të gjitha",
+    saveFailed: "Shabllonet nuk u ruajtën.",
+    importFailed: "Shabllonet nuk mund të importohen.",
+    builtInNames: {
+      "builtin:black-friday": "Black Friday",
+      "builtin:new-arrival": "Ardhje e re",
+      "builtin:flash-sale": "Ofertë flash",
+      "builtin:holiday": "Festat",
+    } as Record<string, string>,
+  },
+  brand: {
+    title: "Kiti i markës",
+    description:
+      "Ngjyrat, fontet, logot dhe stilet e tekstit të markës, të ruajtura në këtë shfletues dhe të ofruara të parat në çdo zgjedhës.",
+    import: "Importo JSON",
+    fileName: "kiti-i-markes",
+    saveFailed: "Kiti i markës nuk u ruajt.",
+    importFailed: "Skedari nuk mund të shtohet në kitin e markës.",
+    name: "Emri",
+    remove: (name: string) => `Hiq ${name}`,
+    colors: "Ngjyrat e markës",
+    addColor: "+ Ngjyrë",
+    colorName: (index: number) => `Ngjyra ${index}`,
+    useColor: (name: string) => `Përdor ${name}`,
+    noColors: "Ende pa ngjyra. Shtoni ngjyrat e markës për t’i pasur gati.",
+    fonts: "Fontet e markës",
+    addFont: "+ Font",
+    noFonts: "Ende pa fonte.",
+    logos: "Logot e markës",
+    addLogo: "+ Logo",
+    addLogoLayer: (name: string) => `Shto ${name} si shtresë`,
+    noLogos: "Ende pa logo.",
+    textStyles: "Stilet e markës",
+    applyStyle: "Apliko një stil…",
+    saveStyle: "Ruaj stilin në kit",
+    styleName: (index: number) => `Stili ${index}`,
+    noTextStyles:
+      "Ende pa stile. Ruani stilin e një teksti nga paneli i shtresave.",
+  },
+  layers: {
+    title: "Shtresat",
+    description: "Ndërtoni promon me tituj, rreshta dhe logon e dyqanit.",
+    addText: "+ Shto tekst",
+    addCountdown: "+ Numërim",
+    addImage: "+ Shto imazh",
+    textName: (index: number) => `Tekst ${index}`,
+    countdownName: (index: number) => `Numërim ${index}`,
+    newText: "Tekst i ri",
+    copyName: (name: string) => `${name} (kopje)`,
+    image: "Imazh",
+    watermark: "Filigran",
+    countdownUntil: (target: string) => `Numërim deri më ${target}`,
+    emptyText: "(bosh)",
+    moveForward: "Lëvize përpara",
+    moveBackward: "Lëvize prapa",
+    duplicate: "Dyfisho shtresën",
+    remove: "Fshi shtresën",
+    empty: "Nuk ka shtresa. Shtoni një tekst ose imazh për të filluar.",
+    name: "Emri i shtresës",
+    text: "Teksti",
+    box: {
+      x: "X %",
+      y: "Y %",
+      width: "Gjerësia %",
+      height: "Lartësia %",
+    },
+    rotation: "Rrotullimi °",
+    watermarkTiming: "Filigrani nuk ka kohë hyrjeje apo daljeje.",
+    accentColor: "Ngjyra e theksit",
+    accentHint: "Përdoret nga shtresat me “Ngjyra e theksit” të aktivizuar.",
+    translation: (language: string) => `Teksti · ${language}`,
+    translationPlaceholder: "Bosh: përdoret teksti kryesor",
+  },
+  contrast: {
+    badge: (ratio: string) => `⚠ ${ratio}:1`,
+    low: (ratio: string, required: string, time: string) =>
+      `Kontrast i ulët: ${ratio}:1 në ${time}, nën minimumin ${required}:1.`,
+    ok: (ratio: string) => `Kontrasti me videon: ${ratio}:1.`,
+    hint: "Shtoni një sfond ose kontur, ose zgjidhni një ngjyrë më të errët a më të çelët.",
+  },
+  countdown: {
+    title: "Numërim mbrapsht",
+    backToText: "Ktheje në tekst",
+    target: "Data dhe ora",
+    timeZone: "Zona kohore",
+    format: "Formati",
+    formats: {
+      units: "3 ditë 14 orë 05 min 09 sek",
+      clock: "03:14:05:09",
+      days: "3 ditë të mbetura",
+    },
+    mode: "Lloji",
+    modes: {
+      ticking: "Numëron gjatë videos",
+      static: "E ngrirë në kohën e renderimit",
+    },
+    endedText: "Teksti pas përfundimit",
+    wording: (language: string) => `Fjalët · ${language}`,
+    labels: {
+      days: "Ditë",
+      hours: "Orë",
+      minutes: "Minuta",
+      seconds: "Sekonda",
+      dayLeft: "1 ditë e mbetur",
+      daysLeft: "Disa ditë të mbetura",
+    },
+    now: (text: string) => `Tani: ${text}`,
+    invalid: "Zgjidhni një datë të vlefshme.",
+  },
+  textStyle: {
+    font: "Fonti",
+    defaultFont: "Geist (parazgjedhur)",
+    systemFonts: "Fontet e sistemit",
+    uploadedFonts: "Fontet e ngarkuara",
+    uploadFont: "+ Ngarko font",
+    uploadedFamily: "Font i ngarkuar",
+    align: "Rreshtimi",
+    aligns: {
+      left: "Majtas",
+      center: "Qendër",
+      right: "Djathtas",
+    },
+    letterSpacing: (value: string) => `Hapësira ${value} em`,
+    lineHeight: (value: string) => `Rreshti ${value}×`,
+    verticalAlign: "Ankorimi",
+    verticalAligns: {
+      top: "Lart",
+      middle: "Mes",
+      bottom: "Poshtë (rritet lart)",
+    },
+    maxLines: "Maks. rreshta",
+    noLimit: "Pa kufi",
+    autoFit: "Zvogëlo për të nxënë",
+    textColor: "Ngjyra e tekstit",
+    accent: "Ngjyra e theksit",
+    stroke: (value: string) => `Kontur ${value} em`,
+    shadow: "Hije",
+    shadowColor: "Ngjyra e hijes",
+    background: "Sfond",
+    backgroundColor: "Ngjyra e sfondit",
+    backgroundFit: "Mbulimi",
+    backgroundFits: {
+      box: "Gjithë kutia",
+      text: "Rreth tekstit",
+    },
+    padding: (value: string) => `Mbushja ${value} em`,
+    radius: (value: string) => `Qoshet ${value} em`,
+    opacity: (label: string) => `${label}: opaciteti`,
+  },
+  image: {
+    scale: (percent: number) => `Shkalla ${percent}%`,
+    opacity: (percent: number) => `Opaciteti ${percent}%`,
+    blendMode: "Përzierja",
+    blendModes: {
+      normal: "Normale",
+      multiply: "Shumëzim",
+      screen: "Ekran",
+      overlay: "Mbivendosje",
+      "soft-light": "Dritë e butë",
+      darken: "Errësim",
+      lighten: "Ndriçim",
+    },
+    placement: "Vendosja",
+    placements: {
+      "top-left": "↖ Lart majtas",
+      "top-right": "↗ Lart djathtas",
+      center: "• Qendër",
+      "bottom-left": "↙ Poshtë majtas",
+      "bottom-right": "↘ Poshtë djathtas",
+    },
+    watermark: "Filigran i përhershëm",
+    watermarkHint:
+      "Shfaqet gjatë gjithë videos, mbi shtresat e tjera, dhe shtohet vetë në çdo projekt të ri.",
+  },
+  timing: {
+    start: "Shfaqet në (s)",
+    end: "Fshihet në (s)",
+    untilEnd: "Deri në fund",
+    enter: "Hyrja",
+    exit: "Dalja",
+    kinds: {
+      none: "Asnjë",
+      fade: "Zbehje",
+      slide: "Rrëshqitje",
+      scale: "Zmadhim",
+      typewriter: "Makinë shkrimi",
+    },
+    easings: {
+      linear: "Lineare",
+      easeIn: "Ngadalë në fillim",
+      easeOut: "Ngadalë në fund",
+      easeInOut: "Ngadalë në të dyja",
+      back: "Kërcim",
+    },
+    directions: {
+      left: "Majtas",
+      right: "Djathtas",
+      top: "Sipër",
+      bottom: "Poshtë",
+    },
+    kind: (title: string) => `${title}: lloji`,
+    duration: (title: string) => `${title}: kohëzgjatja në sekonda`,
+    easing: (title: string) => `${title}: lehtësimi`,
+    direction: (title: string) => `${title}: drejtimi`,
+  },
+  captions: {
+    title: "Titrat",
+    description:
+      "Importoni SRT ose VTT, korrigjoni replikat dhe digjini në video për shikim pa zë.",
+    show: "Shfaq",
+    import: "Importo SRT/VTT",
+    addAtPlayhead: "+ Replikë këtu",
+    downloadSrt: "Shkarko SRT",
+    downloadVtt: "Shkarko VTT",
+    fileName: "titrat",
+    newCue: "Replikë e re",
+    cueStart: "Fillimi i replikës në sekonda",
+    cueEnd: "Fundi i replikës në sekonda",
+    seekToCue: "Shko te replika",
+    deleteCue: "Fshi replikën",
+    empty: "Nuk ka titra. Importoni një skedar ose shtoni replika.",
+    position: "Pozicioni",
+    positions: {
+      bottom: "Poshtë",
+      middle: "Në mes",
+      top: "Sipër",
+    },
+    margin: (percent: number) => `Largësia nga skaji ${percent}%`,
+    captionColor: "Ngjyra e titrave",
+    box: "Kuti",
+    outline: "Kontur",
+    unreadable: "Skedari i titrave nuk mund të lexohet.",
+  },
+  reframe: {
+    title: "Formati i daljes",
+    description: "Rikorniza të njëjtën video për Reels, Stories dhe Feed.",
+    aspects: {
+      source: { label: "Origjinali", hint: "Si videoja burimore" },
+      "9:16": { label: "9:16", hint: "Reels, Stories, TikTok" },
+      "1:1": { label: "1:1", hint: "Feed katror" },
+      "4:5": { label: "4:5", hint: "Feed vertikal" },
+      "16:9": { label: "16:9", hint: "YouTube, Facebook" },
+    },
+    modes: {
+      crop: "Prerje me lëvizje",
+      fit: "Përshtatje me sfond të turbullt",
+    },
+    zoom: "Zmadhimi",
+    blur: "Turbullimi i sfondit",
+    panX: "Lëvizja horizontale",
+    panY: "Lëvizja vertikale",
+    keyframes: "Kornizat kyçe të lëvizjes",
+    addKeyframe: (time: string) => `+ Kornizë në ${time}`,
+    deleteKeyframe: "Fshi kornizën kyçe",
+    noKeyframes:
+      "Pa korniza kyçe, prerja qëndron në të njëjtin vend gjatë gjithë videos.",
+  },
+  color: {
+    title: "Ngjyra",
+    description:
+      "Rregullo pamjen e videos; tekstet dhe logot ruajnë ngjyrat e markës.",
+    reset: "Rivendos",
+    sliders: {
+      brightness: "Ndriçimi",
+      contrast: "Kontrasti",
+      saturation: "Ngopja",
+      temperature: "Temperatura",
+    },
+    vignette: "Vinjeta",
+    lut: "LUT (.cube)",
+    importLut: "Importo LUT",
+    replaceLut: "Zëvendëso LUT-in",
+    removeLut: "Hiq LUT-in",
+    noLut: "Pa LUT",
+    lutStrength: "Forca e LUT-it",
+    lutUnreadable: "LUT-i nuk u lexua.",
+    gradient: "Gradienti poshtë",
+    showGradient: "Shfaq",
+    gradientHeight: "Lartësia",
+    gradientOpacity: "Errësia",
+  },
+  export: {
+    title: "Eksporti",
+    unsupported: "Nuk mbështetet nga shfletuesi",
+    resolution: "Rezolucioni",
+    resolutions: {
+      source: "Si burimi",
+      "1080p": "1080p",
+      "720p": "720p",
+    },
+    frameRate: "Kuadro/s",
+    quality: "Cilësia",
+    qualities: {
+      low: "E ulët",
+      medium: "Mesatare",
+      high: "E lartë",
+      custom: "Bitrate manual",
+    },
+    bitrate: "Bitrate (Mbps)",
+    fast: " · eksport i shpejtë (WebCodecs)",
+    realtime: " · eksport në kohë reale (MediaRecorder)",
+    exporting: "Duke eksportuar...",
+    start: "Eksporto videon me tekst",
+    downloadSpec: "Shkarko specifikimin për serverin",
+    specFileName: "specifikimi-i-renderimit.json",
+    downloadVideo: "Shkarko videon e transformuar",
+    jobLabel: "Videoja",
+    elapsed: (time: string) => `${time} kaluar`,
+    remaining: (time: string) => `rreth ${time} mbetur`,
+    estimating: "duke llogaritur...",
+  },
+  stills: {
+    title: "Pamje dhe animacione",
+    description:
+      "Ruaj kuadrin e çastit si imazh ose nxirr disa sekonda si GIF a WebP që përsëritet.",
+    grabTitle: "Kuadri aktual",
+    grab: (format: string) => `Ruaj ${format}`,
+    grabbing: "Po ruhet...",
+    grabbedAt: (time: string) => `Kuadri në ${time}`,
+    loopTitle: "Animacion në lak",
+    format: "Formati",
+    start: "Fillimi (s)",
+    useCurrent: "Nga pozicioni aktual",
+    duration: "Kohëzgjatja (s)",
+    frameRate: "Kuadro në sekondë",
+    width: "Gjerësia",
+    colors: "Ngjyrat",
+    palette: "Paleta",
+    palettes: {
+      global: "Një për të gjithë",
+      frame: "Për çdo kuadër",
+    },
+    dither: "Zbutje me pika (dithering)",
+    quality: "Cilësia",
+    exportLoop: (format: string) => `Eksporto ${format}`,
+    exportingLoop: "Po eksportohet...",
+    downloadLoop: (format: string) => `Shkarko ${format}`,
+    jobLabel: (format: string) => `Animacion ${format}`,
+    summary: (width: number, height: number, frames: number) =>
+      `${width}×${height} · ${frames} kuadro`,
+  },
+  languages: {
+    title: "Gjuhët e tekstit",
+    description:
+      "Shkruani tekstet në disa gjuhë te shtresat dhe eksportoni një video për secilën me një klikim.",
+    primary: "Kryesore",
+    remove: (label: string) => `Hiq ${label}`,
+    add: "+ Shto",
+    choose: "Zgjidhni një gjuhë",
+    custom: "Tjetër...",
+    code: "Kodi",
+    label: "Emri",
+    duplicateCode: (code: string) => `Gjuha "${code}" është shtuar tashmë.`,
+    exportAll: (count: number) => `Eksporto ${count} gjuhë`,
+    exporting: (current: number, total: number) =>
+      `Duke eksportuar ${current}/${total}...`,
+    jobLabel: (label: string) => `Videoja · ${label}`,
+    zipName: "gjuhet",
+  },
+  batch: {
+    title: "Variante nga tabela",
+    description:
+      "Ngarkoni një CSV ose ngjisni një tabelë: çdo rresht bëhet një video me tekstet, ngjyrën dhe imazhin e vet.",
+    loadCsv: "Ngarko CSV",
+    images: "Imazhet e variantëve",
+    imagesLoaded: (count: number) => `${count} imazhe të ngarkuara`,
+    readTable: "Lexo tabelën",
+    tablePlaceholder:
+      "Titulli Kryesor\tNgjyra\tEmri\nBLACK FRIDAY TIRANË\t#facc15\ttirane",
+    columns: "Kolonat",
+    column: (index: number) => `Kolona ${index}`,
+    targets: {
+      ignore: "Mos e përdor",
+      text: (name: string) => `Teksti: ${name}`,
+      image: (name: string) => `Imazhi: ${name}`,
+      accent: "Ngjyra e theksit",
+      fileName: "Emri i skedarit",
+    },
+    status: {
+      pending: "Në pritje",
+      rendering: "Duke eksportuar...",
+      done: "Gati",
+      error: "Dështoi",
+    },
+    exportAll: (count: number) => `Eksporto ${count} variante`,
+    exporting: (current: number, total: number) =>
+      `Duke eksportuar ${current}/${total}...`,
+    retryFailed: (count: number) => `Riprovo të dështuarat (${count})`,
+    tableUnreadable: "Tabela nuk mund të lexohet.",
+    zipName: "variantet",
+  },
+  timeline: {
+    label: "Afati kohor",
+    previousFrame: "Kuadri i mëparshëm",
+    nextFrame: "Kuadri tjetër",
+    zoomIn: "Zmadho",
+    zoomOut: "Zvogëlo",
+    fit: "E gjitha",
+    video: "Video",
+    bar: (name: string, start: string, end: string) =>
+      `${name}: ${start}–${end}`,
+    watermark: "Filigrani shfaqet gjatë gjithë videos.",
+    hint: "← → lëviz me nga një kuadër (Shift: 1 s), hapësira luan ose ndalon, + − zmadhon. Tërhiqni shiritat ose skajet e tyre për të caktuar kur shfaqet shtresa.",
+  },
+  preview: {
+    title: "Pamja paraprake",
+    rewind: "Rikthe fillimin",
+    safeAreas: "Zonat e sigurta",
+    empty: "Ngarkoni një video për ta parë këtu.",
+    play: "Luaj",
+    pause: "Pauzë",
+    rotate: "Rrotullo shtresën",
+    exportNote: {
+      before: "Eksporti kryhet në sfond kuadër pas kuadri përmes",
+      between:
+        "në një Web Worker, ndaj mund të vazhdoni redaktimin. Në shfletuesit pa WebCodecs përdoret",
+      after: "dhe videoja luhet një herë e plotë.",
+    },
+  },
+  errors: {
+    videoRequired: "Ngarkoni një video përpara se të transformoni.",
+    exportBusy: "Një eksport tjetër është duke u kryer.",
+    videoMetadata: "Metadatat e videos nuk mund të lexohen.",
+    videoSeek: "Videoja nuk mund të kërkohet në këtë pikë.",
+    videoDuration: "Kohëzgjatja e videos nuk mund të lexohet.",
+    imageUnreadable: "Imazhi nuk mund të lexohet.",
+    imageType: "Zgjidhni një imazh PNG, SVG ose JPEG.",
+    fontType: "Zgjidhni një font TTF, OTF, WOFF ose WOFF2.",
+    fontUnreadable: "Fonti nuk mund të lexohet.",
+    fontDamaged: "Fonti nuk mund të lexohet: skedari duket i dëmtuar.",
+    audioType: "Zgjidhni një skedar audio (MP3, M4A, WAV ose OGG).",
+    audioUnreadable: "Skedari audio nuk mund të lexohet.",
+    captionsEmpty: "Skedari i titrave nuk ka asnjë replikë të lexueshme.",
+    lut1d: "LUT-et 1D nuk mbështeten; përdorni një LUT 3D .cube.",
+    lutDomain: "LUT-i përdor një DOMAIN jashtë 0–1, që nuk mbështetet.",
+    lutSize: (max: number) =>
+      `Skedari nuk është një LUT 3D .cube i vlefshëm (madhësia 2–${max}).`,
+    lutRows: (expected: number, actual: number) =>
+      `LUT-i duhet të ketë ${expected} rreshta ngjyrash, por ka ${actual}.`,
+    sceneInvalid: "Skedari nuk përmban një dizajn të vlefshëm.",
+    specNotJson: "Specifikimi i renderimit nuk është JSON i vlefshëm.",
+    languageMissing: (code: string, available: string) =>
+      `Dizajni nuk ka gjuhën "${code}". Gjuhët e tij: ${available}.`,
+    templatesFull:
+      "Shabllonet nuk u ruajtën: hapësira e shfletuesit është plot.",
+    templatesNotJson: "Skedari i shablloneve nuk është JSON i vlefshëm.",
+    templatesWrongFile: "Ky skedar nuk është një eksport shabllonesh.",
+    templatesEmpty: "Skedari nuk përmban asnjë shabllon të lexueshëm.",
+    brandKitFull:
+      "Kiti i markës nuk u ruajt: fontet dhe logot janë shumë të mëdha për shfletuesin.",
+    brandKitNotJson: "Skedari i kitit të markës nuk është JSON i vlefshëm.",
+    brandKitWrongFile: "Ky skedar nuk është një eksport i kitit të markës.",
+    watermarkFull:
+      "Filigrani nuk u ruajt: imazhi është shumë i madh për shfletuesin.",
+    projectsUnavailable:
+      "Ruajtja lokale e projekteve nuk është e disponueshme.",
+    projectsFull:
+      "Projekti nuk u ruajt: hapësira e shfletuesit është plot. Fshini projekte të vjetra.",
+    projectSaveFailed: "Projekti nuk u ruajt në shfletues.",
+    tableNoHeader: "Tabela duhet të ketë një rresht me emrat e kolonave.",
+    tableNoRows: "Tabela nuk ka asnjë rresht me të dhëna.",
+    rowColor: (value: string) =>
+      `Ngjyra "${value}" nuk është një kod i vlefshëm si #ff0055 ose rgb(255, 0, 85).`,
+    rowImage: (name: string) => `Imazhi "${name}" nuk është ngarkuar.`,
+    zipFailed: "Arkivi ZIP nuk mund të krijohet.",
+    canvasUnsupported: "Shfletuesi nuk mbështet Canvas 2D.",
+    offscreenCanvasUnsupported: "Shfletuesi nuk mbështet OffscreenCanvas 2D.",
+    frameEncodeFailed: "Kuadri nuk mund të kodohet si imazh.",
+    recorderUnsupported: (format: string) =>
+      `Shfletuesi nuk mund të regjistrojë ${format}.`,
+    encoderUnsupported: (format: string, width: number, height: number) =>
+      `Shfletuesi nuk mund të kodojë ${format} në ${width}×${height}.`,
+    workerNotStarted: "Renderimi në sfond nuk është nisur.",
+    workerFailed: "Renderimi në sfond dështoi.",
+    gifPalette: "Kuadri GIF nuk ka paletë ngjyrash.",
+    webpFrame: "Shfletuesi nuk arriti të kodojë kuadrin si WebP.",
+    webpUnsupported: "Ky shfletues nuk mund të kodojë WebP. Provo GIF.",
+    sourceTooLarge: (name: string, size: string, limit: string) =>
+      `“${name}” ka ${size}, mbi kufirin prej ${limit}. Shkurtojeni ose kompresojeni përpara se ta ngarkoni.`,
+    sourceHevc: (name: string) =>
+      `“${name}” është në HEVC (H.265), formati i paracaktuar i iPhone-it, dhe ky shfletues nuk e deshifron. Hapeni redaktorin në Safari ose Edge, ose konvertojeni në MP4 H.264. Në iPhone: Cilësimet → Kamera → Formatet → “Më i përputhshmi”.`,
+    sourceProres: (name: string, codec: string) =>
+      `“${name}” është në ${codec}, që shfletuesit nuk e luajnë. Eksportojeni si MP4 H.264 përpara se ta ngarkoni.`,
+    sourceAv1: (name: string) =>
+      `“${name}” është në AV1, që ky shfletues nuk e deshifron. Përditësoni shfletuesin ose konvertojeni në MP4 H.264.`,
+    sourceDamaged: (name: string, codec: string) =>
+      `“${name}” është në ${codec}, por shfletuesi nuk e hapi. Skedari mund të jetë i dëmtuar ose i koduar me një profil që nuk mbështetet (p.sh. 10-bit); rikodojeni si MP4 H.264 8-bit.`,
+    sourceCodec: (name: string, codec: string) =>
+      `“${name}” përdor kodekun ${codec}, që ky shfletues nuk e deshifron. Konvertojeni në MP4 H.264 ose WEBM VP9.`,
+    sourceAudioOnly: (name: string) => `“${name}” ka vetëm zë, pa pistë video.`,
+    sourceDuration: (name: string) =>
+      `Kohëzgjatja e “${name}” nuk mund të lexohet, as pasi videoja u lexua deri në fund. Rikodojeni si MP4 H.264 (p.sh. me HandBrake) dhe ngarkojeni përsëri.`,
+    sourceUnreadable: (name: string) =>
+      `“${name}” nuk mund të lexohet si video. Skedari mund të jetë i dëmtuar ose në një format që shfletuesi nuk e njeh; provoni MP4 H.264.`,
+  },
+};
+
+export type Messages = typeof sq;
@@ -0,0 +1,104 @@
+import { resolveCountdownWording } from "@/lib/countdown";
+import { createAppError } from "@/lib/errors";
+import type { OverlayScene } from "@/lib/scene";
+
+/**
+ * A version of the overlay text, exported as its own video. Markets that
+ * share a language but not the copy, such as Albania and Kosovo, get one
+ * each.
+ */
+export type OverlayLanguage = {
+  /** Key of the layers' translations and suffix of the exported file. */
+  code: string;
+  label: string;
+};
+
+export const LANGUAGE_PRESETS: OverlayLanguage[] = [
+  { code: "sq", label: "Shqip" },
+  { code: "sq-XK", label: "Shqip (Kosovë)" },
+  { code: "en", label: "English" },
+  { code: "de", label: "Deutsch" },
+  { code: "it", label: "Italiano" },
+  { code: "fr", label: "Français" },
+];
+
+/** The first language is the one the layers' own `content` is written in. */
+export const DEFAULT_LANGUAGES: OverlayLanguage[] = [LANGUAGE_PRESETS[0]];
+
+export const isPrimaryLanguage = (scene: OverlayScene, code: string) =>
+  scene.languages[0]?.code === code;
+
+/**
+ * The scene as shown in `code`: text layers with a translation for it use
+ * that instead of their content, and countdowns take its wording.
+ * Untranslated layers keep the primary text.
+ */
+export const localizeScene = (
+  scene: OverlayScene,
+  code: string,
+): OverlayScene =>
+  isPrimaryLanguage(scene, code)
+    ? scene
+    : {
+        ...scene,
+        layers: scene.layers.map((layer) => {
+          if (layer.kind !== "text") {
+            return layer;
+          }
+          if (layer.countdown) {
+            const countdown = {
+              ...layer.countdown,
+              ...resolveCountdownWording(layer.countdown, code),
+            };
+            return { ...layer, countdown };
+          }
+          return layer.translations[code]?.trim()
+            ? { ...layer, content: layer.translations[code] }
+            : layer;
+        }),
+      };
+
+const omitKey = <T>(record: Record<string, T>, code: string) =>
+  Object.fromEntries(
+    Object.entries(record).filter(([key]) => key !== code),
+  );
+
+/** Drops a removed language's translations from every layer. */
+export const removeTranslations = (
+  scene: OverlayScene,
+  code: string,
+): OverlayScene => ({
+  ...scene,
+  layers: scene.layers.map((layer) => {
+    if (layer.kind !== "text") {
+      return layer;
+    }
+    const countdown =
+      layer.countdown && code in layer.countdown.translations
+        ? {
+            ...layer.countdown,
+            translations: omitKey(layer.countdown.translations, code),
+          }
+        : layer.countdown;
+    if (countdown === layer.countdown && !(code in layer.translations)) {
+      return layer;
+    }
+    return {
+      ...layer,
+      countdown,
+      translations: omitKey(layer.translations, code),
+    };
+  }),
+});
+
+/** `localizeScene` for a code typed by hand, as the server receives it. */
+export const localizeSceneTo = (scene: OverlayScene, code: string) => {
+  if (!scene.languages.some((language) => language.code === code)) {
+    throw createAppError(
+      "languageMissing",
+      code,
+      scene.languages.map((language) => language.code).join(", "),
+    );
+  }
+  return localizeScene(scene, code);
+};
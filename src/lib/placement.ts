@@ -0,0 +1,74 @@
+import { ImageLayer, LayerBox } from "@/lib/scene";
+
+export type PlacementPreset =
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right"
+  | "center";
+
+export const PLACEMENT_PRESETS: PlacementPreset[] = [
+  "top-left",
+  "top-right",
+  "center",
+  "bottom-left",
+  "bottom-right",
+];
+
+/** Gap between a placed layer and the frame edge, as a fraction of the width. */
+export const PLACEMENT_MARGIN = 0.04;
+
+/**
+ * Box height that keeps an image undistorted at `width`, given the frame
+ * aspect (width / height), since box fractions are per axis.
+ */
+export const fitImageHeight = (
+  layer: Pick<ImageLayer, "aspect">,
+  width: number,
+  frameAspect: number,
+) => (width * frameAspect) / (layer.aspect || 1);
+
+/** Scales an image layer around its center, keeping its aspect. */
+export const scaleImageBox = (
+  layer: ImageLayer,
+  width: number,
+  frameAspect: number,
+): LayerBox => {
+  const height = fitImageHeight(layer, width, frameAspect);
+  const centerX = layer.box.x + layer.box.width / 2;
+  const centerY = layer.box.y + layer.box.height / 2;
+  return {
+    ...layer.box,
+    x: centerX - width / 2,
+    y: centerY - height / 2,
+    width,
+    height,
+  };
+};
+
+/** Moves a box into a corner (or the center) with an even pixel margin. */
+export const placeBox = (
+  box: LayerBox,
+  preset: PlacementPreset,
+  frameAspect: number,
+): LayerBox => {
+  const marginX = PLACEMENT_MARGIN;
+  const marginY = PLACEMENT_MARGIN * frameAspect;
+  const left = marginX;
+  const right = 1 - marginX - box.width;
+  const top = marginY;
+  const bottom = 1 - marginY - box.height;
+
+  switch (preset) {
+    case "top-left":
+      return { ...box, x: left, y: top };
+    case "top-right":
+      return { ...box, x: right, y: top };
+    case "bottom-left":
+      return { ...box, x: left, y: bottom };
+    case "bottom-right":
+      return { ...box, x: right, y: bottom };
+    case "center":
+      return { ...box, x: (1 - box.width) / 2, y: (1 - box.height) / 2 };
+  }
+};
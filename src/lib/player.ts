@@ -0,0 +1,200 @@
+import type { FrameSource } from "@/lib/render/frame";
+import {
+  Clip,
+  getClipLength,
+  getClipOffset,
+  getSequenceDuration,
+  locateInSequence,
+} from "@/lib/sequence";
+import { ensureMetadata, seekTo } from "@/lib/video";
+
+/**
+ * Plays a trimmed clip sequence through one `<video>` element and reports
+ * time on the sequence timeline, which is what overlays are timed against.
+ */
+export type SequencePlayer = {
+  setClips: (clips: Clip[]) => void;
+  getTime: () => number;
+  getDuration: () => number;
+  isPlaying: () => boolean;
+  getSource: () => FrameSource | null;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (time: number) => Promise<void>;
+  /** Called on every painted frame while playing and on any state change. */
+  subscribe: (listener: () => void) => () => void;
+  dispose: () => void;
+};
+
+const END_EPSILON = 1 / 240;
+
+export const createSequencePlayer = (
+  video: HTMLVideoElement,
+): SequencePlayer => {
+  let clips: Clip[] = [];
+  let index = -1;
+  let playing = false;
+  let switching = false;
+  let frameId: number | null = null;
+  let seekToken = 0;
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const loadClip = async (nextIndex: number, localTime: number) => {
+    const clip = clips[nextIndex];
+    if (index !== nextIndex || video.src !== clip.url) {
+      index = nextIndex;
+      video.src = clip.url;
+      await ensureMetadata(video);
+    }
+    await seekTo(video, localTime);
+  };
+
+  const getTime = () => {
+    const clip = clips[index];
+    if (!clip) {
+      return 0;
+    }
+    const local = Math.min(
+      Math.max(0, video.currentTime - clip.trimStart),
+      getClipLength(clip),
+    );
+    return getClipOffset(clips, index) + local;
+  };
+
+  const stopTicking = () => {
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+  };
+
+  const pause = () => {
+    playing = false;
+    stopTicking();
+    video.pause();
+    notify();
+  };
+
+  const advance = async () => {
+    if (index + 1 >= clips.length) {
+      pause();
+      return;
+    }
+
+    switching = true;
+    try {
+      await loadClip(index + 1, clips[index + 1].trimStart);
+      if (playing) {
+        await video.play();
+      }
+    } finally {
+      switching = false;
+    }
+  };
+
+  const tick = () => {
+    if (!playing) {
+      return;
+    }
+    const clip = clips[index];
+    if (
+      clip &&
+      !switching &&
+      (video.ended || video.currentTime >= clip.trimEnd - END_EPSILON)
+    ) {
+      advance().catch(pause);
+    }
+    notify();
+    frameId = requestAnimationFrame(tick);
+  };
+
+  const seek = async (time: number) => {
+    const token = ++seekToken;
+    const location = locateInSequence(clips, time);
+    if (!location) {
+      return;
+    }
+    await loadClip(location.index, location.localTime);
+    if (token === seekToken) {
+      if (playing && video.paused) {
+        await video.play();
+      }
+      notify();
+    }
+  };
+
+  const play = async () => {
+    if (clips.length === 0) {
+      return;
+    }
+    if (getTime() >= getSequenceDuration(clips) - END_EPSILON) {
+      await seek(0);
+    }
+    playing = true;
+    await video.play().catch((error) => {
+      playing = false;
+      throw error;
+    });
+    stopTicking();
+    tick();
+  };
+
+  const setClips = (next: Clip[]) => {
+    const time = getTime();
+    const currentId = clips[index]?.id;
+    clips = next;
+
+    if (clips.length === 0) {
+      pause();
+      index = -1;
+      video.removeAttribute("src");
+      video.load();
+      notify();
+      return;
+    }
+
+    // Keep the playhead where it was on the timeline, unless the clip under
+    // it is gone.
+    const stillLoaded = clips.findIndex((clip) => clip.id === currentId);
+    const target =
+      stillLoaded === -1 ? 0 : Math.min(time, getSequenceDuration(clips));
+    seek(target).catch(() => undefined);
+  };
+
+  const handleMediaEvent = () => {
+    if (!playing) {
+      notify();
+    }
+  };
+  const mediaEvents = ["seeked", "loadeddata", "pause", "play"];
+  mediaEvents.forEach((name) => video.addEventListener(name, handleMediaEvent));
+
+  return {
+    setClips,
+    getTime,
+    getDuration: () => getSequenceDuration(clips),
+    isPlaying: () => playing,
+    getSource: () =>
+      index >= 0 && video.readyState >= 2
+        ? { image: video, width: video.videoWidth, height: video.videoHeight }
+        : null,
+    play,
+    pause,
+    seek,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      stopTicking();
+      listeners.clear();
+      mediaEvents.forEach((name) =>
+        video.removeEventListener(name, handleMediaEvent),
+      );
+    },
+  };
+};
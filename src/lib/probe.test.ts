@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { isAppError } from "@/lib/errors";
+import {
+  SourceInfo,
+  checkSourceSize,
+  createUndecodableError,
+  probeSource,
+} from "@/lib/probe";
+
+// ISO base media fixtures.
+
+const uint32 = (...values: number[]) => {
+  const bytes = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => bytes.writeUInt32BE(value, index * 4));
+  return bytes;
+};
+
+const box = (type: string, ...parts: Buffer[]) => {
+  const body = Buffer.concat(parts);
+  return Buffer.concat([uint32(body.length + 8), Buffer.from(type), body]);
+};
+
+/** A box with a 64-bit size, as cameras write for large `mdat`s. */
+const largeBox = (type: string, body: Buffer) => {
+  const size = Buffer.alloc(8);
+  size.writeBigUInt64BE(BigInt(body.length + 16));
+  return Buffer.concat([uint32(1), Buffer.from(type), size, body]);
+};
+
+const track = (
+  handler: string,
+  format: string,
+  timescale: number,
+  samples: number,
+  delta: number,
+) =>
+  box(
+    "trak",
+    box(
+      "mdia",
+      box("mdhd", uint32(0, 0, 0, timescale, samples * delta, 0)),
+      box("hdlr", uint32(0, 0), Buffer.from(handler), uint32(0, 0, 0, 0)),
+      box(
+        "minf",
+        box(
+          "stbl",
+          box("stsd", uint32(0, 1), box(format, Buffer.alloc(70))),
+          box("stts", uint32(0, 1, samples, delta)),
+        ),
+      ),
+    ),
+  );
+
+const movie = (video: string) =>
+  box(
+    "moov",
+    box("mvhd", Buffer.alloc(100)),
+    track("vide", video, 30000, 300, 1001),
+    track("soun", "mp4a", 48000, 10, 1024),
+  );
+
+// Matroska fixtures.
+
+const element = (id: number[], body: Buffer) =>
+  Buffer.concat([Buffer.from(id), Buffer.from([0x80 | body.length]), body]);
+
+/** An element whose size is all ones, as live recorders write. */
+const openElement = (id: number[], body: Buffer) =>
+  Buffer.concat([
+    Buffer.from(id),
+    Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+    body,
+  ]);
+
+const EBML_HEADER = [0x1a, 0x45, 0xdf, 0xa3];
+const SEGMENT = [0x18, 0x53, 0x80, 0x67];
+const CLUSTER = [0x1f, 0x43, 0xb6, 0x75];
+
+const webm = () =>
+  Buffer.concat([
+    element(EBML_HEADER, element([0x42, 0x82], Buffer.from("webm"))),
+    openElement(
+      SEGMENT,
+      Buffer.concat([
+        element([0x15, 0x49, 0xa9, 0x66], Buffer.alloc(10)),
+        element(
+          [0x16, 0x54, 0xae, 0x6b],
+          Buffer.concat([
+            element(
+              [0xae],
+              Buffer.concat([
+                element([0x83], Buffer.from([1])),
+                element([0x86], Buffer.from("V_VP9")),
+                element([0x23, 0xe3, 0x83], uint32(40_000_000)),
+              ]),
+            ),
+            element(
+              [0xae],
+              Buffer.concat([
+                element([0x83], Buffer.from([2])),
+                element([0x86], Buffer.from("A_OPUS")),
+              ]),
+            ),
+          ]),
+        ),
+        openElement(CLUSTER, Buffer.alloc(64)),
+      ]),
+    ),
+  ]);
+
+const probe = (name: string, ...parts: Buffer[]) =>
+  probeSource(new File(parts.map((part) => new Uint8Array(part)), name));
+
+describe("probeSource", () => {
+  it("reads a MOV whose moov comes after the media", async () => {
+    const info = await probe(
+      "clip.mov",
+      box("ftyp", Buffer.from("qt  "), uint32(0)),
+      box("wide"),
+      box("mdat", Buffer.alloc(4096)),
+      movie("apcn"),
+    );
+    assert.equal(info.container, "MOV");
+    assert.equal(info.videoCodec, "apcn");
+    assert.equal(info.audioCodec, "mp4a");
+    assert.equal(info.hasAudio, true);
+    assert.ok(Math.abs((info.frameRate ?? 0) - 29.97) < 0.01);
+  });
+
+  it("skips a box with a 64-bit size", async () => {
+    const info = await probe(
+      "clip.mp4",
+      box("ftyp", Buffer.from("isom"), uint32(0)),
+      largeBox("mdat", Buffer.alloc(2048)),
+      movie("avc1"),
+    );
+    assert.equal(info.container, "MP4");
+    assert.equal(info.videoCodec, "avc1");
+  });
+
+  it("reads a WebM whose segment and clusters have unknown sizes", async () => {
+    const info = await probe("live.webm", webm());
+    assert.deepEqual(info, {
+      container: "WebM",
+      videoCodec: "V_VP9",
+      audioCodec: "A_OPUS",
+      hasAudio: true,
+      frameRate: 25,
+      size: webm().length,
+    });
+  });
+
+  it("gives nulls for a file it does not know", async () => {
+    const info = await probe("notes.mp4", Buffer.from("not a video at all"));
+    assert.equal(info.container, null);
+    assert.equal(info.videoCodec, null);
+    assert.equal(info.hasAudio, null);
+  });
+
+  it("reads no codecs from a file cut off inside its moov", async () => {
+    const whole = Buffer.concat([
+      box("ftyp", Buffer.from("isom"), uint32(0)),
+      movie("avc1"),
+    ]);
+    const info = await probe("cut.mp4", whole.subarray(0, whole.length - 40));
+    assert.equal(info.videoCodec, null);
+  });
+});
+
+describe("createUndecodableError", () => {
+  const info = (changes: Partial<SourceInfo>): SourceInfo => ({
+    container: "MP4",
+    videoCodec: null,
+    audioCodec: null,
+    hasAudio: false,
+    frameRate: null,
+    size: 1024,
+    ...changes,
+  });
+
+  it("names the reason the headers point at", () => {
+    const cases: [Partial<SourceInfo>, string][] = [
+      [{ videoCodec: "hvc1" }, "sourceHevc"],
+      [{ videoCodec: "ap4h" }, "sourceProres"],
+      [{ videoCodec: "V_AV1" }, "sourceAv1"],
+      [{ videoCodec: "avc1" }, "sourceDamaged"],
+      [{ videoCodec: "mp4v" }, "sourceCodec"],
+      [{ hasAudio: true }, "sourceAudioOnly"],
+      [{ container: null }, "sourceUnreadable"],
+    ];
+    for (const [changes, code] of cases) {
+      const error = createUndecodableError("clip.mp4", info(changes));
+      assert.equal(error.reason.code, code);
+      assert.equal(error.reason.values[0], "clip.mp4");
+    }
+  });
+});
+
+describe("checkSourceSize", () => {
+  it("rejects files over the limit with both sizes", () => {
+    const file = { name: "huge.mov", size: 300 * 1024 * 1024 } as File;
+    assert.throws(
+      () => checkSourceSize(file),
+      (error) =>
+        isAppError(error) &&
+        error.reason.code === "sourceTooLarge" &&
+        error.reason.values.join() === "huge.mov,300.0 MB,250.0 MB",
+    );
+  });
+});
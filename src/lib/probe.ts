@@ -0,0 +1,444 @@
+import { createAppError } from "@/lib/errors";
+
+/** Largest source file the editor takes, as the drop zone promises. */
+export const MAX_SOURCE_BYTES = 250 * 1024 * 1024;
+
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|mkv)$/i;
+
+export const VIDEO_INPUT_ACCEPT = "video/*,.mp4,.m4v,.mov,.webm,.mkv";
+
+/**
+ * What a source file's own headers say about it. Fields the headers do not
+ * give, or that could not be read, are `null`.
+ */
+export type SourceInfo = {
+  /** `MP4`, `MOV`, `WebM` or `MKV`. */
+  container: string | null;
+  /**
+   * The codec tag as stored: an MP4 sample entry such as `avc1` or `hvc1`,
+   * or a Matroska id such as `V_VP9`.
+   */
+  videoCodec: string | null;
+  audioCodec: string | null;
+  hasAudio: boolean | null;
+  /** Average frames per second. */
+  frameRate: number | null;
+  /** File size in bytes. */
+  size: number;
+};
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: "H.264",
+  avc3: "H.264",
+  hvc1: "HEVC (H.265)",
+  hev1: "HEVC (H.265)",
+  dvh1: "Dolby Vision",
+  dvhe: "Dolby Vision",
+  av01: "AV1",
+  vp08: "VP8",
+  vp09: "VP9",
+  mp4v: "MPEG-4 Part 2",
+  apch: "Apple ProRes 422 HQ",
+  apcn: "Apple ProRes 422",
+  apcs: "Apple ProRes 422 LT",
+  apco: "Apple ProRes 422 Proxy",
+  ap4h: "Apple ProRes 4444",
+  ap4x: "Apple ProRes 4444 XQ",
+  mp4a: "AAC",
+  "ac-3": "Dolby Digital",
+  "ec-3": "Dolby Digital Plus",
+  Opus: "Opus",
+  fLaC: "FLAC",
+  ".mp3": "MP3",
+  lpcm: "PCM",
+  sowt: "PCM",
+  twos: "PCM",
+  ipcm: "PCM",
+  V_VP8: "VP8",
+  V_VP9: "VP9",
+  V_AV1: "AV1",
+  "V_MPEG4/ISO/AVC": "H.264",
+  "V_MPEGH/ISO/HEVC": "HEVC (H.265)",
+  A_OPUS: "Opus",
+  A_VORBIS: "Vorbis",
+  A_AAC: "AAC",
+  A_FLAC: "FLAC",
+  "A_MPEG/L3": "MP3",
+  A_AC3: "Dolby Digital",
+  A_EAC3: "Dolby Digital Plus",
+  "A_PCM/INT/LIT": "PCM",
+};
+
+const HEVC_CODECS = ["hvc1", "hev1", "dvh1", "dvhe", "V_MPEGH/ISO/HEVC"];
+
+const PRORES_CODECS = ["apch", "apcn", "apcs", "apco", "ap4h", "ap4x"];
+
+const AV1_CODECS = ["av01", "V_AV1"];
+
+/** Codecs every supported browser plays, in their common profiles. */
+const WEB_CODECS = [
+  "avc1",
+  "avc3",
+  "vp08",
+  "vp09",
+  "V_MPEG4/ISO/AVC",
+  "V_VP8",
+  "V_VP9",
+];
+
+/** Human name of a codec tag, or the tag itself when it is not known. */
+export const describeCodec = (codec: string) => CODEC_NAMES[codec] ?? codec;
+
+/** Some systems report no MIME type for MOV and MKV files. */
+export const isVideoFile = (file: File) =>
+  file.type.startsWith("video/") ||
+  (!file.type && VIDEO_EXTENSIONS.test(file.name));
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 ** 3).toFixed(1)} GB`
+    : bytes >= 1024 * 1024
+      ? `${(bytes / 1024 ** 2).toFixed(1)} MB`
+      : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const checkSourceSize = (file: File) => {
+  if (file.size > MAX_SOURCE_BYTES) {
+    throw createAppError(
+      "sourceTooLarge",
+      file.name,
+      formatFileSize(file.size),
+      formatFileSize(MAX_SOURCE_BYTES),
+    );
+  }
+};
+
+/**
+ * Why the browser could not open a file, as specifically as its headers
+ * allow; the catalog message says what to do about it.
+ */
+export const createUndecodableError = (name: string, info: SourceInfo) => {
+  const codec = info.videoCodec;
+  if (codec && HEVC_CODECS.includes(codec)) {
+    return createAppError("sourceHevc", name);
+  }
+  if (codec && PRORES_CODECS.includes(codec)) {
+    return createAppError("sourceProres", name, describeCodec(codec));
+  }
+  if (codec && AV1_CODECS.includes(codec)) {
+    return createAppError("sourceAv1", name);
+  }
+  if (codec && WEB_CODECS.includes(codec)) {
+    return createAppError("sourceDamaged", name, describeCodec(codec));
+  }
+  if (codec) {
+    return createAppError("sourceCodec", name, describeCodec(codec));
+  }
+  if (info.container && info.hasAudio) {
+    return createAppError("sourceAudioOnly", name);
+  }
+  return createAppError("sourceUnreadable", name);
+};
+
+const readView = async (file: Blob, start: number, length: number) =>
+  new DataView(await file.slice(start, start + length).arrayBuffer());
+
+const readText = (view: DataView, start: number, end: number) =>
+  new TextDecoder()
+    .decode(new Uint8Array(view.buffer, view.byteOffset + start, end - start))
+    .replace(/\0+$/, "");
+
+// MP4 and MOV: ISO base media boxes.
+
+/** A box's payload, after its header. */
+type Box = { type: string; start: number; end: number };
+
+/** Boxes a file may start with; anything else is not ISO media. */
+const LEADING_BOXES = ["ftyp", "moov", "mdat", "wide", "free", "skip"];
+
+/** `moov` is read whole; larger ones are not worth the memory. */
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+const readType = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+
+/** The box header at `offset`: its type and full size, or `null`. */
+const readBoxHeader = (view: DataView, offset: number, available: number) => {
+  if (offset + 8 > view.byteLength) {
+    return null;
+  }
+  const type = readType(view, offset + 4);
+  const size32 = view.getUint32(offset);
+  if (size32 === 1) {
+    if (offset + 16 > view.byteLength) {
+      return null;
+    }
+    return { type, size: Number(view.getBigUint64(offset + 8)), header: 16 };
+  }
+  return { type, size: size32 === 0 ? available : size32, header: 8 };
+};
+
+const readBoxes = (view: DataView, start: number, end: number) => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    const header = readBoxHeader(view, offset, end - offset);
+    if (!header || header.size < header.header || offset + header.size > end) {
+      break;
+    }
+    boxes.push({
+      type: header.type,
+      start: offset + header.header,
+      end: offset + header.size,
+    });
+    offset += header.size;
+  }
+  return boxes;
+};
+
+const findBox = (view: DataView, parent: Box, ...path: string[]) => {
+  let current: Box | undefined = parent;
+  for (const type of path) {
+    current = readBoxes(view, current.start, current.end).find(
+      (box) => box.type === type,
+    );
+    if (!current) {
+      return null;
+    }
+  }
+  return current;
+};
+
+/** Samples over duration, from the track's time-to-sample table. */
+const readIsoFrameRate = (view: DataView, mdia: Box, stbl: Box) => {
+  const mdhd = findBox(view, mdia, "mdhd");
+  const stts = findBox(view, stbl, "stts");
+  if (!mdhd || !stts) {
+    return null;
+  }
+  const timescale = view.getUint32(
+    mdhd.start + (view.getUint8(mdhd.start) === 1 ? 20 : 12),
+  );
+  const entries = view.getUint32(stts.start + 4);
+  let samples = 0;
+  let ticks = 0;
+  for (let entry = 0; entry < entries; entry += 1) {
+    const offset = stts.start + 8 + entry * 8;
+    if (offset + 8 > stts.end) {
+      break;
+    }
+    const count = view.getUint32(offset);
+    samples += count;
+    ticks += count * view.getUint32(offset + 4);
+  }
+  return ticks > 0 && timescale > 0 ? (samples * timescale) / ticks : null;
+};
+
+const parseMoov = (view: DataView, brand: string | null) => {
+  const [moov] = readBoxes(view, 0, view.byteLength);
+  const info = {
+    container: brand === null || brand === "qt  " ? "MOV" : "MP4",
+    videoCodec: null as string | null,
+    audioCodec: null as string | null,
+    hasAudio: false,
+    frameRate: null as number | null,
+  };
+  if (!moov) {
+    return info;
+  }
+
+  for (const trak of readBoxes(view, moov.start, moov.end)) {
+    const mdia = trak.type === "trak" ? findBox(view, trak, "mdia") : null;
+    const hdlr = mdia && findBox(view, mdia, "hdlr");
+    const stbl = mdia && findBox(view, mdia, "minf", "stbl");
+    const stsd = stbl && findBox(view, stbl, "stsd");
+    if (!mdia || !hdlr || !stbl || !stsd || stsd.end - stsd.start < 16) {
+      continue;
+    }
+    // Full box header, entry count and entry size come before the format.
+    const codec = readType(view, stsd.start + 12);
+    const handler = readType(view, hdlr.start + 8);
+    if (handler === "vide" && !info.videoCodec) {
+      info.videoCodec = codec;
+      info.frameRate = readIsoFrameRate(view, mdia, stbl);
+    } else if (handler === "soun" && !info.audioCodec) {
+      info.audioCodec = codec;
+      info.hasAudio = true;
+    }
+  }
+  return info;
+};
+
+/** Walks the top-level boxes by their headers alone, then reads `moov`. */
+const probeIsoMedia = async (file: File) => {
+  let brand: string | null = null;
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const head = await readView(file, offset, 16);
+    const header = readBoxHeader(head, 0, file.size - offset);
+    if (
+      !header ||
+      header.size < header.header ||
+      (offset === 0 && !LEADING_BOXES.includes(header.type))
+    ) {
+      return null;
+    }
+    if (header.type === "ftyp" && head.byteLength >= 12) {
+      brand = readType(head, 8);
+    }
+    if (header.type === "moov") {
+      return header.size > MAX_MOOV_BYTES
+        ? null
+        : parseMoov(await readView(file, offset, header.size), brand);
+    }
+    offset += header.size;
+  }
+  return null;
+};
+
+// WebM and MKV: EBML elements.
+
+const EBML_HEADER = 0x1a45dfa3;
+const DOC_TYPE = 0x4282;
+const SEGMENT = 0x18538067;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const DEFAULT_DURATION = 0x23e383;
+
+/** Track list and codec ids sit near the start of the file. */
+const EBML_HEAD_BYTES = 4 * 1024 * 1024;
+
+type Element = { id: number; start: number; end: number };
+
+/** A variable-length integer; ids keep their length marker, sizes do not. */
+const readVint = (view: DataView, offset: number, keepMarker: boolean) => {
+  if (offset >= view.byteLength) {
+    return null;
+  }
+  const first = view.getUint8(offset);
+  const length = Math.clz32(first) - 23;
+  if (length > 8 || offset + length > view.byteLength) {
+    return null;
+  }
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = value === 0xff >> length;
+  for (let index = 1; index < length; index += 1) {
+    const byte = view.getUint8(offset + index);
+    unknown &&= byte === 0xff;
+    value = value * 256 + byte;
+  }
+  return { value, length, unknown: !keepMarker && unknown };
+};
+
+const readElements = (view: DataView, start: number, end: number) => {
+  const elements: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const id = readVint(view, offset, true);
+    const size = id && readVint(view, offset + id.length, false);
+    if (!id || !size) {
+      break;
+    }
+    const payload = offset + id.length + size.length;
+    // Elements of unknown size (live streams) run to the end of the parent.
+    const elementEnd = size.unknown ? end : payload + size.value;
+    elements.push({
+      id: id.value,
+      start: payload,
+      end: Math.min(elementEnd, end),
+    });
+    offset = elementEnd;
+  }
+  return elements;
+};
+
+const readUint = (view: DataView, element: Element) => {
+  let value = 0;
+  for (let offset = element.start; offset < element.end; offset += 1) {
+    value = value * 256 + view.getUint8(offset);
+  }
+  return value;
+};
+
+const probeMatroska = async (file: File) => {
+  const view = await readView(file, 0, EBML_HEAD_BYTES);
+  const top = readElements(view, 0, view.byteLength);
+  if (top[0]?.id !== EBML_HEADER) {
+    return null;
+  }
+  const docType = readElements(view, top[0].start, top[0].end).find(
+    (element) => element.id === DOC_TYPE,
+  );
+  const info = {
+    container:
+      docType && readText(view, docType.start, docType.end) === "webm"
+        ? "WebM"
+        : "MKV",
+    videoCodec: null as string | null,
+    audioCodec: null as string | null,
+    hasAudio: null as boolean | null,
+    frameRate: null as number | null,
+  };
+
+  const segment = top.find((element) => element.id === SEGMENT);
+  const tracks =
+    segment &&
+    readElements(view, segment.start, segment.end).find(
+      (element) => element.id === TRACKS,
+    );
+  if (!tracks) {
+    return info;
+  }
+
+  info.hasAudio = false;
+  for (const entry of readElements(view, tracks.start, tracks.end)) {
+    if (entry.id !== TRACK_ENTRY) {
+      continue;
+    }
+    const fields = readElements(view, entry.start, entry.end);
+    const field = (id: number) => fields.find((element) => element.id === id);
+    const type = field(TRACK_TYPE);
+    const codecId = field(CODEC_ID);
+    const codec = codecId ? readText(view, codecId.start, codecId.end) : null;
+    if (type && readUint(view, type) === 1 && !info.videoCodec) {
+      info.videoCodec = codec;
+      // Nanoseconds per frame.
+      const frameDuration = field(DEFAULT_DURATION);
+      const nanoseconds = frameDuration ? readUint(view, frameDuration) : 0;
+      info.frameRate = nanoseconds > 0 ? 1e9 / nanoseconds : null;
+    } else if (type && readUint(view, type) === 2) {
+      info.audioCodec ??= codec;
+      info.hasAudio = true;
+    }
+  }
+  return info;
+};
+
+/**
+ * Reads container, codecs, frame rate and audio presence from the file's
+ * headers, without decoding it. Unknown formats come back with `null`s.
+ */
+export const probeSource = async (file: File): Promise<SourceInfo> => {
+  try {
+    const info = (await probeIsoMedia(file)) ?? (await probeMatroska(file));
+    if (info) {
+      return { ...info, size: file.size };
+    }
+  } catch {
+    // A truncated or odd file; the browser still gets to try it.
+  }
+  return {
+    container: null,
+    videoCodec: null,
+    audioCodec: null,
+    hasAudio: null,
+    frameRate: null,
+    size: file.size,
+  };
+};
@@ -0,0 +1,309 @@
+import { AudioMix, MusicTrack } from "@/lib/audioMix";
+import { createAppError } from "@/lib/errors";
+import type { ExportSettings } from "@/lib/export/settings";
+import type { OverlayScene } from "@/lib/scene";
+import { parseScene } from "@/lib/sceneSchema";
+import type { Clip } from "@/lib/sequence";
+
+/** Everything undo/redo covers: the edit itself. */
+export type ProjectDocument = {
+  scene: OverlayScene;
+  clips: Clip[];
+  audio: AudioMix;
+};
+
+/** The last export of a project, kept so it can be downloaded again. */
+export type RenderedVideo = {
+  id: string;
+  blob: Blob;
+  url: string;
+  extension: string;
+};
+
+export type ProjectSnapshot = {
+  id: string;
+  document: ProjectDocument;
+  exportSettings: ExportSettings;
+  render: RenderedVideo | null;
+};
+
+export type ProjectSummary = {
+  id: string;
+  /** The first clip's name; `null` while the project has no video. */
+  name: string | null;
+  updatedAt: number;
+  clipCount: number;
+};
+
+type StoredClip = Omit<Clip, "file" | "url">;
+
+type StoredMusic = Omit<MusicTrack, "file" | "url">;
+
+/**
+ * Media lives in its own store keyed by clip, track or render id, so an
+ * autosave only writes the blobs it has not stored yet.
+ */
+type StoredProject = ProjectSummary & {
+  scene: OverlayScene;
+  clips: StoredClip[];
+  audio: Omit<AudioMix, "music"> & { music: StoredMusic | null };
+  exportSettings: ExportSettings;
+  render: { id: string; extension: string } | null;
+};
+
+type StoredFile = {
+  id: string;
+  projectId: string;
+  blob: Blob;
+};
+
+const DB_NAME = "promo-studio";
+const DB_VERSION = 1;
+const PROJECTS_STORE = "projects";
+const FILES_STORE = "files";
+const PROJECT_INDEX = "projectId";
+const LAST_PROJECT_KEY = "promo-studio:last-project";
+
+/** Older projects are dropped so their videos do not fill the disk. */
+const MAX_RECENT_PROJECTS = 8;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+      db
+        .createObjectStore(FILES_STORE, { keyPath: "id" })
+        .createIndex(PROJECT_INDEX, PROJECT_INDEX);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(createAppError("projectsUnavailable"));
+    };
+  });
+  return databasePromise;
+};
+
+const wait = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const complete = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const toStorageError = (error: unknown) =>
+  error instanceof DOMException && error.name === "QuotaExceededError"
+    ? createAppError("projectsFull")
+    : createAppError("projectSaveFailed");
+
+export const createProjectId = () => crypto.randomUUID();
+
+export const describeProject = (document: ProjectDocument) =>
+  document.clips[0]?.name.replace(/\.[^/.]+$/, "") ?? null;
+
+export const getLastProjectId = () => {
+  try {
+    return window.localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string) => {
+  try {
+    window.localStorage.setItem(LAST_PROJECT_KEY, id);
+  } catch {
+    // Without it the most recently edited project opens instead.
+  }
+};
+
+/** Recent projects, most recently edited first. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, "readonly");
+  const projects = await wait<StoredProject[]>(
+    transaction.objectStore(PROJECTS_STORE).getAll(),
+  );
+  return projects
+    .map(({ id, name, updatedAt, clipCount }) => ({
+      id,
+      name,
+      updatedAt,
+      clipCount,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const deleteProjectIn = async (transaction: IDBTransaction, id: string) => {
+  const files = transaction.objectStore(FILES_STORE);
+  const keys = await wait(files.index(PROJECT_INDEX).getAllKeys(id));
+  keys.forEach((key) => files.delete(key));
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+};
+
+export const deleteProject = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, FILES_STORE], "readwrite");
+  const done = complete(transaction);
+  await deleteProjectIn(transaction, id);
+  await done;
+};
+
+/** Blobs and object URLs are stored separately and recreated on load. */
+const omitMedia = <T extends { file: File; url: string }>(entry: T) => {
+  const rest: Partial<T> = { ...entry };
+  delete rest.file;
+  delete rest.url;
+  return rest as Omit<T, "file" | "url">;
+};
+
+/** Writes the project and its new media, then drops media it no longer uses. */
+export const saveProject = async (snapshot: ProjectSnapshot) => {
+  const { id, document, exportSettings, render } = snapshot;
+  const { music, ...audio } = document.audio;
+  const media = new Map<string, Blob>(
+    document.clips.map((clip) => [clip.id, clip.file]),
+  );
+  if (music) {
+    media.set(music.id, music.file);
+  }
+  if (render) {
+    media.set(render.id, render.blob);
+  }
+
+  const record: StoredProject = {
+    id,
+    name: describeProject(document),
+    updatedAt: Date.now(),
+    clipCount: document.clips.length,
+    scene: document.scene,
+    clips: document.clips.map(omitMedia),
+    audio: { ...audio, music: music ? omitMedia(music) : null },
+    exportSettings,
+    render: render ? { id: render.id, extension: render.extension } : null,
+  };
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(
+      [PROJECTS_STORE, FILES_STORE],
+      "readwrite",
+    );
+    const done = complete(transaction);
+    const files = transaction.objectStore(FILES_STORE);
+    const stored = new Set(
+      await wait(files.index(PROJECT_INDEX).getAllKeys(id)),
+    );
+
+    stored.forEach((key) => {
+      if (!media.has(String(key))) {
+        files.delete(key);
+      }
+    });
+    media.forEach((blob, fileId) => {
+      if (!stored.has(fileId)) {
+        files.put({ id: fileId, projectId: id, blob } satisfies StoredFile);
+      }
+    });
+    transaction.objectStore(PROJECTS_STORE).put(record);
+    await done;
+  } catch (error) {
+    throw toStorageError(error);
+  }
+
+  const projects = await listProjects();
+  const stale = projects.slice(MAX_RECENT_PROJECTS);
+  await Promise.all(stale.map((project) => deleteProject(project.id)));
+};
+
+/** Revokes the object URLs `loadProject` created for a snapshot. */
+export const releaseSnapshot = (snapshot: ProjectSnapshot) => {
+  snapshot.document.clips.forEach((clip) => URL.revokeObjectURL(clip.url));
+  if (snapshot.document.audio.music) {
+    URL.revokeObjectURL(snapshot.document.audio.music.url);
+  }
+  if (snapshot.render) {
+    URL.revokeObjectURL(snapshot.render.url);
+  }
+};
+
+const toFile = (blob: Blob, name: string) =>
+  blob instanceof File ? blob : new File([blob], name, { type: blob.type });
+
+/**
+ * Reopens a saved project with fresh object URLs. Clips whose video is
+ * missing from storage are left out rather than failing the whole project.
+ */
+export const loadProject = async (
+  id: string,
+): Promise<ProjectSnapshot | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, FILES_STORE], "readonly");
+  const record = await wait<StoredProject | undefined>(
+    transaction.objectStore(PROJECTS_STORE).get(id),
+  );
+  if (!record) {
+    return null;
+  }
+  const files = await wait<StoredFile[]>(
+    transaction.objectStore(FILES_STORE).index(PROJECT_INDEX).getAll(id),
+  );
+  const blobs = new Map(files.map((file) => [file.id, file.blob]));
+
+  const clips = record.clips.flatMap((clip): Clip[] => {
+    const blob = blobs.get(clip.id);
+    if (!blob) {
+      return [];
+    }
+    const file = toFile(blob, clip.name);
+    return [
+      {
+        ...clip,
+        source: clip.source ?? null,
+        file,
+        url: URL.createObjectURL(file),
+      },
+    ];
+  });
+
+  const musicBlob = record.audio.music && blobs.get(record.audio.music.id);
+  const music =
+    record.audio.music && musicBlob
+      ? {
+          ...record.audio.music,
+          file: toFile(musicBlob, record.audio.music.name),
+          url: URL.createObjectURL(musicBlob),
+        }
+      : null;
+
+  const renderBlob = record.render && blobs.get(record.render.id);
+  const render =
+    record.render && renderBlob
+      ? {
+          ...record.render,
+          blob: renderBlob,
+          url: URL.createObjectURL(renderBlob),
+        }
+      : null;
+
+  return {
+    id,
+    document: {
+      scene: parseScene(record.scene),
+      clips,
+      audio: { ...record.audio, music },
+    },
+    exportSettings: record.exportSettings,
+    render,
+  };
+};
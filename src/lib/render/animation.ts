@@ -0,0 +1,120 @@
+import {
+  AnimationEasing,
+  LayerAnimation,
+  LayerBox,
+  LayerTiming,
+} from "@/lib/scene";
+
+export type LayerFrameState = {
+  opacity: number;
+  /** Offset in frame fractions, applied on top of the layer box. */
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+  /** Share of the text characters revealed, for the typewriter effect. */
+  reveal: number;
+};
+
+const BACK_OVERSHOOT = 1.70158;
+
+const EASINGS: Record<AnimationEasing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOut: (t) =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  back: (t) =>
+    1 +
+    (BACK_OVERSHOOT + 1) * Math.pow(t - 1, 3) +
+    BACK_OVERSHOOT * Math.pow(t - 1, 2),
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const IDLE_STATE: LayerFrameState = {
+  opacity: 1,
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+  reveal: 1,
+};
+
+export const isLayerVisibleAt = (timing: LayerTiming, time: number) =>
+  time >= timing.start && (timing.end === null || time <= timing.end);
+
+/**
+ * Applies one animation at `progress` (0 = hidden, 1 = settled). Slides
+ * start fully outside the frame edge they come from.
+ */
+const applyAnimation = (
+  state: LayerFrameState,
+  animation: LayerAnimation,
+  box: LayerBox,
+  progress: number,
+): LayerFrameState => {
+  const eased = EASINGS[animation.easing](clamp01(progress));
+  const remaining = 1 - eased;
+
+  switch (animation.kind) {
+    case "fade":
+      return { ...state, opacity: state.opacity * clamp01(eased) };
+    case "slide":
+      switch (animation.direction) {
+        case "left":
+          return { ...state, offsetX: state.offsetX - remaining * (box.x + box.width) };
+        case "right":
+          return { ...state, offsetX: state.offsetX + remaining * (1 - box.x) };
+        case "top":
+          return { ...state, offsetY: state.offsetY - remaining * (box.y + box.height) };
+        case "bottom":
+          return { ...state, offsetY: state.offsetY + remaining * (1 - box.y) };
+      }
+      return state;
+    case "scale":
+      return { ...state, scale: state.scale * Math.max(0, eased) };
+    case "typewriter":
+      return { ...state, reveal: Math.min(state.reveal, clamp01(eased)) };
+    case "none":
+      return state;
+  }
+};
+
+/**
+ * Works out how a layer looks at `time` seconds, or `null` when it is
+ * outside its in/out points. Layers without an out point exit at
+ * `duration`, the end of the video.
+ */
+export const resolveLayerState = (
+  layer: {
+    box: LayerBox;
+    timing: LayerTiming;
+    enter: LayerAnimation;
+    exit: LayerAnimation;
+  },
+  time: number,
+  duration: number,
+): LayerFrameState | null => {
+  const { timing, enter, exit, box } = layer;
+  if (!isLayerVisibleAt(timing, time)) {
+    return null;
+  }
+
+  let state = IDLE_STATE;
+
+  if (enter.kind !== "none" && enter.duration > 0) {
+    const progress = (time - timing.start) / enter.duration;
+    if (progress < 1) {
+      state = applyAnimation(state, enter, box, progress);
+    }
+  }
+
+  const end = timing.end ?? duration;
+  if (exit.kind !== "none" && exit.duration > 0 && Number.isFinite(end)) {
+    const progress = (end - time) / exit.duration;
+    if (progress < 1) {
+      state = applyAnimation(state, exit, box, progress);
+    }
+  }
+
+  return state;
+};
@@ -0,0 +1,82 @@
+import { CaptionTrack, findActiveCues } from "@/lib/captions";
+import type { FrameInfo, RenderContext } from "@/lib/render/frame";
+import { measureWith, wrapText } from "@/lib/render/text";
+
+const LINE_HEIGHT = 1.3;
+/** Widest a caption line may run, as a fraction of the frame width. */
+const MAX_LINE_WIDTH = 0.86;
+
+/**
+ * Burns the cues active at `frame.time` into the frame, centered, one
+ * padded box per line the way broadcast captions look.
+ */
+export const drawCaptions = (
+  ctx: RenderContext,
+  track: CaptionTrack,
+  { width, height, fontFamily, time }: FrameInfo,
+) => {
+  if (!track.enabled) {
+    return;
+  }
+  const cues = findActiveCues(track.cues, time);
+  if (cues.length === 0) {
+    return;
+  }
+
+  const { style } = track;
+  const fontSize = Math.round(style.fontSize * width);
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const paddingX = fontSize * 0.35;
+  const paddingY = (lineHeight - fontSize) / 2;
+
+  ctx.save();
+  ctx.font = `${style.fontWeight} ${fontSize}px ${fontFamily}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.lineJoin = "round";
+
+  const lines = cues.flatMap((cue) => {
+    const text = style.uppercase ? cue.text.toUpperCase() : cue.text;
+    return wrapText(
+      measureWith(ctx),
+      text,
+      width * MAX_LINE_WIDTH - paddingX * 2,
+    );
+  });
+  const blockHeight = lines.length * lineHeight;
+  const top =
+    style.position === "top"
+      ? style.margin * height
+      : style.position === "middle"
+        ? (height - blockHeight) / 2
+        : height - style.margin * height - blockHeight;
+  const centerX = width / 2;
+
+  lines.forEach((line, index) => {
+    const centerY = top + index * lineHeight + lineHeight / 2;
+
+    if (style.background) {
+      const lineWidth = ctx.measureText(line).width + paddingX * 2;
+      ctx.fillStyle = style.background;
+      ctx.beginPath();
+      ctx.roundRect(
+        centerX - lineWidth / 2,
+        centerY - lineHeight / 2,
+        lineWidth,
+        lineHeight,
+        paddingY,
+      );
+      ctx.fill();
+    }
+
+    if (style.outline) {
+      ctx.strokeStyle = style.outlineColor;
+      ctx.lineWidth = fontSize * 0.16;
+      ctx.strokeText(line, centerX, centerY);
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, centerX, centerY);
+  });
+
+  ctx.restore();
+};
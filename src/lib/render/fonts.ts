@@ -0,0 +1,205 @@
+import { createAppError } from "@/lib/errors";
+import type { OverlayScene, SceneFont } from "@/lib/scene";
+
+export const FALLBACK_FONT_FAMILY = '"Geist", sans-serif';
+
+/** Families every browser and most servers have, offered next to Geist. */
+export const SYSTEM_FONT_FAMILIES = [
+  "Arial",
+  "Georgia",
+  "Impact",
+  "Trebuchet MS",
+  "Times New Roman",
+  "Courier New",
+];
+
+export const FONT_INPUT_ACCEPT = ".ttf,.otf,.woff,.woff2";
+
+const ACCEPTED_FONT_EXTENSIONS = /\.(ttf|otf|woff2?)$/i;
+
+/**
+ * `next/font` registers Geist under a generated family name, so the canvas
+ * has to read the real stack from the CSS variable the layout exposes.
+ */
+export const resolveFontFamily = () => {
+  if (typeof document === "undefined") {
+    return FALLBACK_FONT_FAMILY;
+  }
+
+  const stack = getComputedStyle(document.body)
+    .getPropertyValue("--font-geist-sans")
+    .trim();
+
+  return stack ? `${stack}, sans-serif` : FALLBACK_FONT_FAMILY;
+};
+
+/** Font stack for a text style, falling back to the app font. */
+export const resolveStyleFont = (family: string | null, fallback: string) =>
+  family ? `"${family}", ${fallback}` : fallback;
+
+/** The document's fonts, or the worker's when rendering off the page. */
+const getFontSet = (): FontFaceSet | null => {
+  if (typeof document !== "undefined") {
+    return document.fonts ?? null;
+  }
+  return (globalThis as { fonts?: FontFaceSet }).fonts ?? null;
+};
+
+const registeredFonts = new Map<string, { src: string; face: FontFace }>();
+
+/** Adds the scene's uploaded fonts to the document, once per file. */
+const registerSceneFonts = (fontSet: FontFaceSet, fonts: SceneFont[]) =>
+  Promise.all(
+    fonts.map(async ({ family, src }) => {
+      const current = registeredFonts.get(family);
+      if (current?.src === src) {
+        return;
+      }
+      const face = new FontFace(family, `url(${src})`);
+      await face.load();
+      if (current) {
+        fontSet.delete(current.face);
+      }
+      fontSet.add(face);
+      registeredFonts.set(family, { src, face });
+    }),
+  );
+
+/** Every family and weight the scene's text uses, as `font` shorthands. */
+const collectFontRequests = (scene: OverlayScene, fontFamily: string) =>
+  Array.from(
+    new Set([
+      ...scene.layers.flatMap((layer) =>
+        layer.kind === "text"
+          ? [
+              `${layer.style.fontWeight} 16px ${resolveStyleFont(layer.style.fontFamily, fontFamily)}`,
+            ]
+          : [],
+      ),
+      `${scene.captions.style.fontWeight} 16px ${fontFamily}`,
+    ]),
+  );
+
+export const ensureFontsLoaded = async (
+  scene: OverlayScene,
+  fontFamily: string,
+) => {
+  const fontSet = getFontSet();
+  if (!fontSet) {
+    return;
+  }
+
+  await registerSceneFonts(fontSet, scene.fonts).catch(() => undefined);
+  await Promise.all(
+    collectFontRequests(scene, fontFamily).map((font) =>
+      fontSet.load(font).catch(() => []),
+    ),
+  );
+};
+
+/** An `@font-face` rule, portable to a worker. */
+export type FontFaceSource = {
+  family: string;
+  /** The rule's `src`, with URLs made absolute. */
+  src: string;
+  descriptors: FontFaceDescriptors;
+};
+
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, "$2");
+
+/**
+ * The page's `@font-face` rules for the families in `fontFamily`. Workers
+ * have their own font set, so the app font has to be declared there again.
+ */
+export const collectFontFaces = (fontFamily: string): FontFaceSource[] => {
+  const families = new Set(fontFamily.split(",").map(unquote));
+  const faces: FontFaceSource[] = [];
+
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Cross-origin sheets cannot be read.
+      continue;
+    }
+    const base = sheet.href ?? document.baseURI;
+    for (const rule of Array.from(rules)) {
+      if (!(rule instanceof CSSFontFaceRule)) {
+        continue;
+      }
+      const family = unquote(rule.style.getPropertyValue("font-family"));
+      if (!families.has(family)) {
+        continue;
+      }
+      const descriptor = (name: string) =>
+        rule.style.getPropertyValue(name) || undefined;
+      faces.push({
+        family,
+        src: rule.style
+          .getPropertyValue("src")
+          .replace(
+            /url\((["']?)([^"')]+)\1\)/g,
+            (_, _quote, url: string) => `url("${new URL(url, base).href}")`,
+          ),
+        descriptors: {
+          weight: descriptor("font-weight"),
+          style: descriptor("font-style"),
+          stretch: descriptor("font-stretch"),
+          unicodeRange: descriptor("unicode-range"),
+        },
+      });
+    }
+  }
+  return faces;
+};
+
+/** Declares faces collected on the page in the current (worker) scope. */
+export const registerFontFaces = async (faces: FontFaceSource[]) => {
+  const fontSet = getFontSet();
+  if (!fontSet) {
+    return;
+  }
+  await Promise.all(
+    faces.map(async ({ family, src, descriptors }) => {
+      const face = new FontFace(family, src, descriptors);
+      fontSet.add(face);
+      await face.load().catch(() => undefined);
+    }),
+  );
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(createAppError("fontUnreadable"));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Reads an uploaded font file into a scene font named after the file, or
+ * `fallbackFamily` when the name has nothing usable. The face is
+ * test-loaded so broken files fail here, not at render time.
+ */
+export const readFontFile = async (
+  file: File,
+  fallbackFamily: string,
+): Promise<SceneFont> => {
+  if (!ACCEPTED_FONT_EXTENSIONS.test(file.name)) {
+    throw createAppError("fontType");
+  }
+
+  const family =
+    file.name
+      .replace(/\.[^/.]+$/, "")
+      .replace(/["'\\]/g, "")
+      .trim() || fallbackFamily;
+  try {
+    await new FontFace(family, await file.arrayBuffer()).load();
+  } catch {
+    throw createAppError("fontDamaged");
+  }
+
+  return { family, src: await readAsDataUrl(file) };
+};
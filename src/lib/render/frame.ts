@@ -0,0 +1,368 @@
+import { parseColor } from "@/lib/color";
+import type { OverlayGradient } from "@/lib/grading";
+import {
+  BlendMode,
+  ImageLayer,
+  OverlayLayer,
+  OverlayScene,
+  TextLayer,
+  isWatermark,
+  resolveLayerText,
+  resolveTextColor,
+  sortLayers,
+} from "@/lib/scene";
+import { LayerFrameState, resolveLayerState } from "@/lib/render/animation";
+import { drawCaptions } from "@/lib/render/captions";
+import { resolveStyleFont } from "@/lib/render/fonts";
+import { applyGrading } from "@/lib/render/grading";
+import { getLoadedImage } from "@/lib/render/images";
+import { drawReframedSource } from "@/lib/render/reframe";
+import {
+  layoutTextBlock,
+  measureWith,
+  resolveBlockTop,
+  splitGraphemes,
+} from "@/lib/render/text";
+
+export type FrameSize = {
+  width: number;
+  height: number;
+};
+
+/** The preview draws on a page canvas, exports on an `OffscreenCanvas`. */
+export type RenderContext =
+  | CanvasRenderingContext2D
+  | OffscreenCanvasRenderingContext2D;
+
+/** A decoded source frame and its natural size. */
+export type FrameSource = FrameSize & {
+  image: CanvasImageSource;
+};
+
+/** Everything the renderer needs to know about the frame being painted. */
+export type FrameInfo = FrameSize & {
+  fontFamily: string;
+  /** Playhead position in seconds. */
+  time: number;
+  /** Length of the video in seconds, used for layers without an out point. */
+  duration: number;
+  /** Epoch ms the render is made at; countdowns count from here. */
+  now: number;
+};
+
+const BLEND_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+  normal: "source-over",
+  multiply: "multiply",
+  screen: "screen",
+  overlay: "overlay",
+  "soft-light": "soft-light",
+  darken: "darken",
+  lighten: "lighten",
+};
+
+/** Watermarks stay put for the whole video, whatever their timing says. */
+const STATIC_STATE: LayerFrameState = {
+  opacity: 1,
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+  reveal: 1,
+};
+
+/** Cuts wrapped lines down to the first `count` characters overall. */
+const revealLines = (lines: string[], count: number) => {
+  const visible: string[] = [];
+  let remaining = count;
+  for (const line of lines) {
+    const chars = splitGraphemes(line);
+    visible.push(chars.slice(0, Math.max(0, remaining)).join(""));
+    remaining -= chars.length;
+  }
+  return visible;
+};
+
+/**
+ * Animation offsets move the layer in frame space, so a slide keeps its
+ * direction on rotated layers; rotation and scale pivot on the box center.
+ */
+const applyLayerTransform = (
+  ctx: RenderContext,
+  state: LayerFrameState,
+  rotation: number,
+  pivotX: number,
+  pivotY: number,
+  { width, height }: FrameSize,
+) => {
+  ctx.globalAlpha *= state.opacity;
+  ctx.translate(
+    pivotX + state.offsetX * width,
+    pivotY + state.offsetY * height,
+  );
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.scale(state.scale, state.scale);
+  ctx.translate(-pivotX, -pivotY);
+};
+
+const drawTextLayer = (
+  ctx: RenderContext,
+  scene: OverlayScene,
+  layer: TextLayer,
+  state: LayerFrameState,
+  { width, height, fontFamily, time, now }: FrameInfo,
+) => {
+  const text = resolveLayerText(layer, now, time);
+  if (!text.trim() || state.opacity <= 0 || state.scale <= 0) {
+    return;
+  }
+
+  const { box, style } = layer;
+  const left = box.x * width;
+  const top = box.y * height;
+  const boxWidth = box.width * width;
+  const boxHeight = box.height * height;
+
+  ctx.save();
+  applyLayerTransform(
+    ctx,
+    state,
+    box.rotation,
+    left + boxWidth / 2,
+    top + boxHeight / 2,
+    { width, height },
+  );
+
+  const family = resolveStyleFont(style.fontFamily, fontFamily);
+  const applyFontSize = (size: number) => {
+    ctx.font = `${style.fontWeight} ${size}px ${family}`;
+    ctx.letterSpacing = `${style.letterSpacing * size}px`;
+    return measureWith(ctx);
+  };
+  ctx.textAlign = style.align;
+  ctx.textBaseline = "top";
+
+  const { lines, fontSize, lineHeight, padding } = layoutTextBlock(
+    applyFontSize,
+    text,
+    {
+      fontSize: Math.round(style.fontSize * width),
+      lineHeight: style.lineHeight,
+      padding: style.backgroundPadding,
+      width: boxWidth,
+      height: boxHeight,
+      maxLines: style.maxLines,
+      autoFit: style.autoFit,
+    },
+  );
+  applyFontSize(fontSize);
+
+  const anchorX =
+    style.align === "left"
+      ? left + padding
+      : style.align === "right"
+        ? left + boxWidth - padding
+        : left + boxWidth / 2;
+  const blockHeight = lines.length * lineHeight;
+  let cursor = resolveBlockTop(style.verticalAlign, top, boxHeight, blockHeight, padding);
+
+  if (style.background) {
+    ctx.fillStyle = style.background;
+    if (style.backgroundFit === "text") {
+      const textWidth = Math.max(
+        ...lines.map((line) => ctx.measureText(line).width),
+      );
+      const pillWidth = textWidth + padding * 4;
+      const pillHeight = blockHeight + padding * 2;
+      const pillLeft =
+        style.align === "left"
+          ? anchorX - padding * 2
+          : style.align === "right"
+            ? anchorX - textWidth - padding * 2
+            : anchorX - pillWidth / 2;
+      ctx.beginPath();
+      ctx.roundRect(
+        pillLeft,
+        cursor - padding,
+        pillWidth,
+        pillHeight,
+        Math.min(style.backgroundRadius * fontSize, pillHeight / 2),
+      );
+      ctx.fill();
+    } else {
+      ctx.beginPath();
+      ctx.roundRect(
+        left,
+        top,
+        boxWidth,
+        boxHeight,
+        Math.min(style.backgroundRadius * fontSize, boxHeight / 2),
+      );
+      ctx.fill();
+    }
+  }
+
+  if (style.shadow) {
+    ctx.shadowColor = style.shadowColor;
+    ctx.shadowBlur = width * 0.008;
+  }
+
+  const totalChars = lines.reduce(
+    (sum, line) => sum + splitGraphemes(line).length,
+    0,
+  );
+  const visibleLines =
+    state.reveal < 1
+      ? revealLines(lines, Math.floor(totalChars * state.reveal))
+      : lines;
+
+  // The outline sits under the fill, which then carries no second shadow.
+  const strokeWidth = style.strokeWidth * fontSize;
+  if (strokeWidth > 0) {
+    ctx.strokeStyle = style.strokeColor;
+    ctx.lineWidth = strokeWidth * 2;
+    ctx.lineJoin = "round";
+    visibleLines.forEach((line, index) =>
+      ctx.strokeText(line, anchorX, cursor + index * lineHeight),
+    );
+    ctx.shadowColor = "transparent";
+  }
+
+  ctx.fillStyle = resolveTextColor(scene, style);
+  for (const line of visibleLines) {
+    ctx.fillText(line, anchorX, cursor);
+    cursor += lineHeight;
+  }
+
+  ctx.restore();
+};
+
+/** Draws the image contained in its box, so it never stretches. */
+const drawImageLayer = (
+  ctx: RenderContext,
+  layer: ImageLayer,
+  state: LayerFrameState,
+  { width, height }: FrameInfo,
+) => {
+  const image = getLoadedImage(layer.src);
+  if (!image || layer.opacity <= 0 || state.opacity <= 0 || state.scale <= 0) {
+    return;
+  }
+
+  const { box } = layer;
+  const left = box.x * width;
+  const top = box.y * height;
+  const boxWidth = box.width * width;
+  const boxHeight = box.height * height;
+  const scale = Math.min(boxWidth / layer.aspect, boxHeight);
+  const drawWidth = scale * layer.aspect;
+  const drawHeight = scale;
+
+  ctx.save();
+  applyLayerTransform(
+    ctx,
+    state,
+    box.rotation,
+    left + boxWidth / 2,
+    top + boxHeight / 2,
+    { width, height },
+  );
+  ctx.globalAlpha *= layer.opacity;
+  ctx.globalCompositeOperation = BLEND_OPERATIONS[layer.blendMode];
+  ctx.drawImage(
+    image,
+    left + (boxWidth - drawWidth) / 2,
+    top + (boxHeight - drawHeight) / 2,
+    drawWidth,
+    drawHeight,
+  );
+  ctx.restore();
+};
+
+const drawBottomGradient = (
+  ctx: RenderContext,
+  settings: OverlayGradient,
+  { width, height }: FrameSize,
+) => {
+  const color = parseColor(settings.color);
+  if (!settings.enabled || !color || settings.opacity <= 0) {
+    return;
+  }
+  const gradientHeight = height * settings.height;
+  const gradient = ctx.createLinearGradient(
+    0,
+    height - gradientHeight,
+    0,
+    height,
+  );
+  const alpha = Math.round(settings.opacity * color.alpha * 255)
+    .toString(16)
+    .padStart(2, "0");
+  gradient.addColorStop(0, `${color.hex}00`);
+  gradient.addColorStop(1, `${color.hex}${alpha}`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, height - gradientHeight, width, gradientHeight);
+};
+
+const drawOverlay = (
+  ctx: RenderContext,
+  scene: OverlayScene,
+  frame: FrameInfo,
+) => {
+  ctx.save();
+  drawBottomGradient(ctx, scene.gradient, frame);
+
+  const ordered = sortLayers(scene.layers);
+  const drawLayers = (layers: OverlayLayer[]) => {
+    for (const layer of layers) {
+      const state = isWatermark(layer)
+        ? STATIC_STATE
+        : resolveLayerState(layer, frame.time, frame.duration);
+      if (!state) {
+        continue;
+      }
+
+      switch (layer.kind) {
+        case "text":
+          drawTextLayer(ctx, scene, layer, state, frame);
+          break;
+        case "image":
+          drawImageLayer(ctx, layer, state, frame);
+          break;
+      }
+    }
+  };
+
+  // Captions sit above the design but under the watermark.
+  drawLayers(ordered.filter((layer) => !isWatermark(layer)));
+  drawCaptions(ctx, scene.captions, frame);
+  drawLayers(ordered.filter(isWatermark));
+
+  ctx.restore();
+};
+
+/**
+ * Paints one composited frame: the reframed and graded source, then the
+ * overlay. The live preview and the exporter both go through here, so what
+ * is approved in the editor is what gets written to the file.
+ */
+export const drawFrame = (
+  ctx: RenderContext,
+  source: FrameSource | null,
+  scene: OverlayScene,
+  frame: FrameInfo,
+) => {
+  ctx.fillStyle = "#000000";
+  ctx.fillRect(0, 0, frame.width, frame.height);
+  if (source) {
+    drawReframedSource(
+      ctx,
+      source.image,
+      source,
+      frame,
+      scene.format,
+      frame.time,
+    );
+    applyGrading(ctx, scene.grading, frame);
+  }
+
+  drawOverlay(ctx, scene, frame);
+};
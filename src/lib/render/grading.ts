@@ -0,0 +1,367 @@
+import {
+  ColorGrading,
+  ColorLut,
+  GradingParams,
+  LUMA_WEIGHTS,
+  VIGNETTE_INNER,
+  decodeLut,
+  isNeutralGrading,
+  resolveGradingParams,
+} from "@/lib/grading";
+import type { FrameSize, RenderContext } from "@/lib/render/frame";
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Mirrors `gradePixels` below; keep the two in step.
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+uniform sampler2D u_frame;
+uniform sampler3D u_lut;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform float u_temperature;
+uniform float u_vignette;
+uniform float u_lutStrength;
+uniform float u_lutSize;
+in vec2 v_uv;
+out vec4 outColor;
+void main() {
+  vec3 color = texture(u_frame, v_uv).rgb;
+  color = clamp(color + u_brightness, 0.0, 1.0);
+  color = clamp((color - 0.5) * u_contrast + 0.5, 0.0, 1.0);
+  float luma = dot(color, vec3(${LUMA_WEIGHTS.join(", ")}));
+  color = clamp(mix(vec3(luma), color, u_saturation), 0.0, 1.0);
+  color = clamp(color + vec3(u_temperature, 0.0, -u_temperature), 0.0, 1.0);
+  if (u_lutStrength > 0.0) {
+    vec3 cell = color * ((u_lutSize - 1.0) / u_lutSize) + 0.5 / u_lutSize;
+    color = mix(color, texture(u_lut, cell).rgb, u_lutStrength);
+  }
+  float distance = length(v_uv * 2.0 - 1.0) / sqrt(2.0);
+  color *= 1.0 - u_vignette * smoothstep(${VIGNETTE_INNER.toFixed(2)}, 1.0, distance);
+  outColor = vec4(color, 1.0);
+}`;
+
+const UNIFORMS = [
+  "u_frame",
+  "u_lut",
+  "u_brightness",
+  "u_contrast",
+  "u_saturation",
+  "u_temperature",
+  "u_vignette",
+  "u_lutStrength",
+  "u_lutSize",
+] as const;
+
+type Uniform = (typeof UNIFORMS)[number];
+
+type GpuGrader = {
+  canvas: OffscreenCanvas | HTMLCanvasElement;
+  gl: WebGL2RenderingContext;
+  uniforms: Record<Uniform, WebGLUniformLocation | null>;
+  frameTexture: WebGLTexture;
+  lutTexture: WebGLTexture;
+  /** `data` of the LUT currently in `lutTexture`. */
+  lutData: string | null;
+};
+
+const compileShader = (
+  gl: WebGL2RenderingContext,
+  type: number,
+  source: string,
+) => {
+  const shader = gl.createShader(type);
+  if (!shader) {
+    return null;
+  }
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error(gl.getShaderInfoLog(shader));
+    return null;
+  }
+  return shader;
+};
+
+const createTexture = (gl: WebGL2RenderingContext, target: number) => {
+  const texture = gl.createTexture();
+  if (!texture) {
+    return null;
+  }
+  gl.bindTexture(target, texture);
+  gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+  return texture;
+};
+
+/** Sets up WebGL2 once per page or worker; `null` where it is missing. */
+const createGpuGrader = (): GpuGrader | null => {
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(1, 1)
+      : typeof document !== "undefined"
+        ? document.createElement("canvas")
+        : null;
+  const gl = canvas?.getContext("webgl2", {
+    alpha: false,
+    antialias: false,
+    preserveDrawingBuffer: true,
+  }) as WebGL2RenderingContext | null | undefined;
+  if (!canvas || !gl) {
+    return null;
+  }
+
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) {
+    return null;
+  }
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error(gl.getProgramInfoLog(program));
+    return null;
+  }
+  gl.useProgram(program);
+
+  // One triangle that covers the whole viewport.
+  gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+  gl.bufferData(
+    gl.ARRAY_BUFFER,
+    new Float32Array([-1, -1, 3, -1, -1, 3]),
+    gl.STATIC_DRAW,
+  );
+  const position = gl.getAttribLocation(program, "a_position");
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const uniforms = Object.fromEntries(
+    UNIFORMS.map((name) => [name, gl.getUniformLocation(program, name)]),
+  ) as Record<Uniform, WebGLUniformLocation | null>;
+  gl.uniform1i(uniforms.u_frame, 0);
+  gl.uniform1i(uniforms.u_lut, 1);
+
+  gl.activeTexture(gl.TEXTURE1);
+  const lutTexture = createTexture(gl, gl.TEXTURE_3D);
+  // A placeholder until a LUT is used, so the sampler is never incomplete.
+  gl.texImage3D(
+    gl.TEXTURE_3D,
+    0,
+    gl.RGBA8,
+    1,
+    1,
+    1,
+    0,
+    gl.RGBA,
+    gl.UNSIGNED_BYTE,
+    new Uint8Array(4),
+  );
+  gl.activeTexture(gl.TEXTURE0);
+  const frameTexture = createTexture(gl, gl.TEXTURE_2D);
+  if (!frameTexture || !lutTexture) {
+    return null;
+  }
+  // Canvas rows run top-down, texture rows bottom-up.
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+
+  return { canvas, gl, uniforms, frameTexture, lutTexture, lutData: null };
+};
+
+let grader: GpuGrader | null | undefined;
+
+const getGpuGrader = () => {
+  if (grader?.gl.isContextLost()) {
+    grader = undefined;
+  }
+  if (grader === undefined) {
+    grader = createGpuGrader();
+  }
+  return grader;
+};
+
+const uploadLut = (grader: GpuGrader, lut: ColorLut) => {
+  if (grader.lutData === lut.data) {
+    return;
+  }
+  const { gl } = grader;
+  gl.activeTexture(gl.TEXTURE1);
+  gl.bindTexture(gl.TEXTURE_3D, grader.lutTexture);
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+  gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+  gl.texImage3D(
+    gl.TEXTURE_3D,
+    0,
+    gl.RGB8,
+    lut.size,
+    lut.size,
+    lut.size,
+    0,
+    gl.RGB,
+    gl.UNSIGNED_BYTE,
+    decodeLut(lut),
+  );
+  gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+  gl.activeTexture(gl.TEXTURE0);
+  grader.lutData = lut.data;
+};
+
+const gradeOnGpu = (
+  grader: GpuGrader,
+  ctx: RenderContext,
+  grading: ColorGrading,
+  params: GradingParams,
+  { width, height }: FrameSize,
+) => {
+  const { gl, canvas, uniforms } = grader;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  gl.viewport(0, 0, width, height);
+
+  gl.bindTexture(gl.TEXTURE_2D, grader.frameTexture);
+  gl.texImage2D(
+    gl.TEXTURE_2D,
+    0,
+    gl.RGBA,
+    gl.RGBA,
+    gl.UNSIGNED_BYTE,
+    ctx.canvas,
+  );
+  if (grading.lut && params.lutStrength > 0) {
+    uploadLut(grader, grading.lut);
+  }
+
+  gl.uniform1f(uniforms.u_brightness, params.brightness);
+  gl.uniform1f(uniforms.u_contrast, params.contrast);
+  gl.uniform1f(uniforms.u_saturation, params.saturation);
+  gl.uniform1f(uniforms.u_temperature, params.temperature);
+  gl.uniform1f(uniforms.u_vignette, params.vignette);
+  gl.uniform1f(uniforms.u_lutStrength, params.lutStrength);
+  gl.uniform1f(uniforms.u_lutSize, grading.lut?.size ?? 2);
+  gl.drawArrays(gl.TRIANGLES, 0, 3);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = "copy";
+  ctx.drawImage(canvas, 0, 0, width, height);
+  ctx.restore();
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = clamp01((value - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+};
+
+/** Trilinear lookup into `size`³ RGB bytes, writing 0–1 into `out`. */
+const sampleLut = (
+  bytes: Uint8Array,
+  size: number,
+  r: number,
+  g: number,
+  b: number,
+  out: number[],
+) => {
+  const scale = size - 1;
+  const coords = [r * scale, g * scale, b * scale];
+  const base = coords.map((value) => Math.min(Math.floor(value), scale - 1));
+  const [fr, fg, fb] = coords.map((value, axis) => value - base[axis]);
+  for (let channel = 0; channel < 3; channel += 1) {
+    const at = (dr: number, dg: number, db: number) =>
+      bytes[
+        ((base[2] + db) * size * size + (base[1] + dg) * size + base[0] + dr) *
+          3 +
+          channel
+      ];
+    const mixRed = (dg: number, db: number) =>
+      at(0, dg, db) + (at(1, dg, db) - at(0, dg, db)) * fr;
+    const low = mixRed(0, 0) + (mixRed(1, 0) - mixRed(0, 0)) * fg;
+    const high = mixRed(0, 1) + (mixRed(1, 1) - mixRed(0, 1)) * fg;
+    out[channel] = (low + (high - low) * fb) / 255;
+  }
+};
+
+/** The shader's math on the CPU, for browsers without WebGL2. */
+const gradePixels = (
+  ctx: RenderContext,
+  grading: ColorGrading,
+  params: GradingParams,
+  { width, height }: FrameSize,
+) => {
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  const lut = grading.lut && params.lutStrength > 0 ? grading.lut : null;
+  const lutBytes = lut ? decodeLut(lut) : null;
+  const looked = [0, 0, 0];
+  const [wr, wg, wb] = LUMA_WEIGHTS;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4;
+      let r = clamp01(data[offset] / 255 + params.brightness);
+      let g = clamp01(data[offset + 1] / 255 + params.brightness);
+      let b = clamp01(data[offset + 2] / 255 + params.brightness);
+      r = clamp01((r - 0.5) * params.contrast + 0.5);
+      g = clamp01((g - 0.5) * params.contrast + 0.5);
+      b = clamp01((b - 0.5) * params.contrast + 0.5);
+      const luma = r * wr + g * wg + b * wb;
+      r = clamp01(luma + (r - luma) * params.saturation);
+      g = clamp01(luma + (g - luma) * params.saturation);
+      b = clamp01(luma + (b - luma) * params.saturation);
+      r = clamp01(r + params.temperature);
+      b = clamp01(b - params.temperature);
+      if (lut && lutBytes) {
+        sampleLut(lutBytes, lut.size, r, g, b, looked);
+        r += (looked[0] - r) * params.lutStrength;
+        g += (looked[1] - g) * params.lutStrength;
+        b += (looked[2] - b) * params.lutStrength;
+      }
+      const distance =
+        Math.hypot(((x + 0.5) / width) * 2 - 1, ((y + 0.5) / height) * 2 - 1) /
+        Math.SQRT2;
+      const shade =
+        1 - params.vignette * smoothstep(VIGNETTE_INNER, 1, distance);
+      data[offset] = r * shade * 255;
+      data[offset + 1] = g * shade * 255;
+      data[offset + 2] = b * shade * 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * Grades what is on the canvas so far, in place. WebGL2 keeps it fast
+ * enough for playback; without it the same math runs on the CPU.
+ */
+export const applyGrading = (
+  ctx: RenderContext,
+  grading: ColorGrading,
+  size: FrameSize,
+) => {
+  if (isNeutralGrading(grading)) {
+    return;
+  }
+  const params = resolveGradingParams(grading);
+  const gpu = getGpuGrader();
+  if (gpu) {
+    gradeOnGpu(gpu, ctx, grading, params, size);
+  } else {
+    gradePixels(ctx, grading, params, size);
+  }
+};
@@ -0,0 +1,119 @@
+import { createAppError } from "@/lib/errors";
+import type { FrameSize } from "@/lib/render/frame";
+import type { OverlayScene } from "@/lib/scene";
+
+const ACCEPTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/svg+xml"];
+
+export const IMAGE_INPUT_ACCEPT = ACCEPTED_IMAGE_TYPES.join(",");
+
+/** Decoded images by source, shared by the preview and the exporter. */
+const cache = new Map<string, Promise<HTMLImageElement>>();
+const ready = new Map<string, CanvasImageSource>();
+
+export const loadImage = (src: string) => {
+  const cached = cache.get(src);
+  if (cached) {
+    return cached;
+  }
+
+  const image = new Image();
+  image.decoding = "async";
+  image.src = src;
+  const pending = image
+    .decode()
+    .then(() => {
+      ready.set(src, image);
+      return image;
+    })
+    .catch(() => {
+      cache.delete(src);
+      throw createAppError("imageUnreadable");
+    });
+  cache.set(src, pending);
+  return pending;
+};
+
+/** The decoded image for `src`, or `null` while it is still loading. */
+export const getLoadedImage = (src: string) => ready.get(src) ?? null;
+
+export const ensureImagesLoaded = (scene: OverlayScene) =>
+  Promise.all(
+    scene.layers.flatMap((layer) =>
+      layer.kind === "image" ? [loadImage(layer.src)] : [],
+    ),
+  );
+
+/** Makes an image decoded elsewhere, such as on the main thread, drawable. */
+export const provideImage = (src: string, image: CanvasImageSource) => {
+  ready.set(src, image);
+};
+
+export type DecodedImage = {
+  src: string;
+  image: ImageBitmap;
+};
+
+/**
+ * Decodes the scene's images into bitmaps a worker can draw, at least as
+ * large as any layer shows them so SVGs stay sharp.
+ */
+export const decodeSceneImages = async (
+  scene: OverlayScene,
+  { width }: FrameSize,
+): Promise<DecodedImage[]> => {
+  const widths = new Map<string, number>();
+  for (const layer of scene.layers) {
+    if (layer.kind === "image") {
+      widths.set(
+        layer.src,
+        Math.max(widths.get(layer.src) ?? 0, layer.box.width * width),
+      );
+    }
+  }
+
+  return Promise.all(
+    Array.from(widths, async ([src, shownWidth]) => {
+      const image = await loadImage(src);
+      const aspect =
+        image.naturalWidth && image.naturalHeight
+          ? image.naturalWidth / image.naturalHeight
+          : 1;
+      const resizeWidth = Math.max(
+        1,
+        Math.round(Math.max(image.naturalWidth, shownWidth)),
+      );
+      return {
+        src,
+        image: await createImageBitmap(image, {
+          resizeWidth,
+          resizeHeight: Math.max(1, Math.round(resizeWidth / aspect)),
+          resizeQuality: "high",
+        }),
+      };
+    }),
+  );
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(createAppError("imageUnreadable"));
+    reader.readAsDataURL(file);
+  });
+
+/** Reads an uploaded logo or photo into a data URL plus its aspect ratio. */
+export const readImageFile = async (file: File) => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw createAppError("imageType");
+  }
+
+  const src = await readAsDataUrl(file);
+  const image = await loadImage(src);
+  // SVGs without width/height report no natural size; treat them as square.
+  const aspect =
+    image.naturalWidth && image.naturalHeight
+      ? image.naturalWidth / image.naturalHeight
+      : 1;
+  return { src, aspect };
+};
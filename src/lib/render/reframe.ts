@@ -0,0 +1,175 @@
+import type { FrameSize, RenderContext } from "@/lib/render/frame";
+
+export type AspectPreset = "source" | "9:16" | "1:1" | "4:5" | "16:9";
+
+/** `crop` fills the frame and pans over the source, `fit` letterboxes on a blurred copy. */
+export type ReframeMode = "crop" | "fit";
+
+/** Focus point of the crop in source fractions at a given time. */
+export type PanKeyframe = {
+  time: number;
+  x: number;
+  y: number;
+};
+
+export type OutputFormat = {
+  aspect: AspectPreset;
+  mode: ReframeMode;
+  /** Focus point used while there are no keyframes. */
+  pan: { x: number; y: number };
+  panKeyframes: PanKeyframe[];
+  /** Extra zoom on top of the crop, 1 = just fill the frame. */
+  zoom: number;
+  /** Background blur for `fit`, as a fraction of the output width. */
+  blur: number;
+};
+
+export const ASPECT_PRESETS: { value: AspectPreset; size: FrameSize | null }[] =
+  [
+    { value: "source", size: null },
+    { value: "9:16", size: { width: 1080, height: 1920 } },
+    { value: "1:1", size: { width: 1080, height: 1080 } },
+    { value: "4:5", size: { width: 1080, height: 1350 } },
+    { value: "16:9", size: { width: 1920, height: 1080 } },
+  ];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = {
+  aspect: "source",
+  mode: "crop",
+  pan: { x: 0.5, y: 0.5 },
+  panKeyframes: [],
+  zoom: 1,
+  blur: 0.04,
+};
+
+export const resolveOutputSize = (
+  format: OutputFormat,
+  source: FrameSize,
+): FrameSize =>
+  ASPECT_PRESETS.find((preset) => preset.value === format.aspect)?.size ??
+  source;
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/** Focus point at `time`, eased between the surrounding keyframes. */
+export const resolvePan = (format: OutputFormat, time: number) => {
+  const keyframes = format.panKeyframes;
+  if (keyframes.length === 0) {
+    return format.pan;
+  }
+
+  if (time <= keyframes[0].time) {
+    return keyframes[0];
+  }
+
+  for (let index = 1; index < keyframes.length; index += 1) {
+    const next = keyframes[index];
+    if (time <= next.time) {
+      const previous = keyframes[index - 1];
+      const span = next.time - previous.time;
+      const t = span > 0 ? smoothstep((time - previous.time) / span) : 1;
+      return {
+        x: previous.x + (next.x - previous.x) * t,
+        y: previous.y + (next.y - previous.y) * t,
+      };
+    }
+  }
+
+  return keyframes[keyframes.length - 1];
+};
+
+/** Inserts or replaces the keyframe at `time`, keeping the list sorted. */
+export const upsertPanKeyframe = (
+  format: OutputFormat,
+  keyframe: PanKeyframe,
+): OutputFormat => ({
+  ...format,
+  panKeyframes: [
+    ...format.panKeyframes.filter(
+      (entry) => Math.abs(entry.time - keyframe.time) > 0.05,
+    ),
+    keyframe,
+  ].sort((a, b) => a.time - b.time),
+});
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const drawCover = (
+  ctx: RenderContext,
+  source: CanvasImageSource,
+  sourceSize: FrameSize,
+  { width, height }: FrameSize,
+  focus: { x: number; y: number },
+  zoom: number,
+) => {
+  const scale =
+    Math.max(width / sourceSize.width, height / sourceSize.height) *
+    Math.max(1, zoom);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+  const sx = clamp(
+    focus.x * sourceSize.width - cropWidth / 2,
+    0,
+    sourceSize.width - cropWidth,
+  );
+  const sy = clamp(
+    focus.y * sourceSize.height - cropHeight / 2,
+    0,
+    sourceSize.height - cropHeight,
+  );
+
+  ctx.drawImage(source, sx, sy, cropWidth, cropHeight, 0, 0, width, height);
+};
+
+/** Draws the source video into the output frame according to `format`. */
+export const drawReframedSource = (
+  ctx: RenderContext,
+  source: CanvasImageSource,
+  sourceSize: FrameSize,
+  frame: FrameSize,
+  format: OutputFormat,
+  time: number,
+) => {
+  const sameAspect =
+    Math.abs(
+      sourceSize.width / sourceSize.height - frame.width / frame.height,
+    ) < 0.01;
+  if (sameAspect && format.zoom <= 1) {
+    ctx.drawImage(source, 0, 0, frame.width, frame.height);
+    return;
+  }
+
+  if (format.mode === "crop") {
+    drawCover(ctx, source, sourceSize, frame, resolvePan(format, time), format.zoom);
+    return;
+  }
+
+  ctx.save();
+  ctx.filter = `blur(${Math.round(format.blur * frame.width)}px) brightness(0.7)`;
+  // Overscan the blurred copy so its soft edges stay outside the frame.
+  const bleed = format.blur * frame.width * 2;
+  ctx.translate(-bleed, -bleed);
+  drawCover(
+    ctx,
+    source,
+    sourceSize,
+    { width: frame.width + bleed * 2, height: frame.height + bleed * 2 },
+    { x: 0.5, y: 0.5 },
+    1,
+  );
+  ctx.restore();
+
+  const scale =
+    Math.min(frame.width / sourceSize.width, frame.height / sourceSize.height) *
+    Math.max(1, format.zoom);
+  const drawWidth = sourceSize.width * scale;
+  const drawHeight = sourceSize.height * scale;
+  ctx.drawImage(
+    source,
+    (frame.width - drawWidth) / 2,
+    (frame.height - drawHeight) / 2,
+    drawWidth,
+    drawHeight,
+  );
+};
@@ -0,0 +1,205 @@
+import type { RenderContext } from "@/lib/render/frame";
+import type { VerticalAlign } from "@/lib/scene";
+
+/** Width of `text` in pixels at the font being laid out. */
+export type MeasureText = (text: string) => number;
+
+const ELLIPSIS = "…";
+
+/** Shrink-to-fit stops at this fraction of the styled size. */
+const MIN_FIT_SCALE = 0.35;
+const FIT_STEP = 0.94;
+
+const graphemeSegmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+/**
+ * User-perceived characters, so emoji sequences and letters with combining
+ * marks are never split apart.
+ */
+export const splitGraphemes = (text: string) =>
+  graphemeSegmenter
+    ? Array.from(graphemeSegmenter.segment(text), (part) => part.segment)
+    : Array.from(text);
+
+const splitWords = (paragraph: string) =>
+  paragraph.split(/[ \t]+/).filter(Boolean);
+
+/** Greedy wrap of one paragraph; words wider than a line break anywhere. */
+const wrapParagraph = (
+  measure: MeasureText,
+  paragraph: string,
+  maxWidth: number,
+) => {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of splitWords(paragraph)) {
+    const testLine = line ? `${line} ${word}` : word;
+    if (measure(testLine) <= maxWidth) {
+      line = testLine;
+      continue;
+    }
+    if (line) {
+      lines.push(line);
+      line = "";
+    }
+    if (measure(word) <= maxWidth) {
+      line = word;
+      continue;
+    }
+    for (const grapheme of splitGraphemes(word)) {
+      if (line && measure(line + grapheme) > maxWidth) {
+        lines.push(line);
+        line = grapheme;
+      } else {
+        line += grapheme;
+      }
+    }
+  }
+
+  lines.push(line);
+  return lines;
+};
+
+/**
+ * Wraps text to `maxWidth`, keeping its explicit line breaks. Takes a
+ * measure function rather than a canvas so the server renderer can lay
+ * text out with the same rules.
+ */
+export const wrapText = (
+  measure: MeasureText,
+  text: string,
+  maxWidth: number,
+) =>
+  text
+    .normalize("NFC")
+    .split(/\r?\n/)
+    .flatMap((paragraph) => wrapParagraph(measure, paragraph, maxWidth));
+
+/** Keeps the first `maxLines` lines and ends the last one with "…". */
+export const truncateLines = (
+  measure: MeasureText,
+  lines: string[],
+  maxLines: number,
+  maxWidth: number,
+) => {
+  if (lines.length <= maxLines) {
+    return lines;
+  }
+
+  const kept = lines.slice(0, Math.max(1, maxLines));
+  const last = splitGraphemes(kept[kept.length - 1]);
+  const withEllipsis = () => `${last.join("").trimEnd()}${ELLIPSIS}`;
+  while (last.length > 0 && measure(withEllipsis()) > maxWidth) {
+    last.pop();
+  }
+  kept[kept.length - 1] = withEllipsis();
+  return kept;
+};
+
+export type TextBlockOptions = {
+  /** Styled font size in pixels. */
+  fontSize: number;
+  /** Line advance as a multiple of the font size. */
+  lineHeight: number;
+  /** Inner padding of the box, in em. */
+  padding: number;
+  width: number;
+  height: number;
+  /** 0 allows any number of lines. */
+  maxLines: number;
+  /** Shrink the font until the text fits the box without breaking words. */
+  autoFit: boolean;
+};
+
+export type TextBlock = {
+  lines: string[];
+  /** Font size after fitting, in pixels. */
+  fontSize: number;
+  lineHeight: number;
+  padding: number;
+};
+
+/**
+ * Lays a text layer out inside its box. `measureAt` measures at a given
+ * font size, since fitting tries several.
+ */
+export const layoutTextBlock = (
+  measureAt: (fontSize: number) => MeasureText,
+  text: string,
+  options: TextBlockOptions,
+): TextBlock => {
+  const maxLines = options.maxLines > 0 ? options.maxLines : Infinity;
+
+  const layoutAt = (fontSize: number) => {
+    const measure = measureAt(fontSize);
+    const padding = fontSize * options.padding;
+    const maxWidth = Math.max(0, options.width - padding * 2);
+    return {
+      measure,
+      maxWidth,
+      lines: wrapText(measure, text, maxWidth),
+      fontSize,
+      lineHeight: fontSize * options.lineHeight,
+      padding,
+    };
+  };
+
+  let layout = layoutAt(options.fontSize);
+  let lineLimit = maxLines;
+
+  if (options.autoFit) {
+    const words = splitWords(text.normalize("NFC").replace(/\r?\n/g, " "));
+    const fits = (candidate: typeof layout) =>
+      candidate.lines.length <= maxLines &&
+      candidate.lines.length * candidate.lineHeight + candidate.padding * 2 <=
+        options.height &&
+      words.every((word) => candidate.measure(word) <= candidate.maxWidth);
+
+    const minSize = options.fontSize * MIN_FIT_SCALE;
+    while (!fits(layout) && layout.fontSize * FIT_STEP >= minSize) {
+      layout = layoutAt(layout.fontSize * FIT_STEP);
+    }
+    // Whatever still overflows at the smallest size is cut at the box.
+    lineLimit = Math.min(
+      maxLines,
+      Math.max(
+        1,
+        Math.floor((options.height - layout.padding * 2) / layout.lineHeight),
+      ),
+    );
+  }
+
+  return {
+    lines: truncateLines(layout.measure, layout.lines, lineLimit, layout.maxWidth),
+    fontSize: layout.fontSize,
+    lineHeight: layout.lineHeight,
+    padding: layout.padding,
+  };
+};
+
+/** Top edge of the text block; `bottom` blocks grow upward as lines add. */
+export const resolveBlockTop = (
+  align: VerticalAlign,
+  top: number,
+  boxHeight: number,
+  blockHeight: number,
+  padding: number,
+) => {
+  switch (align) {
+    case "top":
+      return top + padding;
+    case "bottom":
+      return top + boxHeight - padding - blockHeight;
+    case "middle":
+      return top + (boxHeight - blockHeight) / 2;
+  }
+};
+
+export const measureWith =
+  (ctx: RenderContext): MeasureText =>
+  (text) =>
+    ctx.measureText(text).width;
@@ -0,0 +1,75 @@
+import { createAppError } from "@/lib/errors";
+import {
+  CODEC_PROFILES,
+  DEFAULT_EXPORT_SETTINGS,
+  ExportSettings,
+  QUALITY_OPTIONS,
+  RESOLUTION_OPTIONS,
+} from "@/lib/export/settings";
+import type { OverlayScene } from "@/lib/scene";
+import { parseScene } from "@/lib/sceneSchema";
+
+/**
+ * What a headless render needs besides the source video. The editor
+ * downloads it, and both `POST /api/render` and `npm run render` read it.
+ */
+export type RenderSpec = {
+  scene: OverlayScene;
+  settings: ExportSettings;
+};
+
+const SPEC_TYPE = "promo-studio-render";
+const SPEC_VERSION = 1;
+
+export const serializeRenderSpec = ({ scene, settings }: RenderSpec) =>
+  JSON.stringify(
+    { type: SPEC_TYPE, version: SPEC_VERSION, scene, settings },
+    null,
+    2,
+  );
+
+const parseSettings = (raw: unknown): ExportSettings => {
+  const settings = (
+    typeof raw === "object" && raw !== null ? raw : {}
+  ) as Partial<Record<keyof ExportSettings, unknown>>;
+  const { container, resolution, frameRate, quality, bitrate } = settings;
+
+  return {
+    container:
+      typeof container === "string" && container in CODEC_PROFILES
+        ? (container as ExportSettings["container"])
+        : DEFAULT_EXPORT_SETTINGS.container,
+    resolution:
+      RESOLUTION_OPTIONS.find((option) => option === resolution) ??
+      DEFAULT_EXPORT_SETTINGS.resolution,
+    frameRate:
+      typeof frameRate === "number" && frameRate > 0 && frameRate <= 120
+        ? frameRate
+        : DEFAULT_EXPORT_SETTINGS.frameRate,
+    quality:
+      QUALITY_OPTIONS.find((option) => option === quality) ??
+      DEFAULT_EXPORT_SETTINGS.quality,
+    bitrate:
+      typeof bitrate === "number" && bitrate > 0
+        ? bitrate
+        : DEFAULT_EXPORT_SETTINGS.bitrate,
+  };
+};
+
+/**
+ * Reads a spec written by `serializeRenderSpec`. A bare scene is accepted
+ * too and renders with the default export settings.
+ */
+export const parseRenderSpec = (source: string): RenderSpec => {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    throw createAppError("specNotJson");
+  }
+
+  const spec = data as { type?: unknown; scene?: unknown; settings?: unknown };
+  return spec?.type === SPEC_TYPE
+    ? { scene: parseScene(spec.scene), settings: parseSettings(spec.settings) }
+    : { scene: parseScene(data), settings: DEFAULT_EXPORT_SETTINGS };
+};
@@ -0,0 +1,37 @@
+export type SafeAreaPlatform = "instagram" | "tiktok" | "youtube";
+
+/** Insets the platform UI covers, as fractions of a 9:16 frame. */
+export type SafeAreaInsets = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type SafeAreaGuide = {
+  platform: SafeAreaPlatform;
+  label: string;
+  color: string;
+  insets: SafeAreaInsets;
+};
+
+export const SAFE_AREA_GUIDES: SafeAreaGuide[] = [
+  {
+    platform: "instagram",
+    label: "Instagram Reels",
+    color: "#f472b6",
+    insets: { top: 0.14, right: 0.06, bottom: 0.35, left: 0.06 },
+  },
+  {
+    platform: "tiktok",
+    label: "TikTok",
+    color: "#22d3ee",
+    insets: { top: 0.08, right: 0.12, bottom: 0.2, left: 0.05 },
+  },
+  {
+    platform: "youtube",
+    label: "YouTube Shorts",
+    color: "#f87171",
+    insets: { top: 0.08, right: 0.14, bottom: 0.25, left: 0.05 },
+  },
+];
@@ -0,0 +1,406 @@
+import { CaptionTrack, createCaptionTrack } from "@/lib/captions";
+import {
+  CountdownSettings,
+  countdownSeconds,
+  formatCountdown,
+} from "@/lib/countdown";
+import {
+  ColorGrading,
+  DEFAULT_GRADIENT,
+  NEUTRAL_GRADING,
+  OverlayGradient,
+} from "@/lib/grading";
+import { DEFAULT_LANGUAGES, OverlayLanguage } from "@/lib/languages";
+import { DEFAULT_OUTPUT_FORMAT, OutputFormat } from "@/lib/render/reframe";
+
+export type LayerKind = "text" | "image";
+
+export type TextAlign = "left" | "center" | "right";
+
+/** Where the text block sits in its box; `bottom` grows upward. */
+export type VerticalAlign = "top" | "middle" | "bottom";
+
+/** `box` fills the whole layer box, `text` hugs the text as a pill. */
+export type BackgroundFit = "box" | "text";
+
+/**
+ * Layer geometry expressed as fractions of the output frame, so the same
+ * scene can be drawn at any resolution. Rotation is in degrees around the
+ * box center.
+ */
+export type LayerBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+};
+
+export type TextStyle = {
+  /** A system family or one of the scene's fonts; `null` uses Geist. */
+  fontFamily: string | null;
+  color: string;
+  /** When set, the scene accent color wins over `color`. */
+  useAccent: boolean;
+  /** Font size as a fraction of the frame width. */
+  fontSize: number;
+  fontWeight: number;
+  /** Extra space between characters, in em. */
+  letterSpacing: number;
+  /** Line advance as a multiple of the font size. */
+  lineHeight: number;
+  uppercase: boolean;
+  align: TextAlign;
+  verticalAlign: VerticalAlign;
+  /** Lines beyond this end in an ellipsis; 0 means no limit. */
+  maxLines: number;
+  /** Shrinks the font until the text fits its box. */
+  autoFit: boolean;
+  /** Outline width in em; 0 draws no outline. */
+  strokeWidth: number;
+  strokeColor: string;
+  shadow: boolean;
+  shadowColor: string;
+  /** Fill painted behind the layer, or `null` for none. */
+  background: string | null;
+  backgroundFit: BackgroundFit;
+  /** Space around the text inside the background, in em. */
+  backgroundPadding: number;
+  /** Corner radius in em, capped at a full pill. */
+  backgroundRadius: number;
+};
+
+/** A font file uploaded by the user, embedded so the scene stays portable. */
+export type SceneFont = {
+  family: string;
+  /** Data URL of the TTF, OTF, WOFF or WOFF2 file. */
+  src: string;
+};
+
+export type AnimationKind = "none" | "fade" | "slide" | "scale" | "typewriter";
+
+export type AnimationEasing = "linear" | "easeIn" | "easeOut" | "easeInOut" | "back";
+
+export type SlideDirection = "left" | "right" | "top" | "bottom";
+
+export type LayerAnimation = {
+  kind: AnimationKind;
+  /** Seconds. */
+  duration: number;
+  easing: AnimationEasing;
+  /** Edge a slide enters from or exits towards. */
+  direction: SlideDirection;
+};
+
+/** In/out points in seconds; `end: null` keeps the layer until the video ends. */
+export type LayerTiming = {
+  start: number;
+  end: number | null;
+};
+
+/** Canvas blend modes offered for image layers; `normal` is `source-over`. */
+export type BlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "soft-light"
+  | "darken"
+  | "lighten";
+
+type LayerBase = {
+  id: string;
+  name: string;
+  box: LayerBox;
+  timing: LayerTiming;
+  enter: LayerAnimation;
+  exit: LayerAnimation;
+  zIndex: number;
+};
+
+export type TextLayer = LayerBase & {
+  kind: "text";
+  content: string;
+  style: TextStyle;
+  /** When set, the layer shows the time left instead of `content`. */
+  countdown: CountdownSettings | null;
+  /** `content` in the scene's other languages, by language code. */
+  translations: Record<string, string>;
+};
+
+export type ImageLayer = LayerBase & {
+  kind: "image";
+  /** Data URL, so the scene stays self-contained when saved. */
+  src: string;
+  /** Natural width / height of the image. */
+  aspect: number;
+  opacity: number;
+  blendMode: BlendMode;
+  /**
+   * Watermarks ignore timing and animations, always paint on top and are
+   * restored into every new session.
+   */
+  watermark: boolean;
+};
+
+export type OverlayLayer = TextLayer | ImageLayer;
+
+export type OverlayScene = {
+  accentColor: string;
+  format: OutputFormat;
+  layers: OverlayLayer[];
+  /** Dialogue captions, burned in above the layers. */
+  captions: CaptionTrack;
+  /** Custom fonts the text layers can pick by family name. */
+  fonts: SceneFont[];
+  /** Versions of the text to export; the first one is `content` itself. */
+  languages: OverlayLanguage[];
+  /** Color adjustments and LUT for the video under the overlay. */
+  grading: ColorGrading;
+  gradient: OverlayGradient;
+};
+
+export const DEFAULT_ACCENT_COLOR = "#facc15";
+
+export const DEFAULT_HEADLINE = "BLACK FRIDAY 28 NËNTORI";
+export const DEFAULT_BODY =
+  "Personalizoni shishet me logo, foto dhe shkrime sipas dëshirës.";
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: null,
+  color: "#ffffff",
+  useAccent: false,
+  fontSize: 0.032,
+  fontWeight: 400,
+  letterSpacing: 0,
+  lineHeight: 1.25,
+  uppercase: false,
+  align: "center",
+  verticalAlign: "middle",
+  maxLines: 0,
+  autoFit: false,
+  strokeWidth: 0,
+  strokeColor: "#000000",
+  shadow: false,
+  shadowColor: "rgba(0,0,0,0.8)",
+  background: null,
+  backgroundFit: "box",
+  backgroundPadding: 0.4,
+  backgroundRadius: 0,
+};
+
+export const NO_ANIMATION: LayerAnimation = {
+  kind: "none",
+  duration: 0.6,
+  easing: "easeOut",
+  direction: "bottom",
+};
+
+export const createLayerId = () => crypto.randomUUID();
+
+export const createTextLayer = (
+  overrides: Partial<
+    Omit<TextLayer, "id" | "kind" | "style" | "enter" | "exit">
+  > &
+    Pick<TextLayer, "name"> & {
+      style?: Partial<TextStyle>;
+      enter?: Partial<LayerAnimation>;
+      exit?: Partial<LayerAnimation>;
+    },
+): TextLayer => ({
+  id: createLayerId(),
+  kind: "text",
+  name: overrides.name,
+  content: overrides.content ?? "",
+  countdown: overrides.countdown ?? null,
+  translations: overrides.translations ?? {},
+  box: overrides.box ?? {
+    x: 0.15,
+    y: 0.45,
+    width: 0.7,
+    height: 0.1,
+    rotation: 0,
+  },
+  style: { ...DEFAULT_TEXT_STYLE, ...overrides.style },
+  timing: overrides.timing ?? { start: 0, end: null },
+  enter: { ...NO_ANIMATION, ...overrides.enter },
+  exit: { ...NO_ANIMATION, ...overrides.exit },
+  zIndex: overrides.zIndex ?? 0,
+});
+
+export const createImageLayer = (
+  overrides: Partial<Omit<ImageLayer, "id" | "kind">> &
+    Pick<ImageLayer, "name" | "src" | "aspect">,
+): ImageLayer => ({
+  id: createLayerId(),
+  kind: "image",
+  name: overrides.name,
+  src: overrides.src,
+  aspect: overrides.aspect,
+  box: overrides.box ?? {
+    x: 0.4,
+    y: 0.4,
+    width: 0.2,
+    height: 0.2,
+    rotation: 0,
+  },
+  opacity: overrides.opacity ?? 1,
+  blendMode: overrides.blendMode ?? "normal",
+  watermark: overrides.watermark ?? false,
+  timing: overrides.timing ?? { start: 0, end: null },
+  enter: overrides.enter ?? NO_ANIMATION,
+  exit: overrides.exit ?? NO_ANIMATION,
+  zIndex: overrides.zIndex ?? 0,
+});
+
+export const createDefaultScene = (): OverlayScene => ({
+  accentColor: DEFAULT_ACCENT_COLOR,
+  format: DEFAULT_OUTPUT_FORMAT,
+  captions: createCaptionTrack(),
+  fonts: [],
+  languages: DEFAULT_LANGUAGES,
+  grading: NEUTRAL_GRADING,
+  gradient: DEFAULT_GRADIENT,
+  layers: [
+    createTextLayer({
+      name: "Linja Live",
+      content: "",
+      box: { x: 0.08, y: 0.12, width: 0.84, height: 0.08, rotation: 0 },
+      style: {
+        fontSize: 0.035,
+        fontWeight: 600,
+        align: "left",
+        background: "rgba(0,0,0,0.45)",
+      },
+      zIndex: 0,
+    }),
+    createTextLayer({
+      name: "Oferta e Ditës",
+      content: "Oferta e Ditës",
+      box: { x: 0.3, y: 0.61, width: 0.4, height: 0.07, rotation: 0 },
+      style: {
+        useAccent: true,
+        fontSize: 0.018,
+        fontWeight: 600,
+        uppercase: true,
+        background: "rgba(0,0,0,0.45)",
+        backgroundFit: "text",
+        backgroundRadius: 2,
+      },
+      zIndex: 1,
+    }),
+    createTextLayer({
+      name: "Titulli Kryesor",
+      content: DEFAULT_HEADLINE,
+      box: { x: 0.05, y: 0.7, width: 0.9, height: 0.1, rotation: 0 },
+      style: {
+        useAccent: true,
+        fontSize: 0.075,
+        fontWeight: 800,
+        uppercase: true,
+        shadow: true,
+        autoFit: true,
+      },
+      enter: { kind: "scale", easing: "back" },
+      zIndex: 2,
+    }),
+    createTextLayer({
+      name: "Teksti Mbështetës",
+      content: DEFAULT_BODY,
+      box: { x: 0.15, y: 0.82, width: 0.7, height: 0.14, rotation: 0 },
+      style: { verticalAlign: "bottom", maxLines: 4 },
+      enter: { kind: "fade", duration: 0.8 },
+      zIndex: 3,
+    }),
+  ],
+});
+
+export const isWatermark = (layer: OverlayLayer): layer is ImageLayer =>
+  layer.kind === "image" && layer.watermark;
+
+/** Layers ordered back-to-front, the order the renderer paints them in. */
+export const sortLayers = (layers: OverlayLayer[]) =>
+  [...layers].sort((a, b) => a.zIndex - b.zIndex);
+
+const normalizeZIndex = (layers: OverlayLayer[]) =>
+  layers.map((layer, index) =>
+    layer.zIndex === index ? layer : { ...layer, zIndex: index },
+  );
+
+export const addLayer = (scene: OverlayScene, layer: OverlayLayer) => ({
+  ...scene,
+  layers: normalizeZIndex([...sortLayers(scene.layers), layer]),
+});
+
+export const updateLayer = (
+  scene: OverlayScene,
+  id: string,
+  update: (layer: OverlayLayer) => OverlayLayer,
+): OverlayScene => ({
+  ...scene,
+  layers: scene.layers.map((layer) => (layer.id === id ? update(layer) : layer)),
+});
+
+export const removeLayer = (scene: OverlayScene, id: string) => ({
+  ...scene,
+  layers: normalizeZIndex(
+    sortLayers(scene.layers).filter((layer) => layer.id !== id),
+  ),
+});
+
+/** `rename` names the copy after the original, in the interface language. */
+export const duplicateLayer = (
+  scene: OverlayScene,
+  id: string,
+  rename: (name: string) => string,
+) => {
+  const ordered = sortLayers(scene.layers);
+  const index = ordered.findIndex((layer) => layer.id === id);
+  if (index === -1) {
+    return { scene, id: null };
+  }
+
+  const source = ordered[index];
+  const copy: OverlayLayer = {
+    ...structuredClone(source),
+    id: createLayerId(),
+    name: rename(source.name),
+  };
+  ordered.splice(index + 1, 0, copy);
+
+  return { scene: { ...scene, layers: normalizeZIndex(ordered) }, id: copy.id };
+};
+
+/** Moves a layer one step towards the front (`1`) or the back (`-1`). */
+export const moveLayer = (
+  scene: OverlayScene,
+  id: string,
+  direction: 1 | -1,
+): OverlayScene => {
+  const ordered = sortLayers(scene.layers);
+  const index = ordered.findIndex((layer) => layer.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= ordered.length) {
+    return scene;
+  }
+
+  [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+  return { ...scene, layers: normalizeZIndex(ordered) };
+};
+
+export const resolveTextColor = (scene: OverlayScene, style: TextStyle) =>
+  style.useAccent ? scene.accentColor : style.color;
+
+/**
+ * The text a layer draws at playhead `time` of a render made at `now`
+ * (epoch ms), with the uppercase style applied.
+ */
+export const resolveLayerText = (layer: TextLayer, now: number, time: number) => {
+  const text = layer.countdown
+    ? formatCountdown(
+        layer.countdown,
+        countdownSeconds(layer.countdown, now, time),
+      )
+    : layer.content;
+  return layer.style.uppercase ? text.toUpperCase() : text;
+};
@@ -0,0 +1,338 @@
+import type {
+  BrandColor,
+  BrandKit,
+  BrandLogo,
+  BrandTextStyle,
+} from "@/lib/brandKit";
+import {
+  CaptionCue,
+  CaptionTrack,
+  DEFAULT_CAPTION_STYLE,
+  createCaptionTrack,
+  createCue,
+} from "@/lib/captions";
+import {
+  CountdownSettings,
+  CountdownWording,
+  createCountdown,
+  findCountdownWording,
+} from "@/lib/countdown";
+import { createAppError } from "@/lib/errors";
+import {
+  ColorGrading,
+  DEFAULT_GRADIENT,
+  MAX_LUT_SIZE,
+  NEUTRAL_GRADING,
+} from "@/lib/grading";
+import { DEFAULT_LANGUAGES, OverlayLanguage } from "@/lib/languages";
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  OutputFormat,
+  PanKeyframe,
+} from "@/lib/render/reframe";
+import {
+  DEFAULT_ACCENT_COLOR,
+  DEFAULT_TEXT_STYLE,
+  ImageLayer,
+  LayerAnimation,
+  NO_ANIMATION,
+  OverlayLayer,
+  OverlayScene,
+  SceneFont,
+  TextLayer,
+  createImageLayer,
+  createTextLayer,
+} from "@/lib/scene";
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const pick = <T extends object>(defaults: T, raw: unknown): T => {
+  if (!isObject(raw)) {
+    return defaults;
+  }
+  const result = { ...defaults } as Json;
+  for (const key of Object.keys(defaults)) {
+    const value = raw[key];
+    const fallback = (defaults as Json)[key];
+    // Keep the default whenever the stored value has a different shape.
+    const nullable =
+      value === null && (fallback === null || typeof fallback === "string");
+    if (
+      value !== undefined &&
+      (typeof value === typeof fallback || fallback === null || nullable)
+    ) {
+      result[key] = value;
+    }
+  }
+  return result as T;
+};
+
+const parseWording = (
+  defaults: CountdownWording,
+  raw: unknown,
+): CountdownWording => ({
+  endedText: pick(defaults, raw).endedText,
+  labels: pick(defaults.labels, isObject(raw) ? raw.labels : undefined),
+});
+
+/**
+ * Countdowns saved before they had labels were always worded in Albanian,
+ * so that is what missing words default to.
+ */
+const parseCountdown = (raw: Json): CountdownSettings => {
+  const defaults = createCountdown("sq");
+  const countdown = { ...pick(defaults, raw), ...parseWording(defaults, raw) };
+  const translations = isObject(raw.translations)
+    ? Object.entries(raw.translations).filter(([, wording]) =>
+        isObject(wording),
+      )
+    : [];
+  return {
+    ...countdown,
+    translations: Object.fromEntries(
+      translations.map(([code, wording]) => [
+        code,
+        parseWording(findCountdownWording(code) ?? countdown, wording),
+      ]),
+    ),
+  };
+};
+
+const parseAnimation = (raw: unknown): LayerAnimation =>
+  pick(NO_ANIMATION, raw);
+
+const parseLayer = (raw: unknown, index: number): OverlayLayer | null => {
+  if (!isObject(raw)) {
+    return null;
+  }
+
+  const common = {
+    name: typeof raw.name === "string" ? raw.name : undefined,
+    box: pick(
+      { x: 0.1, y: 0.1, width: 0.8, height: 0.1, rotation: 0 },
+      raw.box,
+    ),
+    timing: pick<{ start: number; end: number | null }>(
+      { start: 0, end: null },
+      raw.timing,
+    ),
+    enter: parseAnimation(raw.enter),
+    exit: parseAnimation(raw.exit),
+    zIndex: typeof raw.zIndex === "number" ? raw.zIndex : index,
+  };
+
+  if (raw.kind === "image") {
+    if (typeof raw.src !== "string" || !raw.src) {
+      return null;
+    }
+    const defaults = createImageLayer({ name: "", src: raw.src, aspect: 1 });
+    const layer: ImageLayer = {
+      ...pick(defaults, raw),
+      ...common,
+      name: common.name ?? defaults.name,
+      id: defaults.id,
+      kind: "image",
+    };
+    return layer;
+  }
+
+  if (raw.kind === "text") {
+    const defaults = createTextLayer({ name: "" });
+    const style = pick(defaults.style, raw.style);
+    // Text-fit backgrounds were always drawn as pills before radii existed.
+    if (
+      style.backgroundFit === "text" &&
+      isObject(raw.style) &&
+      raw.style.backgroundRadius === undefined
+    ) {
+      style.backgroundRadius = 2;
+    }
+    const layer: TextLayer = {
+      ...pick(defaults, raw),
+      ...common,
+      name: common.name ?? defaults.name,
+      id: defaults.id,
+      kind: "text",
+      style,
+      countdown: isObject(raw.countdown) ? parseCountdown(raw.countdown) : null,
+      translations: isObject(raw.translations)
+        ? Object.fromEntries(
+            Object.entries(raw.translations).filter(
+              (entry): entry is [string, string] =>
+                typeof entry[1] === "string",
+            ),
+          )
+        : {},
+    };
+    return layer;
+  }
+
+  return null;
+};
+
+/** Drops malformed entries and repeated codes; never leaves the list empty. */
+const parseLanguages = (raw: unknown): OverlayLanguage[] => {
+  const languages = Array.isArray(raw)
+    ? raw.filter(
+        (entry, index): entry is OverlayLanguage =>
+          isObject(entry) &&
+          typeof entry.code === "string" &&
+          entry.code.trim() !== "" &&
+          typeof entry.label === "string" &&
+          raw.findIndex(
+            (other) => isObject(other) && other.code === entry.code,
+          ) === index,
+      )
+    : [];
+  return languages.length > 0
+    ? languages.map(({ code, label }) => ({ code, label }))
+    : DEFAULT_LANGUAGES;
+};
+
+/** Keeps a LUT only when its data holds exactly `size`³ RGB triples. */
+const parseGrading = (raw: unknown): ColorGrading => {
+  const grading = pick(NEUTRAL_GRADING, raw);
+  const lut = isObject(raw) ? raw.lut : null;
+  const size = isObject(lut) ? lut.size : null;
+  return {
+    ...grading,
+    lut:
+      isObject(lut) &&
+      typeof lut.name === "string" &&
+      typeof lut.data === "string" &&
+      typeof size === "number" &&
+      Number.isInteger(size) &&
+      size >= 2 &&
+      size <= MAX_LUT_SIZE &&
+      // Base64 of size³ × 3 bytes.
+      lut.data.length === size ** 3 * 4
+        ? { name: lut.name, size, data: lut.data }
+        : null,
+  };
+};
+
+const parseFonts = (raw: unknown): SceneFont[] =>
+  Array.isArray(raw)
+    ? raw.filter(
+        (entry): entry is SceneFont =>
+          isObject(entry) &&
+          typeof entry.family === "string" &&
+          typeof entry.src === "string",
+      )
+    : [];
+
+const parseCaptions = (raw: unknown): CaptionTrack => {
+  if (!isObject(raw)) {
+    return createCaptionTrack();
+  }
+  const cues = Array.isArray(raw.cues)
+    ? raw.cues.flatMap((entry): CaptionCue[] =>
+        isObject(entry) &&
+        typeof entry.start === "number" &&
+        typeof entry.end === "number" &&
+        typeof entry.text === "string"
+          ? [createCue(entry.start, entry.end, entry.text)]
+          : [],
+      )
+    : [];
+  return {
+    enabled: typeof raw.enabled === "boolean" ? raw.enabled : true,
+    cues,
+    style: pick(DEFAULT_CAPTION_STYLE, raw.style),
+  };
+};
+
+/**
+ * Rebuilds a scene from saved or shared JSON. Fields missing from older
+ * files fall back to today's defaults and every layer gets a fresh id, so
+ * the same file can be loaded twice without clashes.
+ */
+export const parseScene = (raw: unknown): OverlayScene => {
+  if (!isObject(raw) || !Array.isArray(raw.layers)) {
+    throw createAppError("sceneInvalid");
+  }
+
+  const format: OutputFormat = {
+    ...pick(DEFAULT_OUTPUT_FORMAT, raw.format),
+    pan: pick(
+      DEFAULT_OUTPUT_FORMAT.pan,
+      isObject(raw.format) ? raw.format.pan : null,
+    ),
+    panKeyframes:
+      isObject(raw.format) && Array.isArray(raw.format.panKeyframes)
+        ? raw.format.panKeyframes.filter(
+            (entry): entry is PanKeyframe =>
+              isObject(entry) &&
+              typeof entry.time === "number" &&
+              typeof entry.x === "number" &&
+              typeof entry.y === "number",
+          )
+        : [],
+  };
+
+  return {
+    accentColor:
+      typeof raw.accentColor === "string"
+        ? raw.accentColor
+        : DEFAULT_ACCENT_COLOR,
+    format,
+    captions: parseCaptions(raw.captions),
+    fonts: parseFonts(raw.fonts),
+    languages: parseLanguages(raw.languages),
+    grading: parseGrading(raw.grading),
+    gradient: pick(DEFAULT_GRADIENT, raw.gradient),
+    layers: raw.layers.flatMap((entry, index) => {
+      const layer = parseLayer(entry, index);
+      return layer ? [layer] : [];
+    }),
+  };
+};
+
+const parseList = <T>(raw: unknown, parse: (entry: Json) => T | null) =>
+  Array.isArray(raw)
+    ? raw.flatMap((entry) => {
+        const item = isObject(entry) ? parse(entry) : null;
+        return item ? [item] : [];
+      })
+    : [];
+
+const readName = (entry: Json) =>
+  typeof entry.name === "string" ? entry.name : "";
+
+/** Drops malformed entries and gives every item a fresh id. */
+export const parseBrandKit = (raw: unknown): BrandKit => {
+  const kit = isObject(raw) ? raw : {};
+  return {
+    colors: parseList(kit.colors, (entry): BrandColor | null =>
+      typeof entry.value === "string"
+        ? { id: crypto.randomUUID(), name: readName(entry), value: entry.value }
+        : null,
+    ),
+    fonts: parseFonts(kit.fonts),
+    logos: parseList(kit.logos, (entry): BrandLogo | null =>
+      typeof entry.src === "string" && entry.src
+        ? {
+            id: crypto.randomUUID(),
+            name: readName(entry),
+            src: entry.src,
+            aspect:
+              typeof entry.aspect === "number" && entry.aspect > 0
+                ? entry.aspect
+                : 1,
+          }
+        : null,
+    ),
+    textStyles: parseList(kit.textStyles, (entry): BrandTextStyle | null =>
+      isObject(entry.style)
+        ? {
+            id: crypto.randomUUID(),
+            name: readName(entry),
+            style: pick(DEFAULT_TEXT_STYLE, entry.style),
+          }
+        : null,
+    ),
+  };
+};
@@ -0,0 +1,141 @@
+import { createAppError } from "@/lib/errors";
+import {
+  SourceInfo,
+  checkSourceSize,
+  createUndecodableError,
+  probeSource,
+} from "@/lib/probe";
+import { ensureMetadata, resolveDuration } from "@/lib/video";
+
+/** One source file in the edit, with its in/out trim points in seconds. */
+export type Clip = {
+  id: string;
+  file: File;
+  url: string;
+  name: string;
+  duration: number;
+  width: number;
+  height: number;
+  trimStart: number;
+  trimEnd: number;
+  /** What the file's headers say; `null` for clips saved before probing. */
+  source: SourceInfo | null;
+};
+
+/** Shortest trim the editor allows, in seconds. */
+export const MIN_CLIP_LENGTH = 0.1;
+
+export const getClipLength = (clip: Clip) =>
+  Math.max(0, clip.trimEnd - clip.trimStart);
+
+export const getSequenceDuration = (clips: Clip[]) =>
+  clips.reduce((total, clip) => total + getClipLength(clip), 0);
+
+/** Sequence time at which the clip at `index` starts. */
+export const getClipOffset = (clips: Clip[], index: number) =>
+  getSequenceDuration(clips.slice(0, index));
+
+/**
+ * Maps a sequence time onto the clip that plays it and the matching time
+ * inside that clip's file. Times past the end land on the last frame.
+ */
+export const locateInSequence = (clips: Clip[], time: number) => {
+  let offset = 0;
+  for (let index = 0; index < clips.length; index += 1) {
+    const clip = clips[index];
+    const length = getClipLength(clip);
+    const isLast = index === clips.length - 1;
+    if (time < offset + length || isLast) {
+      const local = Math.min(Math.max(0, time - offset), length);
+      return { index, clip, offset, localTime: clip.trimStart + local };
+    }
+    offset += length;
+  }
+  return null;
+};
+
+/**
+ * Checks the file's size, probes its headers and loads its metadata, then
+ * wraps it as an untrimmed clip. Throws a message that names the reason
+ * when the browser cannot decode the file.
+ */
+export const createClip = async (file: File): Promise<Clip> => {
+  checkSourceSize(file);
+  const source = await probeSource(file);
+  const url = URL.createObjectURL(file);
+  const probe = document.createElement("video");
+  probe.preload = "metadata";
+  probe.muted = true;
+  probe.src = url;
+
+  let width = 0;
+  let height = 0;
+  let duration: number | null = null;
+  try {
+    await ensureMetadata(probe);
+    width = probe.videoWidth;
+    height = probe.videoHeight;
+    duration = await resolveDuration(probe);
+  } catch {
+    // Reported below, with what the headers tell about the file.
+  } finally {
+    probe.removeAttribute("src");
+    probe.load();
+  }
+
+  // Some browsers load an undecodable file's metadata but no picture size.
+  if (width === 0 || height === 0) {
+    URL.revokeObjectURL(url);
+    throw createUndecodableError(file.name, source);
+  }
+  if (duration === null) {
+    URL.revokeObjectURL(url);
+    throw createAppError("sourceDuration", file.name);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    file,
+    url,
+    name: file.name,
+    duration,
+    width,
+    height,
+    trimStart: 0,
+    trimEnd: duration,
+    source,
+  };
+};
+
+export const moveClip = (clips: Clip[], id: string, direction: 1 | -1) => {
+  const index = clips.findIndex((clip) => clip.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= clips.length) {
+    return clips;
+  }
+  const next = [...clips];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/** Sets a trim point, keeping it inside the file and the clip non-empty. */
+export const trimClip = (
+  clip: Clip,
+  edge: "trimStart" | "trimEnd",
+  value: number,
+): Clip =>
+  edge === "trimStart"
+    ? {
+        ...clip,
+        trimStart: Math.min(
+          Math.max(0, value),
+          clip.trimEnd - MIN_CLIP_LENGTH,
+        ),
+      }
+    : {
+        ...clip,
+        trimEnd: Math.max(
+          Math.min(clip.duration, value),
+          clip.trimStart + MIN_CLIP_LENGTH,
+        ),
+      };
@@ -0,0 +1,86 @@
+import { spawn } from "node:child_process";
+
+export type ProbeResult = {
+  width: number;
+  height: number;
+  duration: number;
+  hasAudio: boolean;
+};
+
+/** Lines of ffmpeg's log kept for the error message when it fails. */
+const LOG_TAIL_LINES = 12;
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+/** Runs a binary to completion, resolving with its stdout. */
+const run = (command: string, args: string[]) =>
+  new Promise<string>((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    child.stderr.on("data", (chunk) => {
+      // Only the tail matters, and encodes can log for a long time.
+      stderr = (stderr + chunk).slice(-8000);
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        new Error(
+          error.code === "ENOENT"
+            ? `${command} nuk u gjet. Instaloni ffmpeg ose vendosni FFMPEG_PATH dhe FFPROBE_PATH.`
+            : `${command} nuk mund të nisej: ${error.message}`,
+        ),
+      );
+    });
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout);
+        return;
+      }
+      const tail = stderr.trim().split("\n").slice(-LOG_TAIL_LINES).join("\n");
+      reject(new Error(`${command} dështoi (kodi ${code}).\n${tail}`));
+    });
+  });
+
+export const probeVideo = async (path: string): Promise<ProbeResult> => {
+  const output = await run(FFPROBE_PATH, [
+    "-v",
+    "error",
+    "-print_format",
+    "json",
+    "-show_streams",
+    "-show_format",
+    path,
+  ]);
+
+  const data = JSON.parse(output) as {
+    streams?: {
+      codec_type?: string;
+      width?: number;
+      height?: number;
+      tags?: { rotate?: string };
+    }[];
+    format?: { duration?: string };
+  };
+  const streams = data.streams ?? [];
+  const video = streams.find((stream) => stream.codec_type === "video");
+  if (!video?.width || !video.height) {
+    throw new Error("Skedari nuk përmban një pistë video të lexueshme.");
+  }
+
+  // ffmpeg auto-rotates phone footage, so the frame is the rotated size.
+  const rotated = Math.abs(Number(video.tags?.rotate ?? 0)) % 180 === 90;
+  const duration = Number(data.format?.duration);
+  return {
+    width: rotated ? video.height : video.width,
+    height: rotated ? video.width : video.height,
+    duration: Number.isFinite(duration) ? duration : 0,
+    hasAudio: streams.some((stream) => stream.codec_type === "audio"),
+  };
+};
+
+export const runFfmpeg = (args: string[]) =>
+  run(FFMPEG_PATH, ["-hide_banner", "-nostdin", "-y", ...args]);
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createCountdown } from "@/lib/countdown";
+import { localizeScene } from "@/lib/languages";
+import { parseScene } from "@/lib/sceneSchema";
+import {
+  OverlayFilterOptions,
+  buildOverlayFilter,
+  toFfmpegColor,
+} from "@/lib/server/overlayFilter";
+
+const options = (
+  changes: Partial<OverlayFilterOptions> = {},
+): OverlayFilterOptions => ({
+  source: { width: 1280, height: 720 },
+  size: { width: 1280, height: 720 },
+  frameRate: 30,
+  duration: 5,
+  font: { file: null, family: "Fallback Sans" },
+  now: Date.UTC(2030, 0, 1),
+  fontFiles: new Map(),
+  imageInputs: new Map(),
+  textPath: (index) => `/tmp/render/${index}.txt`,
+  lutPath: null,
+  ...changes,
+});
+
+const textScene = (layer: Record<string, unknown>) =>
+  parseScene({ layers: [{ kind: "text", content: "Hello", ...layer }] });
+
+describe("toFfmpegColor", () => {
+  it("writes CSS colors as ffmpeg colors", () => {
+    assert.equal(toFfmpegColor("#ff8000"), "0xff8000@1");
+    assert.equal(toFfmpegColor("rgba(0, 0, 255, 0.5)"), "0x0000ff@0.5");
+  });
+
+  it("draws nothing for colors it cannot read", () => {
+    assert.equal(toFfmpegColor("red:enable=0'"), "0x000000@0");
+  });
+});
+
+describe("buildOverlayFilter", () => {
+  it("escapes quotes and colons in quoted option values", () => {
+    const { graph } = buildOverlayFilter(
+      textScene({}),
+      options({ textPath: (index) => `/tmp/it's:here/${index}.txt` }),
+    );
+    assert.ok(graph.includes(`textfile='/tmp/it'\\\\\\''s\\:here/0.txt'`));
+  });
+
+  it("only passes fonts the scene or the system knows to fontconfig", () => {
+    const style = { fontFamily: "Evil':fontfile=/etc/passwd" };
+    const { graph } = buildOverlayFilter(textScene({ style }), options());
+    assert.ok(!graph.includes("Evil"));
+    assert.ok(graph.includes("font='Fallback Sans\\:weight="));
+  });
+
+  it("words a ticking countdown in the exported language", () => {
+    const countdown = {
+      ...createCountdown("sq"),
+      target: "2030-01-03T00:00",
+      timeZone: "UTC",
+    };
+    const scene = {
+      ...textScene({ countdown }),
+      languages: [
+        { code: "sq", label: "Shqip" },
+        { code: "en", label: "English" },
+      ],
+    };
+    const [albanian] = buildOverlayFilter(scene, options()).texts;
+    const [english] = buildOverlayFilter(
+      localizeScene(scene, "en"),
+      options(),
+    ).texts;
+    assert.match(albanian, /^%\{eif:[^}]+\} ditë %\{eif:[^}]+\} orë /);
+    assert.match(english, /^%\{eif:[^}]+\} days %\{eif:[^}]+\} hrs /);
+  });
+
+  it("escapes typed countdown labels for drawtext expansion", () => {
+    const countdown = createCountdown("en");
+    const scene = textScene({
+      countdown: {
+        ...countdown,
+        target: "2030-01-03T00:00",
+        timeZone: "UTC",
+        labels: { ...countdown.labels, seconds: "s\\ 100%" },
+      },
+    });
+    const [text] = buildOverlayFilter(scene, options()).texts;
+    assert.ok(text.endsWith("} s\\\\ 100\\%"));
+  });
+
+  it("keeps the layer text out of the graph", () => {
+    const content = "Sale: 50% off, it's 'today'";
+    const filter = buildOverlayFilter(textScene({ content }), options());
+    assert.deepEqual(filter.texts, [content]);
+    assert.ok(!filter.graph.includes("Sale"));
+  });
+});
@@ -0,0 +1,780 @@
+import type { CaptionTrack } from "@/lib/captions";
+import { parseColor } from "@/lib/color";
+import {
+  countdownSeconds,
+  formatCountdownParts,
+  formatDaysLeft,
+} from "@/lib/countdown";
+import {
+  LUMA_WEIGHTS,
+  VIGNETTE_INNER,
+  isNeutralGrading,
+  resolveGradingParams,
+} from "@/lib/grading";
+import { SYSTEM_FONT_FAMILIES } from "@/lib/render/fonts";
+import type { FrameSize } from "@/lib/render/frame";
+import { OutputFormat } from "@/lib/render/reframe";
+import {
+  MeasureText,
+  layoutTextBlock,
+  resolveBlockTop,
+  splitGraphemes,
+  wrapText,
+} from "@/lib/render/text";
+import {
+  AnimationEasing,
+  ImageLayer,
+  LayerAnimation,
+  OverlayLayer,
+  OverlayScene,
+  TextLayer,
+  isWatermark,
+  resolveLayerText,
+  resolveTextColor,
+  sortLayers,
+} from "@/lib/scene";
+
+/** How drawtext finds the typeface: a font file, or a fontconfig family. */
+export type ServerFont = {
+  file: string | null;
+  family: string;
+};
+
+export type OverlayFilterOptions = {
+  source: FrameSize;
+  /** Encoded frame size; layer boxes and font sizes scale with it. */
+  size: FrameSize;
+  frameRate: number;
+  /** Source length in seconds, where layers without an out point end. */
+  duration: number;
+  font: ServerFont;
+  /** Epoch ms the render is made at; countdowns count from here. */
+  now: number;
+  /** Files the scene's uploaded fonts were written to, by family. */
+  fontFiles: Map<string, string>;
+  /** ffmpeg input index carrying each image layer, by layer id. */
+  imageInputs: Map<string, number>;
+  /** Where the text of the drawtext call at `index` will be written. */
+  textPath: (index: number) => string;
+  /** The scene's LUT written out as a `.cube` file, if it has one. */
+  lutPath: string | null;
+};
+
+export type OverlayFilter = {
+  graph: string;
+  /** Label of the finished video stream. */
+  output: string;
+  /** Contents for the files `textPath` points at, in order. */
+  texts: string[];
+};
+
+const CAPTION_LINE_HEIGHT = 1.3;
+const CAPTION_MAX_LINE_WIDTH = 0.86;
+const BACK_OVERSHOOT = 1.70158;
+
+/** CSS font weights on fontconfig's scale. */
+const FONTCONFIG_WEIGHTS: [number, number][] = [
+  [100, 0],
+  [200, 40],
+  [300, 50],
+  [400, 80],
+  [500, 100],
+  [600, 180],
+  [700, 200],
+  [800, 205],
+  [900, 210],
+];
+
+/**
+ * There is no canvas on the server, so line breaks use an average glyph
+ * width that grows with the weight. Close to Geist, not exact.
+ */
+const approximateMeasure =
+  (fontSize: number, weight: number): MeasureText =>
+  (text) =>
+    splitGraphemes(text).length * fontSize * (0.5 + (weight - 400) / 5000);
+
+/**
+ * Quotes an option value for `-filter_complex`. Inside the quotes `\` and
+ * `:` are escaped for the option parser; a `'` closes the quotes and is
+ * escaped once for each level, as ffmpeg's filtergraph docs describe.
+ */
+const quote = (value: string) =>
+  `'${value
+    .replace(/\\/g, "\\\\")
+    .replace(/:/g, "\\:")
+    .replace(/'/g, "'\\\\\\''")}'`;
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+/** Stands in for colors the editor could not have written. */
+const FALLBACK_COLOR = "0x000000@0";
+
+/**
+ * CSS colors in ffmpeg's `0xRRGGBB@alpha` form. Anything `parseColor` cannot
+ * read comes from outside the editor and draws nothing.
+ */
+export const toFfmpegColor = (css: string) => {
+  const color = parseColor(css);
+  return color
+    ? `0x${color.hex.slice(1)}@${formatNumber(color.alpha)}`
+    : FALLBACK_COLOR;
+};
+
+const easingExpression = (easing: AnimationEasing, progress: string) => {
+  switch (easing) {
+    case "linear":
+      return progress;
+    case "easeIn":
+      return `pow(${progress},3)`;
+    case "easeOut":
+      return `(1-pow(1-${progress},3))`;
+    case "easeInOut":
+      return `if(lt(${progress},0.5),4*pow(${progress},3),1-pow(-2*${progress}+2,3)/2)`;
+    case "back":
+      return `(1+${BACK_OVERSHOOT + 1}*pow(${progress}-1,3)+${BACK_OVERSHOOT}*pow(${progress}-1,2))`;
+  }
+};
+
+type AnimationTerms = {
+  alpha: string[];
+  offsetX: string[];
+  offsetY: string[];
+};
+
+/**
+ * Adds one animation as per-frame expressions in `t`, mirroring
+ * `resolveLayerState`. Scale and typewriter have no drawtext equivalent
+ * and play as a fade instead.
+ */
+const addAnimation = (
+  terms: AnimationTerms,
+  animation: LayerAnimation,
+  layer: OverlayLayer,
+  progress: string,
+) => {
+  if (animation.kind === "none" || animation.duration <= 0) {
+    return;
+  }
+  const eased = easingExpression(animation.easing, `clip(${progress},0,1)`);
+  const remaining = `(1-${eased})`;
+  const { box } = layer;
+
+  if (animation.kind !== "slide") {
+    terms.alpha.push(`clip(${eased},0,1)`);
+    return;
+  }
+  switch (animation.direction) {
+    case "left":
+      terms.offsetX.push(`-${remaining}*${formatNumber(box.x + box.width)}`);
+      break;
+    case "right":
+      terms.offsetX.push(`${remaining}*${formatNumber(1 - box.x)}`);
+      break;
+    case "top":
+      terms.offsetY.push(`-${remaining}*${formatNumber(box.y + box.height)}`);
+      break;
+    case "bottom":
+      terms.offsetY.push(`${remaining}*${formatNumber(1 - box.y)}`);
+      break;
+  }
+};
+
+const resolveAnimationTerms = (layer: OverlayLayer, duration: number) => {
+  const terms: AnimationTerms = { alpha: [], offsetX: [], offsetY: [] };
+  if (isWatermark(layer)) {
+    return terms;
+  }
+  const start = layer.timing.start;
+  const end = layer.timing.end ?? duration;
+  addAnimation(
+    terms,
+    layer.enter,
+    layer,
+    `(t-${formatNumber(start)})/${formatNumber(layer.enter.duration)}`,
+  );
+  addAnimation(
+    terms,
+    layer.exit,
+    layer,
+    `(${formatNumber(end)}-t)/${formatNumber(layer.exit.duration)}`,
+  );
+  return terms;
+};
+
+const product = (terms: string[]) => (terms.length ? terms.join("*") : "1");
+
+const sum = (terms: string[], scale: number) =>
+  terms.length ? `+(${terms.join("+")})*${scale}` : "";
+
+const enableExpression = (layer: OverlayLayer, duration: number) =>
+  isWatermark(layer)
+    ? null
+    : `between(t,${formatNumber(layer.timing.start)},${formatNumber(layer.timing.end ?? duration)})`;
+
+const fontOptions = (font: ServerFont, weight: number) => {
+  if (font.file) {
+    return `fontfile=${quote(font.file)}`;
+  }
+  const [, fontconfigWeight] = FONTCONFIG_WEIGHTS.reduce((closest, entry) =>
+    Math.abs(entry[0] - weight) < Math.abs(closest[0] - weight)
+      ? entry
+      : closest,
+  );
+  return `font=${quote(`${font.family}:weight=${fontconfigWeight}`)}`;
+};
+
+type TextSpan = {
+  /** What drawtext is given; may hold `%{eif:...}` expansions. */
+  text: string;
+  /** The text as it reads at `start`, for layout. */
+  sample: string;
+  expand: boolean;
+  start: number;
+  end: number;
+};
+
+const DAY = 86400;
+
+/** Seconds-left expansion, zero-padded to two digits when `padded`. */
+const countdownPart = (expression: string, padded: boolean) =>
+  `%{eif:${expression}:d${padded ? ":2" : ""}}`;
+
+/** Keeps drawtext from reading `\` or `%` in typed labels as expansions. */
+const escapeExpansion = (text: string) => text.replace(/[\\%]/g, "\\$&");
+
+/** Private-use stand-ins for the countdown parts, one per part. */
+const PART_MARKS = ["\uE000", "\uE001", "\uE002", "\uE003"];
+
+/**
+ * What a text layer shows over the video. A ticking countdown redraws its
+ * digits through drawtext expansions; day counts and the ended text, which
+ * change rarely, get a span each.
+ */
+const resolveTextSpans = (
+  layer: TextLayer,
+  now: number,
+  duration: number,
+): TextSpan[] => {
+  const { countdown } = layer;
+  const remaining = countdown && countdownSeconds(countdown, now, 0);
+  if (
+    !countdown ||
+    countdown.mode === "static" ||
+    remaining === null ||
+    remaining <= 0
+  ) {
+    const text = resolveLayerText(layer, now, 0);
+    return [{ text, sample: text, expand: false, start: 0, end: duration }];
+  }
+
+  const applyCase = (text: string) =>
+    layer.style.uppercase ? text.toUpperCase() : text;
+  const countingEnd = Math.min(duration, remaining);
+  const spans: TextSpan[] = [];
+
+  if (countdown.format === "days") {
+    let start = 0;
+    while (start < countingEnd) {
+      const days = Math.ceil((remaining - start) / DAY);
+      const end = Math.min(countingEnd, remaining - (days - 1) * DAY);
+      const text = applyCase(formatDaysLeft(days, countdown.labels));
+      spans.push({ text, sample: text, expand: false, start, end });
+      start = end;
+    }
+  } else {
+    const left = `(${formatNumber(remaining)}-t)`;
+    // The marks survive upper-casing and escaping; the expansions would not.
+    const [days, hours, minutes, seconds] = PART_MARKS;
+    const skeleton = escapeExpansion(
+      applyCase(
+        formatCountdownParts(
+          countdown.format,
+          { days, hours, minutes, seconds },
+          countdown.labels,
+        ),
+      ),
+    );
+    const parts = [
+      countdownPart(`trunc(${left}/${DAY})`, countdown.format === "clock"),
+      countdownPart(`mod(trunc(${left}/3600),24)`, true),
+      countdownPart(`mod(trunc(${left}/60),60)`, true),
+      countdownPart(`mod(trunc(${left}),60)`, true),
+    ];
+    spans.push({
+      text: skeleton.replace(
+        /[\uE000-\uE003]/g,
+        (mark) => parts[PART_MARKS.indexOf(mark)],
+      ),
+      sample: resolveLayerText(layer, now, 0),
+      expand: true,
+      start: 0,
+      end: countingEnd,
+    });
+  }
+
+  if (remaining < duration) {
+    const text = applyCase(countdown.endedText);
+    spans.push({
+      text,
+      sample: text,
+      expand: false,
+      start: remaining,
+      end: duration,
+    });
+  }
+  return spans;
+};
+
+/**
+ * Breaks `text` into lines holding as many words as `lines` do, so an
+ * expanded countdown wraps where its sample did. Falls back to one line
+ * when the word counts disagree.
+ */
+const splitLike = (text: string, lines: string[]) => {
+  const words = text.split(" ");
+  const counts = lines.map((line) => line.split(" ").filter(Boolean).length);
+  if (counts.reduce((total, count) => total + count, 0) !== words.length) {
+    return [text];
+  }
+  let index = 0;
+  return counts.map((count) => {
+    const line = words.slice(index, index + count).join(" ");
+    index += count;
+    return line;
+  });
+};
+
+/** Focus point expression in `t`, eased like `resolvePan`. */
+const panExpression = (format: OutputFormat, axis: "x" | "y") => {
+  const keyframes = format.panKeyframes;
+  if (keyframes.length === 0) {
+    return formatNumber(format.pan[axis]);
+  }
+
+  let expression = formatNumber(keyframes[keyframes.length - 1][axis]);
+  for (let index = keyframes.length - 1; index > 0; index -= 1) {
+    const previous = keyframes[index - 1];
+    const next = keyframes[index];
+    const span = Math.max(next.time - previous.time, 0.001);
+    const u = `((t-${formatNumber(previous.time)})/${formatNumber(span)})`;
+    const segment = `${formatNumber(previous[axis])}+${formatNumber(next[axis] - previous[axis])}*${u}*${u}*(3-2*${u})`;
+    expression = `if(lte(t,${formatNumber(next.time)}),${segment},${expression})`;
+  }
+  return `if(lte(t,${formatNumber(keyframes[0].time)}),${formatNumber(keyframes[0][axis])},${expression})`;
+};
+
+const coverSize = (source: FrameSize, target: FrameSize, zoom: number) => {
+  const scale =
+    Math.max(target.width / source.width, target.height / source.height) *
+    Math.max(1, zoom);
+  return { width: target.width / scale, height: target.height / scale };
+};
+
+/** Mirrors `drawReframedSource`: plain scale, pan-and-crop, or blurred fit. */
+const buildReframe = (
+  format: OutputFormat,
+  { source, size, frameRate }: OverlayFilterOptions,
+  output: string,
+) => {
+  const { width, height } = size;
+  const sameAspect =
+    Math.abs(source.width / source.height - width / height) < 0.01;
+  const input = `[0:v]fps=${formatNumber(frameRate)},setsar=1`;
+
+  if (sameAspect && format.zoom <= 1) {
+    return [`${input},scale=${width}:${height}[${output}]`];
+  }
+
+  if (format.mode === "crop") {
+    const crop = coverSize(source, size, format.zoom);
+    const cropWidth = Math.round(crop.width);
+    const cropHeight = Math.round(crop.height);
+    const x = `clip(${panExpression(format, "x")}*iw-${cropWidth / 2},0,iw-${cropWidth})`;
+    const y = `clip(${panExpression(format, "y")}*ih-${cropHeight / 2},0,ih-${cropHeight})`;
+    return [
+      `${input},crop=w=${cropWidth}:h=${cropHeight}:x=${quote(x)}:y=${quote(y)},scale=${width}:${height}[${output}]`,
+    ];
+  }
+
+  const blur = Math.max(1, Math.round(format.blur * width));
+  const bleed = format.blur * width * 2;
+  const bleedSize = { width: width + bleed * 2, height: height + bleed * 2 };
+  const cover = coverSize(source, bleedSize, 1);
+  const scale = bleedSize.width / cover.width;
+  const fit =
+    Math.min(width / source.width, height / source.height) *
+    Math.max(1, format.zoom);
+  const fitWidth = Math.round((source.width * fit) / 2) * 2;
+  const fitHeight = Math.round((source.height * fit) / 2) * 2;
+
+  return [
+    `${input},split[${output}_bg][${output}_fg]`,
+    `[${output}_bg]scale=${Math.ceil(source.width * scale)}:${Math.ceil(source.height * scale)},crop=${width}:${height},gblur=sigma=${blur},colorchannelmixer=rr=0.7:gg=0.7:bb=0.7[${output}_blur]`,
+    `[${output}_fg]scale=${fitWidth}:${fitHeight}[${output}_fit]`,
+    `[${output}_blur][${output}_fit]overlay=x=(W-w)/2:y=(H-h)/2[${output}]`,
+  ];
+};
+
+/**
+ * Turns a scene into an ffmpeg filter graph that follows the browser
+ * renderer's layout: reframing, grading, the bottom gradient, layers by z-order,
+ * captions, then watermarks. Text rotation and image blend modes are not
+ * reproduced.
+ */
+export const buildOverlayFilter = (
+  scene: OverlayScene,
+  options: OverlayFilterOptions,
+): OverlayFilter => {
+  const { size, duration, font, fontFiles } = options;
+  const { width, height } = size;
+  const chains: string[] = [];
+  const texts: string[] = [];
+  let label = "base";
+  let counter = 0;
+
+  const next = () => {
+    counter += 1;
+    return `v${counter}`;
+  };
+
+  /** Appends `filter` to the current video stream. */
+  const apply = (filter: string) => {
+    const output = next();
+    chains.push(`[${label}]${filter}[${output}]`);
+    label = output;
+  };
+
+  /** `expand` lets drawtext evaluate `%{...}` sequences in the text. */
+  const drawText = (text: string, settings: string[], expand = false) => {
+    texts.push(text);
+    apply(
+      [
+        `drawtext=textfile=${quote(options.textPath(texts.length - 1))}`,
+        `expansion=${expand ? "normal" : "none"}`,
+        ...settings,
+      ].join(":"),
+    );
+  };
+
+  chains.push(...buildReframe(scene.format, options, label));
+
+  // The same steps as the browser's shader, on planar RGB.
+  if (!isNeutralGrading(scene.grading)) {
+    const params = resolveGradingParams(scene.grading);
+    apply("format=gbrp");
+    if (params.brightness !== 0 || params.contrast !== 1) {
+      const channel = `clip((clip(val/255+${formatNumber(params.brightness)},0,1)-0.5)*${formatNumber(params.contrast)}+0.5,0,1)*255`;
+      apply(
+        `lutrgb=r=${quote(channel)}:g=${quote(channel)}:b=${quote(channel)}`,
+      );
+    }
+    if (params.saturation !== 1) {
+      const mix = (row: number, column: number) =>
+        formatNumber(
+          (row === column ? params.saturation : 0) +
+            (1 - params.saturation) * LUMA_WEIGHTS[column],
+        );
+      apply(
+        `colorchannelmixer=${["r", "g", "b"]
+          .flatMap((output, row) =>
+            ["r", "g", "b"].map(
+              (input, column) => `${output}${input}=${mix(row, column)}`,
+            ),
+          )
+          .join(":")}`,
+      );
+    }
+    if (params.temperature !== 0) {
+      const shift = formatNumber(params.temperature * 255);
+      apply(
+        `lutrgb=r=${quote(`clip(val+${shift},0,255)`)}:b=${quote(`clip(val-${shift},0,255)`)}`,
+      );
+    }
+    if (options.lutPath && params.lutStrength > 0) {
+      const lut = `lut3d=file=${quote(options.lutPath)}:interp=trilinear`;
+      if (params.lutStrength >= 1) {
+        apply(lut);
+      } else {
+        const original = next();
+        const toGrade = next();
+        const graded = next();
+        const mixed = next();
+        const strength = formatNumber(params.lutStrength);
+        chains.push(
+          `[${label}]split[${original}][${toGrade}]`,
+          `[${toGrade}]${lut}[${graded}]`,
+          `[${original}][${graded}]blend=all_expr=${quote(`A+(B-A)*${strength}`)}[${mixed}]`,
+        );
+        label = mixed;
+      }
+    }
+    if (params.vignette > 0) {
+      // Spelled out rather than stored with st(), as ';' splits the graph.
+      const distance = `clip((hypot(X/W*2-1,Y/H*2-1)/sqrt(2)-${VIGNETTE_INNER})/${formatNumber(1 - VIGNETTE_INNER)},0,1)`;
+      const shade = `(1-${formatNumber(params.vignette)}*${distance}*${distance}*(3-2*${distance}))`;
+      apply(
+        `geq=${["r", "g", "b"]
+          .map((channel) => `${channel}=${quote(`${channel}(X,Y)*${shade}`)}`)
+          .join(":")}`,
+      );
+    }
+  }
+
+  const gradientColor = parseColor(scene.gradient.color);
+  if (scene.gradient.enabled && gradientColor && scene.gradient.opacity > 0) {
+    const gradientHeight = Math.max(
+      1,
+      Math.round(height * Math.min(scene.gradient.height, 1)),
+    );
+    const [red, green, blue] = [1, 3, 5].map((start) =>
+      Number.parseInt(gradientColor.hex.slice(start, start + 2), 16),
+    );
+    const alpha = formatNumber(
+      255 * scene.gradient.opacity * gradientColor.alpha,
+    );
+    chains.push(
+      `color=c=black:s=${width}x${gradientHeight}:r=${formatNumber(options.frameRate)}:d=1,format=rgba,geq=r=${red}:g=${green}:b=${blue}:a=${quote(`${alpha}*Y/H`)},trim=end_frame=1,loop=loop=-1:size=1[gradient]`,
+    );
+    const withGradient = next();
+    chains.push(
+      `[${label}][gradient]overlay=x=0:y=${height - gradientHeight}[${withGradient}]`,
+    );
+    label = withGradient;
+  }
+
+  /**
+   * Uploaded fonts by file; the editor's system families through
+   * fontconfig. Any other family is not one the editor offers and falls
+   * back to the default font.
+   */
+  const layerFont = (family: string | null): ServerFont => {
+    const file = family ? fontFiles.get(family) : undefined;
+    if (family && file) {
+      return { file, family };
+    }
+    return family && SYSTEM_FONT_FAMILIES.includes(family)
+      ? { file: null, family }
+      : font;
+  };
+
+  const drawTextLayer = (layer: TextLayer) => {
+    const { box, style } = layer;
+    const left = box.x * width;
+    const top = box.y * height;
+    const boxWidth = box.width * width;
+    const boxHeight = box.height * height;
+    const spans = resolveTextSpans(layer, options.now, duration).filter(
+      (span) => span.sample.trim(),
+    );
+    if (spans.length === 0) {
+      return;
+    }
+
+    const terms = resolveAnimationTerms(layer, duration);
+    const enable = enableExpression(layer, duration);
+    const offsetX = sum(terms.offsetX, width);
+    const offsetY = sum(terms.offsetY, height);
+
+    if (style.background && style.backgroundFit === "box") {
+      apply(
+        [
+          `drawbox=x=${Math.round(left)}:y=${Math.round(top)}`,
+          `w=${Math.round(boxWidth)}:h=${Math.round(boxHeight)}`,
+          `color=${quote(toFfmpegColor(style.background))}:t=fill`,
+          ...(enable ? [`enable=${quote(enable)}`] : []),
+        ].join(":"),
+      );
+    }
+
+    const shadowOffset = Math.max(1, Math.round(width * 0.003));
+
+    for (const span of spans) {
+      // drawtext cannot space letters, but breaking where the browser does
+      // keeps the line count the same.
+      const block = layoutTextBlock(
+        (size) => (value) =>
+          approximateMeasure(size, style.fontWeight)(value) +
+          splitGraphemes(value).length * style.letterSpacing * size,
+        span.sample,
+        {
+          fontSize: Math.round(style.fontSize * width),
+          lineHeight: style.lineHeight,
+          padding: style.backgroundPadding,
+          width: boxWidth,
+          height: boxHeight,
+          maxLines: style.maxLines,
+          autoFit: style.autoFit,
+        },
+      );
+      const { lineHeight, padding } = block;
+      const lines = span.expand
+        ? splitLike(span.text, block.lines)
+        : block.lines;
+      const fontSize = Math.round(block.fontSize);
+      const blockTop = resolveBlockTop(
+        style.verticalAlign,
+        top,
+        boxHeight,
+        lines.length * lineHeight,
+        padding,
+      );
+      const anchorX =
+        style.align === "left"
+          ? `${formatNumber(left + padding)}`
+          : style.align === "right"
+            ? `${formatNumber(left + boxWidth - padding)}-text_w`
+            : `${formatNumber(left + boxWidth / 2)}-text_w/2`;
+      const spanEnable = [
+        ...(enable ? [enable] : []),
+        ...(span.start > 0 ? [`gte(t,${formatNumber(span.start)})`] : []),
+        ...(span.end < duration ? [`lt(t,${formatNumber(span.end)})`] : []),
+      ];
+
+      lines.forEach((line, index) => {
+        drawText(
+          line,
+          [
+            fontOptions(layerFont(style.fontFamily), style.fontWeight),
+            `fontsize=${fontSize}`,
+            `fontcolor=${quote(toFfmpegColor(resolveTextColor(scene, style)))}`,
+            `x=${quote(`${anchorX}${offsetX}`)}`,
+            `y=${quote(`${formatNumber(blockTop + index * lineHeight)}${offsetY}`)}`,
+            `alpha=${quote(product(terms.alpha))}`,
+            ...(style.strokeWidth > 0
+              ? [
+                  `borderw=${Math.max(1, Math.round(style.strokeWidth * fontSize))}`,
+                  `bordercolor=${quote(toFfmpegColor(style.strokeColor))}`,
+                ]
+              : []),
+            ...(style.shadow
+              ? [
+                  `shadowcolor=${quote(toFfmpegColor(style.shadowColor))}`,
+                  `shadowx=${shadowOffset}:shadowy=${shadowOffset}`,
+                ]
+              : []),
+            ...(style.background && style.backgroundFit === "text"
+              ? [
+                  "box=1",
+                  `boxcolor=${quote(toFfmpegColor(style.background))}`,
+                  `boxborderw=${Math.round(padding)}`,
+                ]
+              : []),
+            ...(spanEnable.length > 0
+              ? [`enable=${quote(spanEnable.join("*"))}`]
+              : []),
+          ],
+          span.expand,
+        );
+      });
+    }
+  };
+
+  const drawImageLayer = (layer: ImageLayer) => {
+    const input = options.imageInputs.get(layer.id);
+    if (input === undefined || layer.opacity <= 0) {
+      return;
+    }
+    const { box } = layer;
+    const boxWidth = box.width * width;
+    const boxHeight = box.height * height;
+    const scale = Math.min(boxWidth / layer.aspect, boxHeight);
+    const centerX = (box.x + box.width / 2) * width;
+    const centerY = (box.y + box.height / 2) * height;
+
+    const terms = resolveAnimationTerms(layer, duration);
+    const enable = enableExpression(layer, duration);
+    const image = next();
+    const filters = [
+      `scale=${Math.max(1, Math.round(scale * layer.aspect))}:${Math.max(1, Math.round(scale))}`,
+      "format=rgba",
+      `colorchannelmixer=aa=${formatNumber(layer.opacity)}`,
+    ];
+    if (box.rotation) {
+      filters.push(
+        `rotate=a=${formatNumber((box.rotation * Math.PI) / 180)}:c=none:ow=${quote("rotw(a)")}:oh=${quote("roth(a)")}`,
+      );
+    }
+    if (terms.alpha.length > 0) {
+      // overlay has no per-frame alpha, so fades are baked into the image.
+      filters.push(
+        `geq=r=${quote("r(X,Y)")}:g=${quote("g(X,Y)")}:b=${quote("b(X,Y)")}:a=${quote(`alpha(X,Y)*${product(terms.alpha).replace(/\bt\b/g, "T")}`)}`,
+      );
+    }
+    chains.push(`[${input}:v]${filters.join(",")}[${image}]`);
+
+    const output = next();
+    chains.push(
+      `[${label}][${image}]overlay=${[
+        `x=${quote(`${formatNumber(centerX)}-overlay_w/2${sum(terms.offsetX, width)}`)}`,
+        `y=${quote(`${formatNumber(centerY)}-overlay_h/2${sum(terms.offsetY, height)}`)}`,
+        ...(enable ? [`enable=${quote(enable)}`] : []),
+      ].join(":")}[${output}]`,
+    );
+    label = output;
+  };
+
+  const drawLayers = (layers: OverlayLayer[]) =>
+    layers.forEach((layer) =>
+      layer.kind === "text" ? drawTextLayer(layer) : drawImageLayer(layer),
+    );
+
+  const drawCaptions = (track: CaptionTrack) => {
+    if (!track.enabled) {
+      return;
+    }
+    const { style } = track;
+    const fontSize = Math.round(style.fontSize * width);
+    const lineHeight = fontSize * CAPTION_LINE_HEIGHT;
+    const paddingX = fontSize * 0.35;
+    const measure = approximateMeasure(fontSize, style.fontWeight);
+
+    for (const cue of track.cues) {
+      const text = style.uppercase ? cue.text.toUpperCase() : cue.text;
+      const lines = wrapText(
+        measure,
+        text,
+        width * CAPTION_MAX_LINE_WIDTH - paddingX * 2,
+      );
+      const blockHeight = lines.length * lineHeight;
+      const top =
+        style.position === "top"
+          ? style.margin * height
+          : style.position === "middle"
+            ? (height - blockHeight) / 2
+            : height - style.margin * height - blockHeight;
+
+      lines.forEach((line, index) => {
+        const centerY = top + index * lineHeight + lineHeight / 2;
+        drawText(line, [
+          fontOptions(font, style.fontWeight),
+          `fontsize=${fontSize}`,
+          `fontcolor=${quote(toFfmpegColor(style.color))}`,
+          `x=${quote("(w-text_w)/2")}`,
+          `y=${quote(`${formatNumber(centerY)}-text_h/2`)}`,
+          ...(style.outline
+            ? [
+                `borderw=${Math.max(1, Math.round(fontSize * 0.08))}`,
+                `bordercolor=${quote(toFfmpegColor(style.outlineColor))}`,
+              ]
+            : []),
+          ...(style.background
+            ? [
+                "box=1",
+                `boxcolor=${quote(toFfmpegColor(style.background))}`,
+                `boxborderw=${Math.round(paddingX)}`,
+              ]
+            : []),
+          `enable=${quote(`between(t,${formatNumber(cue.start)},${formatNumber(cue.end)})`)}`,
+        ]);
+      });
+    }
+  };
+
+  const ordered = sortLayers(scene.layers);
+  drawLayers(ordered.filter((layer) => !isWatermark(layer)));
+  drawCaptions(scene.captions);
+  drawLayers(ordered.filter(isWatermark));
+
+  return { graph: chains.join(";"), output: label, texts };
+};
@@ -0,0 +1,152 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CODEC_PROFILES,
+  resolveBitrate,
+  resolveExportSize,
+} from "@/lib/export/settings";
+import { formatCubeLut } from "@/lib/grading";
+import { resolveOutputSize } from "@/lib/render/reframe";
+import type { RenderSpec } from "@/lib/renderSpec";
+import { ServerFont, buildOverlayFilter } from "@/lib/server/overlayFilter";
+import { probeVideo, runFfmpeg } from "@/lib/server/ffmpeg";
+
+export type ServerRenderRequest = {
+  inputPath: string;
+  outputPath: string;
+  spec: RenderSpec;
+  font?: ServerFont;
+};
+
+export type ServerRenderResult = {
+  path: string;
+  mimeType: string;
+  extension: string;
+};
+
+/** `PROMO_FONT_FILE` pins one font file; otherwise fontconfig picks Geist. */
+export const DEFAULT_SERVER_FONT: ServerFont = {
+  file: process.env.PROMO_FONT_FILE || null,
+  family: process.env.PROMO_FONT_FAMILY || "Geist",
+};
+
+const ENCODERS = {
+  mp4: {
+    video: ["-c:v", "libx264", "-preset", "medium", "-pix_fmt", "yuv420p"],
+    audio: ["-c:a", "aac", "-b:a", "192k"],
+    extra: ["-movflags", "+faststart"],
+  },
+  webm: {
+    video: ["-c:v", "libvpx-vp9", "-row-mt", "1", "-pix_fmt", "yuv420p"],
+    audio: ["-c:a", "libopus", "-b:a", "160k"],
+    extra: [],
+  },
+};
+
+const DATA_URL = /^data:image\/(png|jpeg|webp);base64,(.+)$/;
+const FONT_DATA_URL = /^data:[^;,]*;base64,(.+)$/;
+
+/**
+ * Renders the spec over one source video with the local ffmpeg. Layout
+ * follows the browser renderer; see `buildOverlayFilter` for what differs.
+ */
+export const renderOnServer = async ({
+  inputPath,
+  outputPath,
+  spec,
+  font = DEFAULT_SERVER_FONT,
+}: ServerRenderRequest): Promise<ServerRenderResult> => {
+  const { scene, settings } = spec;
+  const source = await probeVideo(inputPath);
+  const size = resolveExportSize(
+    resolveOutputSize(scene.format, source),
+    settings.resolution,
+  );
+
+  const workDir = await mkdtemp(join(tmpdir(), "promo-render-"));
+  try {
+    const imageArgs: string[] = [];
+    const imageInputs = new Map<string, number>();
+    for (const layer of scene.layers) {
+      if (layer.kind !== "image") {
+        continue;
+      }
+      const match = layer.src.match(DATA_URL);
+      if (!match) {
+        throw new Error(
+          `Shtresa "${layer.name}" ka një imazh që serveri nuk e lexon (përdorni PNG, JPEG ose WebP).`,
+        );
+      }
+      const imagePath = join(workDir, `image-${imageInputs.size}.${match[1]}`);
+      await writeFile(imagePath, Buffer.from(match[2], "base64"));
+      imageInputs.set(layer.id, imageInputs.size + 1);
+      imageArgs.push("-loop", "1", "-i", imagePath);
+    }
+
+    // FreeType sniffs the format, so uploaded fonts need no extension.
+    const fontFiles = new Map<string, string>();
+    for (const sceneFont of scene.fonts) {
+      const match = sceneFont.src.match(FONT_DATA_URL);
+      if (!match) {
+        throw new Error(`Fonti "${sceneFont.family}" nuk mund të lexohet.`);
+      }
+      const fontPath = join(workDir, `font-${fontFiles.size}`);
+      await writeFile(fontPath, Buffer.from(match[1], "base64"));
+      fontFiles.set(sceneFont.family, fontPath);
+    }
+
+    let lutPath: string | null = null;
+    if (scene.grading.lut) {
+      lutPath = join(workDir, "grade.cube");
+      await writeFile(lutPath, formatCubeLut(scene.grading.lut));
+    }
+
+    const filter = buildOverlayFilter(scene, {
+      source,
+      size,
+      frameRate: settings.frameRate,
+      duration: source.duration,
+      font,
+      now: Date.now(),
+      fontFiles,
+      imageInputs,
+      textPath: (index) => join(workDir, `text-${index}.txt`),
+      lutPath,
+    });
+    await Promise.all(
+      filter.texts.map((text, index) =>
+        writeFile(join(workDir, `text-${index}.txt`), text),
+      ),
+    );
+
+    const encoder = ENCODERS[settings.container];
+    await runFfmpeg([
+      "-i",
+      inputPath,
+      ...imageArgs,
+      "-filter_complex",
+      filter.graph,
+      "-map",
+      `[${filter.output}]`,
+      ...(source.hasAudio ? ["-map", "0:a:0", ...encoder.audio] : []),
+      ...encoder.video,
+      "-b:v",
+      String(resolveBitrate(settings, size)),
+      "-r",
+      String(settings.frameRate),
+      ...(source.duration > 0 ? ["-t", String(source.duration)] : []),
+      ...encoder.extra,
+      outputPath,
+    ]);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+
+  const profile = CODEC_PROFILES[settings.container];
+  return {
+    path: outputPath,
+    mimeType: profile.mimeType,
+    extension: profile.extension,
+  };
+};
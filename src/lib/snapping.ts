@@ -0,0 +1,163 @@
+import { LayerBox, OverlayLayer } from "@/lib/scene";
+
+export type SnapAxis = "x" | "y";
+
+/** A guide line drawn while snapping, at a frame fraction on one axis. */
+export type SnapGuide = {
+  axis: SnapAxis;
+  position: number;
+};
+
+export type SnapTargets = Record<SnapAxis, number[]>;
+
+/** Snap distance as a fraction of the frame. */
+export const SNAP_THRESHOLD = 0.012;
+
+const ROTATION_SNAP_DEGREES = 4;
+
+/** Axis-aligned bounds of a possibly rotated box, in frame fractions. */
+export const getBoxBounds = (box: LayerBox, aspect: number) => {
+  const radians = (box.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  // Rotation happens in pixels, so convert the height into width units first.
+  const halfWidth = (box.width * cos + (box.height / aspect) * sin) / 2;
+  const halfHeight = (box.width * aspect * sin + box.height * cos) / 2;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+
+  return {
+    left: centerX - halfWidth,
+    right: centerX + halfWidth,
+    top: centerY - halfHeight,
+    bottom: centerY + halfHeight,
+    centerX,
+    centerY,
+  };
+};
+
+/** Frame edges and center plus the edges and centers of every other layer. */
+export const collectSnapTargets = (
+  layers: OverlayLayer[],
+  excludeId: string,
+  aspect: number,
+): SnapTargets => {
+  const targets: SnapTargets = { x: [0, 0.5, 1], y: [0, 0.5, 1] };
+
+  for (const layer of layers) {
+    if (layer.id === excludeId) {
+      continue;
+    }
+    const bounds = getBoxBounds(layer.box, aspect);
+    targets.x.push(bounds.left, bounds.centerX, bounds.right);
+    targets.y.push(bounds.top, bounds.centerY, bounds.bottom);
+  }
+
+  return targets;
+};
+
+/**
+ * Finds the smallest correction that lines any of `points` up with a
+ * target, or `null` when nothing is within the threshold.
+ */
+const findSnap = (points: number[], targets: number[], threshold: number) => {
+  let best: { delta: number; position: number } | null = null;
+
+  for (const point of points) {
+    for (const target of targets) {
+      const delta = target - point;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, position: target };
+      }
+    }
+  }
+
+  return best;
+};
+
+export const snapMove = (
+  box: LayerBox,
+  targets: SnapTargets,
+  aspect: number,
+  threshold = SNAP_THRESHOLD,
+) => {
+  const bounds = getBoxBounds(box, aspect);
+  const guides: SnapGuide[] = [];
+  let { x, y } = box;
+
+  const snapX = findSnap(
+    [bounds.left, bounds.centerX, bounds.right],
+    targets.x,
+    threshold,
+  );
+  if (snapX) {
+    x += snapX.delta;
+    guides.push({ axis: "x", position: snapX.position });
+  }
+
+  const snapY = findSnap(
+    [bounds.top, bounds.centerY, bounds.bottom],
+    targets.y,
+    threshold,
+  );
+  if (snapY) {
+    y += snapY.delta;
+    guides.push({ axis: "y", position: snapY.position });
+  }
+
+  return { box: { ...box, x, y }, guides };
+};
+
+/**
+ * Snaps the edges a resize handle is moving. Only unrotated boxes snap,
+ * since a rotated edge no longer lies on either axis.
+ */
+export const snapResize = (
+  box: LayerBox,
+  edges: { x: -1 | 1; y: -1 | 1 },
+  targets: SnapTargets,
+  threshold = SNAP_THRESHOLD,
+) => {
+  if (box.rotation % 360 !== 0) {
+    return { box, guides: [] as SnapGuide[] };
+  }
+
+  const guides: SnapGuide[] = [];
+  const next = { ...box };
+
+  const edgeX = edges.x === 1 ? box.x + box.width : box.x;
+  const snapX = findSnap([edgeX], targets.x, threshold);
+  if (snapX) {
+    if (edges.x === 1) {
+      next.width += snapX.delta;
+    } else {
+      next.x += snapX.delta;
+      next.width -= snapX.delta;
+    }
+    guides.push({ axis: "x", position: snapX.position });
+  }
+
+  const edgeY = edges.y === 1 ? box.y + box.height : box.y;
+  const snapY = findSnap([edgeY], targets.y, threshold);
+  if (snapY) {
+    if (edges.y === 1) {
+      next.height += snapY.delta;
+    } else {
+      next.y += snapY.delta;
+      next.height -= snapY.delta;
+    }
+    guides.push({ axis: "y", position: snapY.position });
+  }
+
+  return { box: next, guides };
+};
+
+/** Pulls the angle onto the nearest right angle, or onto 15° steps when `coarse`. */
+export const snapRotation = (degrees: number, coarse: boolean) => {
+  const step = coarse ? 15 : 90;
+  const nearest = Math.round(degrees / step) * step;
+  if (coarse || Math.abs(nearest - degrees) <= ROTATION_SNAP_DEGREES) {
+    return nearest;
+  }
+  return Math.round(degrees * 10) / 10;
+};
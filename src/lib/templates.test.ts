@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { SYSTEM_FONT_FAMILIES } from "@/lib/render/fonts";
+import { OverlayScene, createDefaultScene } from "@/lib/scene";
+import { BUILT_IN_TEMPLATES, applyTemplate } from "@/lib/templates";
+
+const fontFamilies = (scene: OverlayScene) =>
+  new Set(
+    scene.layers.flatMap((layer) =>
+      layer.kind === "text" ? [layer.style.fontFamily] : [],
+    ),
+  );
+
+describe("BUILT_IN_TEMPLATES", () => {
+  it("sets each look in its own system family", () => {
+    const families = BUILT_IN_TEMPLATES.map((template) => {
+      const [family, ...others] = fontFamilies(template.scene);
+      assert.equal(others.length, 0, template.id);
+      assert.ok(SYSTEM_FONT_FAMILIES.includes(family ?? ""), template.id);
+      return family;
+    });
+    assert.equal(new Set(families).size, BUILT_IN_TEMPLATES.length);
+  });
+});
+
+describe("applyTemplate", () => {
+  it("keeps the template's font family", () => {
+    for (const template of BUILT_IN_TEMPLATES) {
+      const scene = applyTemplate(createDefaultScene(), template);
+      assert.deepEqual(
+        fontFamilies(scene),
+        fontFamilies(template.scene),
+        template.id,
+      );
+    }
+  });
+});
@@ -0,0 +1,334 @@
+import { createCaptionTrack } from "@/lib/captions";
+import { createAppError } from "@/lib/errors";
+import { DEFAULT_GRADIENT, NEUTRAL_GRADING } from "@/lib/grading";
+import { DEFAULT_LANGUAGES } from "@/lib/languages";
+import { DEFAULT_OUTPUT_FORMAT } from "@/lib/render/reframe";
+import { parseScene } from "@/lib/sceneSchema";
+import {
+  OverlayScene,
+  createDefaultScene,
+  createTextLayer,
+  isWatermark,
+} from "@/lib/scene";
+
+/**
+ * A saved look: layout, colors, type and animations. Caption cues and the
+ * persistent watermark belong to the project, so templates never carry them.
+ */
+export type SceneTemplate = {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  scene: OverlayScene;
+};
+
+const STORAGE_KEY = "promo-studio:templates";
+const FILE_TYPE = "promo-studio-templates";
+const FILE_VERSION = 1;
+
+/**
+ * Sets every text layer in `fontFamily`, one of `SYSTEM_FONT_FAMILIES` so
+ * the look renders the same in the browser and on the server.
+ */
+const withFontFamily = (
+  scene: OverlayScene,
+  fontFamily: string,
+): OverlayScene => ({
+  ...scene,
+  layers: scene.layers.map((layer) =>
+    layer.kind === "text"
+      ? { ...layer, style: { ...layer.style, fontFamily } }
+      : layer,
+  ),
+});
+
+const createScene = (
+  accentColor: string,
+  fontFamily: string,
+  layers: OverlayScene["layers"],
+): OverlayScene =>
+  withFontFamily(
+    {
+      accentColor,
+      format: DEFAULT_OUTPUT_FORMAT,
+      captions: createCaptionTrack(),
+      fonts: [],
+      languages: DEFAULT_LANGUAGES,
+      grading: NEUTRAL_GRADING,
+      gradient: DEFAULT_GRADIENT,
+      layers,
+    },
+    fontFamily,
+  );
+
+export const BUILT_IN_TEMPLATES: SceneTemplate[] = [
+  {
+    id: "builtin:black-friday",
+    name: "Black Friday",
+    builtIn: true,
+    scene: withFontFamily(createDefaultScene(), "Arial"),
+  },
+  {
+    id: "builtin:new-arrival",
+    name: "Ardhje e re",
+    builtIn: true,
+    scene: createScene("#34d399", "Trebuchet MS", [
+      createTextLayer({
+        name: "Etiketa",
+        content: "E RE NË DYQAN",
+        box: { x: 0.08, y: 0.1, width: 0.4, height: 0.07, rotation: 0 },
+        style: {
+          useAccent: true,
+          fontSize: 0.022,
+          fontWeight: 800,
+          align: "left",
+          uppercase: true,
+          background: "rgba(0,0,0,0.55)",
+          backgroundFit: "text",
+          backgroundRadius: 2,
+        },
+        enter: { kind: "slide", direction: "left", duration: 0.5 },
+        zIndex: 0,
+      }),
+      createTextLayer({
+        name: "Titulli Kryesor",
+        content: "Koleksioni i ri ka mbërritur",
+        box: { x: 0.08, y: 0.68, width: 0.84, height: 0.14, rotation: 0 },
+        style: {
+          fontSize: 0.06,
+          fontWeight: 800,
+          align: "left",
+          shadow: true,
+          autoFit: true,
+        },
+        enter: { kind: "slide", direction: "bottom", duration: 0.7 },
+        zIndex: 1,
+      }),
+      createTextLayer({
+        name: "Teksti Mbështetës",
+        content: "Zbuloni modelet e sezonit online dhe në dyqan.",
+        box: { x: 0.08, y: 0.83, width: 0.84, height: 0.1, rotation: 0 },
+        style: { fontSize: 0.03, align: "left" },
+        timing: { start: 0.4, end: null },
+        enter: { kind: "fade", duration: 0.8 },
+        zIndex: 2,
+      }),
+    ]),
+  },
+  {
+    id: "builtin:flash-sale",
+    name: "Ofertë flash",
+    builtIn: true,
+    scene: createScene("#f43f5e", "Impact", [
+      createTextLayer({
+        name: "Shirit",
+        content: "VETËM SOT",
+        box: { x: 0, y: 0.06, width: 1, height: 0.08, rotation: 0 },
+        style: {
+          color: "#0a0a0a",
+          fontSize: 0.04,
+          fontWeight: 900,
+          uppercase: true,
+          background: "#facc15",
+        },
+        enter: { kind: "slide", direction: "top", duration: 0.4 },
+        zIndex: 0,
+      }),
+      createTextLayer({
+        name: "Zbritja",
+        content: "-50%",
+        box: { x: 0.1, y: 0.36, width: 0.8, height: 0.22, rotation: -6 },
+        style: {
+          useAccent: true,
+          fontSize: 0.16,
+          fontWeight: 900,
+          shadow: true,
+        },
+        enter: { kind: "scale", easing: "back", duration: 0.5 },
+        zIndex: 1,
+      }),
+      createTextLayer({
+        name: "Titulli Kryesor",
+        content: "Ofertë flash në të gjitha produktet",
+        box: { x: 0.08, y: 0.76, width: 0.84, height: 0.12, rotation: 0 },
+        style: {
+          fontSize: 0.045,
+          fontWeight: 800,
+          uppercase: true,
+          shadow: true,
+          autoFit: true,
+        },
+        enter: { kind: "typewriter", duration: 1.2, easing: "linear" },
+        zIndex: 2,
+      }),
+    ]),
+  },
+  {
+    id: "builtin:holiday",
+    name: "Festat",
+    builtIn: true,
+    scene: createScene("#fbbf24", "Georgia", [
+      createTextLayer({
+        name: "Titulli Kryesor",
+        content: "Gëzuar Festat!",
+        box: { x: 0.1, y: 0.3, width: 0.8, height: 0.14, rotation: 0 },
+        style: {
+          useAccent: true,
+          fontSize: 0.085,
+          fontWeight: 800,
+          shadow: true,
+          autoFit: true,
+        },
+        enter: { kind: "fade", duration: 1.2, easing: "easeInOut" },
+        zIndex: 0,
+      }),
+      createTextLayer({
+        name: "Teksti Mbështetës",
+        content: "Dhurata të personalizuara për ata që doni.",
+        box: { x: 0.12, y: 0.46, width: 0.76, height: 0.1, rotation: 0 },
+        style: { fontSize: 0.032, shadow: true },
+        timing: { start: 0.6, end: null },
+        enter: { kind: "fade", duration: 1 },
+        zIndex: 1,
+      }),
+      createTextLayer({
+        name: "Oferta e Ditës",
+        content: "Porositni deri më 20 dhjetor",
+        box: { x: 0.25, y: 0.82, width: 0.5, height: 0.07, rotation: 0 },
+        style: {
+          fontSize: 0.022,
+          fontWeight: 600,
+          background: "rgba(0,0,0,0.5)",
+          backgroundFit: "text",
+          backgroundRadius: 2,
+        },
+        enter: { kind: "slide", direction: "bottom", duration: 0.6 },
+        zIndex: 2,
+      }),
+    ]),
+  },
+];
+
+/** Strips what belongs to the project rather than the look. */
+const toTemplateScene = (scene: OverlayScene): OverlayScene => ({
+  ...scene,
+  captions: { ...scene.captions, cues: [] },
+  layers: scene.layers.filter((layer) => !isWatermark(layer)),
+});
+
+export const createTemplate = (
+  name: string,
+  scene: OverlayScene,
+): SceneTemplate => ({
+  id: crypto.randomUUID(),
+  name,
+  builtIn: false,
+  scene: structuredClone(toTemplateScene(scene)),
+});
+
+/**
+ * Switches to the template's look. The current caption cues, languages and
+ * watermark stay, and the template is re-parsed so its layers get fresh ids.
+ */
+export const applyTemplate = (
+  current: OverlayScene,
+  template: SceneTemplate,
+): OverlayScene => {
+  const next = parseScene(structuredClone(template.scene));
+  const watermarks = current.layers.filter(isWatermark);
+  return {
+    ...next,
+    captions: { ...next.captions, cues: current.captions.cues },
+    languages: current.languages,
+    layers: [
+      ...next.layers,
+      ...watermarks.map((layer, index) => ({
+        ...layer,
+        zIndex: next.layers.length + index,
+      })),
+    ],
+  };
+};
+
+/** `fallbackName` names templates stored without one. */
+const parseTemplateList = (
+  raw: unknown,
+  fallbackName: string,
+): SceneTemplate[] => {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap((entry) => {
+    if (typeof entry !== "object" || entry === null) {
+      return [];
+    }
+    const { name, scene } = entry as { name?: unknown; scene?: unknown };
+    try {
+      return [
+        {
+          id: crypto.randomUUID(),
+          name: typeof name === "string" && name.trim() ? name : fallbackName,
+          builtIn: false,
+          scene: toTemplateScene(parseScene(scene)),
+        },
+      ];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export const loadUserTemplates = (fallbackName: string): SceneTemplate[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseTemplateList(JSON.parse(raw), fallbackName) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserTemplates = (templates: SceneTemplate[]) => {
+  try {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(templates.map(({ name, scene }) => ({ name, scene }))),
+    );
+  } catch {
+    throw createAppError("templatesFull");
+  }
+};
+
+export const serializeTemplates = (templates: SceneTemplate[]) =>
+  JSON.stringify(
+    {
+      type: FILE_TYPE,
+      version: FILE_VERSION,
+      templates: templates.map(({ name, scene }) => ({ name, scene })),
+    },
+    null,
+    2,
+  );
+
+/** Reads a file written by `serializeTemplates`. */
+export const parseTemplateFile = (
+  source: string,
+  fallbackName: string,
+): SceneTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch {
+    throw createAppError("templatesNotJson");
+  }
+
+  const file = data as { type?: unknown; templates?: unknown };
+  if (file?.type !== FILE_TYPE) {
+    throw createAppError("templatesWrongFile");
+  }
+
+  const templates = parseTemplateList(file.templates, fallbackName);
+  if (templates.length === 0) {
+    throw createAppError("templatesEmpty");
+  }
+  return templates;
+};
@@ -0,0 +1,76 @@
+import { Clip, getSequenceDuration, locateInSequence } from "@/lib/sequence";
+import {
+  createOffscreenVideo,
+  ensureMetadata,
+  releaseVideo,
+  seekTo,
+} from "@/lib/video";
+
+export type Thumbnail = {
+  /** Sequence time the frame was taken at. */
+  time: number;
+  /** Small JPEG data URL. */
+  url: string;
+};
+
+const THUMBNAIL_QUALITY = 0.7;
+
+/**
+ * Grabs `count` evenly spaced frames of the sequence, `height` pixels tall,
+ * handing each to `onThumbnail` as soon as it is ready so a strip can fill
+ * in from the left. Stops quietly once `signal` aborts.
+ */
+export const captureFilmstrip = async (
+  clips: Clip[],
+  count: number,
+  height: number,
+  onThumbnail: (index: number, thumbnail: Thumbnail) => void,
+  signal?: AbortSignal,
+) => {
+  const duration = getSequenceDuration(clips);
+  if (clips.length === 0 || duration <= 0 || count <= 0) {
+    return;
+  }
+
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    return;
+  }
+
+  const video = createOffscreenVideo();
+  let loadedIndex = -1;
+  try {
+    for (let index = 0; index < count; index += 1) {
+      if (signal?.aborted) {
+        return;
+      }
+      // The middle of each slot, so the strip is representative.
+      const time = ((index + 0.5) * duration) / count;
+      const location = locateInSequence(clips, time);
+      if (!location) {
+        return;
+      }
+      if (location.index !== loadedIndex) {
+        video.src = location.clip.url;
+        await ensureMetadata(video);
+        loadedIndex = location.index;
+      }
+      await seekTo(video, location.localTime);
+      if (signal?.aborted) {
+        return;
+      }
+
+      const aspect = video.videoWidth / video.videoHeight || 16 / 9;
+      canvas.width = Math.max(1, Math.round(height * aspect));
+      canvas.height = height;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      onThumbnail(index, {
+        time,
+        url: canvas.toDataURL("image/jpeg", THUMBNAIL_QUALITY),
+      });
+    }
+  } finally {
+    releaseVideo(video);
+  }
+};
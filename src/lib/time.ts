@@ -0,0 +1,33 @@
+/** Formats seconds as `m:ss.s` for the editor UI. */
+export const formatTimecode = (seconds: number) => {
+  if (!Number.isFinite(seconds)) {
+    return "0:00.0";
+  }
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, "0")}`;
+};
+
+/** `m:ss`, or `h:mm:ss` for long renders. */
+export const formatDuration = (seconds: number) => {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}`
+    : `${minutes}:${rest}`;
+};
+
+/** `m:ss:ff`, counting frames at `frameRate`, for frame-accurate editing. */
+export const formatFrameTimecode = (seconds: number, frameRate: number) => {
+  const rate = Math.max(1, Math.round(frameRate));
+  const totalFrames = Number.isFinite(seconds)
+    ? Math.round(Math.max(0, seconds) * rate)
+    : 0;
+  const totalSeconds = Math.floor(totalFrames / rate);
+  const minutes = Math.floor(totalSeconds / 60);
+  const rest = String(totalSeconds % 60).padStart(2, "0");
+  const frames = String(totalFrames % rate).padStart(2, "0");
+  return `${minutes}:${rest}:${frames}`;
+};
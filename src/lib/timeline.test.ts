@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { LayerTiming } from "@/lib/scene";
+import { TimingHandle, dragTiming } from "@/lib/timeline";
+
+const DURATION = 10;
+const FRAME_RATE = 10;
+
+const drag = (timing: LayerTiming, handle: TimingHandle, delta: number) =>
+  dragTiming(timing, handle, delta, DURATION, FRAME_RATE);
+
+describe("dragTiming", () => {
+  it("moves a layer by whole frames, keeping its length", () => {
+    assert.deepEqual(drag({ start: 1, end: 4 }, "move", 2.04), {
+      start: 3,
+      end: 6,
+    });
+    assert.deepEqual(drag({ start: 1, end: 4 }, "move", -5), {
+      start: 0,
+      end: 3,
+    });
+  });
+
+  it("stops a moved layer at the end, which it then follows", () => {
+    assert.deepEqual(drag({ start: 1, end: 4 }, "move", 20), {
+      start: 7,
+      end: null,
+    });
+  });
+
+  it("keeps a layer shown until the end open unless it moves", () => {
+    assert.deepEqual(drag({ start: 2, end: null }, "move", 1), {
+      start: 2,
+      end: null,
+    });
+    assert.deepEqual(drag({ start: 2, end: null }, "move", -1.02), {
+      start: 1,
+      end: 9,
+    });
+  });
+
+  it("keeps at least one frame between the handles", () => {
+    assert.deepEqual(drag({ start: 1, end: 4 }, "start", 10), {
+      start: 3.9,
+      end: 4,
+    });
+    assert.deepEqual(drag({ start: 1, end: 4 }, "end", -10), {
+      start: 1,
+      end: 1.1,
+    });
+  });
+
+  it("clamps the handles to the video", () => {
+    assert.deepEqual(drag({ start: 1, end: 4 }, "start", -3), {
+      start: 0,
+      end: 4,
+    });
+    assert.deepEqual(drag({ start: 12, end: null }, "start", -1), {
+      start: 9,
+      end: null,
+    });
+  });
+
+  it("turns an end dragged onto the last frame into the end", () => {
+    assert.deepEqual(drag({ start: 1, end: 4 }, "end", 5.5), {
+      start: 1,
+      end: 9.5,
+    });
+    assert.deepEqual(drag({ start: 1, end: 4 }, "end", 5.96), {
+      start: 1,
+      end: null,
+    });
+    assert.deepEqual(drag({ start: 1, end: null }, "end", -2), {
+      start: 1,
+      end: 8,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import type { LayerTiming } from "@/lib/scene";
+
+/** Zoom steps, as multiples of the zoom that fits the whole sequence. */
+export const TIMELINE_ZOOM_LEVELS = [1, 2, 4, 8, 16, 32];
+
+/** Narrowest gap between two labelled ruler ticks, in pixels. */
+const MIN_TICK_SPACING = 64;
+
+const RULER_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300];
+
+export const snapToFrame = (time: number, frameRate: number) =>
+  Math.round(time * frameRate) / frameRate;
+
+/** Moves `frames` frames from `time`, staying inside the sequence. */
+export const stepFrames = (
+  time: number,
+  frames: number,
+  frameRate: number,
+  duration: number,
+) =>
+  Math.min(
+    Math.max(snapToFrame(time, frameRate) + frames / frameRate, 0),
+    duration,
+  );
+
+/**
+ * Seconds between labelled ruler ticks at `pixelsPerSecond`; zoomed far
+ * enough in, every frame gets a tick.
+ */
+export const chooseRulerStep = (pixelsPerSecond: number, frameRate: number) =>
+  [1 / frameRate, ...RULER_STEPS].find(
+    (step) => step * pixelsPerSecond >= MIN_TICK_SPACING,
+  ) ?? RULER_STEPS[RULER_STEPS.length - 1];
+
+/** Where a layer shows on a timeline of `duration` seconds. */
+export const resolveLayerSpan = (timing: LayerTiming, duration: number) => {
+  const start = Math.min(timing.start, duration);
+  return {
+    start,
+    end: Math.max(start, Math.min(timing.end ?? duration, duration)),
+  };
+};
+
+/** Which part of a layer's bar is being dragged. */
+export type TimingHandle = "move" | "start" | "end";
+
+/**
+ * Timing after dragging `handle` by `delta` seconds, snapped to frames and
+ * kept at least one frame long. An end dragged onto the end of the video
+ * becomes "until the end" again, so the layer follows later trims.
+ */
+export const dragTiming = (
+  timing: LayerTiming,
+  handle: TimingHandle,
+  delta: number,
+  duration: number,
+  frameRate: number,
+): LayerTiming => {
+  const span = resolveLayerSpan(timing, duration);
+  const frame = 1 / frameRate;
+  const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(snapToFrame(value, frameRate), min), max);
+  const toEnd = (end: number) => (end >= duration - frame / 2 ? null : end);
+
+  switch (handle) {
+    case "move": {
+      const length = span.end - span.start;
+      const start = clamp(span.start + delta, 0, duration - length);
+      return {
+        start,
+        end:
+          timing.end === null && start === span.start
+            ? null
+            : toEnd(start + length),
+      };
+    }
+    case "start":
+      return {
+        ...timing,
+        start: clamp(span.start + delta, 0, Math.max(0, span.end - frame)),
+      };
+    case "end":
+      return {
+        ...timing,
+        end: toEnd(clamp(span.end + delta, span.start + frame, duration)),
+      };
+  }
+};
@@ -0,0 +1,111 @@
+import { createAppError } from "@/lib/errors";
+
+export const ensureMetadata = (video: HTMLVideoElement) =>
+  new Promise<void>((resolve, reject) => {
+    if (video.readyState >= 1) {
+      resolve();
+      return;
+    }
+
+    const handleLoaded = () => {
+      cleanup();
+      resolve();
+    };
+
+    const handleError = () => {
+      cleanup();
+      reject(createAppError("videoMetadata"));
+    };
+
+    const cleanup = () => {
+      video.removeEventListener("loadedmetadata", handleLoaded);
+      video.removeEventListener("error", handleError);
+    };
+
+    video.addEventListener("loadedmetadata", handleLoaded);
+    video.addEventListener("error", handleError);
+  });
+
+/** How long `resolveDuration` waits for the browser to find the end. */
+const DURATION_TIMEOUT_MS = 10_000;
+
+/**
+ * The video's length in seconds, or `null` when it cannot be found. Files
+ * whose headers leave it out, such as MediaRecorder WebMs, report
+ * `Infinity` until the browser has looked at their end, so this seeks far
+ * past it once.
+ */
+export const resolveDuration = (video: HTMLVideoElement) =>
+  new Promise<number | null>((resolve) => {
+    const read = () =>
+      Number.isFinite(video.duration) && video.duration > 0
+        ? video.duration
+        : null;
+    if (read() !== null || video.readyState < 1) {
+      resolve(read());
+      return;
+    }
+
+    const handleChange = () => {
+      if (read() !== null) {
+        finish();
+      }
+    };
+
+    const finish = () => {
+      window.clearTimeout(timer);
+      video.removeEventListener("durationchange", handleChange);
+      video.removeEventListener("seeked", finish);
+      video.removeEventListener("error", finish);
+      resolve(read());
+    };
+
+    const timer = window.setTimeout(finish, DURATION_TIMEOUT_MS);
+    video.addEventListener("durationchange", handleChange);
+    video.addEventListener("seeked", finish);
+    video.addEventListener("error", finish);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  });
+
+/** Seeks and waits until the frame at `time` can be drawn. */
+export const seekTo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    if (video.currentTime === time && video.readyState >= 2 && !video.seeking) {
+      resolve();
+      return;
+    }
+
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+
+    const handleError = () => {
+      cleanup();
+      reject(createAppError("videoSeek"));
+    };
+
+    const cleanup = () => {
+      video.removeEventListener("seeked", handleSeeked);
+      video.removeEventListener("error", handleError);
+    };
+
+    video.addEventListener("seeked", handleSeeked);
+    video.addEventListener("error", handleError);
+    video.currentTime = time;
+  });
+
+/** Detached, muted element the exporters decode frames from. */
+export const createOffscreenVideo = () => {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  return video;
+};
+
+export const releaseVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  video.removeAttribute("src");
+  video.load();
+};
@@ -0,0 +1,38 @@
+import { createAppError } from "@/lib/errors";
+import { ImageLayer, createLayerId } from "@/lib/scene";
+
+const STORAGE_KEY = "promo-studio:watermark";
+
+/** The watermark saved by an earlier session, with a fresh layer id. */
+export const loadSavedWatermark = (): ImageLayer | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+    const layer = JSON.parse(raw) as ImageLayer;
+    if (layer.kind !== "image" || typeof layer.src !== "string") {
+      return null;
+    }
+    return { ...layer, id: createLayerId(), watermark: true };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remembers the watermark for the next session, or forgets it for `null`.
+ * Throws when the image is too large for local storage.
+ */
+export const saveWatermark = (layer: ImageLayer | null) => {
+  if (!layer) {
+    window.localStorage.removeItem(STORAGE_KEY);
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(layer));
+  } catch {
+    throw createAppError("watermarkFull");
+  }
+};